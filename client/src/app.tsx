@@ -10,7 +10,10 @@ import { PageLoader } from './components/ui/page-loader';
 const SettingsPage = lazy(() => import('@/pages/settings'));
 const LoginPage = lazy(() => import('@/pages/login'));
 const AccountPage = lazy(() => import('@/pages/account'));
+const WatchlistPage = lazy(() => import('@/pages/watchlist'));
 const TorrentsPage = lazy(() => import('@/pages/torrents'));
+const NcoreAccountsPage = lazy(() => import('@/pages/ncore-accounts'));
+const StreamRankingPage = lazy(() => import('@/pages/stream-ranking'));
 const SetupPage = lazy(() => import('@/pages/setup'));
 
 export const App = () => {
@@ -40,6 +43,11 @@ export const App = () => {
             <AccountPage />
           </Suspense>
         </Route>
+        <Route path={ROUTES.WATCHLIST}>
+          <Suspense fallback={<PageLoader />}>
+            <WatchlistPage />
+          </Suspense>
+        </Route>
         <Route path={ROUTES.SETTINGS}>
           <Suspense fallback={<PageLoader />}>
             <SettingsPage />
@@ -50,6 +58,16 @@ export const App = () => {
             <TorrentsPage />
           </Suspense>
         </Route>
+        <Route path={ROUTES.NCORE_ACCOUNTS}>
+          <Suspense fallback={<PageLoader />}>
+            <NcoreAccountsPage />
+          </Suspense>
+        </Route>
+        <Route path={ROUTES.STREAM_RANKING}>
+          <Suspense fallback={<PageLoader />}>
+            <StreamRankingPage />
+          </Suspense>
+        </Route>
         <Route path="*">
           {me ? <Redirect to={ROUTES.ACCOUNT} /> : <Redirect to={ROUTES.LOGIN} />}
         </Route>
@@ -66,6 +66,11 @@ export const Navbar = () => {
                   My account
                 </Link>
               </li>
+              <li>
+                <Link onClick={closeNavbar} to={ROUTES.WATCHLIST}>
+                  Watchlist
+                </Link>
+              </li>
               {isAdmin && (
                 <li>
                   <Link onClick={closeNavbar} to={ROUTES.SETTINGS}>
@@ -80,6 +85,20 @@ export const Navbar = () => {
                   </Link>
                 </li>
               )}
+              {isAdmin && (
+                <li>
+                  <Link onClick={closeNavbar} to={ROUTES.NCORE_ACCOUNTS}>
+                    nCore accounts
+                  </Link>
+                </li>
+              )}
+              {isAdmin && (
+                <li>
+                  <Link onClick={closeNavbar} to={ROUTES.STREAM_RANKING}>
+                    Stream ranking
+                  </Link>
+                </li>
+              )}
             </ul>
           </div>
         </div>
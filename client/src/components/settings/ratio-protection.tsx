@@ -0,0 +1,86 @@
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { useFormContext } from 'react-hook-form';
+import {
+  CreateConfigRequest,
+  RatioProtection as RatioProtectionValues,
+  UpdateConfigRequest,
+} from '@server/schemas/config.schema';
+
+type FormType = UpdateConfigRequest | CreateConfigRequest;
+
+const limitFields: {
+  name: keyof RatioProtectionValues;
+  label: string;
+  description: string;
+  step: string;
+}[] = [
+  {
+    name: 'minRatio',
+    label: 'Minimum ratio',
+    description: 'New torrents are not downloaded while the ratio of nCore is lower.',
+    step: '0.01',
+  },
+  {
+    name: 'maxOpenHitnruns',
+    label: "Maximum open hit'n'runs",
+    description:
+      "New torrents are not downloaded while nCore has this many hit'n'runs that still have to be seeded.",
+    step: '1',
+  },
+  {
+    name: 'maxDownloadingTorrents',
+    label: 'Maximum downloading torrents',
+    description: 'New torrents are not downloaded while this many are downloading.',
+    step: '1',
+  },
+];
+
+export const RatioProtection = () => {
+  const { control } = useFormContext<FormType>();
+  return (
+    <>
+      <p className="text-sm text-muted-foreground">
+        Leave a field empty for no limit. Downloaded and freeleech torrents can always be
+        played.
+      </p>
+      {limitFields.map(({ name, label, description, step }) => (
+        <FormField
+          key={name}
+          control={control}
+          name={`ratioProtection.${name}`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{label}</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min={0}
+                  step={step}
+                  name={field.name}
+                  ref={field.ref}
+                  onBlur={field.onBlur}
+                  value={field.value ?? ''}
+                  onChange={(event) =>
+                    field.onChange(
+                      event.target.value === '' ? null : Number(event.target.value),
+                    )
+                  }
+                />
+              </FormControl>
+              <FormMessage />
+              <FormDescription>{description}</FormDescription>
+            </FormItem>
+          )}
+        />
+      ))}
+    </>
+  );
+};
@@ -8,6 +8,7 @@ import {
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { DeleteAfterHitnrun } from './delete-after-hitnrun';
+import { RatioProtection } from './ratio-protection';
 import { useFormContext } from 'react-hook-form';
 import { CreateConfigRequest, UpdateConfigRequest } from '@server/schemas/config.schema';
 
@@ -37,6 +38,11 @@ export const SettingsFormFields = () => {
           <h3 className="text-lg font-semibold">Delete after hit'n'run</h3>
           <DeleteAfterHitnrun />
         </div>
+
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold">Ratio protection</h3>
+          <RatioProtection />
+        </div>
       </div>
     </>
   );
@@ -0,0 +1,76 @@
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { TitleAlias } from '@server/db/schema/title-aliases';
+import { Button } from '@/components/ui/button';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/api';
+import { toast } from 'sonner';
+import { MutationKeys } from '@/constants/mutation-keys';
+import { FullScreenLoader } from '@/components/ui/full-screen-loader';
+import { QueryKeys } from '@/constants/query-keys';
+import { handleError, HttpError } from '@/lib/errors';
+
+interface DeleteTitleAliasModalProps {
+  alias: TitleAlias;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const DeleteTitleAliasModal = ({
+  open,
+  onOpenChange,
+  alias,
+}: DeleteTitleAliasModalProps) => {
+  const queryClient = useQueryClient();
+  const { mutateAsync, isPending } = useMutation({
+    mutationFn: async () => {
+      const req = await api['title-aliases'][':aliasId'].$delete({
+        param: { aliasId: `${alias.id}` },
+      });
+      onOpenChange(false);
+      if (!req.ok) {
+        throw new HttpError(req);
+      }
+      return await req.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QueryKeys.TITLE_ALIASES] });
+      toast.success('Title alias deleted successfully');
+    },
+    onError: (e) => handleError(e, 'Failed to delete title alias'),
+    mutationKey: [MutationKeys.DELETE_TITLE_ALIAS, alias.id],
+  });
+
+  return (
+    <>
+      {isPending && <FullScreenLoader />}
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="font-bold">Delete Title Alias</DialogTitle>
+          </DialogHeader>
+          <p>
+            Do you want to delete the alias <strong>{alias.title}</strong> of{' '}
+            <strong>{alias.imdbId}</strong>?
+          </p>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="secondary" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+            </DialogClose>
+            <Button variant="destructive" onClick={() => mutateAsync()}>
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,2 @@
+export { TitleAliasActions } from './title-alias-actions';
+export { TitleAliasModal } from './title-alias-modal';
@@ -0,0 +1,58 @@
+import type { TitleAlias } from '@server/db/schema/title-aliases';
+import { useState } from 'react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { EllipsisIcon, PencilIcon, Trash2Icon } from 'lucide-react';
+import { TitleAliasModal } from './title-alias-modal';
+import { DeleteTitleAliasModal } from './delete-title-alias-modal';
+
+enum OpenedModal {
+  None,
+  Edit,
+  Delete,
+}
+
+export const TitleAliasActions = ({ alias }: { alias: TitleAlias }) => {
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [openedModal, setOpenedModal] = useState<OpenedModal>(OpenedModal.None);
+  const handleOnOpenChange = (isOpen: boolean) => {
+    setIsMenuOpen(false);
+    if (!isOpen) {
+      setOpenedModal(OpenedModal.None);
+    }
+  };
+
+  return (
+    <>
+      <TitleAliasModal
+        alias={alias}
+        open={openedModal === OpenedModal.Edit}
+        onOpenChange={handleOnOpenChange}
+      />
+      <DeleteTitleAliasModal
+        alias={alias}
+        open={openedModal === OpenedModal.Delete}
+        onOpenChange={handleOnOpenChange}
+      />
+      <DropdownMenu open={isMenuOpen} onOpenChange={setIsMenuOpen} modal={false}>
+        <DropdownMenuTrigger>
+          <EllipsisIcon className="size-5" />
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          <DropdownMenuItem onClick={() => setOpenedModal(OpenedModal.Edit)}>
+            <PencilIcon />
+            Edit
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setOpenedModal(OpenedModal.Delete)}>
+            <Trash2Icon />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </>
+  );
+};
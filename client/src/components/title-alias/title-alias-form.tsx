@@ -0,0 +1,123 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  titleAliasSchema,
+  type TitleAliasRequest,
+} from '@server/schemas/title-alias.schema';
+import type { TitleAlias } from '@server/db/schema/title-aliases';
+import { FormProvider, useForm } from 'react-hook-form';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { DialogClose, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { api } from '@/api';
+import { MutationKeys } from '@/constants/mutation-keys';
+import { QueryKeys } from '@/constants/query-keys';
+import { handleError, HttpError } from '@/lib/errors';
+
+interface TitleAliasFormProps {
+  /** The alias that is edited. A new alias is created if it's not set. */
+  alias?: TitleAlias;
+  closeModal: () => void;
+}
+
+export const TitleAliasForm = ({ alias, closeModal }: TitleAliasFormProps) => {
+  const queryClient = useQueryClient();
+  const form = useForm<TitleAliasRequest>({
+    resolver: zodResolver(titleAliasSchema),
+    mode: 'onChange',
+    defaultValues: { imdbId: alias?.imdbId ?? '', title: alias?.title ?? '' },
+  });
+
+  const { mutateAsync } = useMutation({
+    mutationKey: [
+      alias ? MutationKeys.UPDATE_TITLE_ALIAS : MutationKeys.CREATE_TITLE_ALIAS,
+      alias?.id,
+    ],
+    mutationFn: async (data: TitleAliasRequest) => {
+      const req = alias
+        ? await api['title-aliases'][':aliasId'].$put({
+            json: data,
+            param: { aliasId: `${alias.id}` },
+          })
+        : await api['title-aliases'].$post({ json: data });
+      if (!req.ok) {
+        throw new HttpError(req);
+      }
+      return await req.json();
+    },
+    onError: (e) =>
+      handleError(
+        e,
+        alias ? 'Failed to update title alias' : 'Failed to add title alias',
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QueryKeys.TITLE_ALIASES] });
+      toast.success(
+        alias ? 'Title alias updated successfully' : 'Title alias added successfully',
+      );
+    },
+  });
+
+  const onSubmit = form.handleSubmit(async (data) => {
+    await mutateAsync(data);
+    closeModal();
+  });
+
+  return (
+    <FormProvider {...form}>
+      <form className="space-y-8" onSubmit={onSubmit}>
+        <FormField
+          control={form.control}
+          name="imdbId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>IMDb ID</FormLabel>
+              <FormControl>
+                <Input placeholder="tt0133093" {...field} />
+              </FormControl>
+              <FormDescription>
+                The ID in the IMDb URL of the movie or show.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="title"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Title</FormLabel>
+              <FormControl>
+                <Input placeholder="Mátrix" {...field} />
+              </FormControl>
+              <FormDescription>
+                The title that the releases are named with, e.g. the Hungarian title.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="secondary">
+              Cancel
+            </Button>
+          </DialogClose>
+          <Button type="submit" disabled={form.formState.isSubmitting}>
+            Save
+          </Button>
+        </DialogFooter>
+      </form>
+    </FormProvider>
+  );
+};
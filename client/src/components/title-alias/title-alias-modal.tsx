@@ -0,0 +1,24 @@
+import type { TitleAlias } from '@server/db/schema/title-aliases';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { TitleAliasForm } from './title-alias-form';
+
+interface TitleAliasModalProps {
+  alias?: TitleAlias;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const TitleAliasModal = ({ alias, open, onOpenChange }: TitleAliasModalProps) => {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="font-bold">
+            {alias ? 'Edit Title Alias' : 'Add Title Alias'}
+          </DialogTitle>
+        </DialogHeader>
+        <TitleAliasForm alias={alias} closeModal={() => onOpenChange(false)} />
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,90 @@
+import { api } from '@/api';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { QueryKeys } from '@/constants/query-keys';
+import { HttpError } from '@/lib/errors';
+import { cn } from '@/lib/utils';
+import {
+  TorrentSourceHealthStatus,
+  type TorrentSourceHealth as Health,
+} from '@server/types/torrent-source';
+import { useQuery } from '@tanstack/react-query';
+
+const statusLabelLookup: Record<TorrentSourceHealthStatus, string> = {
+  [TorrentSourceHealthStatus.UNKNOWN]: 'Not used yet',
+  [TorrentSourceHealthStatus.HEALTHY]: 'Healthy',
+  [TorrentSourceHealthStatus.FAILING]: 'Failing',
+  [TorrentSourceHealthStatus.CIRCUIT_OPEN]: 'Skipped',
+};
+
+const statusClassNameLookup: Record<TorrentSourceHealthStatus, string> = {
+  [TorrentSourceHealthStatus.UNKNOWN]: 'text-slate-500',
+  [TorrentSourceHealthStatus.HEALTHY]: 'text-green-600',
+  [TorrentSourceHealthStatus.FAILING]: 'text-orange-500',
+  [TorrentSourceHealthStatus.CIRCUIT_OPEN]: 'text-red-500',
+};
+
+const formatDate = (date: string) => new Date(date).toLocaleString();
+
+const SourceHealth = ({ health }: { health: Health }) => (
+  <li className="space-y-1">
+    <div className="flex items-center justify-between gap-4">
+      <p className="font-bold">{health.sourceName}</p>
+      <p className={cn('font-semibold', statusClassNameLookup[health.status])}>
+        {statusLabelLookup[health.status]}
+      </p>
+    </div>
+    {health.averageLatencyMs !== null && (
+      <p>Average response time: {health.averageLatencyMs} ms</p>
+    )}
+    {health.lastSuccessAt && <p>Last success: {formatDate(health.lastSuccessAt)}</p>}
+    {health.circuitOpenUntil && (
+      <p>
+        Skipped until {formatDate(health.circuitOpenUntil)} after{' '}
+        {health.consecutiveFailures} failures in a row.
+      </p>
+    )}
+    {health.lastError && (
+      <p className="break-words">
+        Last error ({formatDate(health.lastError.at)}): {health.lastError.message}
+      </p>
+    )}
+  </li>
+);
+
+/** The live health of the torrent sources, only available for admins. */
+export const TorrentSourceHealth = () => {
+  const { data, status, error } = useQuery({
+    queryKey: [QueryKeys.TORRENT_SOURCE_HEALTH],
+    queryFn: async () => {
+      const req = await api.config['torrent-sources'].health.$get();
+      if (!req.ok) {
+        throw new HttpError(req);
+      }
+      return await req.json();
+    },
+    refetchInterval: 10_000,
+  });
+
+  if (status === 'pending') {
+    return null;
+  }
+
+  return (
+    <Card className="w-full max-w-xl">
+      <CardHeader>
+        <CardTitle>Torrent source health</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {status === 'error' ? (
+          <p>Failed to load the health of the torrent sources: {error.message}</p>
+        ) : (
+          <ul className="space-y-4">
+            {data.map((health) => (
+              <SourceHealth key={health.id} health={health} />
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,10 +1,14 @@
 import { api } from '@/api';
 import { Card } from '@/components/ui/card';
 import { QueryKeys } from '@/constants/query-keys';
+import { useMe } from '@/hooks/use-me';
 import { useQuery } from '@tanstack/react-query';
+import { UserRole } from '@server/db/schema/users';
 import { Alert } from '../ui/alert';
+import { TorrentSourceHealth } from './torrent-source-health';
 
 export const TorrentSourceIssues = () => {
+  const { data: me } = useMe();
   const { data, status, error, refetch } = useQuery({
     queryKey: [QueryKeys.TORRENT_SOURCE_ISSUES],
     retry: 0,
@@ -28,16 +32,19 @@ export const TorrentSourceIssues = () => {
       );
     case 'success':
       return (
-        <ul className="space-y-4">
-          {data.map((issue) => (
-            <Alert
-              key={issue.id}
-              variant="error"
-              title={issue.sourceName}
-              description={issue.message}
-            />
-          ))}
-        </ul>
+        <>
+          <ul className="space-y-4">
+            {data.map((issue) => (
+              <Alert
+                key={issue.id}
+                variant="error"
+                title={issue.sourceName}
+                description={issue.message}
+              />
+            ))}
+          </ul>
+          {me?.role === UserRole.ADMIN && <TorrentSourceHealth />}
+        </>
       );
     case 'pending':
     default:
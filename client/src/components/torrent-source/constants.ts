@@ -0,0 +1,34 @@
+import {
+  TorrentSourceType,
+  torrentSourceTypeValues,
+} from '@server/db/schema/torrent-sources';
+import type { CreateTorrentSourceRequest } from '@server/schemas/torrent-source.schema';
+
+export { torrentSourceTypeValues };
+
+export const torrentSourceTypeLabelLookup: Record<TorrentSourceType, string> = {
+  ncore: 'nCore',
+  torznab: 'Torznab (Jackett, Prowlarr)',
+};
+
+export const getDefaultTorrentSourceValues = (
+  type: TorrentSourceType,
+): CreateTorrentSourceRequest => {
+  switch (type) {
+    case TorrentSourceType.NCORE:
+      return {
+        type,
+        displayName: 'nCore',
+        url: 'https://ncore.pro',
+        username: '',
+        password: '',
+      };
+    case TorrentSourceType.TORZNAB:
+      return {
+        type,
+        displayName: 'Torznab',
+        url: '',
+        apiKey: '',
+      };
+  }
+};
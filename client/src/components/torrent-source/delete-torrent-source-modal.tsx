@@ -0,0 +1,79 @@
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { TorrentSourceResponse } from '@server/types/torrent-source';
+import { Button } from '@/components/ui/button';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/api';
+import { toast } from 'sonner';
+import { MutationKeys } from '@/constants/mutation-keys';
+import { FullScreenLoader } from '@/components/ui/full-screen-loader';
+import { QueryKeys } from '@/constants/query-keys';
+import { handleError, HttpError } from '@/lib/errors';
+
+interface DeleteTorrentSourceModalProps {
+  source: TorrentSourceResponse;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const DeleteTorrentSourceModal = ({
+  open,
+  onOpenChange,
+  source,
+}: DeleteTorrentSourceModalProps) => {
+  const queryClient = useQueryClient();
+  const { mutateAsync, isPending } = useMutation({
+    mutationFn: async () => {
+      const req = await api.config['torrent-sources'][':sourceId'].$delete({
+        param: { sourceId: `${source.id}` },
+      });
+      onOpenChange(false);
+      if (!req.ok) {
+        throw new HttpError(req);
+      }
+      return await req.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QueryKeys.TORRENT_SOURCES] });
+      queryClient.invalidateQueries({ queryKey: [QueryKeys.TORRENT_SOURCE_ISSUES] });
+      toast.success('Torrent source deleted successfully');
+    },
+    onError: (e) => handleError(e, 'Failed to delete torrent source'),
+    mutationKey: [MutationKeys.DELETE_TORRENT_SOURCE, source.id],
+  });
+
+  return (
+    <>
+      {isPending && <FullScreenLoader />}
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="font-bold">
+              Delete Torrent Source {source.displayName}
+            </DialogTitle>
+          </DialogHeader>
+          <p>
+            Do you want to delete the torrent source <strong>{source.displayName}</strong>
+            ? Torrents that are already downloaded are kept.
+          </p>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="secondary" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+            </DialogClose>
+            <Button variant="destructive" onClick={() => mutateAsync()}>
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,5 @@
+export { TorrentSourceActions } from './torrent-source-actions';
+export { TorrentSourceFields } from './torrent-source-fields';
+export { TorrentSourceModal } from './torrent-source-modal';
+export { TestTorrentSource } from './test-torrent-source';
+export { getDefaultTorrentSourceValues, torrentSourceTypeLabelLookup } from './constants';
@@ -0,0 +1,55 @@
+import { api } from '@/api';
+import { Alert } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { MutationKeys } from '@/constants/mutation-keys';
+import { handleError, HttpError } from '@/lib/errors';
+import type { CreateTorrentSourceRequest } from '@server/schemas/torrent-source.schema';
+import { useMutation } from '@tanstack/react-query';
+import { useFormContext } from 'react-hook-form';
+
+type TestTorrentSourceProps = {
+  baseName: 'source' | `torrentSources.${number}`;
+};
+
+/** Checks the credentials that are in the form, before they are saved. */
+export const TestTorrentSource = ({ baseName }: TestTorrentSourceProps) => {
+  const { trigger, getValues } = useFormContext<{
+    [K in typeof baseName]: CreateTorrentSourceRequest;
+  }>();
+  const { mutate, data, isPending } = useMutation({
+    mutationKey: [MutationKeys.TEST_TORRENT_SOURCE, baseName],
+    mutationFn: async (source: CreateTorrentSourceRequest) => {
+      const req = await api.config['torrent-sources'].test.$post({ json: source });
+      if (!req.ok) {
+        throw new HttpError(req);
+      }
+      return await req.json();
+    },
+    onError: (e) => handleError(e, 'Failed to test the torrent source'),
+  });
+
+  const onTest = async () => {
+    const isValid = await trigger(baseName);
+    if (isValid) {
+      mutate(getValues(baseName));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Button type="button" variant="outline" onClick={onTest} disabled={isPending}>
+        {isPending ? 'Testing...' : 'Test connection'}
+      </Button>
+      {data &&
+        (data.issue ? (
+          <Alert variant="error" title="Connection failed" description={data.issue} />
+        ) : (
+          <Alert
+            variant="success"
+            title="Connection successful"
+            description="The torrent source can be used with these credentials."
+          />
+        ))}
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import type { TorrentSourceResponse } from '@server/types/torrent-source';
+import { useState } from 'react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { EllipsisIcon, PencilIcon, PlugZapIcon, Trash2Icon } from 'lucide-react';
+import { useMutation } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { api } from '@/api';
+import { MutationKeys } from '@/constants/mutation-keys';
+import { handleError, HttpError } from '@/lib/errors';
+import { TorrentSourceModal } from './torrent-source-modal';
+import { DeleteTorrentSourceModal } from './delete-torrent-source-modal';
+
+enum OpenedModal {
+  None,
+  Edit,
+  Delete,
+}
+
+interface TorrentSourceActionsProps {
+  source: TorrentSourceResponse;
+}
+
+export const TorrentSourceActions = ({ source }: TorrentSourceActionsProps) => {
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [openedModal, setOpenedModal] = useState<OpenedModal>(OpenedModal.None);
+  const handleOnOpenChange = (isOpen: boolean) => {
+    setIsMenuOpen(false);
+    if (!isOpen) {
+      setOpenedModal(OpenedModal.None);
+    }
+  };
+
+  const { mutate: testSource } = useMutation({
+    mutationKey: [MutationKeys.TEST_TORRENT_SOURCE, source.id],
+    mutationFn: async () => {
+      const req = await api.config['torrent-sources'][':sourceId'].test.$post({
+        param: { sourceId: `${source.id}` },
+      });
+      if (!req.ok) {
+        throw new HttpError(req);
+      }
+      return await req.json();
+    },
+    onError: (e) => handleError(e, 'Failed to test the torrent source'),
+    onSuccess: ({ issue }) => {
+      if (issue) {
+        toast.error(`${source.displayName} is not working`, { description: issue });
+      } else {
+        toast.success(`${source.displayName} is working`);
+      }
+    },
+  });
+
+  return (
+    <>
+      <TorrentSourceModal
+        source={source}
+        open={openedModal === OpenedModal.Edit}
+        onOpenChange={handleOnOpenChange}
+      />
+      <DeleteTorrentSourceModal
+        source={source}
+        open={openedModal === OpenedModal.Delete}
+        onOpenChange={handleOnOpenChange}
+      />
+      <DropdownMenu open={isMenuOpen} onOpenChange={setIsMenuOpen} modal={false}>
+        <DropdownMenuTrigger>
+          <EllipsisIcon className="size-5" />
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          <DropdownMenuItem onClick={() => setOpenedModal(OpenedModal.Edit)}>
+            <PencilIcon />
+            Edit
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => testSource()}>
+            <PlugZapIcon />
+            Test connection
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setOpenedModal(OpenedModal.Delete)}>
+            <Trash2Icon />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </>
+  );
+};
@@ -0,0 +1,150 @@
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { useFormContext, useWatch } from 'react-hook-form';
+import { TorrentSourceType } from '@server/db/schema/torrent-sources';
+import type { CreateTorrentSourceRequest } from '@server/schemas/torrent-source.schema';
+import {
+  getDefaultTorrentSourceValues,
+  torrentSourceTypeLabelLookup,
+  torrentSourceTypeValues,
+} from './constants';
+
+type TorrentSourceFieldsProps = {
+  baseName: 'source' | `torrentSources.${number}`;
+  /** When editing, the saved secrets are kept if the secret fields are left empty. */
+  isEditing?: boolean;
+};
+
+export const TorrentSourceFields = ({
+  baseName,
+  isEditing = false,
+}: TorrentSourceFieldsProps) => {
+  const { control, setValue } = useFormContext<{
+    [K in typeof baseName]: CreateTorrentSourceRequest;
+  }>();
+  const type = useWatch({ control, name: `${baseName}.type` });
+  const secretPlaceholder = isEditing ? 'Leave empty to keep the saved value' : '';
+
+  return (
+    <div className="grid grid-cols-2 gap-x-4 gap-y-8 justify-stretch w-full">
+      <FormField
+        control={control}
+        name={`${baseName}.type`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Type</FormLabel>
+            <Select
+              onChange={(value) =>
+                setValue(baseName, getDefaultTorrentSourceValues(value), {
+                  shouldDirty: true,
+                  shouldValidate: true,
+                })
+              }
+              onBlur={field.onBlur}
+              value={field.value}
+              options={torrentSourceTypeValues.map((sourceType) => ({
+                label: torrentSourceTypeLabelLookup[sourceType],
+                value: sourceType,
+              }))}
+            />
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={control}
+        name={`${baseName}.displayName`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Name</FormLabel>
+            <FormControl>
+              <Input {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={control}
+        name={`${baseName}.url`}
+        render={({ field }) => (
+          <FormItem className="col-span-2">
+            <FormLabel>URL</FormLabel>
+            <FormControl>
+              <Input {...field} />
+            </FormControl>
+            <FormMessage />
+            {type === TorrentSourceType.TORZNAB && (
+              <FormDescription>
+                The full URL of the Torznab endpoint, e.g.
+                http://jackett:9117/api/v2.0/indexers/all/results/torznab/api
+              </FormDescription>
+            )}
+          </FormItem>
+        )}
+      />
+      {type === TorrentSourceType.NCORE ? (
+        <>
+          <FormField
+            control={control}
+            name={`${baseName}.username`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Username</FormLabel>
+                <FormControl>
+                  <Input {...field} autoComplete="off" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`${baseName}.password`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Password</FormLabel>
+                <FormControl>
+                  <Input
+                    type="password"
+                    {...field}
+                    placeholder={secretPlaceholder}
+                    autoComplete="off"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </>
+      ) : (
+        <FormField
+          control={control}
+          name={`${baseName}.apiKey`}
+          render={({ field }) => (
+            <FormItem className="col-span-2">
+              <FormLabel>API key</FormLabel>
+              <FormControl>
+                <Input
+                  type="password"
+                  {...field}
+                  placeholder={secretPlaceholder}
+                  autoComplete="off"
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  createTorrentSourceSchema,
+  updateTorrentSourceSchema,
+  type CreateTorrentSourceRequest,
+} from '@server/schemas/torrent-source.schema';
+import { TorrentSourceType } from '@server/db/schema/torrent-sources';
+import type { TorrentSourceResponse } from '@server/types/torrent-source';
+import { FormProvider, useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { DialogClose, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/api';
+import { toast } from 'sonner';
+import { MutationKeys } from '@/constants/mutation-keys';
+import { QueryKeys } from '@/constants/query-keys';
+import { handleError, HttpError } from '@/lib/errors';
+import { TorrentSourceFields } from './torrent-source-fields';
+import { TestTorrentSource } from './test-torrent-source';
+import { getDefaultTorrentSourceValues } from './constants';
+
+const createTorrentSourceFormSchema = z.object({
+  source: createTorrentSourceSchema,
+});
+
+const updateTorrentSourceFormSchema = z.object({
+  source: updateTorrentSourceSchema,
+});
+
+type TorrentSourceFormValues = { source: CreateTorrentSourceRequest };
+
+const getDefaultValues = (source?: TorrentSourceResponse): TorrentSourceFormValues => {
+  if (!source) {
+    return { source: getDefaultTorrentSourceValues(TorrentSourceType.NCORE) };
+  }
+  const { type, displayName, url } = source;
+  return {
+    source:
+      type === TorrentSourceType.NCORE
+        ? { type, displayName, url, username: source.username ?? '', password: '' }
+        : { type, displayName, url, apiKey: '' },
+  };
+};
+
+interface TorrentSourceFormProps {
+  /** The source that is edited. A new source is created if it's not set. */
+  source?: TorrentSourceResponse;
+  closeModal: () => void;
+}
+
+export const TorrentSourceForm = ({ source, closeModal }: TorrentSourceFormProps) => {
+  const queryClient = useQueryClient();
+  const form = useForm<TorrentSourceFormValues>({
+    resolver: zodResolver(
+      source ? updateTorrentSourceFormSchema : createTorrentSourceFormSchema,
+    ),
+    mode: 'onChange',
+    defaultValues: getDefaultValues(source),
+  });
+
+  const { mutateAsync } = useMutation({
+    mutationKey: [
+      source ? MutationKeys.UPDATE_TORRENT_SOURCE : MutationKeys.CREATE_TORRENT_SOURCE,
+      source?.id,
+    ],
+    mutationFn: async (data: TorrentSourceFormValues) => {
+      const req = source
+        ? await api.config['torrent-sources'][':sourceId'].$put({
+            json: data.source,
+            param: { sourceId: `${source.id}` },
+          })
+        : await api.config['torrent-sources'].$post({ json: data.source });
+      if (!req.ok) {
+        throw new HttpError(req);
+      }
+      return await req.json();
+    },
+    onError: (e) =>
+      handleError(
+        e,
+        source ? 'Failed to update torrent source' : 'Failed to create torrent source',
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QueryKeys.TORRENT_SOURCES] });
+      queryClient.invalidateQueries({ queryKey: [QueryKeys.TORRENT_SOURCE_ISSUES] });
+      toast.success(
+        source
+          ? 'Torrent source updated successfully'
+          : 'Torrent source created successfully',
+      );
+    },
+  });
+
+  const onSubmit = form.handleSubmit(async (data) => {
+    await mutateAsync(data);
+    closeModal();
+  });
+
+  return (
+    <FormProvider {...form}>
+      <form className="space-y-8" onSubmit={onSubmit}>
+        <TorrentSourceFields baseName="source" isEditing={!!source} />
+        {!source && <TestTorrentSource baseName="source" />}
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="secondary">
+              Cancel
+            </Button>
+          </DialogClose>
+          <Button type="submit" disabled={form.formState.isSubmitting}>
+            Save
+          </Button>
+        </DialogFooter>
+      </form>
+    </FormProvider>
+  );
+};
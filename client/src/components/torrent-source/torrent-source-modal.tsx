@@ -0,0 +1,28 @@
+import type { TorrentSourceResponse } from '@server/types/torrent-source';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { TorrentSourceForm } from './torrent-source-form';
+
+interface TorrentSourceModalProps {
+  source?: TorrentSourceResponse;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const TorrentSourceModal = ({
+  source,
+  open,
+  onOpenChange,
+}: TorrentSourceModalProps) => {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="font-bold">
+            {source ? 'Edit Torrent Source' : 'Add Torrent Source'}
+          </DialogTitle>
+        </DialogHeader>
+        <TorrentSourceForm source={source} closeModal={() => onOpenChange(false)} />
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -31,6 +31,9 @@ export const CreateUserForm = ({ closeModal }: { closeModal: () => void }) => {
         password: '',
         preferredLanguage: Language.EN,
         preferredResolutions: [],
+        excludedReleaseAttributes: [],
+        preferredReleaseAttributes: [],
+        showAllMovieFiles: false,
       },
     },
   });
@@ -5,5 +5,17 @@ export const MutationKeys = {
   DELETE_DEVICE_TOKEN: 'delete-device-token',
   CREATE_USER: 'create-user',
   UPDATE_USER: 'update-user',
+  UPDATE_RANKING_PROFILE: 'update-ranking-profile',
   DELETE_USER: 'delete-user',
+  CREATE_TORRENT_SOURCE: 'create-torrent-source',
+  UPDATE_TORRENT_SOURCE: 'update-torrent-source',
+  SET_TORRENT_SOURCE_ENABLED: 'set-torrent-source-enabled',
+  TEST_TORRENT_SOURCE: 'test-torrent-source',
+  DELETE_TORRENT_SOURCE: 'delete-torrent-source',
+  CREATE_TITLE_ALIAS: 'create-title-alias',
+  UPDATE_TITLE_ALIAS: 'update-title-alias',
+  DELETE_TITLE_ALIAS: 'delete-title-alias',
+  PURGE_TORRENT_METADATA: 'purge-torrent-metadata',
+  ADD_WATCHLIST_ITEM: 'add-watchlist-item',
+  REMOVE_WATCHLIST_ITEM: 'remove-watchlist-item',
 } as const;
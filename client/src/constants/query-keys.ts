@@ -2,6 +2,13 @@ export const QueryKeys = {
   ME: 'me',
   CONFIG: 'config',
   TORRENT_SOURCE_ISSUES: 'torrent-source-issues',
+  TORRENT_SOURCE_HEALTH: 'torrent-source-health',
+  NCORE_ACCOUNTS: 'ncore-accounts',
+  TORRENT_SOURCES: 'torrent-sources',
+  TITLE_ALIASES: 'title-aliases',
+  TORRENT_METADATA: 'torrent-metadata',
   DEVICE_TOKENS: 'device-tokens',
+  WATCHLIST: 'watchlist',
   USERS: 'users',
+  STREAM_RANKING: 'stream-ranking',
 } as const;
@@ -3,5 +3,8 @@ export const ROUTES = {
   SETTINGS: '/settings',
   LOGIN: '/login',
   ACCOUNT: '/account',
+  WATCHLIST: '/watchlist',
   TORRENTS: '/torrents',
+  NCORE_ACCOUNTS: '/ncore-accounts',
+  STREAM_RANKING: '/stream-ranking',
 } as const;
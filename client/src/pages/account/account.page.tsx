@@ -12,6 +12,7 @@ import { Separator } from '@radix-ui/react-separator';
 import { Redirect } from 'wouter';
 import { useMe } from '@/hooks/use-me';
 import { DeviceTokenList } from './components/device-token-list';
+import { RankingProfileForm } from './components/ranking-profile';
 import { UserActions } from '@/components/user';
 import { TorrentSourceIssues } from '@/components/torrent-source-issues';
 
@@ -72,6 +73,13 @@ export const AccountPage = () => {
             <p className="text-slate-500">Select or create a device to add to Stremio</p>
             <DeviceTokenList />
           </div>
+          <div className="col-span-full">
+            <h3 className="text-lg font-bold">Stream ranking</h3>
+            <p className="text-slate-500">
+              Choose how the streams of a title are filtered and ordered
+            </p>
+            <RankingProfileForm key={me.id} user={me} />
+          </div>
         </CardContent>
         <Separator decorative orientation="horizontal" className="mb-4 border" />
         <CardFooter className="flex items-center justify-end">
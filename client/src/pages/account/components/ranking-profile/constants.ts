@@ -0,0 +1,181 @@
+import { Language, ReleaseAttribute, Resolution } from '@server/db/schema/users';
+import {
+  rankingProfileSchema,
+  type RankingProfile,
+} from '@server/schemas/ranking-profile.schema';
+import type { RankableTorrent, RankingCriterion } from '@server/services/stream/ranking';
+import { z } from 'zod';
+
+const GB = 1024 ** 3;
+
+/** The release groups are edited as a single text, separated by commas or spaces. */
+export const rankingProfileFormSchema = rankingProfileSchema.extend({
+  allowedReleaseGroups: z.string(),
+  deniedReleaseGroups: z.string(),
+});
+
+export type RankingProfileFormValues = z.infer<typeof rankingProfileFormSchema>;
+
+const parseReleaseGroups = (value: string) => value.split(/[\s,]+/).filter(Boolean);
+
+export const toRankingProfileFormValues = (
+  profile: RankingProfile,
+): RankingProfileFormValues => ({
+  ...profile,
+  allowedReleaseGroups: profile.allowedReleaseGroups.join(', '),
+  deniedReleaseGroups: profile.deniedReleaseGroups.join(', '),
+});
+
+export const toRankingProfile = (values: RankingProfileFormValues): RankingProfile => ({
+  ...values,
+  allowedReleaseGroups: parseReleaseGroups(values.allowedReleaseGroups),
+  deniedReleaseGroups: parseReleaseGroups(values.deniedReleaseGroups),
+});
+
+export const rankingCriterionFields: {
+  name: RankingCriterion;
+  label: string;
+  description: string;
+}[] = [
+  {
+    name: 'language',
+    label: 'Language',
+    description: 'Releases in your preferred language.',
+  },
+  {
+    name: 'resolution',
+    label: 'Resolution',
+    description: 'Releases in one of your preferred resolutions.',
+  },
+  {
+    name: 'releaseAttributes',
+    label: 'Formats',
+    description: 'The share of your preferred formats in the release.',
+  },
+  {
+    name: 'seeders',
+    label: 'Seeders',
+    description: 'More seeders download faster, full points at 1000 seeders.',
+  },
+  {
+    name: 'size',
+    label: 'Size',
+    description: 'Releases in the preferred size range.',
+  },
+  {
+    name: 'releaseGroup',
+    label: 'Release group',
+    description: 'Added for the allowed groups, taken away for the denied ones.',
+  },
+  {
+    name: 'freeleech',
+    label: 'Freeleech',
+    description: "Freeleech torrents don't count against your ratio.",
+  },
+  {
+    name: 'speculated',
+    label: 'Speculated penalty',
+    description: 'Taken away from torrents that might be a different title.',
+  },
+];
+
+export const PREVIEW_TITLE = 'Dune: Part Two (2024)';
+
+/** Typical releases of a movie, ranked with the edited profile for the preview. */
+export const previewReleases: RankableTorrent[] = [
+  {
+    name: 'Dune.Part.Two.2024.2160p.UHD.BluRay.REMUX.DV.HDR10.HEVC.TrueHD.7.1.Atmos-FGT',
+    language: Language.EN,
+    resolution: Resolution.R2160P,
+    seeders: 48,
+    size: 71.4 * GB,
+    releaseAttributes: [
+      ReleaseAttribute.HDR10,
+      ReleaseAttribute.DOLBY_VISION,
+      ReleaseAttribute.HEVC,
+      ReleaseAttribute.REMUX,
+      ReleaseAttribute.ATMOS,
+      ReleaseAttribute.TRUEHD,
+    ],
+    isFreeleech: false,
+    isSpeculated: false,
+    isLocal: false,
+    releaseGroup: 'FGT',
+  },
+  {
+    name: 'Dune.Part.Two.2024.2160p.WEB-DL.DDP5.1.Atmos.HDR10.H.265.HUN-FULCRUM',
+    language: Language.HU,
+    resolution: Resolution.R2160P,
+    seeders: 312,
+    size: 18.2 * GB,
+    releaseAttributes: [
+      ReleaseAttribute.HDR10,
+      ReleaseAttribute.HEVC,
+      ReleaseAttribute.ATMOS,
+    ],
+    isFreeleech: false,
+    isSpeculated: false,
+    isLocal: false,
+    releaseGroup: 'FULCRUM',
+  },
+  {
+    name: 'Dune.Part.Two.2024.1080p.BluRay.DTS.x264.HUN-NIX',
+    language: Language.HU,
+    resolution: Resolution.R1080P,
+    seeders: 745,
+    size: 14.6 * GB,
+    releaseAttributes: [ReleaseAttribute.DTS],
+    isFreeleech: true,
+    isSpeculated: false,
+    isLocal: false,
+    releaseGroup: 'NIX',
+  },
+  {
+    name: 'Dune.Part.Two.2024.1080p.WEB-DL.DDP5.1.H.264-FLUX',
+    language: Language.EN,
+    resolution: Resolution.R1080P,
+    seeders: 1520,
+    size: 7.8 * GB,
+    releaseAttributes: [],
+    isFreeleech: false,
+    isSpeculated: false,
+    isLocal: false,
+    releaseGroup: 'FLUX',
+  },
+  {
+    name: 'Dune.Part.Two.2024.720p.WEB-DL.x264.HUN-Teko',
+    language: Language.HU,
+    resolution: Resolution.R720P,
+    seeders: 96,
+    size: 3.1 * GB,
+    releaseAttributes: [],
+    isFreeleech: false,
+    isSpeculated: false,
+    isLocal: false,
+    releaseGroup: 'Teko',
+  },
+  {
+    name: 'Dune.2021.1080p.BluRay.x265.HUN-GRiMM',
+    language: Language.HU,
+    resolution: Resolution.R1080P,
+    seeders: 403,
+    size: 6.4 * GB,
+    releaseAttributes: [ReleaseAttribute.HEVC],
+    isFreeleech: false,
+    isSpeculated: true,
+    isLocal: false,
+    releaseGroup: 'GRiMM',
+  },
+  {
+    name: 'Dune.Part.Two.2024.HDCAM.x264-CAMRiP',
+    language: Language.EN,
+    resolution: Resolution.R720P,
+    seeders: 4,
+    size: 1.4 * GB,
+    releaseAttributes: [],
+    isFreeleech: false,
+    isSpeculated: false,
+    isLocal: false,
+    releaseGroup: 'CAMRiP',
+  },
+];
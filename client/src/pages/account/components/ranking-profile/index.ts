@@ -0,0 +1 @@
+export { RankingProfileForm } from './ranking-profile-form';
@@ -0,0 +1,68 @@
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { RankingProfile } from '@server/schemas/ranking-profile.schema';
+import { rankTorrents } from '@server/services/stream/ranking';
+import type { User } from '@server/types/user';
+import { useMemo } from 'react';
+import { PREVIEW_TITLE, previewReleases } from './constants';
+
+interface RankingPreviewProps {
+  user: User;
+  /** `null` while the edited profile is invalid. */
+  rankingProfile: RankingProfile | null;
+}
+
+export const RankingPreview = ({ user, rankingProfile }: RankingPreviewProps) => {
+  const ranking = useMemo(
+    () =>
+      rankingProfile &&
+      rankTorrents(previewReleases, (release) => release, { ...user, rankingProfile }),
+    [user, rankingProfile],
+  );
+
+  if (!ranking) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Fix the errors of the form to see the preview.
+      </p>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <Table className="w-full">
+        <TableCaption>How the releases of {PREVIEW_TITLE} would be listed</TableCaption>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-10">#</TableHead>
+            <TableHead>Release</TableHead>
+            <TableHead className="text-right">Score</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {ranking.ranked.map(({ item, score }, index) => (
+            <TableRow key={item.name}>
+              <TableCell>{index + 1}</TableCell>
+              <TableCell className="break-all">{item.name}</TableCell>
+              <TableCell className="text-right">{score.toFixed(2)}</TableCell>
+            </TableRow>
+          ))}
+          {ranking.excluded.map(({ item, reason }) => (
+            <TableRow key={item.name} className="text-muted-foreground">
+              <TableCell>-</TableCell>
+              <TableCell className="break-all line-through">{item.name}</TableCell>
+              <TableCell className="text-right">{reason}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
@@ -0,0 +1,218 @@
+import { api } from '@/api';
+import { Button } from '@/components/ui/button';
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { MutationKeys } from '@/constants/mutation-keys';
+import { QueryKeys } from '@/constants/query-keys';
+import { handleError, HttpError } from '@/lib/errors';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  DEFAULT_RANKING_PROFILE,
+  type RankingProfile,
+} from '@server/schemas/ranking-profile.schema';
+import type { User } from '@server/types/user';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMemo } from 'react';
+import { FormProvider, useForm, useWatch, type FieldPath } from 'react-hook-form';
+import { toast } from 'sonner';
+import {
+  rankingCriterionFields,
+  rankingProfileFormSchema,
+  toRankingProfile,
+  toRankingProfileFormValues,
+  type RankingProfileFormValues,
+} from './constants';
+import { RankingPreview } from './ranking-preview';
+
+const limitFields: {
+  name: FieldPath<RankingProfileFormValues>;
+  label: string;
+  description: string;
+  step: string;
+}[] = [
+  {
+    name: 'preferredSize.minGb',
+    label: 'Preferred minimum size (GB)',
+    description: 'Releases in the preferred size range get the points of the size.',
+    step: '0.1',
+  },
+  {
+    name: 'preferredSize.maxGb',
+    label: 'Preferred maximum size (GB)',
+    description: 'Leave both sizes empty to turn the size off.',
+    step: '0.1',
+  },
+  {
+    name: 'maxSizeGb',
+    label: 'Maximum size (GB)',
+    description: 'Larger releases are not listed.',
+    step: '0.1',
+  },
+  {
+    name: 'minSeeders',
+    label: 'Minimum seeders',
+    description: 'Releases with fewer seeders are not listed.',
+    step: '1',
+  },
+  {
+    name: 'topN',
+    label: 'Number of streams',
+    description: 'Only this many of the best releases are listed.',
+    step: '1',
+  },
+];
+
+const releaseGroupFields: {
+  name: 'allowedReleaseGroups' | 'deniedReleaseGroups';
+  label: string;
+}[] = [
+  { name: 'allowedReleaseGroups', label: 'Allowed release groups' },
+  { name: 'deniedReleaseGroups', label: 'Denied release groups' },
+];
+
+export const RankingProfileForm = ({ user }: { user: User }) => {
+  const queryClient = useQueryClient();
+  const form = useForm<RankingProfileFormValues>({
+    resolver: zodResolver(rankingProfileFormSchema),
+    mode: 'onChange',
+    defaultValues: toRankingProfileFormValues(user.rankingProfile),
+  });
+
+  const values = useWatch({ control: form.control });
+  const previewProfile = useMemo(() => {
+    const result = rankingProfileFormSchema.safeParse(values);
+    return result.success ? toRankingProfile(result.data) : null;
+  }, [values]);
+
+  const { mutateAsync, isPending } = useMutation({
+    mutationFn: async (rankingProfile: RankingProfile) => {
+      const req = await api.users[':userId']['ranking-profile'].$put({
+        json: rankingProfile,
+        param: { userId: `${user.id}` },
+      });
+      if (!req.ok) {
+        throw new HttpError(req);
+      }
+      return await req.json();
+    },
+    onError: (e) => handleError(e, 'Failed to update the stream ranking'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QueryKeys.ME] });
+      toast.success('Stream ranking updated successfully');
+    },
+    mutationKey: [MutationKeys.UPDATE_RANKING_PROFILE, user.id],
+  });
+
+  const onSubmit = form.handleSubmit(async (data) => {
+    await mutateAsync(toRankingProfile(data));
+  });
+
+  return (
+    <FormProvider {...form}>
+      <form className="space-y-6 pt-2" onSubmit={onSubmit}>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {rankingCriterionFields.map(({ name, label, description }) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={`weights.${name}`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{label}</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={10}
+                      step="0.5"
+                      name={field.name}
+                      ref={field.ref}
+                      onBlur={field.onBlur}
+                      value={field.value}
+                      onChange={(event) => field.onChange(event.target.valueAsNumber)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                  <FormDescription>{description}</FormDescription>
+                </FormItem>
+              )}
+            />
+          ))}
+          {limitFields.map(({ name, label, description, step }) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{label}</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={step}
+                      name={field.name}
+                      ref={field.ref}
+                      onBlur={field.onBlur}
+                      value={typeof field.value === 'number' ? field.value : ''}
+                      onChange={(event) =>
+                        field.onChange(
+                          event.target.value === '' ? null : Number(event.target.value),
+                        )
+                      }
+                    />
+                  </FormControl>
+                  <FormMessage />
+                  <FormDescription>{description}</FormDescription>
+                </FormItem>
+              )}
+            />
+          ))}
+          {releaseGroupFields.map(({ name, label }) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{label}</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="e.g. FLUX, NIX" />
+                  </FormControl>
+                  <FormMessage />
+                  <FormDescription>
+                    The group after the last dash of the release name.
+                  </FormDescription>
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+        <RankingPreview user={user} rankingProfile={previewProfile} />
+        <div className="flex flex-wrap items-center justify-end gap-2">
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={() =>
+              form.reset(toRankingProfileFormValues(DEFAULT_RANKING_PROFILE), {
+                keepDefaultValues: true,
+              })
+            }
+          >
+            Reset to default
+          </Button>
+          <Button type="submit" disabled={isPending}>
+            Save ranking
+          </Button>
+        </div>
+      </form>
+    </FormProvider>
+  );
+};
@@ -0,0 +1,113 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import type { NcoreAccountResponse } from '@server/types/ncore-account';
+
+const formatValue = (value: string | number | null) => value ?? '-';
+
+export const NcoreAccountCard = ({ response }: { response: NcoreAccountResponse }) => {
+  const { account } = response;
+  const pendingTorrents = account?.hitnrun.filter((torrent) => !torrent.isSeededEnough);
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>{response.sourceName}</CardTitle>
+        <p className="text-sm text-slate-500">
+          Updated at {new Date(response.fetchedAt).toLocaleString()}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!account ? (
+          <p className="break-words">Failed to load the account: {response.error}</p>
+        ) : (
+          <>
+            <dl className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <dt className="text-sm text-slate-500">Ratio</dt>
+                <dd
+                  className={cn(
+                    'text-xl font-semibold',
+                    account.ratio !== null && account.ratio < 1 && 'text-red-500',
+                  )}
+                >
+                  {formatValue(account.ratio)}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-sm text-slate-500">Uploaded</dt>
+                <dd className="text-xl font-semibold">{formatValue(account.uploaded)}</dd>
+              </div>
+              <div>
+                <dt className="text-sm text-slate-500">Downloaded</dt>
+                <dd className="text-xl font-semibold">
+                  {formatValue(account.downloaded)}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-sm text-slate-500">Bonus points</dt>
+                <dd className="text-xl font-semibold">
+                  {formatValue(account.bonusPoints)}
+                </dd>
+              </div>
+            </dl>
+            <div className="overflow-x-auto w-full">
+              <Table className="w-full">
+                <TableCaption>
+                  {pendingTorrents?.length} of {account.hitnrun.length} hit'n'run torrents
+                  still have to be seeded
+                </TableCaption>
+                <TableHeader>
+                  <TableRow className="text-nowrap">
+                    <TableHead>Release name</TableHead>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Last active</TableHead>
+                    <TableHead>Uploaded</TableHead>
+                    <TableHead>Downloaded</TableHead>
+                    <TableHead>Ratio</TableHead>
+                    <TableHead>Seeded</TableHead>
+                    <TableHead>Remaining</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {account.hitnrun.map((torrent) => (
+                    <TableRow key={torrent.sourceId}>
+                      <TableCell>
+                        <span className="break-all line-clamp-3 overflow-hidden overflow-ellipsis">
+                          {torrent.name}
+                        </span>
+                      </TableCell>
+                      <TableCell>{formatValue(torrent.startedAt)}</TableCell>
+                      <TableCell>{formatValue(torrent.lastActiveAt)}</TableCell>
+                      <TableCell>{formatValue(torrent.uploaded)}</TableCell>
+                      <TableCell>{formatValue(torrent.downloaded)}</TableCell>
+                      <TableCell>{formatValue(torrent.ratio)}</TableCell>
+                      <TableCell>{formatValue(torrent.seedTime)}</TableCell>
+                      <TableCell
+                        className={cn(
+                          torrent.isSeededEnough ? 'text-green-600' : 'text-orange-500',
+                        )}
+                      >
+                        {torrent.isSeededEnough
+                          ? 'Done'
+                          : formatValue(torrent.remainingSeedTime)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
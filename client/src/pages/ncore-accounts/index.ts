@@ -0,0 +1 @@
+export { NcoreAccountsPage as default } from './ncore-accounts.page';
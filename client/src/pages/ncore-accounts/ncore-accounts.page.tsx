@@ -0,0 +1,77 @@
+import { api } from '@/api';
+import { Alert } from '@/components/ui/alert';
+import { Skeleton } from '@/components/ui/skeleton';
+import { QueryKeys } from '@/constants/query-keys';
+import { ROUTES } from '@/constants/routes';
+import { useMe } from '@/hooks/use-me';
+import { HttpError } from '@/lib/errors';
+import { useQuery } from '@tanstack/react-query';
+import { PropsWithChildren } from 'react';
+import { Redirect } from 'wouter';
+import { UserRole } from '@server/db/schema/users';
+import { NcoreAccountCard } from './components/ncore-account-card';
+
+const Container = ({ children }: PropsWithChildren) => (
+  <div className="h-full pt-6 pb-24 flex flex-col space-y-8">
+    <h1 className="text-2xl font-semibold text-center">nCore accounts</h1>
+    {children}
+  </div>
+);
+
+export const NcoreAccountsPage = () => {
+  const { data: user } = useMe();
+  const {
+    data: accounts,
+    isLoading,
+    isError,
+    error,
+  } = useQuery({
+    queryKey: [QueryKeys.NCORE_ACCOUNTS],
+    queryFn: async () => {
+      const req = await api.config['torrent-sources']['ncore-accounts'].$get();
+      if (!req.ok) {
+        throw new HttpError(req);
+      }
+      return await req.json();
+    },
+    enabled: !!user && user.role === UserRole.ADMIN,
+    // every refresh sends two requests to nCore
+    refetchInterval: 5 * 60_000,
+  });
+
+  if (user && user.role !== UserRole.ADMIN) {
+    return <Redirect to={ROUTES.ACCOUNT} />;
+  }
+
+  if (isError) {
+    return (
+      <Container>
+        <Alert
+          variant="error"
+          title="An error occured while loading the nCore accounts"
+          description={error.message}
+        />
+      </Container>
+    );
+  }
+
+  if (isLoading || !accounts) {
+    return (
+      <Container>
+        <Skeleton />
+      </Container>
+    );
+  }
+
+  return (
+    <Container>
+      {accounts.length === 0 ? (
+        <p className="text-center">There are no enabled nCore torrent sources.</p>
+      ) : (
+        accounts.map((response) => (
+          <NcoreAccountCard key={response.id} response={response} />
+        ))
+      )}
+    </Container>
+  );
+};
@@ -15,5 +15,10 @@ export const getUpdateAddonSettingsDefaultValues = (
           enabled: false,
           cron: '',
         },
+    ratioProtection: {
+      minRatio: config.minRatio,
+      maxOpenHitnruns: config.maxOpenHitnruns,
+      maxDownloadingTorrents: config.maxDownloadingTorrents,
+    },
   };
 };
@@ -0,0 +1,44 @@
+import type { TitleAlias } from '@server/db/schema/title-aliases';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { TitleAliasActions } from '@/components/title-alias';
+
+export const TitleAliasTable = ({ aliases }: { aliases: TitleAlias[] }) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead>IMDb ID</TableHead>
+        <TableHead>Title</TableHead>
+        <TableHead className="w-12">
+          <span className="sr-only">Actions</span>
+        </TableHead>
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {aliases.map((alias) => (
+        <TableRow key={alias.id}>
+          <TableCell>
+            <a
+              className="underline"
+              href={`https://www.imdb.com/title/${alias.imdbId}/`}
+              target="_blank"
+              rel="noreferrer"
+            >
+              {alias.imdbId}
+            </a>
+          </TableCell>
+          <TableCell>{alias.title}</TableCell>
+          <TableCell>
+            <TitleAliasActions alias={alias} />
+          </TableCell>
+        </TableRow>
+      ))}
+    </TableBody>
+  </Table>
+);
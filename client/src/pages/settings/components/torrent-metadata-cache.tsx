@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { api } from '@/api';
+import { Alert } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { FullScreenLoader } from '@/components/ui/full-screen-loader';
+import { MutationKeys } from '@/constants/mutation-keys';
+import { QueryKeys } from '@/constants/query-keys';
+import { handleError, HttpError } from '@/lib/errors';
+
+export const TorrentMetadataCache = () => {
+  const [isPurgeModalOpen, setIsPurgeModalOpen] = useState(false);
+  const queryClient = useQueryClient();
+  const { data, isError, error } = useQuery({
+    queryKey: [QueryKeys.TORRENT_METADATA],
+    queryFn: async () => {
+      const response = await api['torrent-metadata'].$get();
+      return response.json();
+    },
+  });
+  const { mutateAsync, isPending } = useMutation({
+    mutationFn: async () => {
+      const req = await api['torrent-metadata'].$delete({ query: {} });
+      setIsPurgeModalOpen(false);
+      if (!req.ok) {
+        throw new HttpError(req);
+      }
+      return await req.json();
+    },
+    onSuccess: ({ deletedCount }) => {
+      queryClient.invalidateQueries({ queryKey: [QueryKeys.TORRENT_METADATA] });
+      toast.success(`Deleted the metadata of ${deletedCount} torrents`);
+    },
+    onError: (e) => handleError(e, 'Failed to purge torrent metadata'),
+    mutationKey: [MutationKeys.PURGE_TORRENT_METADATA],
+  });
+
+  if (isError) {
+    return (
+      <Alert
+        variant="error"
+        title="Failed to load torrent metadata"
+        description={error.message}
+      />
+    );
+  }
+
+  return (
+    <>
+      {isPending && <FullScreenLoader />}
+      <div className="flex flex-wrap items-center gap-4">
+        <p className="text-sm">
+          {data ? (
+            <>
+              <strong>{data.count}</strong> torrents saved
+              {data.oldestFetchedAt &&
+                `, the oldest one was downloaded at ${new Date(data.oldestFetchedAt).toLocaleString()}`}
+              .
+            </>
+          ) : (
+            'Loading...'
+          )}
+        </p>
+        <Button
+          variant="destructive"
+          size="sm"
+          disabled={!data?.count}
+          onClick={() => setIsPurgeModalOpen(true)}
+        >
+          Purge
+        </Button>
+      </div>
+      <Dialog open={isPurgeModalOpen} onOpenChange={setIsPurgeModalOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="font-bold">Purge Torrent Metadata</DialogTitle>
+          </DialogHeader>
+          <p>
+            Do you want to delete the saved metadata of every torrent? The torrent files
+            will be downloaded again on the next search.
+          </p>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="secondary">Cancel</Button>
+            </DialogClose>
+            <Button variant="destructive" onClick={() => mutateAsync()}>
+              Purge
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,63 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import {
+  TorrentSourceActions,
+  torrentSourceTypeLabelLookup,
+} from '@/components/torrent-source';
+import { api } from '@/api';
+import { MutationKeys } from '@/constants/mutation-keys';
+import { QueryKeys } from '@/constants/query-keys';
+import { handleError, HttpError } from '@/lib/errors';
+import type { TorrentSourceResponse } from '@server/types/torrent-source';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+
+export const TorrentSourceCard = ({ source }: { source: TorrentSourceResponse }) => {
+  const queryClient = useQueryClient();
+  const { mutate: setEnabled, isPending } = useMutation({
+    mutationKey: [MutationKeys.SET_TORRENT_SOURCE_ENABLED, source.id],
+    mutationFn: async (enabled: boolean) => {
+      const req = await api.config['torrent-sources'][':sourceId'].enabled.$put({
+        json: { enabled },
+        param: { sourceId: `${source.id}` },
+      });
+      if (!req.ok) {
+        throw new HttpError(req);
+      }
+      return await req.json();
+    },
+    onError: (e) => handleError(e, 'Failed to update torrent source'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QueryKeys.TORRENT_SOURCES] });
+      queryClient.invalidateQueries({ queryKey: [QueryKeys.TORRENT_SOURCE_ISSUES] });
+    },
+  });
+
+  const switchId = `torrent-source-enabled-${source.id}`;
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle>{source.displayName}</CardTitle>
+          <TorrentSourceActions source={source} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <p>Type: {torrentSourceTypeLabelLookup[source.type]}</p>
+          <p className="break-all">URL: {source.url}</p>
+          {source.username && <p>Username: {source.username}</p>}
+        </div>
+        <div className="flex items-center space-x-2">
+          <Switch
+            id={switchId}
+            checked={source.enabled}
+            disabled={isPending}
+            onCheckedChange={(checked) => setEnabled(checked)}
+          />
+          <Label htmlFor={switchId}>Enabled</Label>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,6 +1,9 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { UserActions } from '@/components/user';
-import { languageLabelLookup } from '@/pages/setup/constants';
+import {
+  languageLabelLookup,
+  releaseAttributeLabelLookup,
+} from '@/pages/setup/constants';
 import { UserRole } from '@server/db/schema/users';
 import { User } from '@server/types/user';
 
@@ -26,6 +29,23 @@ export const UserCard = ({ user, me }: { user: User; me: User }) => {
         <p>Role: {user.role}</p>
         <p>Preferred language: {languageLabelLookup[user.preferredLanguage]}</p>
         <p>Preferred resolutions: {user.preferredResolutions.join(', ')}</p>
+        {user.excludedReleaseAttributes.length > 0 && (
+          <p>
+            Excluded formats:{' '}
+            {user.excludedReleaseAttributes
+              .map((attribute) => releaseAttributeLabelLookup[attribute])
+              .join(', ')}
+          </p>
+        )}
+        {user.preferredReleaseAttributes.length > 0 && (
+          <p>
+            Preferred formats:{' '}
+            {user.preferredReleaseAttributes
+              .map((attribute) => releaseAttributeLabelLookup[attribute])
+              .join(', ')}
+          </p>
+        )}
+        {user.showAllMovieFiles && <p>Every video of movie torrents is listed</p>}
       </CardContent>
     </Card>
   );
@@ -13,9 +13,18 @@ import { Button } from '@/components/ui/button';
 import { PlusIcon } from 'lucide-react';
 import { UpdateAddonSettingsForm } from './components/update-addon-settings-form';
 import { useConfig } from '@/hooks/use-config';
+import { TorrentSourceCard } from './components/torrent-source-card';
+import { TorrentSourceModal } from '@/components/torrent-source';
+import { TitleAliasModal } from '@/components/title-alias';
+import { TitleAliasTable } from './components/title-alias-table';
+import { TorrentMetadataCache } from './components/torrent-metadata-cache';
+import { useState } from 'react';
 
 export const SettingsPage = () => {
   const [animatedParent] = useAutoAnimate();
+  const [animatedSourcesParent] = useAutoAnimate();
+  const [isCreateSourceModalOpen, setIsCreateSourceModalOpen] = useState(false);
+  const [isCreateAliasModalOpen, setIsCreateAliasModalOpen] = useState(false);
   const { data: me, isLoading: isMeLoading } = useMe();
   const { config, isLoading: isConfigLoading } = useConfig();
   const {
@@ -30,6 +39,31 @@ export const SettingsPage = () => {
       return response.json();
     },
   });
+  const {
+    data: torrentSources,
+    isLoading: isTorrentSourcesLoading,
+    isError: isTorrentSourcesError,
+    error: torrentSourcesError,
+  } = useQuery({
+    queryKey: [QueryKeys.TORRENT_SOURCES],
+    queryFn: async () => {
+      const response = await api.config['torrent-sources'].$get();
+      return response.json();
+    },
+  });
+
+  const {
+    data: titleAliases,
+    isLoading: isTitleAliasesLoading,
+    isError: isTitleAliasesError,
+    error: titleAliasesError,
+  } = useQuery({
+    queryKey: [QueryKeys.TITLE_ALIASES],
+    queryFn: async () => {
+      const response = await api['title-aliases'].$get();
+      return response.json();
+    },
+  });
 
   if (me && me.role !== UserRole.ADMIN) {
     return <Redirect to="/account" />;
@@ -71,6 +105,82 @@ export const SettingsPage = () => {
         </div>
       </section>
 
+      <section className="space-y-4" aria-describedby="torrent-sources-section-title">
+        <div className="flex items-center gap-4">
+          <h2 className="text-xl font-bold" id="torrent-sources-section-title">
+            Torrent sources
+          </h2>
+          <Button variant="link" onClick={() => setIsCreateSourceModalOpen(true)}>
+            <PlusIcon className="size-3 mr-1" />
+            Add source
+          </Button>
+          <TorrentSourceModal
+            open={isCreateSourceModalOpen}
+            onOpenChange={setIsCreateSourceModalOpen}
+          />
+        </div>
+        {isTorrentSourcesError && (
+          <Alert
+            variant="error"
+            title="Failed to load torrent sources"
+            description={torrentSourcesError.message}
+          />
+        )}
+        {!isTorrentSourcesLoading && torrentSources?.length === 0 && (
+          <p className="text-sm text-muted-foreground">No torrent sources added yet.</p>
+        )}
+        <div
+          ref={animatedSourcesParent}
+          className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3"
+        >
+          {torrentSources?.map((source) => (
+            <TorrentSourceCard key={source.id} source={source} />
+          ))}
+        </div>
+      </section>
+
+      <section className="space-y-4" aria-describedby="title-aliases-section-title">
+        <div className="flex items-center gap-4">
+          <h2 className="text-xl font-bold" id="title-aliases-section-title">
+            Title aliases
+          </h2>
+          <Button variant="link" onClick={() => setIsCreateAliasModalOpen(true)}>
+            <PlusIcon className="size-3 mr-1" />
+            Add alias
+          </Button>
+          <TitleAliasModal
+            open={isCreateAliasModalOpen}
+            onOpenChange={setIsCreateAliasModalOpen}
+          />
+        </div>
+        <p className="text-sm text-muted-foreground">
+          If a movie or show can't be found on nCore by its IMDb ID, then it's searched by
+          its name and by these aliases, e.g. its Hungarian title.
+        </p>
+        {isTitleAliasesError && (
+          <Alert
+            variant="error"
+            title="Failed to load title aliases"
+            description={titleAliasesError.message}
+          />
+        )}
+        {!isTitleAliasesLoading && titleAliases?.length === 0 && (
+          <p className="text-sm text-muted-foreground">No title aliases added yet.</p>
+        )}
+        {!!titleAliases?.length && <TitleAliasTable aliases={titleAliases} />}
+      </section>
+
+      <section className="space-y-4" aria-describedby="torrent-metadata-section-title">
+        <h2 className="text-xl font-bold" id="torrent-metadata-section-title">
+          Torrent metadata cache
+        </h2>
+        <p className="text-sm text-muted-foreground">
+          The file lists of the torrents are saved, so they are only downloaded again
+          after they get too old.
+        </p>
+        <TorrentMetadataCache />
+      </section>
+
       <section className="space-y-4" aria-describedby="addon-settings-section-title">
         <h2 className="text-xl font-bold" id="addon-settings-section-title">
           Addon settings
@@ -39,6 +39,9 @@ export const NonAdminUsers = () => {
             password: '',
             preferredResolutions: [],
             preferredLanguage: languageOptions[0],
+            excludedReleaseAttributes: [],
+            preferredReleaseAttributes: [],
+            showAllMovieFiles: false,
           })
         }
         variant="outline"
@@ -12,6 +12,7 @@ import {
 import { Form } from '@/components/ui/form';
 
 import { NonAdminUsers } from './non-admin-users';
+import { TorrentSources } from './torrent-sources';
 import { defaultSetupFormValues } from '../constants';
 import { UserFields } from './user-fields';
 import { toast } from 'sonner';
@@ -66,6 +67,9 @@ export const SetupForm = () => {
             <SettingsFormFields />
             <Separator />
 
+            <TorrentSources />
+            <Separator />
+
             <div className="space-y-4">
               <h3 className="text-lg font-semibold">Admin login credentials</h3>
               <p className="text-sm text-muted-foreground">
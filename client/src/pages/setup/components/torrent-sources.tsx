@@ -0,0 +1,54 @@
+import { Button } from '@/components/ui/button';
+import { PlusCircle, Trash2 } from 'lucide-react';
+import { useFieldArray } from 'react-hook-form';
+import { TorrentSourceType } from '@server/db/schema/torrent-sources';
+import {
+  getDefaultTorrentSourceValues,
+  TestTorrentSource,
+  TorrentSourceFields,
+} from '@/components/torrent-source';
+import { SetupFormValues } from '../constants';
+
+export const TorrentSources = () => {
+  const { fields, append, remove } = useFieldArray<SetupFormValues>({
+    name: 'torrentSources',
+  });
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-semibold">Torrent sources</h3>
+      <p className="text-sm text-muted-foreground">
+        Add the trackers that the addon searches. The credentials are checked before the
+        configuration is saved, and the sources can be changed later in the settings.
+      </p>
+      {fields.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No torrent sources added yet.</p>
+      ) : (
+        fields.map((field, index) => (
+          <div className="space-y-4 p-4 border rounded-md" key={field.id}>
+            <TorrentSourceFields baseName={`torrentSources.${index}`} />
+            <TestTorrentSource baseName={`torrentSources.${index}`} />
+            <Button
+              type="button"
+              variant="destructive"
+              size="sm"
+              onClick={() => remove(index)}
+              className="mt-2"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Remove Source
+            </Button>
+          </div>
+        ))
+      )}
+      <Button
+        type="button"
+        onClick={() => append(getDefaultTorrentSourceValues(TorrentSourceType.NCORE))}
+        variant="outline"
+        className="w-full"
+      >
+        <PlusCircle className="w-4 h-4 mr-2" />
+        Add Torrent Source
+      </Button>
+    </div>
+  );
+};
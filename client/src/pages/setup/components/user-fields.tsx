@@ -1,5 +1,6 @@
 import {
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -7,10 +8,12 @@ import {
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Select } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
 import { useFormContext } from 'react-hook-form';
-import { languageLabelLookup } from '../constants';
+import { languageLabelLookup, releaseAttributeLabelLookup } from '../constants';
 import {
   languageValues as languageOptions,
+  releaseAttributeValues as releaseAttributeOptions,
   resolutionValues as resolutionOptions,
 } from '@server/db/schema/users';
 import { CreateUserRequest } from '@server/types/user';
@@ -93,6 +96,77 @@ export const UserFields = ({ baseName, hidePassword = false }: UserFieldsProps)
           </FormItem>
         )}
       />
+      <FormField
+        control={control}
+        name={`${baseName}.excludedReleaseAttributes`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Excluded formats</FormLabel>
+            <Select
+              onChange={field.onChange}
+              onBlur={field.onBlur}
+              value={field.value}
+              options={releaseAttributeOptions.map((attribute) => ({
+                label: releaseAttributeLabelLookup[attribute],
+                value: attribute,
+              }))}
+              multiple
+            />
+            <FormDescription>
+              Torrents with these are not listed, e.g. Dolby Vision for TVs that can't
+              play it.
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={control}
+        name={`${baseName}.preferredReleaseAttributes`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Preferred formats</FormLabel>
+            <Select
+              onChange={field.onChange}
+              onBlur={field.onBlur}
+              value={field.value}
+              options={releaseAttributeOptions.map((attribute) => ({
+                label: releaseAttributeLabelLookup[attribute],
+                value: attribute,
+              }))}
+              multiple
+            />
+            <FormDescription>
+              Torrents with these are listed first among the ones with the same language
+              and resolution.
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={control}
+        name={`${baseName}.showAllMovieFiles`}
+        render={({ field }) => (
+          <FormItem className="col-span-full">
+            <div className="flex items-center space-x-2">
+              <FormControl>
+                <Switch
+                  checked={field.value}
+                  onBlur={field.onBlur}
+                  onCheckedChange={field.onChange}
+                />
+              </FormControl>
+              <FormLabel>Show every video of movie torrents</FormLabel>
+            </div>
+            <FormDescription>
+              Torrents with several cuts or bonus videos are listed as a stream per video.
+              Movies split into parts, like CD1 and CD2, are played as one video.
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
     </div>
   );
 };
@@ -1,5 +1,7 @@
 import type { CreateConfigRequest } from '@server/schemas/config.schema';
-import { Language, languageValues } from '@server/db/schema/users';
+import { Language, languageValues, ReleaseAttribute } from '@server/db/schema/users';
+import { TorrentSourceType } from '@server/db/schema/torrent-sources';
+import { getDefaultTorrentSourceValues } from '@/components/torrent-source/constants';
 
 export type SetupFormValues = CreateConfigRequest;
 
@@ -10,12 +12,21 @@ export const defaultSetupFormValues: SetupFormValues = {
     password: '',
     preferredResolutions: [],
     preferredLanguage: languageValues[0],
+    excludedReleaseAttributes: [],
+    preferredReleaseAttributes: [],
+    showAllMovieFiles: false,
   },
   nonAdminUsers: [],
+  torrentSources: [getDefaultTorrentSourceValues(TorrentSourceType.NCORE)],
   deleteAfterHitnrun: {
     enabled: false,
     cron: '',
   },
+  ratioProtection: {
+    minRatio: null,
+    maxOpenHitnruns: null,
+    maxDownloadingTorrents: null,
+  },
 };
 
 export const DEFAULT_HITNRUN_CRON = '0 2 * * *';
@@ -24,3 +35,15 @@ export const languageLabelLookup: Record<Language, string> = {
   en: 'English',
   hu: 'Hungarian',
 };
+
+export const releaseAttributeLabelLookup: Record<ReleaseAttribute, string> = {
+  [ReleaseAttribute.HDR10]: 'HDR10',
+  [ReleaseAttribute.HDR10_PLUS]: 'HDR10+',
+  [ReleaseAttribute.DOLBY_VISION]: 'Dolby Vision',
+  [ReleaseAttribute.HEVC]: 'x265 / HEVC',
+  [ReleaseAttribute.AV1]: 'AV1',
+  [ReleaseAttribute.REMUX]: 'Remux',
+  [ReleaseAttribute.ATMOS]: 'Dolby Atmos',
+  [ReleaseAttribute.DTS]: 'DTS',
+  [ReleaseAttribute.TRUEHD]: 'Dolby TrueHD',
+};
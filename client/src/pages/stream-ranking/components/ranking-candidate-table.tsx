@@ -0,0 +1,113 @@
+import type { RankingCandidate } from '@server/services/stream';
+import type { RankingCriterion } from '@server/services/stream/ranking';
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatBytes } from '@server/utils/bytes';
+import { criterionLabelLookup, episodeMatchConfidenceLabelLookup } from '../constants';
+
+const formatScores = (scores: Record<RankingCriterion, number>) =>
+  (Object.entries(scores) as [RankingCriterion, number][])
+    .filter(([, score]) => score !== 0)
+    .map(
+      ([criterion, score]) => `${criterionLabelLookup[criterion]}: ${score.toFixed(2)}`,
+    );
+
+const CandidateFile = ({ candidate }: { candidate: RankingCandidate }) => {
+  if (!candidate.isResolved) {
+    return <p>Files are checked when played</p>;
+  }
+  if (!candidate.file) {
+    return <p className="text-red-600">No playable file found</p>;
+  }
+  return (
+    <p className="break-all">
+      #{candidate.file.index}: {candidate.file.name}
+      {candidate.episodeMatchConfidence && (
+        <span className="block">
+          {episodeMatchConfidenceLabelLookup[candidate.episodeMatchConfidence]}
+        </span>
+      )}
+    </p>
+  );
+};
+
+export const RankingCandidateTable = ({
+  candidates,
+}: {
+  candidates: RankingCandidate[];
+}) => (
+  <div className="overflow-x-auto w-full">
+    <Table className="w-full">
+      <TableCaption>
+        {candidates.length === 0
+          ? 'The sources found no torrents'
+          : 'The streams in order, then the torrents that were left out'}
+      </TableCaption>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-10">#</TableHead>
+          <TableHead>Release</TableHead>
+          <TableHead>File</TableHead>
+          <TableHead>Details</TableHead>
+          <TableHead>Points</TableHead>
+          <TableHead>Status</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {candidates.map((candidate) => (
+          <TableRow
+            key={`${candidate.sources[0]?.sourceName}:${candidate.sources[0]?.sourceId}`}
+            className={candidate.rank === null ? 'text-muted-foreground' : undefined}
+          >
+            <TableCell>{candidate.rank ?? '-'}</TableCell>
+            <TableCell className="min-w-64">
+              <p className="break-all font-medium">{candidate.name}</p>
+              <p>
+                {candidate.sources
+                  .map(({ sourceName, sourceId }) => `${sourceName} (${sourceId})`)
+                  .join(', ')}
+              </p>
+              {candidate.isSpeculated && <p>⚠️ Speculated</p>}
+            </TableCell>
+            <TableCell className="min-w-48">
+              <CandidateFile candidate={candidate} />
+            </TableCell>
+            <TableCell className="whitespace-nowrap">
+              <p>
+                {candidate.details.language} | {candidate.details.resolution}
+              </p>
+              <p>
+                {candidate.details.seeders} seeders |{' '}
+                {formatBytes(candidate.details.size)}
+              </p>
+              {candidate.details.releaseAttributes.length > 0 && (
+                <p>{candidate.details.releaseAttributes.join(' | ')}</p>
+              )}
+              {candidate.details.releaseGroup && (
+                <p>Group: {candidate.details.releaseGroup}</p>
+              )}
+              {candidate.details.isFreeleech && <p>Freeleech</p>}
+            </TableCell>
+            <TableCell className="whitespace-nowrap">
+              <p className="font-medium">{candidate.score.toFixed(2)}</p>
+              {formatScores(candidate.scores).map((line) => (
+                <p key={line}>{line}</p>
+              ))}
+            </TableCell>
+            <TableCell>
+              {candidate.excludedReason ??
+                (candidate.isRecommended ? '⭐️ Recommended' : 'Listed')}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  </div>
+);
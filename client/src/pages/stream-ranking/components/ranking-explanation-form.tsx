@@ -0,0 +1,153 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { StreamType } from '@server/schemas/stream.schema';
+import { useQuery } from '@tanstack/react-query';
+import { FormProvider, useForm, useWatch } from 'react-hook-form';
+import { api } from '@/api';
+import { Button } from '@/components/ui/button';
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { QueryKeys } from '@/constants/query-keys';
+import { streamTypeLabelLookup } from '@/pages/watchlist/constants';
+import {
+  defaultRankingExplanationFormValues,
+  rankingExplanationFormSchema,
+  type RankingExplanationFormValues,
+} from '../constants';
+
+/** The select can't hold `null`, the signed in user is picked by this instead. */
+const SIGNED_IN_USER_ID = 0;
+
+const episodeFields = [
+  { name: 'season', label: 'Season' },
+  { name: 'episode', label: 'Episode' },
+] as const;
+
+interface RankingExplanationFormProps {
+  isLoading: boolean;
+  onSubmit: (values: RankingExplanationFormValues) => void;
+}
+
+export const RankingExplanationForm = ({
+  isLoading,
+  onSubmit,
+}: RankingExplanationFormProps) => {
+  const form = useForm<RankingExplanationFormValues>({
+    resolver: zodResolver(rankingExplanationFormSchema),
+    mode: 'onChange',
+    defaultValues: defaultRankingExplanationFormValues,
+  });
+  const type = useWatch({ control: form.control, name: 'type' });
+
+  const { data: users = [] } = useQuery({
+    queryKey: [QueryKeys.USERS],
+    queryFn: async () => {
+      const response = await api.users.$get();
+      return response.json();
+    },
+  });
+
+  return (
+    <FormProvider {...form}>
+      <form
+        className="grid grid-cols-2 gap-4 w-full max-w-xl"
+        onSubmit={form.handleSubmit(onSubmit)}
+      >
+        <FormField
+          control={form.control}
+          name="imdbId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>IMDb ID</FormLabel>
+              <FormControl>
+                <Input placeholder="tt0133093" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="type"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Type</FormLabel>
+              <Select
+                onChange={field.onChange}
+                onBlur={field.onBlur}
+                value={field.value}
+                options={Object.values(StreamType).map((type) => ({
+                  label: streamTypeLabelLookup[type],
+                  value: type,
+                }))}
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {type === StreamType.TV_SHOW &&
+          episodeFields.map(({ name, label }) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{label}</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={1}
+                      step="1"
+                      name={field.name}
+                      ref={field.ref}
+                      onBlur={field.onBlur}
+                      value={field.value ?? ''}
+                      onChange={(event) =>
+                        field.onChange(
+                          event.target.value === '' ? null : Number(event.target.value),
+                        )
+                      }
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+        <FormField
+          control={form.control}
+          name="userId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Rank for</FormLabel>
+              <Select
+                onChange={(userId) =>
+                  field.onChange(userId === SIGNED_IN_USER_ID ? null : userId)
+                }
+                onBlur={field.onBlur}
+                value={field.value ?? SIGNED_IN_USER_ID}
+                options={[
+                  { label: 'Me', value: SIGNED_IN_USER_ID },
+                  ...users.map((user) => ({ label: user.username, value: user.id })),
+                ]}
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="col-span-full">
+          <Button type="submit" disabled={isLoading}>
+            Explain the ranking
+          </Button>
+        </div>
+      </form>
+    </FormProvider>
+  );
+};
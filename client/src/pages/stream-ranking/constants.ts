@@ -0,0 +1,44 @@
+import { StreamType } from '@server/schemas/stream.schema';
+import { EpisodeMatchConfidence } from '@server/services/torrent-source/episode-resolver';
+import type { RankingCriterion } from '@server/services/stream/ranking';
+import { z } from 'zod';
+import { rankingCriterionFields } from '@/pages/account/components/ranking-profile/constants';
+
+const episodeNumberSchema = z.number().int().positive().nullable();
+
+export const rankingExplanationFormSchema = z
+  .object({
+    imdbId: z
+      .string()
+      .trim()
+      .regex(/^tt\d+$/, 'The IMDb ID looks like tt1234567'),
+    type: z.nativeEnum(StreamType),
+    season: episodeNumberSchema,
+    episode: episodeNumberSchema,
+    userId: z.number().int().positive().nullable(),
+  })
+  .refine(
+    ({ type, season, episode }) =>
+      type === StreamType.MOVIE || (season !== null && episode !== null),
+    { message: 'The season and the episode are required for shows', path: ['episode'] },
+  );
+
+export type RankingExplanationFormValues = z.infer<typeof rankingExplanationFormSchema>;
+
+export const defaultRankingExplanationFormValues: RankingExplanationFormValues = {
+  imdbId: '',
+  type: StreamType.MOVIE,
+  season: null,
+  episode: null,
+  userId: null,
+};
+
+export const criterionLabelLookup = Object.fromEntries(
+  rankingCriterionFields.map(({ name, label }) => [name, label]),
+) as Record<RankingCriterion, string>;
+
+export const episodeMatchConfidenceLabelLookup: Record<EpisodeMatchConfidence, string> = {
+  [EpisodeMatchConfidence.HIGH]: 'Exact episode match',
+  [EpisodeMatchConfidence.MEDIUM]: 'Matched by folder name',
+  [EpisodeMatchConfidence.LOW]: 'Guessed from the file name',
+};
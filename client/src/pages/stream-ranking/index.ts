@@ -0,0 +1 @@
+export { StreamRankingPage as default } from './stream-ranking.page';
@@ -0,0 +1,100 @@
+import { api } from '@/api';
+import { Alert } from '@/components/ui/alert';
+import { Skeleton } from '@/components/ui/skeleton';
+import { QueryKeys } from '@/constants/query-keys';
+import { ROUTES } from '@/constants/routes';
+import { useMe } from '@/hooks/use-me';
+import { HttpError } from '@/lib/errors';
+import { UserRole } from '@server/db/schema/users';
+import { useQuery } from '@tanstack/react-query';
+import { useState, type PropsWithChildren } from 'react';
+import { Redirect } from 'wouter';
+import { RankingCandidateTable } from './components/ranking-candidate-table';
+import { RankingExplanationForm } from './components/ranking-explanation-form';
+import type { RankingExplanationFormValues } from './constants';
+
+const Container = ({ children }: PropsWithChildren) => (
+  <div className="h-full pt-6 pb-24 flex flex-col items-center space-y-8">
+    <h1 className="text-2xl font-semibold text-center">Stream ranking</h1>
+    <p className="text-center text-slate-500 max-w-xl">
+      See every torrent that the sources found for a title, how many points each of them
+      got, and why some of them were left out of the streams.
+    </p>
+    {children}
+  </div>
+);
+
+export const StreamRankingPage = () => {
+  const { data: user } = useMe();
+  const [searched, setSearched] = useState<RankingExplanationFormValues | null>(null);
+  const {
+    data: explanation,
+    isFetching,
+    isError,
+    error,
+  } = useQuery({
+    queryKey: [QueryKeys.STREAM_RANKING, searched],
+    queryFn: async () => {
+      if (!searched) {
+        return null;
+      }
+      const { imdbId, type, season, episode, userId } = searched;
+      const req = await api.debug['stream-ranking'].$get({
+        query: {
+          imdbId,
+          type,
+          ...(season !== null && { season: `${season}` }),
+          ...(episode !== null && { episode: `${episode}` }),
+          ...(userId !== null && { userId: `${userId}` }),
+        },
+      });
+      if (!req.ok) {
+        throw new HttpError(req);
+      }
+      return await req.json();
+    },
+    enabled: !!searched && !!user && user.role === UserRole.ADMIN,
+  });
+
+  if (user && user.role !== UserRole.ADMIN) {
+    return <Redirect to={ROUTES.ACCOUNT} />;
+  }
+
+  return (
+    <Container>
+      <RankingExplanationForm isLoading={isFetching} onSubmit={setSearched} />
+      {isError && (
+        <Alert
+          variant="error"
+          title="An error occured while explaining the ranking"
+          description={error.message}
+        />
+      )}
+      {isFetching && <Skeleton className="w-full h-48 rounded-md" />}
+      {!isFetching && explanation && (
+        <div className="w-full space-y-4">
+          <p className="text-center">
+            Ranked for <strong>{explanation.username}</strong>, with{' '}
+            {explanation.candidates.filter(({ rank }) => rank !== null).length} of{' '}
+            {explanation.candidates.length} torrents listed.
+          </p>
+          {!explanation.isComplete && (
+            <Alert
+              variant="default"
+              title="Some sources were still searching"
+              description="Their torrents are missing from the list, try again in a few seconds."
+            />
+          )}
+          {explanation.blockReasons.length > 0 && (
+            <Alert
+              variant="default"
+              title="The ratio protection blocks new torrents"
+              description={explanation.blockReasons.join('\n')}
+            />
+          )}
+          <RankingCandidateTable candidates={explanation.candidates} />
+        </div>
+      )}
+    </Container>
+  );
+};
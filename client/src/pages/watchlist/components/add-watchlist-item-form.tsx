@@ -0,0 +1,102 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  watchlistItemSchema,
+  type WatchlistItemRequest,
+} from '@server/schemas/watchlist.schema';
+import { StreamType } from '@server/schemas/stream.schema';
+import { FormProvider, useForm } from 'react-hook-form';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { api } from '@/api';
+import { MutationKeys } from '@/constants/mutation-keys';
+import { QueryKeys } from '@/constants/query-keys';
+import { handleError, HttpError } from '@/lib/errors';
+import { streamTypeLabelLookup } from '../constants';
+
+const defaultValues: WatchlistItemRequest = { imdbId: '', type: StreamType.MOVIE };
+
+export const AddWatchlistItemForm = () => {
+  const queryClient = useQueryClient();
+  const form = useForm<WatchlistItemRequest>({
+    resolver: zodResolver(watchlistItemSchema),
+    mode: 'onChange',
+    defaultValues,
+  });
+
+  const { mutateAsync } = useMutation({
+    mutationKey: [MutationKeys.ADD_WATCHLIST_ITEM],
+    mutationFn: async (data: WatchlistItemRequest) => {
+      const req = await api.watchlist.$post({ json: data });
+      if (!req.ok) {
+        throw new HttpError(req);
+      }
+      return await req.json();
+    },
+    onError: (e) => handleError(e, 'Failed to add to the watchlist'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QueryKeys.WATCHLIST] });
+      toast.success('Added to the watchlist');
+    },
+  });
+
+  const onSubmit = form.handleSubmit(async (data) => {
+    await mutateAsync(data);
+    form.reset(defaultValues);
+  });
+
+  return (
+    <FormProvider {...form}>
+      <form className="space-y-6 max-w-[600px]" onSubmit={onSubmit}>
+        <FormField
+          control={form.control}
+          name="imdbId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>IMDb ID</FormLabel>
+              <FormControl>
+                <Input placeholder="tt0133093" {...field} />
+              </FormControl>
+              <FormDescription>
+                The ID in the IMDb URL of the movie or show.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="type"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Type</FormLabel>
+              <Select
+                onChange={field.onChange}
+                onBlur={field.onBlur}
+                value={field.value}
+                options={Object.values(StreamType).map((type) => ({
+                  label: streamTypeLabelLookup[type],
+                  value: type,
+                }))}
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" disabled={form.formState.isSubmitting}>
+          Add to watchlist
+        </Button>
+      </form>
+    </FormProvider>
+  );
+};
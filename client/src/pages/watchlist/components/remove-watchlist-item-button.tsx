@@ -0,0 +1,39 @@
+import { Trash2 } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { api } from '@/api';
+import { Button } from '@/components/ui/button';
+import { MutationKeys } from '@/constants/mutation-keys';
+import { QueryKeys } from '@/constants/query-keys';
+import { handleError, HttpError } from '@/lib/errors';
+
+export const RemoveWatchlistItemButton = ({ imdbId }: { imdbId: string }) => {
+  const queryClient = useQueryClient();
+  const { mutate, isPending } = useMutation({
+    mutationKey: [MutationKeys.REMOVE_WATCHLIST_ITEM, imdbId],
+    mutationFn: async () => {
+      const req = await api.watchlist[':imdbId'].$delete({ param: { imdbId } });
+      if (!req.ok) {
+        throw new HttpError(req);
+      }
+      return await req.json();
+    },
+    onError: (e) => handleError(e, 'Failed to remove from the watchlist'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QueryKeys.WATCHLIST] });
+      toast.success('Removed from the watchlist');
+    },
+  });
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      disabled={isPending}
+      onClick={() => mutate()}
+      aria-label="Remove from the watchlist"
+    >
+      <Trash2 className="w-4 h-4" />
+    </Button>
+  );
+};
@@ -0,0 +1,6 @@
+import { StreamType } from '@server/schemas/stream.schema';
+
+export const streamTypeLabelLookup: Record<StreamType, string> = {
+  [StreamType.MOVIE]: 'Movie',
+  [StreamType.TV_SHOW]: 'Series',
+};
@@ -0,0 +1 @@
+export { WatchlistPage as default } from './watchlist.page';
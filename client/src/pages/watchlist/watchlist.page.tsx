@@ -0,0 +1,105 @@
+import { api } from '@/api';
+import { Alert } from '@/components/ui/alert';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { QueryKeys } from '@/constants/query-keys';
+import { HttpError } from '@/lib/errors';
+import { useQuery } from '@tanstack/react-query';
+import { AddWatchlistItemForm } from './components/add-watchlist-item-form';
+import { RemoveWatchlistItemButton } from './components/remove-watchlist-item-button';
+import { streamTypeLabelLookup } from './constants';
+
+export const WatchlistPage = () => {
+  const {
+    data: items,
+    isLoading,
+    isError,
+    error,
+  } = useQuery({
+    queryKey: [QueryKeys.WATCHLIST],
+    queryFn: async () => {
+      const req = await api.watchlist.$get();
+      if (!req.ok) {
+        throw new HttpError(req);
+      }
+      return await req.json();
+    },
+  });
+
+  return (
+    <div className="h-full pt-6 pb-24 flex flex-col space-y-8">
+      <h1 className="text-2xl font-semibold text-center">Watchlist</h1>
+      <p>
+        The movies and shows on your watchlist are listed in the Watchlist catalog of
+        Stremio on all of your devices, together with the ones that are bookmarked on
+        nCore.
+      </p>
+      <AddWatchlistItemForm />
+      {isError && (
+        <Alert
+          variant="error"
+          title="An error occured while loading your watchlist"
+          description={error.message}
+        />
+      )}
+      {(isLoading || !items) && !isError && <Skeleton />}
+      {items && (
+        <div className="overflow-x-auto w-full">
+          <Table className="w-full">
+            <TableCaption>
+              {items.length === 0 ? 'Your watchlist is empty' : 'Your watchlist'}
+            </TableCaption>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">
+                  <span className="sr-only">Poster</span>
+                </TableHead>
+                <TableHead>Title</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Added</TableHead>
+                <TableHead className="w-12">
+                  <span className="sr-only">Actions</span>
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item) => (
+                <TableRow key={item.imdbId}>
+                  <TableCell>
+                    {item.poster && (
+                      <img className="w-12 rounded" src={item.poster} alt="" />
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <a
+                      className="underline"
+                      href={`https://www.imdb.com/title/${item.imdbId}/`}
+                      target="_blank"
+                      rel="noreferrer"
+                    >
+                      {item.name ?? item.imdbId}
+                    </a>
+                    {item.releaseInfo && ` (${item.releaseInfo})`}
+                  </TableCell>
+                  <TableCell>{streamTypeLabelLookup[item.type]}</TableCell>
+                  <TableCell>{new Date(item.addedAt).toLocaleString()}</TableCell>
+                  <TableCell>
+                    <RemoveWatchlistItemButton imdbId={item.imdbId} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
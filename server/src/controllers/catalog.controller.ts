@@ -0,0 +1,53 @@
+import type { Context } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { catalogQuerySchema } from '@/schemas/catalog.schema';
+import { CATALOG_CACHE_MAX_AGE } from '@/services/manifest';
+import { WATCHLIST_CATALOG_ID, type WatchlistService } from '@/services/watchlist';
+import {
+  DOWNLOADED_CATALOG_ID,
+  DownloadedCatalogSort,
+  type DownloadedMediaService,
+} from '@/services/downloaded-media';
+import type { HonoEnv } from '@/types/hono-env';
+import { HttpStatusCode } from '@/types/http';
+
+const isDownloadedCatalogSort = (genre: string): genre is DownloadedCatalogSort =>
+  (Object.values(DownloadedCatalogSort) as string[]).includes(genre);
+
+/** The catalogs that Stremio shows on the board of the devices. */
+export class CatalogController {
+  constructor(
+    private watchlistService: WatchlistService,
+    private downloadedMediaService: DownloadedMediaService,
+  ) {}
+
+  public async getCatalog(c: Context<HonoEnv>) {
+    const { user } = c.var;
+    if (!user) {
+      throw new HTTPException(HttpStatusCode.UNAUTHORIZED);
+    }
+    const result = catalogQuerySchema.safeParse(c.req.param());
+    if (!result.success) {
+      throw new HTTPException(HttpStatusCode.BAD_REQUEST, {
+        message: result.error.message,
+      });
+    }
+    const { type, catalogId, genre } = result.data;
+
+    switch (catalogId) {
+      case WATCHLIST_CATALOG_ID: {
+        const metas = await this.watchlistService.getCatalog(user.id, type);
+        return c.json({ metas, cacheMaxAge: CATALOG_CACHE_MAX_AGE });
+      }
+      case DOWNLOADED_CATALOG_ID: {
+        const sort = genre && isDownloadedCatalogSort(genre) ? genre : undefined;
+        const metas = await this.downloadedMediaService.getCatalog(type, sort);
+        return c.json({ metas, cacheMaxAge: CATALOG_CACHE_MAX_AGE });
+      }
+      default:
+        throw new HTTPException(HttpStatusCode.NOT_FOUND, {
+          message: `Catalog ${catalogId} not found`,
+        });
+    }
+  }
+}
@@ -2,15 +2,20 @@ import { UserRole } from '@/db/schema/users';
 import { CreateConfigRequest, UpdateConfigRequest } from '@/schemas/config.schema';
 import { ConfigService } from '@/services/config';
 import { TorrentSourceManager } from '@/services/torrent-source';
+import { TorrentSourceConfigService } from '@/services/torrent-source-config';
 import { HonoEnv } from '@/types/hono-env';
 import { HttpStatusCode } from '@/types/http';
 import { Context } from 'hono';
 import { HTTPException } from 'hono/http-exception';
+import { isNotNull } from '@/utils/type-guards';
+import type { RequestScheduler } from '@/utils/request-scheduler';
 
 export class ConfigController {
   constructor(
     private configService: ConfigService,
     private torrentSourceManager: TorrentSourceManager,
+    private torrentSourceConfigService: TorrentSourceConfigService,
+    private ncoreScheduler: RequestScheduler,
   ) {}
 
   public async getIsConfigured(c: Context<HonoEnv>) {
@@ -42,6 +47,18 @@ export class ConfigController {
         throw new HTTPException(HttpStatusCode.UNAUTHORIZED);
       }
 
+      // the credentials are checked before anything is saved
+      const issues = await Promise.all(
+        data.torrentSources.map(async (source) => {
+          const issue = await this.torrentSourceConfigService.getConfigIssues(source);
+          return issue ? `${source.displayName}: ${issue}` : null;
+        }),
+      );
+      const message = issues.filter(isNotNull).join('\n');
+      if (message) {
+        return c.json({ message }, HttpStatusCode.BAD_REQUEST);
+      }
+
       await this.configService.createConfig(data);
       console.log('Configuration created successfully.');
       return c.json({ message: 'Configuration created successfully.' });
@@ -74,4 +91,18 @@ export class ConfigController {
     const issues = await this.torrentSourceManager.getSourceConfigIssues();
     return c.json(issues);
   }
+
+  public async getTorrentSourceHealth(c: Context<HonoEnv>) {
+    return c.json(this.torrentSourceManager.getSourceHealth());
+  }
+
+  /** The ratio and the hit'n'run status of the nCore accounts. */
+  public async getNcoreAccounts(c: Context<HonoEnv>) {
+    return c.json(await this.torrentSourceManager.getNcoreAccounts());
+  }
+
+  /** The queue of the requests to nCore, to help tuning its rate limit. */
+  public async getNcoreSchedulerMetrics(c: Context<HonoEnv>) {
+    return c.json(this.ncoreScheduler.getMetrics());
+  }
 }
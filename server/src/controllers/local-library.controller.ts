@@ -0,0 +1,72 @@
+import type { Context } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import type { LocalLibraryService, LocalMediaFile } from '@/services/local-library';
+import type { UpsertLocalMediaMappingRequest } from '@/schemas/local-library.schema';
+import type { HonoEnv } from '@/types/hono-env';
+import { HttpStatusCode } from '@/types/http';
+import { isInteger } from '@/utils/numbers';
+
+export class LocalLibraryController {
+  constructor(private localLibraryService: LocalLibraryService | null) {}
+
+  private getLocalLibraryServiceOrThrow(): LocalLibraryService {
+    if (!this.localLibraryService) {
+      throw new HTTPException(HttpStatusCode.NOT_FOUND, {
+        message: 'The local library is not configured.',
+      });
+    }
+    return this.localLibraryService;
+  }
+
+  /** The absolute path is not exposed, because the play URL only needs the ID. */
+  private toFileResponse(file: LocalMediaFile) {
+    return {
+      id: file.id,
+      path: file.path,
+      name: file.name,
+      size: file.size,
+      title: file.title,
+      year: file.year,
+      imdbId: file.imdbId,
+      seasons: file.seasons,
+      episodes: file.episodes,
+      language: file.language,
+      matchedBy: file.matchedBy,
+    };
+  }
+
+  public async getFiles(c: Context<HonoEnv>) {
+    const files = await this.getLocalLibraryServiceOrThrow().getFiles();
+    return c.json(files.map(this.toFileResponse));
+  }
+
+  public async scanLibrary(c: Context<HonoEnv>) {
+    const files = await this.getLocalLibraryServiceOrThrow().scanLibrary();
+    return c.json(files.map(this.toFileResponse));
+  }
+
+  public async getMappings(c: Context<HonoEnv>) {
+    const mappings = await this.getLocalLibraryServiceOrThrow().getMappings();
+    return c.json(mappings);
+  }
+
+  public async upsertMapping(
+    c: Context<HonoEnv, string, { out: { json: UpsertLocalMediaMappingRequest } }>,
+  ) {
+    const mapping = await this.getLocalLibraryServiceOrThrow().upsertMapping(
+      c.req.valid('json'),
+    );
+    return c.json(mapping);
+  }
+
+  public async deleteMapping(c: Context<HonoEnv, '/local-library/mappings/:mappingId'>) {
+    const mappingId = c.req.param('mappingId');
+    if (!isInteger(mappingId)) {
+      throw new HTTPException(HttpStatusCode.BAD_REQUEST, {
+        message: 'Invalid mapping ID',
+      });
+    }
+    await this.getLocalLibraryServiceOrThrow().deleteMapping(Number(mappingId));
+    return c.json({ message: 'Mapping deleted successfully' });
+  }
+}
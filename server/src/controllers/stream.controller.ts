@@ -1,16 +1,41 @@
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
 import type { Context } from 'hono';
+import type WebTorrent from 'webtorrent';
 import { HTTPException } from 'hono/http-exception';
 import mime from 'mime';
 import path from 'path';
-import { streamQuerySchema } from '@/schemas/stream.schema';
+import { streamQuerySchema, type RankingExplanationQuery } from '@/schemas/stream.schema';
 import type { TorrentService } from '@/services/torrent';
-import type { StreamService } from '@/services/stream';
+import type { RankingExplanation, StreamService } from '@/services/stream';
 import type { UserService } from '@/services/user';
 import type { TorrentStoreService } from '@/services/torrent-store';
-import { playSchema } from '@/schemas/play.schema';
+import {
+  playLocalFileSchema,
+  playSchema,
+  resolveAndPlaySchema,
+} from '@/schemas/play.schema';
 import { parseRangeHeader } from '@/utils/parse-range-header';
+import { concatenateStreams, mapRangeToParts } from '@/utils/concatenated-files';
 import { HttpStatusCode } from '@/types/http';
-import type { TorrentSourceManager } from '@/services/torrent-source';
+import {
+  decodeSourceReferences,
+  encodeSourceReferences,
+  resolveEpisodeFile,
+  resolveMainFile,
+  type TorrentSourceManager,
+  type TorrentSourceReference,
+} from '@/services/torrent-source';
+import type { ParsedTorrentDetails } from '@/services/torrent/types';
+import type { LocalLibraryService } from '@/services/local-library';
+import type { RatioProtectionService } from '@/services/ratio-protection';
+import type { DownloadedMediaService } from '@/services/downloaded-media';
+import type { RarArchiveService } from '@/services/rar-archive';
+import { isFirstRarVolume } from '@/utils/rar-volumes';
+import type { HonoEnv } from '@/types/hono-env';
+
+// For resumed playback (start > 0), prioritize a larger block.
+const FAST_START_CHUNK_SIZE = 2 * 1024 * 1024; // 30 MB
 
 export class StreamController {
   // In-memory cache for MIME lookups.
@@ -22,103 +47,383 @@ export class StreamController {
     private streamService: StreamService,
     private userService: UserService,
     private torrentStoreService: TorrentStoreService,
+    private localLibraryService: LocalLibraryService | null,
+    private ratioProtectionService: RatioProtectionService,
+    private downloadedMediaService: DownloadedMediaService,
+    private rarArchiveService: RarArchiveService,
   ) {}
 
   public async getStreamsForMedia(c: Context) {
     const params = c.req.param();
     const result = streamQuerySchema.safeParse(params);
     if (!result.success) {
-      throw new HTTPException(HttpStatusCode.BAD_REQUEST, { message: result.error.message });
+      throw new HTTPException(HttpStatusCode.BAD_REQUEST, {
+        message: result.error.message,
+      });
     }
     const { imdbId, type, episode, season, deviceToken } = result.data;
 
     // Run independent async operations in parallel.
-    const [user, torrents] = await Promise.all([
+    const [user, { torrents, isComplete }] = await Promise.all([
       this.userService.getUserByDeviceTokenOrThrow(deviceToken),
-      this.torrentSource.getTorrentsForImdbId({ imdbId, type, season, episode }),
+      this.torrentSource.getAvailableTorrentsForImdbId({ imdbId, type, season, episode }),
     ]);
 
-    const orderedTorrents = await this.streamService.orderTorrents({ torrents, season, episode, user });
+    const { torrents: playableTorrents, blockReasons } =
+      await this.ratioProtectionService.filterPlayableTorrents(torrents);
+    const orderedTorrents = await this.streamService.orderTorrents({
+      torrents: playableTorrents,
+      season,
+      episode,
+      user,
+    });
 
     // Map each torrent to a stream conversion.
-    const streams = orderedTorrents.map((torrent, i) =>
-      this.streamService.convertTorrentToStream({
+    const streams = orderedTorrents.flatMap((torrent, i) =>
+      this.streamService.convertTorrentToStreams({
         torrent,
         isRecommended: i === 0,
         deviceToken,
         season,
         episode,
-      })
+        imdbId,
+        type,
+        user,
+      }),
+    );
+    if (blockReasons.length > 0) {
+      streams.unshift(this.streamService.createRatioProtectionStream(blockReasons));
+    }
+    const cacheHints = this.streamService.getCacheHints(isComplete);
+    c.header('Cache-Control', this.streamService.getCacheControlHeader(cacheHints));
+    return c.json({ streams, ...cacheHints });
+  }
+
+  /**
+   * Answers why the streams of a title are listed in their order: every torrent that the
+   * sources found, with the points of each criterion, or why it was left out.
+   */
+  public async explainRanking(
+    c: Context<HonoEnv, string, { out: { query: RankingExplanationQuery } }>,
+  ) {
+    const { imdbId, type, season, episode, userId } = c.req.valid('query');
+    const user =
+      userId === undefined ? c.var.user : await this.userService.getUserById(userId);
+    if (!user) {
+      throw new HTTPException(HttpStatusCode.UNAUTHORIZED);
+    }
+    const { torrents, isComplete } =
+      await this.torrentSource.getAvailableTorrentsForImdbId({
+        imdbId,
+        type,
+        season,
+        episode,
+      });
+    const { torrents: playableTorrents, blockReasons } =
+      await this.ratioProtectionService.filterPlayableTorrents(torrents);
+    const explanation: RankingExplanation = {
+      username: user.username,
+      rankingProfile: user.rankingProfile,
+      isComplete,
+      blockReasons,
+      candidates: this.streamService.explainRanking({
+        torrents,
+        playableTorrents,
+        user,
+        season,
+        episode,
+      }),
+    };
+    return c.json(explanation);
+  }
+
+  /** Tries the sources in order, until the torrent file is downloaded from one of them. */
+  private async downloadTorrentFile(sources: TorrentSourceReference[]): Promise<string> {
+    for (const source of sources) {
+      try {
+        const torrentUrl = await this.torrentSource.getTorrentUrlBySourceId(source);
+        if (torrentUrl) {
+          return await this.torrentService.downloadTorrentFile(torrentUrl);
+        }
+      } catch (error) {
+        console.error(`Failed to download the torrent from ${source.sourceName}`, error);
+      }
+    }
+    throw new HTTPException(HttpStatusCode.NOT_FOUND, {
+      message: 'Torrent not found',
+    });
+  }
+
+  /** Tries the sources in order, until the metadata of the torrent is found on one of them. */
+  private async getTorrentMetadata(
+    sources: TorrentSourceReference[],
+  ): Promise<{ source: TorrentSourceReference; metadata: ParsedTorrentDetails }> {
+    for (const source of sources) {
+      try {
+        const metadata = await this.torrentService.getTorrentMetadata(
+          source,
+          async () => {
+            const torrentUrl = await this.torrentSource.getTorrentUrlBySourceId(source);
+            if (!torrentUrl) {
+              throw new Error(`No torrent URL for ${source.sourceId}`);
+            }
+            return torrentUrl;
+          },
+        );
+        return { source, metadata };
+      } catch (error) {
+        console.error(`Failed to get the torrent from ${source.sourceName}`, error);
+      }
+    }
+    throw new HTTPException(HttpStatusCode.NOT_FOUND, {
+      message: 'Torrent not found',
+    });
+  }
+
+  /**
+   * Finds the file of a torrent that was listed without its files, and redirects to
+   * its play URL. The metadata is saved, so it's only downloaded on the first request.
+   */
+  public async resolveAndPlay(c: Context) {
+    const result = resolveAndPlaySchema.safeParse({ ...c.req.query(), ...c.req.param() });
+    if (!result.success) {
+      throw new HTTPException(HttpStatusCode.BAD_REQUEST, {
+        message: result.error.message,
+      });
+    }
+    const {
+      deviceToken,
+      sourceName,
+      sourceId,
+      season,
+      episode,
+      fallbacks,
+      imdbId,
+      type,
+    } = result.data;
+
+    const sources: TorrentSourceReference[] = [
+      { sourceName, sourceId },
+      ...(fallbacks ? decodeSourceReferences(fallbacks) : []),
+    ];
+    const { source, metadata } = await this.getTorrentMetadata(sources);
+    const fileIndex =
+      season !== undefined && episode !== undefined
+        ? (resolveEpisodeFile(metadata.files, { season, episode })?.fileIndex ?? -1)
+        : resolveMainFile(metadata.files);
+    if (fileIndex < 0) {
+      throw new HTTPException(HttpStatusCode.NOT_FOUND, {
+        message: 'The file was not found in the torrent',
+      });
+    }
+
+    const otherSources = sources.filter((other) => other !== source);
+    const query = new URLSearchParams();
+    if (otherSources.length > 0) {
+      query.set('fallbacks', encodeSourceReferences(otherSources));
+    }
+    if (imdbId && type) {
+      query.set('imdbId', imdbId);
+      query.set('type', type);
+    }
+    const queryString = query.size > 0 ? `?${query.toString()}` : '';
+    const playPath = [
+      source.sourceName,
+      source.sourceId,
+      metadata.infoHash,
+      `${fileIndex}`,
+    ]
+      .map(encodeURIComponent)
+      .join('/');
+    // 307 keeps the method, because players send HEAD requests too
+    return c.redirect(
+      `/api/auth/${deviceToken}/stream/play/${playPath}${queryString}`,
+      HttpStatusCode.TEMPORARY_REDIRECT,
     );
-    return c.json({ streams });
   }
 
   public async play(c: Context) {
-    const params = c.req.param();
-    const result = playSchema.safeParse(params);
+    const result = playSchema.safeParse({ ...c.req.query(), ...c.req.param() });
     if (!result.success) {
-      throw new HTTPException(HttpStatusCode.BAD_REQUEST, { message: result.error.message });
+      throw new HTTPException(HttpStatusCode.BAD_REQUEST, {
+        message: result.error.message,
+      });
     }
-    const { sourceName, sourceId, infoHash, fileIdx } = result.data;
+    const { sourceName, sourceId, infoHash, fileIdx, fallbacks, imdbId, type } =
+      result.data;
 
     let torrent = await this.torrentStoreService.getTorrent(infoHash);
     if (!torrent) {
-      const torrentUrl = await this.torrentSource.getTorrentUrlBySourceId({ sourceId, sourceName });
-      if (!torrentUrl) {
-        throw new HTTPException(HttpStatusCode.NOT_FOUND, { message: 'Torrent not found' });
+      const blockReason = await this.ratioProtectionService.getBlockReason({
+        sourceName,
+        sourceId,
+      });
+      if (blockReason) {
+        throw new HTTPException(HttpStatusCode.FORBIDDEN, {
+          message: `Ratio protection: ${blockReason}`,
+        });
       }
-      const torrentFilePath = await this.torrentService.downloadTorrentFile(torrentUrl);
+      const torrentFilePath = await this.downloadTorrentFile([
+        { sourceName, sourceId },
+        ...(fallbacks ? decodeSourceReferences(fallbacks) : []),
+      ]);
       torrent = await this.torrentStoreService.addTorrent(torrentFilePath);
+      if (imdbId && type) {
+        await this.downloadedMediaService.trackDownload({
+          infoHash: torrent.infoHash,
+          imdbId,
+          type,
+        });
+      }
     }
 
-    const index = Number(fileIdx);
-    if (index < 0 || index >= torrent.files.length) {
-      throw new HTTPException(HttpStatusCode.BAD_REQUEST, { message: 'Invalid file index' });
+    if (fileIdx.some((index) => index >= torrent.files.length)) {
+      throw new HTTPException(HttpStatusCode.BAD_REQUEST, {
+        message: 'Invalid file index',
+      });
     }
-    const file = torrent.files[index];
+    const files = fileIdx.map((index) => torrent.files[index]);
+    if (files.length === 1 && isFirstRarVolume(files[0].path)) {
+      return this.playArchivedVideo(c, torrent, fileIdx[0]);
+    }
+    const partLengths = files.map((file) => file.length);
+
+    return this.createRangeResponse(c, {
+      filePath: files[0].path,
+      fileLength: partLengths.reduce((length, partLength) => length + partLength, 0),
+      // the parts of multi-part movies are streamed as if they were one file
+      createStream: ({ start, end }) =>
+        concatenateStreams(
+          mapRangeToParts(partLengths, { start, end }).map(
+            ({ partIndex, start, end }) =>
+              () =>
+                files[partIndex].stream({ start, end }),
+          ),
+        ),
+      onResume: (start) => {
+        const [part] = mapRangeToParts(partLengths, { start, end: start });
+        if (torrent.pieceLength && part) {
+          this.torrentStoreService.prioritizeFileDownload(
+            torrent,
+            fileIdx[part.partIndex],
+            part.start,
+            FAST_START_CHUNK_SIZE,
+          );
+        }
+      },
+    });
+  }
 
+  /** Streams the video of a RAR archive from its volumes, without extracting it. */
+  private async playArchivedVideo(
+    c: Context,
+    torrent: WebTorrent.Torrent,
+    fileIndex: number,
+  ) {
+    const archive = await this.rarArchiveService.getArchive(torrent.infoHash, fileIndex);
+    return this.createRangeResponse(c, {
+      filePath: archive.file.name,
+      fileLength: archive.file.size,
+      createStream: (range) =>
+        this.rarArchiveService.createRangeStream(torrent, archive, range),
+      onResume: (start) => {
+        const position = this.rarArchiveService.getVolumePosition(archive, start);
+        if (torrent.pieceLength && position) {
+          this.torrentStoreService.prioritizeFileDownload(
+            torrent,
+            position.fileIndex,
+            position.offset,
+            FAST_START_CHUNK_SIZE,
+          );
+        }
+      },
+    });
+  }
+
+  public async playLocalFile(c: Context) {
+    const params = c.req.param();
+    const result = playLocalFileSchema.safeParse(params);
+    if (!result.success) {
+      throw new HTTPException(HttpStatusCode.BAD_REQUEST, {
+        message: result.error.message,
+      });
+    }
+    const { fileId } = result.data;
+    const file = await this.localLibraryService?.getFileById(fileId);
+    if (!file) {
+      throw new HTTPException(HttpStatusCode.NOT_FOUND, { message: 'File not found' });
+    }
+
+    return this.createRangeResponse(c, {
+      filePath: file.path,
+      fileLength: file.size,
+      createStream: ({ start, end }) =>
+        Readable.toWeb(
+          createReadStream(file.absolutePath, { start, end }),
+        ) as ReadableStream,
+    });
+  }
+
+  /**
+   * Responds with the requested byte range of a file, so that players can seek in it.
+   */
+  private async createRangeResponse(
+    c: Context,
+    {
+      filePath,
+      fileLength,
+      createStream,
+      onResume,
+    }: {
+      filePath: string;
+      fileLength: number;
+      createStream: (range: {
+        start: number;
+        end: number;
+      }) => BodyInit | Promise<BodyInit>;
+      onResume?: (start: number) => void;
+    },
+  ) {
     // Get MIME type from file extension.
-    const ext = path.extname(file.path);
+    const ext = path.extname(filePath);
     let fileType = this.mimeCache.get(ext);
     if (!fileType) {
-      fileType = mime.getType(file.path) || 'application/octet-stream';
+      fileType = mime.getType(filePath) || 'application/octet-stream';
       this.mimeCache.set(ext, fileType);
     }
 
     if (c.req.method === 'HEAD') {
       return c.body(null, 200, {
-        'Content-Length': `${file.length}`,
+        'Content-Length': `${fileLength}`,
         'Content-Type': fileType,
       });
     }
 
     // Parse the Range header.
-    const range = parseRangeHeader(c.req.header('range'), file.length);
+    const range = parseRangeHeader(c.req.header('range'), fileLength);
     if (!range) {
-      return c.body(null, 416, { 'Content-Range': `bytes */${file.length}` });
+      return c.body(null, 416, { 'Content-Range': `bytes */${fileLength}` });
     }
-    let { start, end } = range;
+    const { start } = range;
+    let { end } = range;
 
     // For an initial request (starting at 0), extend the range to at least MIN_INITIAL_CHUNK_SIZE.
     const MIN_INITIAL_CHUNK_SIZE = 1 * 1024 * 1024; // 10 MB
     if (start === 0) {
       const currentSize = end - start + 1;
       if (currentSize < MIN_INITIAL_CHUNK_SIZE) {
-        end = Math.min(file.length - 1, start + MIN_INITIAL_CHUNK_SIZE - 1);
+        end = Math.min(fileLength - 1, start + MIN_INITIAL_CHUNK_SIZE - 1);
       }
-    }
-    // For resumed playback (start > 0), prioritize a larger block.
-    else if (torrent.pieceLength) {
-      const FAST_START_CHUNK_SIZE = 2 * 1024 * 1024; // 30 MB
-      this.torrentStoreService.prioritizeFileDownload(torrent, index, start, FAST_START_CHUNK_SIZE);
+    } else {
+      onResume?.(start);
     }
 
     // Create a stream for the determined byte range.
-    const stream = file.stream({ start, end });
+    const stream = await createStream({ start, end });
     return new Response(stream, {
       status: 206,
       headers: {
-        'Content-Range': `bytes ${start}-${end}/${file.length}`,
+        'Content-Range': `bytes ${start}-${end}/${fileLength}`,
         'Content-Length': `${end - start + 1}`,
         'Content-Type': fileType,
         'Accept-Ranges': 'bytes',
@@ -0,0 +1,48 @@
+import type { Context } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { subtitleFileSchema, subtitlesQuerySchema } from '@/schemas/subtitle.schema';
+import {
+  NO_SUBTITLES_CACHE_MAX_AGE,
+  SUBTITLES_CACHE_MAX_AGE,
+  type SubtitleService,
+} from '@/services/subtitle';
+import { HttpStatusCode } from '@/types/http';
+
+export class SubtitleController {
+  constructor(private subtitleService: SubtitleService) {}
+
+  public async getSubtitles(c: Context) {
+    const result = subtitlesQuerySchema.safeParse(c.req.param());
+    if (!result.success) {
+      throw new HTTPException(HttpStatusCode.BAD_REQUEST, {
+        message: result.error.message,
+      });
+    }
+    const subtitles = await this.subtitleService.getSubtitles(result.data);
+    return c.json({
+      subtitles,
+      cacheMaxAge:
+        subtitles.length > 0 ? SUBTITLES_CACHE_MAX_AGE : NO_SUBTITLES_CACHE_MAX_AGE,
+    });
+  }
+
+  public async getSubtitleFile(c: Context) {
+    const result = subtitleFileSchema.safeParse(c.req.param());
+    if (!result.success) {
+      throw new HTTPException(HttpStatusCode.BAD_REQUEST, {
+        message: result.error.message,
+      });
+    }
+    const { infoHash, fileIdx, trackNumber } = result.data;
+    const vtt =
+      trackNumber !== undefined
+        ? await this.subtitleService.getEmbeddedSubtitleFile(
+            infoHash,
+            fileIdx,
+            trackNumber,
+          )
+        : await this.subtitleService.getSubtitleFile(infoHash, fileIdx);
+    c.header('Content-Type', 'text/vtt; charset=utf-8');
+    return c.body(vtt);
+  }
+}
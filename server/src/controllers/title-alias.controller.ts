@@ -0,0 +1,50 @@
+import type { Context } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import type { TitleAliasRequest } from '@/schemas/title-alias.schema';
+import type { TitleAliasService } from '@/services/title-alias';
+import type { HonoEnv } from '@/types/hono-env';
+import { HttpStatusCode } from '@/types/http';
+import { isInteger } from '@/utils/numbers';
+
+type AliasIdPath = '/title-aliases/:aliasId';
+
+export class TitleAliasController {
+  constructor(private titleAliasService: TitleAliasService) {}
+
+  private getAliasId(c: Context<HonoEnv, AliasIdPath>): number {
+    const aliasId = c.req.param('aliasId');
+    if (!isInteger(aliasId)) {
+      throw new HTTPException(HttpStatusCode.BAD_REQUEST, {
+        message: 'Invalid title alias ID',
+      });
+    }
+    return Number(aliasId);
+  }
+
+  public async getAliases(c: Context<HonoEnv>) {
+    const aliases = await this.titleAliasService.getAliases();
+    return c.json(aliases);
+  }
+
+  public async createAlias(
+    c: Context<HonoEnv, string, { out: { json: TitleAliasRequest } }>,
+  ) {
+    const alias = await this.titleAliasService.createAlias(c.req.valid('json'));
+    return c.json(alias);
+  }
+
+  public async updateAlias(
+    c: Context<HonoEnv, AliasIdPath, { out: { json: TitleAliasRequest } }>,
+  ) {
+    const alias = await this.titleAliasService.updateAlias(
+      this.getAliasId(c),
+      c.req.valid('json'),
+    );
+    return c.json(alias);
+  }
+
+  public async deleteAlias(c: Context<HonoEnv, AliasIdPath>) {
+    await this.titleAliasService.deleteAlias(this.getAliasId(c));
+    return c.json({ message: 'Title alias deleted successfully' });
+  }
+}
@@ -0,0 +1,20 @@
+import type { Context } from 'hono';
+import type { TorrentMetadataService } from '@/services/torrent-metadata';
+import type { HonoEnv } from '@/types/hono-env';
+
+export class TorrentMetadataController {
+  constructor(private torrentMetadataService: TorrentMetadataService) {}
+
+  public async getStats(c: Context<HonoEnv>) {
+    const { count, oldestFetchedAt } = this.torrentMetadataService.getStats();
+    return c.json({ count, oldestFetchedAt: oldestFetchedAt?.toISOString() ?? null });
+  }
+
+  /** The `sourceName` query parameter limits the purge to one torrent source. */
+  public async purgeMetadata(c: Context<HonoEnv>) {
+    const deletedCount = this.torrentMetadataService.purgeMetadata(
+      c.req.query('sourceName') || undefined,
+    );
+    return c.json({ deletedCount });
+  }
+}
@@ -0,0 +1,100 @@
+import type { Context } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import type { TorrentSourceConfig } from '@/db/schema/torrent-sources';
+import type {
+  CreateTorrentSourceRequest,
+  SetTorrentSourceEnabledRequest,
+  UpdateTorrentSourceRequest,
+} from '@/schemas/torrent-source.schema';
+import type { TorrentSourceConfigService } from '@/services/torrent-source-config';
+import type { HonoEnv } from '@/types/hono-env';
+import type { TorrentSourceResponse } from '@/types/torrent-source';
+import { HttpStatusCode } from '@/types/http';
+import { isInteger } from '@/utils/numbers';
+
+type SourceIdPath = '/config/torrent-sources/:sourceId';
+
+export class TorrentSourceConfigController {
+  constructor(private torrentSourceConfigService: TorrentSourceConfigService) {}
+
+  /** Secrets are not sent back, the client only needs to know if they are set. */
+  private toSourceResponse(source: TorrentSourceConfig): TorrentSourceResponse {
+    return {
+      id: source.id,
+      type: source.type,
+      displayName: source.displayName,
+      enabled: source.enabled,
+      url: source.url,
+      username: source.username,
+      hasPassword: !!source.password,
+      hasApiKey: !!source.apiKey,
+    };
+  }
+
+  private getSourceId(c: Context<HonoEnv, SourceIdPath>): number {
+    const sourceId = c.req.param('sourceId');
+    if (!isInteger(sourceId)) {
+      throw new HTTPException(HttpStatusCode.BAD_REQUEST, {
+        message: 'Invalid torrent source ID',
+      });
+    }
+    return Number(sourceId);
+  }
+
+  public async getSources(c: Context<HonoEnv>) {
+    const sources = await this.torrentSourceConfigService.getSources();
+    return c.json(sources.map(this.toSourceResponse));
+  }
+
+  public async createSource(
+    c: Context<HonoEnv, string, { out: { json: CreateTorrentSourceRequest } }>,
+  ) {
+    const source = await this.torrentSourceConfigService.createSource(
+      c.req.valid('json'),
+    );
+    return c.json(this.toSourceResponse(source));
+  }
+
+  public async updateSource(
+    c: Context<HonoEnv, SourceIdPath, { out: { json: UpdateTorrentSourceRequest } }>,
+  ) {
+    const source = await this.torrentSourceConfigService.updateSource(
+      this.getSourceId(c),
+      c.req.valid('json'),
+    );
+    return c.json(this.toSourceResponse(source));
+  }
+
+  public async setSourceEnabled(
+    c: Context<HonoEnv, SourceIdPath, { out: { json: SetTorrentSourceEnabledRequest } }>,
+  ) {
+    const { enabled } = c.req.valid('json');
+    const source = await this.torrentSourceConfigService.setSourceEnabled(
+      this.getSourceId(c),
+      enabled,
+    );
+    return c.json(this.toSourceResponse(source));
+  }
+
+  public async deleteSource(c: Context<HonoEnv, SourceIdPath>) {
+    await this.torrentSourceConfigService.deleteSource(this.getSourceId(c));
+    return c.json({ message: 'Torrent source deleted successfully' });
+  }
+
+  public async testSource(c: Context<HonoEnv, SourceIdPath>) {
+    const issue = await this.torrentSourceConfigService.getConfigIssuesById(
+      this.getSourceId(c),
+    );
+    return c.json({ issue });
+  }
+
+  /** Checks the credentials before they are saved, e.g. in the setup wizard. */
+  public async testNewSource(
+    c: Context<HonoEnv, string, { out: { json: CreateTorrentSourceRequest } }>,
+  ) {
+    const issue = await this.torrentSourceConfigService.getConfigIssues(
+      c.req.valid('json'),
+    );
+    return c.json({ issue });
+  }
+}
@@ -8,6 +8,7 @@ import {
   UpdatePasswordRequest,
   User,
 } from '@/types/user';
+import type { RankingProfile } from '@/schemas/ranking-profile.schema';
 import { isInteger } from '@/utils/numbers';
 import { Context } from 'hono';
 import { HTTPException } from 'hono/http-exception';
@@ -72,6 +73,25 @@ export class UserController {
     return c.json({ message: 'Password updated successfully' });
   }
 
+  public async updateRankingProfile(
+    c: Context<
+      HonoEnv,
+      '/users/:userId/ranking-profile',
+      { out: { json: RankingProfile } }
+    >,
+  ) {
+    const userId = c.req.param('userId');
+    if (!isInteger(userId)) {
+      throw new HTTPException(HttpStatusCode.BAD_REQUEST, { message: 'Invalid user ID' });
+    }
+    const rankingProfile = c.req.valid('json');
+    const updatedUser = await this.userService.updateRankingProfile(
+      Number(userId),
+      rankingProfile,
+    );
+    return c.json(updatedUser);
+  }
+
   public async deleteUser(c: Context<HonoEnv, `/users/:userId`>) {
     const { user } = c.var;
     if (!user || user.role !== UserRole.ADMIN) {
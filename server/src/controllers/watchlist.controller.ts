@@ -0,0 +1,34 @@
+import type { Context } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import type { WatchlistItemRequest } from '@/schemas/watchlist.schema';
+import type { WatchlistService } from '@/services/watchlist';
+import type { HonoEnv } from '@/types/hono-env';
+import { HttpStatusCode } from '@/types/http';
+
+export class WatchlistController {
+  constructor(private watchlistService: WatchlistService) {}
+
+  private getUser(c: Context<HonoEnv>) {
+    const { user } = c.var;
+    if (!user) {
+      throw new HTTPException(HttpStatusCode.UNAUTHORIZED);
+    }
+    return user;
+  }
+
+  public async getItems(c: Context<HonoEnv>) {
+    return c.json(await this.watchlistService.getItems(this.getUser(c).id));
+  }
+
+  public async addItem(
+    c: Context<HonoEnv, string, { out: { json: WatchlistItemRequest } }>,
+  ) {
+    await this.watchlistService.addItem(this.getUser(c).id, c.req.valid('json'));
+    return c.json({ message: 'Added to the watchlist' });
+  }
+
+  public async removeItem(c: Context<HonoEnv, '/watchlist/:imdbId'>) {
+    await this.watchlistService.removeItem(this.getUser(c).id, c.req.param('imdbId'));
+    return c.json({ message: 'Removed from the watchlist' });
+  }
+}
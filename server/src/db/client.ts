@@ -6,6 +6,10 @@ import { env } from '@/env';
 import { SQLiteTransaction } from 'drizzle-orm/sqlite-core';
 import { ExtractTablesWithRelations } from 'drizzle-orm';
 import { existsSync, mkdirSync } from 'fs';
+import { initSecretCipher } from '@/secrets';
+
+// the addon refuses to start without the master key, because the secrets can't be read
+initSecretCipher();
 
 const configDir = resolve(env.ADDON_DIR, 'config');
 
@@ -0,0 +1,15 @@
+import { customType } from 'drizzle-orm/sqlite-core';
+import { getSecretCipher, isEncrypted } from '../../secrets/active-cipher';
+
+/**
+ * A text column that is encrypted with the master key before it's saved.
+ * New columns have to be added to `ENCRYPTED_COLUMNS` as well, so that they are
+ * re-encrypted when the key is rotated.
+ */
+export const encryptedText = customType<{ data: string; driverData: string }>({
+  dataType: () => 'text',
+  toDriver: (value) => getSecretCipher().encrypt(value),
+  fromDriver: (value) =>
+    // values saved before the encryption are encrypted on startup
+    isEncrypted(value) ? getSecretCipher().decrypt(value) : value,
+});
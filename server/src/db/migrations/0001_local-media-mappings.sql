@@ -0,0 +1,9 @@
+CREATE TABLE `local_media_mappings` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`path` text NOT NULL,
+	`imdb_id` text NOT NULL,
+	`season` integer,
+	`episode` integer
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `local_media_mappings_path_unique` ON `local_media_mappings` (`path`);
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE `torrent_sources` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`type` text NOT NULL,
+	`display_name` text NOT NULL,
+	`enabled` integer DEFAULT true NOT NULL,
+	`url` text NOT NULL,
+	`username` text,
+	`password` text,
+	`api_key` text
+);
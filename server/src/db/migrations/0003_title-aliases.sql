@@ -0,0 +1,7 @@
+CREATE TABLE `title_aliases` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`imdb_id` text NOT NULL,
+	`title` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `title_aliases_imdb_id_title_unique` ON `title_aliases` (`imdb_id`,`title`);
\ No newline at end of file
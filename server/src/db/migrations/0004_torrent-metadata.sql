@@ -0,0 +1,10 @@
+CREATE TABLE `torrent_metadata` (
+	`source_name` text NOT NULL,
+	`source_id` text NOT NULL,
+	`info_hash` text NOT NULL,
+	`files` text NOT NULL,
+	`category` text,
+	`release_name` text,
+	`fetched_at` integer NOT NULL,
+	PRIMARY KEY(`source_name`, `source_id`)
+);
@@ -0,0 +1,6 @@
+CREATE TABLE `ncore_sessions` (
+	`source_name` text PRIMARY KEY NOT NULL,
+	`username` text NOT NULL,
+	`cookie` text NOT NULL,
+	`expires_at` integer NOT NULL
+);
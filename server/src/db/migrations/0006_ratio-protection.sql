@@ -0,0 +1,3 @@
+ALTER TABLE `configuration` ADD `min_ratio` real;--> statement-breakpoint
+ALTER TABLE `configuration` ADD `max_open_hitnruns` integer;--> statement-breakpoint
+ALTER TABLE `configuration` ADD `max_downloading_torrents` integer;
\ No newline at end of file
@@ -0,0 +1,8 @@
+CREATE TABLE `watchlist` (
+	`user_id` integer NOT NULL,
+	`imdb_id` text NOT NULL,
+	`type` text NOT NULL,
+	`added_at` integer NOT NULL,
+	PRIMARY KEY(`user_id`, `imdb_id`),
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
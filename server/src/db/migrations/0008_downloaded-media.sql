@@ -0,0 +1,6 @@
+CREATE TABLE `downloaded_media` (
+	`info_hash` text PRIMARY KEY NOT NULL,
+	`imdb_id` text NOT NULL,
+	`type` text NOT NULL,
+	`added_at` integer NOT NULL
+);
@@ -0,0 +1,2 @@
+ALTER TABLE `users` ADD `excluded_release_attributes` text DEFAULT '[]' NOT NULL;--> statement-breakpoint
+ALTER TABLE `users` ADD `preferred_release_attributes` text DEFAULT '[]' NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `users` ADD `ranking_profile` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `users` ADD `show_all_movie_files` integer DEFAULT false NOT NULL;
\ No newline at end of file
@@ -1,10 +1,13 @@
-import { sqliteTable, integer, text } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, integer, real, text } from 'drizzle-orm/sqlite-core';
 
 export const configurationTable = sqliteTable('configuration', {
   id: integer().primaryKey({ autoIncrement: true }),
   addonUrl: text().notNull(),
   deleteAfterHitnrun: integer({ mode: 'boolean' }).notNull().default(false),
   deleteAfterHitnrunCron: text().notNull().default('0 2 * * *'),
+  minRatio: real(),
+  maxOpenHitnruns: integer(),
+  maxDownloadingTorrents: integer(),
 });
 
 export type Configuration = {
@@ -12,4 +15,8 @@ export type Configuration = {
   addonUrl: string;
   deleteAfterHitnrun: boolean;
   deleteAfterHitnrunCron: string;
+  /** The ratio protection limits, `null` if there is no limit. */
+  minRatio: number | null;
+  maxOpenHitnruns: number | null;
+  maxDownloadingTorrents: number | null;
 };
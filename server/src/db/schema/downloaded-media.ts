@@ -0,0 +1,19 @@
+import { sqliteTable, integer, text } from 'drizzle-orm/sqlite-core';
+import type { StreamType } from '@/schemas/stream.schema';
+
+/** The movies and shows of the torrents that were played, keyed by the info hash. */
+export const downloadedMediaTable = sqliteTable('downloaded_media', {
+  infoHash: text().primaryKey(),
+  imdbId: text().notNull(),
+  type: text({ enum: ['movie', 'series'] })
+    .$type<StreamType>()
+    .notNull(),
+  addedAt: integer({ mode: 'timestamp_ms' }).notNull(),
+});
+
+export type DownloadedMedia = {
+  infoHash: string;
+  imdbId: string;
+  type: StreamType;
+  addedAt: Date;
+};
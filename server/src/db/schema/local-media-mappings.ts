@@ -0,0 +1,18 @@
+import { sqliteTable, integer, text } from 'drizzle-orm/sqlite-core';
+
+export const localMediaMappingsTable = sqliteTable('local_media_mappings', {
+  id: integer().primaryKey({ autoIncrement: true }),
+  /** The path of the media file, relative to the local library directory. */
+  path: text().unique().notNull(),
+  imdbId: text().notNull(),
+  season: integer(),
+  episode: integer(),
+});
+
+export type LocalMediaMapping = {
+  id: number;
+  path: string;
+  imdbId: string;
+  season: number | null;
+  episode: number | null;
+};
@@ -0,0 +1,19 @@
+import { sqliteTable, integer, text } from 'drizzle-orm/sqlite-core';
+import { encryptedText } from '../columns/encrypted-text';
+
+/** The logged in sessions of the nCore sources, so that a restart doesn't log in again. */
+export const ncoreSessionsTable = sqliteTable('ncore_sessions', {
+  /** The name of the torrent source, e.g. `ncore-1`. */
+  sourceName: text().primaryKey(),
+  /** The session is only used with the username that it was created for. */
+  username: text().notNull(),
+  cookie: encryptedText().notNull(),
+  expiresAt: integer({ mode: 'timestamp_ms' }).notNull(),
+});
+
+export type NcoreSession = {
+  sourceName: string;
+  username: string;
+  cookie: string;
+  expiresAt: Date;
+};
@@ -0,0 +1,20 @@
+import { sqliteTable, integer, text, uniqueIndex } from 'drizzle-orm/sqlite-core';
+
+/** Alternative titles (e.g. Hungarian ones) that are used to search the trackers by name. */
+export const titleAliasesTable = sqliteTable(
+  'title_aliases',
+  {
+    id: integer().primaryKey({ autoIncrement: true }),
+    imdbId: text().notNull(),
+    title: text().notNull(),
+  },
+  (table) => [
+    uniqueIndex('title_aliases_imdb_id_title_unique').on(table.imdbId, table.title),
+  ],
+);
+
+export type TitleAlias = {
+  id: number;
+  imdbId: string;
+  title: string;
+};
@@ -0,0 +1,37 @@
+import { sqliteTable, integer, text, primaryKey } from 'drizzle-orm/sqlite-core';
+
+export type TorrentMetadataFile = {
+  name: string;
+  path: string;
+  length: number;
+  offset: number;
+};
+
+/**
+ * The parsed .torrent files of the torrent sources, so that they don't have to be
+ * downloaded again after a restart.
+ */
+export const torrentMetadataTable = sqliteTable(
+  'torrent_metadata',
+  {
+    /** The name of the torrent source, e.g. `ncore-1`. */
+    sourceName: text().notNull(),
+    sourceId: text().notNull(),
+    infoHash: text().notNull(),
+    files: text({ mode: 'json' }).$type<TorrentMetadataFile[]>().notNull(),
+    category: text(),
+    releaseName: text(),
+    fetchedAt: integer({ mode: 'timestamp_ms' }).notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.sourceName, table.sourceId] })],
+);
+
+export type TorrentMetadata = {
+  sourceName: string;
+  sourceId: string;
+  infoHash: string;
+  files: TorrentMetadataFile[];
+  category: string | null;
+  releaseName: string | null;
+  fetchedAt: Date;
+};
@@ -0,0 +1,37 @@
+import { sqliteTable, integer, text } from 'drizzle-orm/sqlite-core';
+import { encryptedText } from '../columns/encrypted-text';
+
+export enum TorrentSourceType {
+  NCORE = 'ncore',
+  TORZNAB = 'torznab',
+}
+
+export const torrentSourceTypeValues = [
+  TorrentSourceType.NCORE,
+  TorrentSourceType.TORZNAB,
+] as const;
+
+export const torrentSourcesTable = sqliteTable('torrent_sources', {
+  id: integer().primaryKey({ autoIncrement: true }),
+  type: text({ enum: torrentSourceTypeValues }).$type<TorrentSourceType>().notNull(),
+  displayName: text().notNull(),
+  enabled: integer({ mode: 'boolean' }).notNull().default(true),
+  url: text().notNull(),
+  /** Only used by nCore sources. */
+  username: text(),
+  /** Only used by nCore sources. */
+  password: encryptedText(),
+  /** Only used by Torznab sources. */
+  apiKey: encryptedText(),
+});
+
+export type TorrentSourceConfig = {
+  id: number;
+  type: TorrentSourceType;
+  displayName: string;
+  enabled: boolean;
+  url: string;
+  username: string | null;
+  password: string | null;
+  apiKey: string | null;
+};
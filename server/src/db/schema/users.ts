@@ -1,5 +1,6 @@
 import { Resolution } from '@ctrl/video-filename-parser';
 import { sqliteTable, integer, text } from 'drizzle-orm/sqlite-core';
+import type { RankingProfile } from '../../schemas/ranking-profile.schema';
 
 export enum UserRole {
   USER = 'user',
@@ -11,6 +12,19 @@ export enum Language {
   HU = 'hu',
 }
 
+/** Video and audio formats that are told by the release names, see `parseReleaseAttributes`. */
+export enum ReleaseAttribute {
+  HDR10 = 'HDR10',
+  HDR10_PLUS = 'HDR10+',
+  DOLBY_VISION = 'DV',
+  HEVC = 'HEVC',
+  AV1 = 'AV1',
+  REMUX = 'REMUX',
+  ATMOS = 'Atmos',
+  DTS = 'DTS',
+  TRUEHD = 'TrueHD',
+}
+
 export const userRoleValues = [UserRole.ADMIN, UserRole.USER] as const;
 export const resolutionValues: Resolution[] = [
   Resolution.R480P,
@@ -21,6 +35,7 @@ export const resolutionValues: Resolution[] = [
   Resolution.R2160P,
 ] as const;
 export const languageValues = [Language.EN, Language.HU] as const;
+export const releaseAttributeValues = Object.values(ReleaseAttribute);
 
 export const usersTable = sqliteTable('users', {
   id: integer().primaryKey({ autoIncrement: true }),
@@ -29,4 +44,17 @@ export const usersTable = sqliteTable('users', {
   role: text({ enum: userRoleValues }).$type<UserRole>().notNull(),
   preferred_resolutions: text({ mode: 'json' }).$type<Resolution[]>().notNull(),
   preferred_language: text({ enum: languageValues }).$type<Language>().notNull(),
+  /** Torrents with any of these are not listed, e.g. Dolby Vision for TVs that can't play it. */
+  excluded_release_attributes: text({ mode: 'json' })
+    .$type<ReleaseAttribute[]>()
+    .notNull()
+    .default([]),
+  preferred_release_attributes: text({ mode: 'json' })
+    .$type<ReleaseAttribute[]>()
+    .notNull()
+    .default([]),
+  /** Movie torrents with several cuts or bonus videos are listed as a stream per video. */
+  show_all_movie_files: integer({ mode: 'boolean' }).notNull().default(false),
+  /** `null` until the user changes it, then the default profile is used. */
+  ranking_profile: text({ mode: 'json' }).$type<RankingProfile>(),
 });
@@ -0,0 +1,26 @@
+import { sqliteTable, integer, text, primaryKey } from 'drizzle-orm/sqlite-core';
+import { usersTable } from './users';
+import type { StreamType } from '@/schemas/stream.schema';
+
+/** The movies and shows that the users added to their Stremio catalog in the web UI. */
+export const watchlistTable = sqliteTable(
+  'watchlist',
+  {
+    userId: integer()
+      .references(() => usersTable.id, { onDelete: 'cascade' })
+      .notNull(),
+    imdbId: text().notNull(),
+    type: text({ enum: ['movie', 'series'] })
+      .$type<StreamType>()
+      .notNull(),
+    addedAt: integer({ mode: 'timestamp_ms' }).notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.userId, table.imdbId] })],
+);
+
+export type WatchlistItem = {
+  userId: number;
+  imdbId: string;
+  type: StreamType;
+  addedAt: Date;
+};
@@ -0,0 +1,13 @@
+import { resolve } from 'path';
+import { drizzle } from 'drizzle-orm/better-sqlite3';
+import { migrate } from 'drizzle-orm/better-sqlite3/migrator';
+import { SecretCipher, setSecretCipher } from '@/secrets';
+import type { Database } from './client';
+
+/** An empty database in memory with every migration, for the tests of the services. */
+export const createTestDatabase = (): Database => {
+  setSecretCipher(new SecretCipher('master-key-for-tests'));
+  const db = drizzle(':memory:', { casing: 'snake_case' });
+  migrate(db, { migrationsFolder: resolve(import.meta.dirname, './migrations') });
+  return db;
+};
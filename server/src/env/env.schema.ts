@@ -5,13 +5,46 @@ export const envSchema = z
     PORT: z.coerce.number().default(4000),
     ADDON_DIR: z.string().default('/addon'),
     TORRENT_DIR: z.string().default('/downloads'),
-    NCORE_USERNAME: z.string(),
-    NCORE_PASSWORD: z.string(),
 
     TORRENTS_DIR: z.string().optional(),
     DOWNLOADS_DIR: z.string().optional(),
+    /** Only used to import the torrent sources of installations that predate the web UI. */
+    NCORE_USERNAME: z.string().optional(),
+    NCORE_PASSWORD: z.string().optional(),
     NCORE_URL: z.string().url().default('https://ncore.pro'),
     CINEMETA_URL: z.string().url().default('https://v3-cinemeta.strem.io'),
+    TORZNAB_URL: z.string().url().optional(),
+    TORZNAB_API_KEY: z.string().optional(),
+    LOCAL_LIBRARY_DIR: z.string().optional(),
+    /** How many nCore search results get their torrent files downloaded for the streams. */
+    NCORE_PREFETCH_COUNT: z.coerce.number().int().nonnegative().default(10),
+    /** Shared by every nCore source, including the downloads of the torrent files. */
+    NCORE_REQUESTS_PER_SECOND: z.coerce.number().positive().default(2),
+    NCORE_MAX_CONCURRENT_REQUESTS: z.coerce.number().int().positive().default(4),
+    /** The saved metadata of a torrent is downloaded again after this, 0 means never. */
+    TORRENT_METADATA_MAX_AGE_DAYS: z.coerce.number().nonnegative().default(30),
+    /** Optional, the Hungarian titles are looked up on TMDB if it's set. */
+    TMDB_API_KEY: z.string().optional(),
+    TMDB_URL: z.string().url().default('https://api.themoviedb.org/3'),
+    /** The language of the titles from TMDB and Wikidata. */
+    TMDB_LANGUAGE: z.string().default('hu-HU'),
+    /** The localized titles are looked up on Wikidata too, an empty value turns it off. */
+    WIKIDATA_URL: z
+      .union([z.string().url(), z.literal('')])
+      .default('https://query.wikidata.org/sparql'),
+    /** How long a single torrent source can take to answer. */
+    TORRENT_SOURCE_TIMEOUT_SECONDS: z.coerce.number().positive().default(10),
+    /** How long the sources are waited for, after the response in the case of stream requests. */
+    TORRENT_SOURCE_REQUEST_TIMEOUT_SECONDS: z.coerce.number().positive().default(15),
+    /** How long a stream request waits for the sources, 0 means until all of them answer. */
+    STREAM_RESPONSE_TIMEOUT_SECONDS: z.coerce.number().nonnegative().default(8),
+    /** The master key that encrypts the secrets in the database. */
+    SECRET_KEY: z.string().optional(),
+    /** A file that contains the master key, e.g. a Docker secret. */
+    SECRET_KEY_FILE: z.string().optional(),
+    /** Only used when the master key is rotated. */
+    OLD_SECRET_KEY: z.string().optional(),
+    OLD_SECRET_KEY_FILE: z.string().optional(),
   })
   .transform((env) => ({
     ...env,
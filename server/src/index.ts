@@ -8,15 +8,35 @@ import { UserService } from '@/services/user';
 import { ManifestService } from '@/services/manifest';
 import { TorrentStoreService } from '@/services/torrent-store';
 import { TorrentService } from '@/services/torrent';
+import { TorrentMetadataService } from '@/services/torrent-metadata';
 import { StreamService } from '@/services/stream';
 
 import { ManifestController } from '@/controllers/manifest.controller';
 import { AuthController } from '@/controllers/auth.controller';
 import { StreamController } from '@/controllers/stream.controller';
 import { TorrentController } from '@/controllers/torrent.controller';
+import { LocalLibraryController } from '@/controllers/local-library.controller';
+import { TorrentSourceConfigController } from '@/controllers/torrent-source-config.controller';
+import { TitleAliasController } from '@/controllers/title-alias.controller';
+import { TorrentMetadataController } from '@/controllers/torrent-metadata.controller';
+import { WatchlistController } from '@/controllers/watchlist.controller';
+import { CatalogController } from '@/controllers/catalog.controller';
+import { SubtitleController } from '@/controllers/subtitle.controller';
 
-import { NcoreService } from '@/services/torrent-source/ncore';
 import { TorrentSourceManager } from '@/services/torrent-source';
+import { NcoreSessionStore } from '@/services/torrent-source/ncore';
+import { TorrentSourceConfigService } from '@/services/torrent-source-config';
+import { LocalLibraryService } from '@/services/local-library';
+import { TmdbService } from '@/services/tmdb';
+import { TitleAliasService } from '@/services/title-alias';
+import { WikidataService } from '@/services/wikidata';
+import { RatioProtectionService } from '@/services/ratio-protection';
+import { WatchlistService } from '@/services/watchlist';
+import { DownloadedMediaService } from '@/services/downloaded-media';
+import { SubtitleService } from '@/services/subtitle';
+import { RarArchiveService } from '@/services/rar-archive';
+import { RequestScheduler } from '@/utils/request-scheduler';
+import { createStreamRoutes } from '@/routes/stream.routes';
 import { zValidator } from '@hono/zod-validator';
 import { loginSchema } from '@/schemas/login.schema';
 import {
@@ -24,11 +44,13 @@ import {
   createAdminMiddleware,
   createAuthMiddleware,
   createAdminOrSelfMiddleware,
+  createAdminOrUnconfiguredMiddleware,
   createDeviceTokenMiddleware,
 } from '@/middlewares';
 import { UserController } from '@/controllers/user.controller';
 import { CinemeatService } from './services/cinemeta';
 import { db } from '@/db';
+import { encryptPlainTextSecrets, getSecretCipher } from '@/secrets';
 import { HonoEnv } from './types/hono-env';
 import { ConfigController } from './controllers/config.controller';
 import { ConfigService } from './services/config';
@@ -47,9 +69,61 @@ import {
   editUserSchema,
   updatePasswordSchema,
 } from './schemas/user.schema';
+import { rankingProfileSchema } from './schemas/ranking-profile.schema';
+import { upsertLocalMediaMappingSchema } from './schemas/local-library.schema';
+import { titleAliasSchema } from './schemas/title-alias.schema';
+import { watchlistItemSchema } from './schemas/watchlist.schema';
+import { rankingExplanationQuerySchema } from './schemas/stream.schema';
+import {
+  createTorrentSourceSchema,
+  setTorrentSourceEnabledSchema,
+  updateTorrentSourceSchema,
+} from './schemas/torrent-source.schema';
 
 const userService = new UserService(db);
-const configService = new ConfigService(db, userService);
+const torrentMetadataService = new TorrentMetadataService(
+  db,
+  env.TORRENT_METADATA_MAX_AGE_DAYS > 0
+    ? env.TORRENT_METADATA_MAX_AGE_DAYS * 24 * 60 * 60 * 1000
+    : null,
+);
+const torrentService = new TorrentService(torrentMetadataService);
+const cinemetaService = new CinemeatService();
+const localLibraryService = env.LOCAL_LIBRARY_DIR
+  ? new LocalLibraryService(db, cinemetaService, env.LOCAL_LIBRARY_DIR)
+  : null;
+const tmdbService = env.TMDB_API_KEY
+  ? new TmdbService(env.TMDB_URL, env.TMDB_API_KEY, env.TMDB_LANGUAGE)
+  : null;
+const wikidataService = env.WIKIDATA_URL
+  ? new WikidataService(env.WIKIDATA_URL, env.TMDB_LANGUAGE)
+  : null;
+const titleAliasService = new TitleAliasService(db, wikidataService, tmdbService);
+const torrentSource = new TorrentSourceManager([localLibraryService], {
+  sourceTimeoutMs: env.TORRENT_SOURCE_TIMEOUT_SECONDS * 1000,
+  requestTimeoutMs: env.TORRENT_SOURCE_REQUEST_TIMEOUT_SECONDS * 1000,
+  streamResponseTimeoutMs:
+    env.STREAM_RESPONSE_TIMEOUT_SECONDS > 0
+      ? env.STREAM_RESPONSE_TIMEOUT_SECONDS * 1000
+      : null,
+});
+const watchlistService = new WatchlistService(db, cinemetaService, torrentSource);
+const ncoreSessionStore = new NcoreSessionStore(db);
+const ncoreScheduler = new RequestScheduler({
+  requestsPerSecond: env.NCORE_REQUESTS_PER_SECOND,
+  maxConcurrentRequests: env.NCORE_MAX_CONCURRENT_REQUESTS,
+});
+const torrentSourceConfigService = new TorrentSourceConfigService(
+  db,
+  torrentSource,
+  torrentService,
+  cinemetaService,
+  titleAliasService,
+  ncoreSessionStore,
+  ncoreScheduler,
+  env.NCORE_PREFETCH_COUNT,
+);
+const configService = new ConfigService(db, userService, torrentSourceConfigService);
 const sessionService = new SessionService(db);
 const deviceTokenService = new DeviceTokenService(db);
 const manifestService = new ManifestService(
@@ -57,30 +131,41 @@ const manifestService = new ManifestService(
   userService,
   deviceTokenService,
 );
-const torrentService = new TorrentService();
-const cinemetaService = new CinemeatService();
-const torrentSource = new TorrentSourceManager([
-  env.NCORE_URL && env.NCORE_USERNAME && env.NCORE_PASSWORD
-    ? new NcoreService(
-        torrentService,
-        cinemetaService,
-        env.NCORE_URL,
-        env.NCORE_USERNAME,
-        env.NCORE_PASSWORD,
-      )
-    : null,
-]);
 
 const isAuthenticated = createAuthMiddleware(sessionService);
 const isAdmin = createAdminMiddleware(sessionService);
 const isAdminOrSelf = createAdminOrSelfMiddleware(sessionService);
+const isAdminOrUnconfigured = createAdminOrUnconfiguredMiddleware(
+  sessionService,
+  configService,
+);
 const isDeviceAuthenticated = createDeviceTokenMiddleware(userService);
 
 const torrentStoreService = new TorrentStoreService(torrentSource);
 const streamService = new StreamService(configService, userService);
+const subtitleService = new SubtitleService(configService, torrentStoreService);
+const rarArchiveService = new RarArchiveService(torrentStoreService);
+const downloadedMediaService = new DownloadedMediaService(
+  db,
+  torrentStoreService,
+  cinemetaService,
+);
+const ratioProtectionService = new RatioProtectionService(
+  configService,
+  torrentSource,
+  torrentStoreService,
+);
 configService.torrentStoreService = torrentStoreService;
 
-const configController = new ConfigController(configService, torrentSource);
+const configController = new ConfigController(
+  configService,
+  torrentSource,
+  torrentSourceConfigService,
+  ncoreScheduler,
+);
+const torrentSourceConfigController = new TorrentSourceConfigController(
+  torrentSourceConfigService,
+);
 const manifestController = new ManifestController(manifestService);
 const authController = new AuthController(userService, sessionService);
 const deviceTokenController = new DeviceTokenController(deviceTokenService);
@@ -91,10 +176,27 @@ const streamController = new StreamController(
   streamService,
   userService,
   torrentStoreService,
+  localLibraryService,
+  ratioProtectionService,
+  downloadedMediaService,
+  rarArchiveService,
 );
 const torrentController = new TorrentController(torrentStoreService);
+const watchlistController = new WatchlistController(watchlistService);
+const catalogController = new CatalogController(watchlistService, downloadedMediaService);
+const subtitleController = new SubtitleController(subtitleService);
+const localLibraryController = new LocalLibraryController(localLibraryService);
+const titleAliasController = new TitleAliasController(titleAliasService);
+const torrentMetadataController = new TorrentMetadataController(torrentMetadataService);
 
+const encryptedSecretCount = encryptPlainTextSecrets(db, getSecretCipher());
+if (encryptedSecretCount > 0) {
+  console.log(`Encrypted ${encryptedSecretCount} secrets in the database.`);
+}
+await torrentSourceConfigService.importSourcesFromEnv();
+await torrentSourceConfigService.reloadSources();
 torrentStoreService.loadExistingTorrents();
+localLibraryService?.scanLibrary();
 
 configService.scheduleDeleteAfterHitnrunCron();
 
@@ -125,6 +227,48 @@ const app = new Hono<HonoEnv>()
   .get('/config/torrent-sources/issues', (c) =>
     configController.getTorrentSourceConfigIssues(c),
   )
+  .get('/config/torrent-sources/health', isAdmin, (c) =>
+    configController.getTorrentSourceHealth(c),
+  )
+  .get('/config/torrent-sources/ncore-scheduler', isAdmin, (c) =>
+    configController.getNcoreSchedulerMetrics(c),
+  )
+  .get('/config/torrent-sources/ncore-accounts', isAdmin, (c) =>
+    configController.getNcoreAccounts(c),
+  )
+  .get('/config/torrent-sources', isAdmin, (c) =>
+    torrentSourceConfigController.getSources(c),
+  )
+  .post(
+    '/config/torrent-sources',
+    isAdmin,
+    zValidator('json', createTorrentSourceSchema),
+    (c) => torrentSourceConfigController.createSource(c),
+  )
+  .post(
+    '/config/torrent-sources/test',
+    isAdminOrUnconfigured,
+    zValidator('json', createTorrentSourceSchema),
+    (c) => torrentSourceConfigController.testNewSource(c),
+  )
+  .put(
+    '/config/torrent-sources/:sourceId',
+    isAdmin,
+    zValidator('json', updateTorrentSourceSchema),
+    (c) => torrentSourceConfigController.updateSource(c),
+  )
+  .put(
+    '/config/torrent-sources/:sourceId/enabled',
+    isAdmin,
+    zValidator('json', setTorrentSourceEnabledSchema),
+    (c) => torrentSourceConfigController.setSourceEnabled(c),
+  )
+  .post('/config/torrent-sources/:sourceId/test', isAdmin, (c) =>
+    torrentSourceConfigController.testSource(c),
+  )
+  .delete('/config/torrent-sources/:sourceId', isAdmin, (c) =>
+    torrentSourceConfigController.deleteSource(c),
+  )
   .get('/config', isAdmin, (c) => configController.getConfig(c))
   .post('/config', zValidator('json', createConfigSchema), (c) =>
     configController.createConfig(c),
@@ -150,6 +294,12 @@ const app = new Hono<HonoEnv>()
     zValidator('json', updatePasswordSchema),
     (c) => userController.updatePassword(c),
   )
+  .put(
+    '/users/:userId/ranking-profile',
+    isAdminOrSelf,
+    zValidator('json', rankingProfileSchema),
+    (c) => userController.updateRankingProfile(c),
+  )
   .delete('/users/:userId', isAdmin, (c) => userController.deleteUser(c))
 
   .get('/device-tokens', isAuthenticated, (c) =>
@@ -168,17 +318,59 @@ const app = new Hono<HonoEnv>()
     (c) => deviceTokenController.deleteDeviceToken(c),
   )
 
-  .get('/auth/:deviceToken/stream/:type/:imdbId', isDeviceAuthenticated, (c) =>
-    streamController.getStreamsForMedia(c),
+  .route(
+    '/',
+    createStreamRoutes({ streamController, subtitleController, isDeviceAuthenticated }),
   )
   .get(
-    '/auth/:deviceToken/stream/play/:sourceName/:sourceId/:infoHash/:fileIdx',
+    '/auth/:deviceToken/catalog/:type/:catalogId/:extra?',
     isDeviceAuthenticated,
-    (c) => streamController.play(c),
+    (c) => catalogController.getCatalog(c),
   )
+  .get('/auth/:deviceToken/subtitles/:type/:id/:extra?', isDeviceAuthenticated, (c) =>
+    subtitleController.getSubtitles(c),
+  )
+
+  .get('/watchlist', isAuthenticated, (c) => watchlistController.getItems(c))
+  .post('/watchlist', isAuthenticated, zValidator('json', watchlistItemSchema), (c) =>
+    watchlistController.addItem(c),
+  )
+  .delete('/watchlist/:imdbId', isAuthenticated, (c) => watchlistController.removeItem(c))
 
   .get('/torrents', isAdmin, (c) => torrentController.getTorrentStats(c))
-  .delete('/torrents/:infoHash', isAdmin, (c) => torrentController.deleteTorrent(c));
+  .delete('/torrents/:infoHash', isAdmin, (c) => torrentController.deleteTorrent(c))
+
+  .get(
+    '/debug/stream-ranking',
+    isAdmin,
+    zValidator('query', rankingExplanationQuerySchema),
+    (c) => streamController.explainRanking(c),
+  )
+
+  .get('/torrent-metadata', isAdmin, (c) => torrentMetadataController.getStats(c))
+  .delete('/torrent-metadata', isAdmin, (c) => torrentMetadataController.purgeMetadata(c))
+
+  .get('/title-aliases', isAdmin, (c) => titleAliasController.getAliases(c))
+  .post('/title-aliases', isAdmin, zValidator('json', titleAliasSchema), (c) =>
+    titleAliasController.createAlias(c),
+  )
+  .put('/title-aliases/:aliasId', isAdmin, zValidator('json', titleAliasSchema), (c) =>
+    titleAliasController.updateAlias(c),
+  )
+  .delete('/title-aliases/:aliasId', isAdmin, (c) => titleAliasController.deleteAlias(c))
+
+  .get('/local-library/files', isAdmin, (c) => localLibraryController.getFiles(c))
+  .post('/local-library/scan', isAdmin, (c) => localLibraryController.scanLibrary(c))
+  .get('/local-library/mappings', isAdmin, (c) => localLibraryController.getMappings(c))
+  .put(
+    '/local-library/mappings',
+    isAdmin,
+    zValidator('json', upsertLocalMediaMappingSchema),
+    (c) => localLibraryController.upsertMapping(c),
+  )
+  .delete('/local-library/mappings/:mappingId', isAdmin, (c) =>
+    localLibraryController.deleteMapping(c),
+  );
 
 baseApp.route('/api', app);
 
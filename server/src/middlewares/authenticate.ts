@@ -1,6 +1,7 @@
 import { SESSION_COOKIE_NAME } from '@/constants/auth';
 import { UserRole } from '@/db/schema/users';
 import { SessionService } from '@/services/session';
+import { ConfigService } from '@/services/config';
 import { HonoEnv } from '@/types/hono-env';
 import { HttpStatusCode } from '@/types/http';
 import { isInteger } from '@/utils/numbers';
@@ -38,6 +39,20 @@ export const createAdminMiddleware = (
   };
 };
 
+/** Lets everyone through until the addon is configured, e.g. in the setup wizard. */
+export const createAdminOrUnconfiguredMiddleware = (
+  sessionService: SessionService,
+  configService: ConfigService,
+): MiddlewareHandler<HonoEnv> => {
+  const isAdmin = createAdminMiddleware(sessionService);
+  return async (c, next) => {
+    if (!configService.getConfigOrNull()) {
+      return next();
+    }
+    return isAdmin(c, next);
+  };
+};
+
 export const createAdminOrSelfMiddleware = (
   sessionService: SessionService,
 ): MiddlewareHandler<HonoEnv, '/:userId'> => {
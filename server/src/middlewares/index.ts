@@ -2,6 +2,7 @@ export {
   createAdminMiddleware,
   createAuthMiddleware,
   createAdminOrSelfMiddleware,
+  createAdminOrUnconfiguredMiddleware,
 } from './authenticate';
 export { createDeviceTokenMiddleware } from './device-token';
 export { applyServeStatic } from './serve-static';
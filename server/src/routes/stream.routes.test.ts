@@ -0,0 +1,43 @@
+import type { Context } from 'hono';
+import { describe, expect, it } from 'vitest';
+import { createStreamRoutes } from './stream.routes';
+
+const respondWith = (handler: string) => (c: Context) =>
+  c.json({ handler, params: c.req.param() });
+
+const app = createStreamRoutes({
+  streamController: {
+    getStreamsForMedia: respondWith('getStreamsForMedia'),
+    play: respondWith('play'),
+    resolveAndPlay: respondWith('resolveAndPlay'),
+    playLocalFile: respondWith('playLocalFile'),
+  } as never,
+  subtitleController: { getSubtitleFile: respondWith('getSubtitleFile') } as never,
+  isDeviceAuthenticated: async (_, next) => next(),
+});
+
+const request = async (path: string) => (await app.request(path)).json();
+
+describe('createStreamRoutes', () => {
+  it('should play local files', async () => {
+    expect(await request('/auth/token/stream/local/42')).toEqual({
+      handler: 'playLocalFile',
+      params: { deviceToken: 'token', fileId: '42' },
+    });
+  });
+
+  it('should list the streams of a title', async () => {
+    expect(await request('/auth/token/stream/movie/tt0133093.json')).toEqual({
+      handler: 'getStreamsForMedia',
+      params: { deviceToken: 'token', type: 'movie', imdbId: 'tt0133093.json' },
+    });
+  });
+
+  it.each([
+    ['/auth/token/stream/play/ncore/1/abc/0', 'play'],
+    ['/auth/token/stream/resolve/ncore/1', 'resolveAndPlay'],
+    ['/auth/token/stream/subtitle/abc/0', 'getSubtitleFile'],
+  ])('should route %s to %s', async (path, handler) => {
+    expect(await request(path)).toMatchObject({ handler });
+  });
+});
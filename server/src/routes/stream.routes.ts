@@ -0,0 +1,46 @@
+import { Hono, type MiddlewareHandler } from 'hono';
+import type { StreamController } from '@/controllers/stream.controller';
+import type { SubtitleController } from '@/controllers/subtitle.controller';
+import type { HonoEnv } from '@/types/hono-env';
+
+interface StreamRoutesDependencies {
+  streamController: Pick<
+    StreamController,
+    'getStreamsForMedia' | 'play' | 'resolveAndPlay' | 'playLocalFile'
+  >;
+  subtitleController: Pick<SubtitleController, 'getSubtitleFile'>;
+  isDeviceAuthenticated: MiddlewareHandler<HonoEnv, `${string}/:deviceToken${string}`>;
+}
+
+/**
+ * The stream routes that Stremio calls with the device token. Hono tries the routes in
+ * the order they are added, so the routes with a fixed segment after `/stream` have to
+ * come before `/stream/:type/:imdbId`, which would match them too.
+ */
+export const createStreamRoutes = ({
+  streamController,
+  subtitleController,
+  isDeviceAuthenticated,
+}: StreamRoutesDependencies) =>
+  new Hono<HonoEnv>()
+    .get('/auth/:deviceToken/stream/local/:fileId', isDeviceAuthenticated, (c) =>
+      streamController.playLocalFile(c),
+    )
+    .get(
+      '/auth/:deviceToken/stream/play/:sourceName/:sourceId/:infoHash/:fileIdx',
+      isDeviceAuthenticated,
+      (c) => streamController.play(c),
+    )
+    .get(
+      '/auth/:deviceToken/stream/resolve/:sourceName/:sourceId',
+      isDeviceAuthenticated,
+      (c) => streamController.resolveAndPlay(c),
+    )
+    .get(
+      '/auth/:deviceToken/stream/subtitle/:infoHash/:fileIdx/:trackNumber?',
+      isDeviceAuthenticated,
+      (c) => subtitleController.getSubtitleFile(c),
+    )
+    .get('/auth/:deviceToken/stream/:type/:imdbId', isDeviceAuthenticated, (c) =>
+      streamController.getStreamsForMedia(c),
+    );
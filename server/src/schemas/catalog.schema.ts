@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { StreamType } from './stream.schema';
+
+/**
+ * Stremio asks for `/catalog/:type/:id.json`, or `/catalog/:type/:id/:extra.json` if
+ * an extra, like a genre, is chosen. The extras are in a query string, e.g.
+ * `genre=Completion`.
+ */
+export const catalogQuerySchema = z
+  .object({
+    deviceToken: z.string(),
+    type: z.nativeEnum(StreamType),
+    catalogId: z.string(),
+    extra: z.string().optional(),
+  })
+  .transform(({ catalogId, extra, ...params }) => {
+    const extraParams = new URLSearchParams(extra?.replace(/\.json$/, '') ?? '');
+    return {
+      ...params,
+      catalogId: catalogId.replace(/\.json$/, ''),
+      genre: extraParams.get('genre') ?? undefined,
+    };
+  });
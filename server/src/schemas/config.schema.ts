@@ -2,6 +2,16 @@
 import validate from 'node-cron/src/pattern-validation.js';
 import { z } from 'zod';
 import { createUserSchema } from './user.schema';
+import { createTorrentSourceSchema } from './torrent-source.schema';
+
+/** Torrents that are not downloaded yet are not played while any limit is reached. */
+export const ratioProtectionSchema = z.object({
+  minRatio: z.number().positive().nullable(),
+  maxOpenHitnruns: z.number().int().nonnegative().nullable(),
+  maxDownloadingTorrents: z.number().int().positive().nullable(),
+});
+
+export type RatioProtection = z.infer<typeof ratioProtectionSchema>;
 
 export const createConfigSchema = z.object({
   addonUrl: z
@@ -11,6 +21,7 @@ export const createConfigSchema = z.object({
     .refine((v) => !v.endsWith('/'), 'Addon URL must not end with a slash.'),
   admin: createUserSchema,
   nonAdminUsers: z.array(createUserSchema),
+  torrentSources: z.array(createTorrentSourceSchema),
   deleteAfterHitnrun: z.union([
     z.object({ enabled: z.literal(false), cron: z.literal('') }),
     z.object({
@@ -28,6 +39,7 @@ export const createConfigSchema = z.object({
         }, 'Invalid cron expression.'),
     }),
   ]),
+  ratioProtection: ratioProtectionSchema,
 });
 
 export type CreateConfigRequest = z.infer<typeof createConfigSchema>;
@@ -35,6 +47,7 @@ export type CreateConfigRequest = z.infer<typeof createConfigSchema>;
 export const updateConfigSchema = createConfigSchema.omit({
   admin: true,
   nonAdminUsers: true,
+  torrentSources: true,
 });
 
 export type UpdateConfigRequest = z.infer<typeof updateConfigSchema>;
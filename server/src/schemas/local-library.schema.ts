@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+export const upsertLocalMediaMappingSchema = z
+  .object({
+    path: z.string().min(1, 'Path is required'),
+    imdbId: z.string().regex(/^tt\d+$/, 'Invalid IMDb ID'),
+    season: z.number().int().nonnegative().nullish(),
+    episode: z.number().int().nonnegative().nullish(),
+  })
+  .refine(
+    ({ season, episode }) => (season ?? null) === null || (episode ?? null) !== null,
+    'Episode is required if the season is set.',
+  );
+
+export type UpsertLocalMediaMappingRequest = z.infer<
+  typeof upsertLocalMediaMappingSchema
+>;
@@ -1,9 +1,43 @@
 import { z } from 'zod';
+import { StreamType } from './stream.schema';
 
-export const playSchema = z.object({
+/** The title that the torrent is played for, to list it in the downloaded catalog. */
+const playedMediaSchema = z.object({
+  imdbId: z
+    .string()
+    .regex(/^tt\d+$/)
+    .optional(),
+  type: z.nativeEnum(StreamType).optional(),
+});
+
+export const playSchema = z
+  .object({
+    deviceToken: z.string(),
+    sourceName: z.string(),
+    sourceId: z.string(),
+    infoHash: z.string(),
+    /** The parts of multi-part movies are separated by commas, like `0,1`. */
+    fileIdx: z
+      .string()
+      .regex(/^\d+(,\d+)*$/, 'Invalid file index')
+      .transform((fileIdx) => fileIdx.split(',').map(Number)),
+    fallbacks: z.string().optional(),
+  })
+  .merge(playedMediaSchema);
+
+/** The path params and the query of the URL of a torrent that is not resolved yet. */
+export const resolveAndPlaySchema = z
+  .object({
+    deviceToken: z.string(),
+    sourceName: z.string(),
+    sourceId: z.string(),
+    season: z.coerce.number().int().nonnegative().optional(),
+    episode: z.coerce.number().int().positive().optional(),
+    fallbacks: z.string().optional(),
+  })
+  .merge(playedMediaSchema);
+
+export const playLocalFileSchema = z.object({
   deviceToken: z.string(),
-  sourceName: z.string(),
-  sourceId: z.string(),
-  infoHash: z.string(),
-  fileIdx: z.coerce.number(),
+  fileId: z.string(),
 });
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+
+const weightSchema = z.number().min(0).max(10);
+
+const gigabytesSchema = z.number().positive().nullable();
+
+const releaseGroupsSchema = z.array(z.string().trim().min(1)).max(100);
+
+export const rankingProfileSchema = z.object({
+  /** How many points each criterion is worth, 0 turns it off. */
+  weights: z.object({
+    language: weightSchema,
+    resolution: weightSchema,
+    releaseAttributes: weightSchema,
+    seeders: weightSchema,
+    size: weightSchema,
+    releaseGroup: weightSchema,
+    freeleech: weightSchema,
+    speculated: weightSchema,
+  }),
+  preferredSize: z
+    .object({ minGb: gigabytesSchema, maxGb: gigabytesSchema })
+    .refine(
+      ({ minGb, maxGb }) => minGb === null || maxGb === null || minGb <= maxGb,
+      'The minimum size must not be larger than the maximum size.',
+    ),
+  allowedReleaseGroups: releaseGroupsSchema,
+  deniedReleaseGroups: releaseGroupsSchema,
+  maxSizeGb: gigabytesSchema,
+  minSeeders: z.number().int().nonnegative().nullable(),
+  topN: z.number().int().positive().nullable(),
+});
+
+export type RankingProfile = z.infer<typeof rankingProfileSchema>;
+
+/** The ranking of the users who haven't changed it: language, then resolution, then formats. */
+export const DEFAULT_RANKING_PROFILE: RankingProfile = {
+  weights: {
+    language: 3,
+    resolution: 2,
+    releaseAttributes: 1,
+    seeders: 0,
+    size: 0,
+    releaseGroup: 0,
+    freeleech: 0,
+    speculated: 0,
+  },
+  preferredSize: { minGb: null, maxGb: null },
+  allowedReleaseGroups: [],
+  deniedReleaseGroups: [],
+  maxSizeGb: null,
+  minSeeders: null,
+  topN: null,
+};
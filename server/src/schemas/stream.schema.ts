@@ -47,3 +47,27 @@ export const streamQuerySchema = z
   });
 
 export type StreamQuery = z.infer<typeof streamQuerySchema>;
+
+const positiveIntegerSchema = z.coerce.number().int().positive();
+
+/** The title to explain the ranking of, and the user to rank it for, the signed in one by default. */
+export const rankingExplanationQuerySchema = z
+  .object({
+    imdbId: z.string().regex(/^tt\d+$/, 'Invalid IMDb ID'),
+    type: z.nativeEnum(StreamType),
+    season: positiveIntegerSchema.optional(),
+    episode: positiveIntegerSchema.optional(),
+    userId: positiveIntegerSchema.optional(),
+  })
+  .refine(
+    ({ type, season, episode }) =>
+      type === StreamType.MOVIE || (season !== undefined && episode !== undefined),
+    'The season and the episode are required for shows',
+  )
+  .transform((data) =>
+    data.type === StreamType.MOVIE
+      ? { ...data, season: undefined, episode: undefined }
+      : data,
+  );
+
+export type RankingExplanationQuery = z.infer<typeof rankingExplanationQuerySchema>;
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { StreamType } from './stream.schema';
+
+/**
+ * Stremio asks for `/subtitles/:type/:id/:extra.json`, where the extras are in a query
+ * string, e.g. `videoHash=...&videoSize=1234&filename=Movie.2020.mkv`.
+ */
+export const subtitlesQuerySchema = z
+  .object({
+    deviceToken: z.string(),
+    type: z.nativeEnum(StreamType),
+    id: z.string(),
+    extra: z.string().optional(),
+  })
+  .transform(({ deviceToken, type, extra }) => {
+    const extraParams = new URLSearchParams(extra?.replace(/\.json$/, '') ?? '');
+    const videoSize = Number(extraParams.get('videoSize'));
+    return {
+      deviceToken,
+      type,
+      videoSize: Number.isSafeInteger(videoSize) && videoSize > 0 ? videoSize : undefined,
+      filename: extraParams.get('filename') || undefined,
+    };
+  });
+
+export const subtitleFileSchema = z.object({
+  deviceToken: z.string(),
+  infoHash: z.string(),
+  fileIdx: z.coerce.number().int().nonnegative(),
+  /** The subtitle track of a Matroska file, instead of a subtitle file. */
+  trackNumber: z.coerce.number().int().positive().optional(),
+});
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+export const titleAliasSchema = z.object({
+  imdbId: z.string().regex(/^tt\d+$/, 'Invalid IMDb ID'),
+  title: z.string().trim().min(1, 'Title is required'),
+});
+
+export type TitleAliasRequest = z.infer<typeof titleAliasSchema>;
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+import { TorrentSourceType } from '@/db/schema/torrent-sources';
+
+const baseTorrentSourceSchema = z.object({
+  displayName: z.string().min(1, 'Name is required'),
+  url: z
+    .string()
+    .min(1, 'URL is required')
+    .url()
+    .refine((v) => !v.endsWith('/'), 'URL must not end with a slash.'),
+});
+
+const ncoreSourceSchema = baseTorrentSourceSchema.extend({
+  type: z.literal(TorrentSourceType.NCORE),
+  username: z.string().min(1, 'Username is required'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+const torznabSourceSchema = baseTorrentSourceSchema.extend({
+  type: z.literal(TorrentSourceType.TORZNAB),
+  apiKey: z.string().min(1, 'API key is required'),
+});
+
+export const createTorrentSourceSchema = z.discriminatedUnion('type', [
+  ncoreSourceSchema,
+  torznabSourceSchema,
+]);
+
+export type CreateTorrentSourceRequest = z.infer<typeof createTorrentSourceSchema>;
+
+/** Secrets are never sent to the client, so an empty secret keeps the saved one. */
+export const updateTorrentSourceSchema = z.discriminatedUnion('type', [
+  ncoreSourceSchema.extend({ password: z.string() }),
+  torznabSourceSchema.extend({ apiKey: z.string() }),
+]);
+
+export type UpdateTorrentSourceRequest = z.infer<typeof updateTorrentSourceSchema>;
+
+export const setTorrentSourceEnabledSchema = z.object({
+  enabled: z.boolean(),
+});
+
+export type SetTorrentSourceEnabledRequest = z.infer<
+  typeof setTorrentSourceEnabledSchema
+>;
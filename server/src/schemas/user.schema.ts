@@ -1,4 +1,4 @@
-import { Language, Resolution } from '@/db/schema/users';
+import { Language, ReleaseAttribute, Resolution } from '@/db/schema/users';
 import { z } from 'zod';
 
 export const createUserSchema = z.object({
@@ -10,6 +10,9 @@ export const createUserSchema = z.object({
   preferredResolutions: z
     .array(z.nativeEnum(Resolution))
     .min(1, 'At least one resolution is required'),
+  excludedReleaseAttributes: z.array(z.nativeEnum(ReleaseAttribute)).default([]),
+  preferredReleaseAttributes: z.array(z.nativeEnum(ReleaseAttribute)).default([]),
+  showAllMovieFiles: z.boolean().default(false),
 });
 
 export const editUserSchema = createUserSchema.omit({
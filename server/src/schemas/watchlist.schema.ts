@@ -0,0 +1,9 @@
+import { z } from 'zod';
+import { StreamType } from './stream.schema';
+
+export const watchlistItemSchema = z.object({
+  imdbId: z.string().regex(/^tt\d+$/, 'Invalid IMDb ID'),
+  type: z.nativeEnum(StreamType),
+});
+
+export type WatchlistItemRequest = z.infer<typeof watchlistItemSchema>;
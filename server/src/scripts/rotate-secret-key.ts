@@ -0,0 +1,29 @@
+/**
+ * Re-encrypts the secrets in the database with a new master key.
+ *
+ * Stop the addon, then run it with the new key in `SECRET_KEY` (or `SECRET_KEY_FILE`)
+ * and the old key in `OLD_SECRET_KEY` (or `OLD_SECRET_KEY_FILE`).
+ */
+import { db } from '@/db';
+import { env } from '@/env';
+import {
+  getSecretCipher,
+  loadMasterKey,
+  reencryptSecrets,
+  SecretCipher,
+} from '@/secrets';
+
+const oldCipher = new SecretCipher(
+  loadMasterKey(
+    { key: env.OLD_SECRET_KEY, keyFile: env.OLD_SECRET_KEY_FILE },
+    'OLD_SECRET_KEY',
+  ),
+);
+const newCipher = getSecretCipher();
+
+if (oldCipher.keyId === newCipher.keyId) {
+  console.log('The old and the new master keys are the same. Nothing to do.');
+} else {
+  const updatedCount = reencryptSecrets(db, oldCipher, newCipher);
+  console.log(`Re-encrypted ${updatedCount} secrets with the new master key.`);
+}
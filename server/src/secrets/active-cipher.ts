@@ -0,0 +1,22 @@
+import type { SecretCipher } from './secret-cipher';
+import { ENCRYPTED_VALUE_PREFIX } from './constants';
+import { MissingSecretKeyError } from './secrets.error';
+
+// This module doesn't import `crypto`, because the DB schema is imported by the client.
+
+let activeCipher: SecretCipher | null = null;
+
+export const setSecretCipher = (cipher: SecretCipher) => {
+  activeCipher = cipher;
+};
+
+/** The cipher that is used by the encrypted database columns. */
+export const getSecretCipher = (): SecretCipher => {
+  if (!activeCipher) {
+    throw new MissingSecretKeyError('The secret cipher was used before it was set up.');
+  }
+  return activeCipher;
+};
+
+export const isEncrypted = (value: string): boolean =>
+  value.startsWith(ENCRYPTED_VALUE_PREFIX);
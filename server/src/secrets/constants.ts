@@ -0,0 +1,8 @@
+export const CIPHER_ALGORITHM = 'aes-256-gcm';
+export const KEY_LENGTH = 32;
+export const IV_LENGTH = 12;
+/** Used to derive the encryption key from the master key with scrypt. */
+export const KEY_DERIVATION_SALT = 'stremio-ncore-addon-secrets';
+/** Values without this prefix were saved before the encryption was introduced. */
+export const ENCRYPTED_VALUE_PREFIX = 'enc:v1:';
+export const MIN_MASTER_KEY_LENGTH = 16;
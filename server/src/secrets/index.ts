@@ -0,0 +1,19 @@
+import { env } from '@/env';
+import { SecretCipher } from './secret-cipher';
+import { setSecretCipher } from './active-cipher';
+import { loadMasterKey } from './secret-key';
+
+export { SecretCipher } from './secret-cipher';
+export { getSecretCipher, setSecretCipher, isEncrypted } from './active-cipher';
+export { loadMasterKey } from './secret-key';
+export { reencryptSecrets, encryptPlainTextSecrets } from './reencrypt-secrets';
+export { MissingSecretKeyError, SecretDecryptionError } from './secrets.error';
+
+/** Throws a `MissingSecretKeyError` if the master key is not set. */
+export const initSecretCipher = (): SecretCipher => {
+  const cipher = new SecretCipher(
+    loadMasterKey({ key: env.SECRET_KEY, keyFile: env.SECRET_KEY_FILE }, 'SECRET_KEY'),
+  );
+  setSecretCipher(cipher);
+  return cipher;
+};
@@ -0,0 +1,53 @@
+import { sql } from 'drizzle-orm';
+import type { Database } from '@/db';
+import type { SecretCipher } from './secret-cipher';
+import { isEncrypted } from './active-cipher';
+
+/**
+ * The columns that are defined with `encryptedText`. The values are read and written
+ * without the column type here, so the names are the ones in the database.
+ */
+const ENCRYPTED_COLUMNS = [
+  { table: 'torrent_sources', columns: ['password', 'api_key'] },
+  { table: 'ncore_sessions', columns: ['cookie'] },
+] as const;
+
+/**
+ * Encrypts every secret with `targetCipher`. Values that are encrypted with another key
+ * are decrypted with `sourceCipher`, and plain text values (saved before the encryption
+ * was introduced) are encrypted as they are. Values that already use the target key
+ * are skipped, so an interrupted run can be started again.
+ * @returns The number of values that were updated.
+ */
+export const reencryptSecrets = (
+  db: Database,
+  sourceCipher: SecretCipher,
+  targetCipher: SecretCipher,
+): number => {
+  return db.transaction((tx) => {
+    let updatedCount = 0;
+    ENCRYPTED_COLUMNS.forEach(({ table, columns }) => {
+      columns.forEach((column) => {
+        const rows = tx.all<{ rowId: number; value: string | null }>(
+          sql`select rowid as rowId, ${sql.identifier(column)} as value from ${sql.identifier(table)}`,
+        );
+        rows.forEach(({ rowId, value }) => {
+          if (value === null || targetCipher.isEncryptedWithThisKey(value)) {
+            return;
+          }
+          const plainText = isEncrypted(value) ? sourceCipher.decrypt(value) : value;
+          tx.run(
+            sql`update ${sql.identifier(table)} set ${sql.identifier(column)} = ${targetCipher.encrypt(plainText)} where rowid = ${rowId}`,
+          );
+          updatedCount++;
+        });
+      });
+    });
+    return updatedCount;
+  });
+};
+
+/** Encrypts the secrets that were saved before the encryption was introduced. */
+export const encryptPlainTextSecrets = (db: Database, cipher: SecretCipher): number => {
+  return reencryptSecrets(db, cipher, cipher);
+};
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { SecretCipher } from './secret-cipher';
+import { SecretDecryptionError } from './secrets.error';
+
+const cipher = new SecretCipher('first-master-key-for-tests');
+const otherCipher = new SecretCipher('second-master-key-for-tests');
+
+describe('SecretCipher', () => {
+  it('should decrypt the encrypted value', () => {
+    const encrypted = cipher.encrypt('my nCore password');
+    expect(encrypted).not.toContain('my nCore password');
+    expect(cipher.decrypt(encrypted)).toBe('my nCore password');
+  });
+
+  it('should use a new IV for every value', () => {
+    expect(cipher.encrypt('secret')).not.toBe(cipher.encrypt('secret'));
+  });
+
+  it('should tell which key encrypted a value', () => {
+    const encrypted = cipher.encrypt('secret');
+    expect(cipher.isEncryptedWithThisKey(encrypted)).toBe(true);
+    expect(otherCipher.isEncryptedWithThisKey(encrypted)).toBe(false);
+  });
+
+  it('should throw if the value was encrypted with another key', () => {
+    const encrypted = otherCipher.encrypt('secret');
+    expect(() => cipher.decrypt(encrypted)).toThrow(SecretDecryptionError);
+  });
+
+  it('should throw if the value was tampered with', () => {
+    const encrypted = cipher.encrypt('secret');
+    const tampered = `${encrypted.slice(0, -2)}${encrypted.endsWith('AA') ? 'BB' : 'AA'}`;
+    expect(() => cipher.decrypt(tampered)).toThrow(SecretDecryptionError);
+  });
+
+  it('should throw if the value is not encrypted', () => {
+    expect(() => cipher.decrypt('plain text')).toThrow(SecretDecryptionError);
+  });
+});
@@ -0,0 +1,76 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+  scryptSync,
+} from 'crypto';
+import {
+  CIPHER_ALGORITHM,
+  ENCRYPTED_VALUE_PREFIX,
+  IV_LENGTH,
+  KEY_DERIVATION_SALT,
+  KEY_LENGTH,
+} from './constants';
+import { SecretDecryptionError } from './secrets.error';
+import { isEncrypted } from './active-cipher';
+
+/**
+ * Encrypts the secrets that are saved in the database with AES-256-GCM.
+ *
+ * Encrypted values look like `enc:v1:<key ID>:<IV>:<auth tag>:<cipher text>`. The key ID
+ * makes it possible to tell which values were encrypted with another master key.
+ */
+export class SecretCipher {
+  private key: Buffer;
+  public keyId: string;
+
+  constructor(masterKey: string) {
+    this.key = scryptSync(masterKey, KEY_DERIVATION_SALT, KEY_LENGTH);
+    this.keyId = createHash('sha256').update(this.key).digest('hex').slice(0, 8);
+  }
+
+  public isEncryptedWithThisKey(value: string): boolean {
+    return value.startsWith(`${ENCRYPTED_VALUE_PREFIX}${this.keyId}:`);
+  }
+
+  public encrypt(plainText: string): string {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(CIPHER_ALGORITHM, this.key, iv);
+    const cipherText = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()]);
+    const authTag = cipher.getAuthTag();
+    return `${ENCRYPTED_VALUE_PREFIX}${[this.keyId, iv, authTag, cipherText]
+      .map((part) => (typeof part === 'string' ? part : part.toString('base64url')))
+      .join(':')}`;
+  }
+
+  public decrypt(value: string): string {
+    if (!isEncrypted(value)) {
+      throw new SecretDecryptionError('The value is not encrypted.');
+    }
+    const [keyId, iv, authTag, cipherText] = value
+      .slice(ENCRYPTED_VALUE_PREFIX.length)
+      .split(':');
+    if (keyId !== this.keyId) {
+      throw new SecretDecryptionError(
+        `A secret in the database was encrypted with another master key (key ID: ${keyId}). If you changed the key, rotate it with \`pnpm secrets:rotate\` instead.`,
+      );
+    }
+    try {
+      const decipher = createDecipheriv(
+        CIPHER_ALGORITHM,
+        this.key,
+        Buffer.from(iv ?? '', 'base64url'),
+      );
+      decipher.setAuthTag(Buffer.from(authTag ?? '', 'base64url'));
+      return Buffer.concat([
+        decipher.update(Buffer.from(cipherText ?? '', 'base64url')),
+        decipher.final(),
+      ]).toString('utf8');
+    } catch (error) {
+      throw new SecretDecryptionError('Failed to decrypt a secret from the database.', {
+        cause: error,
+      });
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import { readFileSync } from 'fs';
+import { MIN_MASTER_KEY_LENGTH } from './constants';
+import { MissingSecretKeyError } from './secrets.error';
+
+/**
+ * Reads the master key from an environment variable, or from the file that the
+ * `<variableName>_FILE` variable points to (e.g. a Docker secret).
+ */
+export const loadMasterKey = (
+  { key, keyFile }: { key?: string; keyFile?: string },
+  variableName: string,
+): string => {
+  let masterKey = key?.trim();
+  if (!masterKey && keyFile) {
+    try {
+      masterKey = readFileSync(keyFile, 'utf-8').trim();
+    } catch (error) {
+      throw new MissingSecretKeyError(
+        `Failed to read the master key from ${keyFile} (set in ${variableName}_FILE).`,
+        { cause: error },
+      );
+    }
+  }
+  if (!masterKey) {
+    throw new MissingSecretKeyError(
+      `The master key that encrypts the secrets in the database is missing. Set the ${variableName} environment variable, or set ${variableName}_FILE to the path of a file that contains the key. You can generate a key with \`openssl rand -hex 32\`.`,
+    );
+  }
+  if (masterKey.length < MIN_MASTER_KEY_LENGTH) {
+    throw new MissingSecretKeyError(
+      `The master key in ${variableName} must be at least ${MIN_MASTER_KEY_LENGTH} characters long.`,
+    );
+  }
+  return masterKey;
+};
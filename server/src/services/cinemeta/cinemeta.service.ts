@@ -1,6 +1,8 @@
 import { StreamType } from '@/schemas/stream.schema';
-import { CinemetaResponse } from './types';
+import { CatalogMetaPreview, CinemetaResponse } from './types';
+import { META_PREVIEW_MAX, META_PREVIEW_TTL } from './constants';
 import { env } from '@/env';
+import { Cached } from '@/utils/cache';
 
 export class CinemetaService {
   public async getMetadataByImdbId(
@@ -19,4 +21,42 @@ export class CinemetaService {
     }
     return response.json();
   }
+
+  /** The preview of a movie or show for the catalogs. */
+  @Cached({
+    max: META_PREVIEW_MAX,
+    ttl: META_PREVIEW_TTL,
+    generateKey: (type, imdbId) => `${type}:${imdbId}`,
+  })
+  private async getCachedMetaPreview(
+    type: StreamType,
+    imdbId: string,
+  ): Promise<CatalogMetaPreview> {
+    const { meta } = await this.getMetadataByImdbId(type, imdbId);
+    return {
+      id: imdbId,
+      type,
+      name: meta.name,
+      poster: meta.poster,
+      posterShape: 'regular',
+      background: meta.background,
+      description: meta.description,
+      releaseInfo: meta.releaseInfo,
+      imdbRating: meta.imdbRating,
+      genres: meta.genres,
+    };
+  }
+
+  /** Returns `null` instead of failing, so that one missing title doesn't hide the rest. */
+  public async getMetaPreview(
+    type: StreamType,
+    imdbId: string,
+  ): Promise<CatalogMetaPreview | null> {
+    try {
+      return await this.getCachedMetaPreview(type, imdbId);
+    } catch (error) {
+      console.error(`Failed to get the Cinemeta preview of ${imdbId}`, error);
+      return null;
+    }
+  }
 }
@@ -0,0 +1,3 @@
+/** The previews rarely change, and the catalogs are loaded every time Stremio is opened. */
+export const META_PREVIEW_TTL = 24 * 60 * 60 * 1000;
+export const META_PREVIEW_MAX = 1_000;
@@ -1 +1,2 @@
 export { CinemetaService as CinemeatService } from './cinemeta.service';
+export type { CatalogMetaPreview } from './types';
@@ -1,3 +1,4 @@
+import type { MetaDetail, MetaPreview } from 'stremio-addon-sdk';
 import { StreamType } from '@/schemas/stream.schema';
 
 export interface CinemetaResponse {
@@ -5,6 +6,19 @@ export interface CinemetaResponse {
     imdb_id: string;
     name: string;
     type: StreamType;
+    /** Example: `"1999"` for movies or `"2008–2013"` for series */
+    releaseInfo?: string;
+    /** Example: `"136 min"` or `"2h 16min"`, for series it's the runtime of an episode */
+    runtime?: string;
+    poster?: string;
+    background?: string;
+    description?: string;
+    imdbRating?: string;
+    genres?: string[];
     // TODO: add the rest of the fields, but for now we don't need them all.
   };
 }
+
+/** A movie or show as it's listed in the catalogs of the addon. */
+export type CatalogMetaPreview = MetaPreview &
+  Pick<MetaDetail, 'releaseInfo' | 'imdbRating' | 'genres'>;
@@ -8,11 +8,13 @@ import { HTTPException } from 'hono/http-exception';
 import { HttpStatusCode } from '@/types/http';
 import { schedule, ScheduledTask } from 'node-cron';
 import { TorrentStoreService } from '../torrent-store';
+import { TorrentSourceConfigService } from '../torrent-source-config';
 
 export class ConfigService {
   constructor(
     private db: Database,
     private userService: UserService,
+    private torrentSourceConfigService: TorrentSourceConfigService,
   ) {}
 
   public torrentStoreService: TorrentStoreService | null = null;
@@ -54,7 +56,14 @@ export class ConfigService {
   };
 
   public async createConfig(data: CreateConfigRequest): Promise<Configuration> {
-    const { addonUrl, deleteAfterHitnrun, admin, nonAdminUsers } = data;
+    const {
+      addonUrl,
+      deleteAfterHitnrun,
+      ratioProtection,
+      admin,
+      nonAdminUsers,
+      torrentSources,
+    } = data;
     const config = await this.db.transaction(async (tx) => {
       const [config] = await tx
         .insert(configurationTable)
@@ -62,6 +71,7 @@ export class ConfigService {
           addonUrl,
           deleteAfterHitnrun: deleteAfterHitnrun.enabled,
           deleteAfterHitnrunCron: deleteAfterHitnrun.cron || undefined,
+          ...ratioProtection,
         })
         .returning();
 
@@ -73,14 +83,21 @@ export class ConfigService {
       );
       await Promise.all(nonAdminUsersPromises);
       console.log('finished creating users');
+      console.log('Creating torrent sources...');
+      await Promise.all(
+        torrentSources.map((source) =>
+          this.torrentSourceConfigService.createSource(source, tx),
+        ),
+      );
       return config;
     });
+    await this.torrentSourceConfigService.reloadSources();
     this.scheduleDeleteAfterHitnrunCron();
     return config;
   }
 
   public async updateConfig(data: UpdateConfigRequest): Promise<Configuration> {
-    const { addonUrl, deleteAfterHitnrun } = data;
+    const { addonUrl, deleteAfterHitnrun, ratioProtection } = data;
     console.log('Updating configuration:', data);
     try {
       const oldConfig = this.getConfig();
@@ -90,6 +107,7 @@ export class ConfigService {
           addonUrl,
           deleteAfterHitnrun: deleteAfterHitnrun.enabled,
           deleteAfterHitnrunCron: deleteAfterHitnrun.cron || undefined,
+          ...ratioProtection,
         })
         .returning();
       const deleteAfterHitnrunChanged =
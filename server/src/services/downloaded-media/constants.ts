@@ -0,0 +1,26 @@
+import { StreamType } from '@/schemas/stream.schema';
+import type { ManifestCatalog, ManifestExtra } from 'stremio-addon-sdk';
+import { DownloadedCatalogSort } from './types';
+
+export const DOWNLOADED_CATALOG_ID = 'ncore-downloaded';
+
+const sortExtra: ManifestExtra = {
+  name: 'genre',
+  options: Object.values(DownloadedCatalogSort),
+  isRequired: false,
+};
+
+export const DOWNLOADED_CATALOGS: ManifestCatalog[] = [
+  {
+    type: StreamType.MOVIE,
+    id: DOWNLOADED_CATALOG_ID,
+    name: 'Downloaded on this server',
+    extra: [sortExtra],
+  },
+  {
+    type: StreamType.TV_SHOW,
+    id: DOWNLOADED_CATALOG_ID,
+    name: 'Downloaded on this server',
+    extra: [sortExtra],
+  },
+];
@@ -0,0 +1,98 @@
+import { eq } from 'drizzle-orm';
+import type { Database } from '@/db';
+import { downloadedMediaTable, type DownloadedMedia } from '@/db/schema/downloaded-media';
+import type { StreamType } from '@/schemas/stream.schema';
+import type { CatalogMetaPreview, CinemeatService } from '@/services/cinemeta';
+import type { TorrentStoreService } from '@/services/torrent-store';
+import { isNotNull } from '@/utils/type-guards';
+import { DownloadedCatalogSort } from './types';
+
+type DownloadedTitle = {
+  imdbId: string;
+  /** The time the latest torrent of the title was added. */
+  addedAt: number;
+  /** The progress of the most complete torrent of the title. */
+  progress: number;
+};
+
+/**
+ * The catalog of the movies and shows whose torrents are on the server, so they start
+ * instantly and don't add new hit'n'runs.
+ */
+export class DownloadedMediaService {
+  constructor(
+    private db: Database,
+    private torrentStoreService: TorrentStoreService,
+    private cinemetaService: CinemeatService,
+  ) {}
+
+  /** Called when a torrent is added for playing, to know which title it belongs to. */
+  public async trackDownload({
+    infoHash,
+    imdbId,
+    type,
+  }: Omit<DownloadedMedia, 'addedAt'>) {
+    await this.db
+      .insert(downloadedMediaTable)
+      .values({ infoHash, imdbId, type, addedAt: new Date() })
+      .onConflictDoUpdate({
+        target: downloadedMediaTable.infoHash,
+        set: { imdbId, type },
+      });
+  }
+
+  /**
+   * The titles of the torrents that are in the torrent store. Torrents that were deleted
+   * since are left out, even if they are still in the database.
+   */
+  private async getDownloadedTitles(type: StreamType): Promise<DownloadedTitle[]> {
+    const torrentProgress = this.torrentStoreService.getTorrentProgress();
+    const media = await this.db
+      .select()
+      .from(downloadedMediaTable)
+      .where(eq(downloadedMediaTable.type, type));
+
+    const titles = new Map<string, DownloadedTitle>();
+    media.forEach(({ infoHash, imdbId, addedAt }) => {
+      const progress = torrentProgress.get(infoHash);
+      if (progress === undefined) {
+        return;
+      }
+      const title = titles.get(imdbId);
+      titles.set(imdbId, {
+        imdbId,
+        addedAt: Math.max(title?.addedAt ?? 0, addedAt.getTime()),
+        progress: Math.max(title?.progress ?? 0, progress),
+      });
+    });
+    return Array.from(titles.values());
+  }
+
+  public async getCatalog(
+    type: StreamType,
+    sort = DownloadedCatalogSort.RECENTLY_ADDED,
+  ): Promise<CatalogMetaPreview[]> {
+    const titles = (await this.getDownloadedTitles(type)).sort((a, b) =>
+      sort === DownloadedCatalogSort.COMPLETION
+        ? b.progress - a.progress || b.addedAt - a.addedAt
+        : b.addedAt - a.addedAt,
+    );
+    const previews = await Promise.all(
+      titles.map(async ({ imdbId, progress }) => {
+        const preview = await this.cinemetaService.getMetaPreview(type, imdbId);
+        if (!preview) {
+          return null;
+        }
+        const progressLine =
+          progress >= 1
+            ? '✅ Downloaded'
+            : `⏬ ${Math.floor(progress * 100)}% downloaded`;
+        return {
+          ...preview,
+          description: [progressLine, preview.description].filter(Boolean).join('\n'),
+        };
+      }),
+    );
+    return previews.filter(isNotNull);
+  }
+}
@@ -0,0 +1,3 @@
+export { DownloadedMediaService } from './downloaded-media.service';
+export { DownloadedCatalogSort } from './types';
+export { DOWNLOADED_CATALOG_ID, DOWNLOADED_CATALOGS } from './constants';
@@ -0,0 +1,5 @@
+/** Stremio only sends the genre filter to catalogs, so the sort order is chosen as a genre. */
+export enum DownloadedCatalogSort {
+  RECENTLY_ADDED = 'Recently added',
+  COMPLETION = 'Completion',
+}
@@ -0,0 +1,12 @@
+export const LOCAL_LIBRARY_SOURCE_NAME = 'local';
+
+/** The library is scanned again if it was last scanned more than 15 minutes ago. */
+export const LIBRARY_SCAN_TTL = 1000 * 60 * 15;
+/** How many files of the library are read at the same time while it's scanned. */
+export const SCAN_BATCH_SIZE = 16;
+
+export const MOVIE_NFO_FILE_NAME = 'movie.nfo';
+export const TV_SHOW_NFO_FILE_NAME = 'tvshow.nfo';
+
+/** Matches episode markers like `S01E02` or `1x02`. */
+export const EPISODE_MARKER_REGEX = /s\d{1,2}[ ._-]?e\d{1,3}|\b\d{1,2}x\d{2,3}\b/i;
@@ -0,0 +1,4 @@
+export { LocalLibraryService } from './local-library.service';
+export { LocalMediaDetails } from './local-media-details';
+export { LOCAL_LIBRARY_SOURCE_NAME } from './constants';
+export { LocalMediaMatchType, type LocalMediaFile } from './types';
@@ -0,0 +1,56 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTestDatabase } from '@/db/test-database';
+import type { CinemeatService } from '@/services/cinemeta';
+import { LIBRARY_SCAN_TTL } from './constants';
+import { LocalLibraryService } from './local-library.service';
+
+describe('LocalLibraryService', () => {
+  let libraryDir: string;
+  let service: LocalLibraryService;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    libraryDir = await mkdtemp(path.join(tmpdir(), 'local-library-'));
+    service = new LocalLibraryService(
+      createTestDatabase(),
+      {} as CinemeatService,
+      libraryDir,
+    );
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(libraryDir, { recursive: true });
+  });
+
+  const getFileNames = async () =>
+    (await service.getFiles()).map((file) => file.path).sort();
+
+  it('should index every file of a library bigger than a batch', async () => {
+    const fileNames = Array.from(
+      { length: 40 },
+      (_, index) => `Movie.${1980 + index}.mkv`,
+    );
+    await Promise.all(
+      fileNames.map((fileName) => writeFile(path.join(libraryDir, fileName), '')),
+    );
+    expect(await getFileNames()).toEqual(fileNames.sort());
+  });
+
+  it('should return the last scan while the library is scanned again', async () => {
+    await writeFile(path.join(libraryDir, 'Heat.1995.mkv'), '');
+    expect(await getFileNames()).toEqual(['Heat.1995.mkv']);
+
+    await writeFile(path.join(libraryDir, 'Ronin.1998.mkv'), '');
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + LIBRARY_SCAN_TTL + 1);
+    const scan = vi.spyOn(service, 'scanLibrary');
+    expect(await getFileNames()).toEqual(['Heat.1995.mkv']);
+    expect(scan).toHaveBeenCalledOnce();
+
+    await scan.mock.results[0].value;
+    expect(await getFileNames()).toEqual(['Heat.1995.mkv', 'Ronin.1998.mkv']);
+  });
+});
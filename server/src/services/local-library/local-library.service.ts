@@ -0,0 +1,320 @@
+import { createHash } from 'crypto';
+import { existsSync, lstatSync } from 'fs';
+import { readFile, stat } from 'fs/promises';
+import path from 'path';
+import { glob } from 'glob';
+import { eq } from 'drizzle-orm';
+import {
+  filenameParse,
+  parseLanguage,
+  Language as ParsedLanguage,
+} from '@ctrl/video-filename-parser';
+import type { ParsedShow } from '@ctrl/video-filename-parser';
+import type { TorrentSource } from '@/services/torrent-source/types';
+import type { StreamQuery } from '@/schemas/stream.schema';
+import { StreamType } from '@/schemas/stream.schema';
+import type { CinemeatService } from '@/services/cinemeta';
+import type { Database } from '@/db';
+import {
+  localMediaMappingsTable,
+  type LocalMediaMapping,
+} from '@/db/schema/local-media-mappings';
+import { Language } from '@/db/schema/users';
+import type { UpsertLocalMediaMappingRequest } from '@/schemas/local-library.schema';
+import { isSupportedMedia } from '@/utils/media-file-extensions';
+import { processInBatches } from '@/utils/process-in-batches';
+import { normalizeTitle, parseYear } from '@/utils/titles';
+import {
+  EPISODE_MARKER_REGEX,
+  LIBRARY_SCAN_TTL,
+  LOCAL_LIBRARY_SOURCE_NAME,
+  MOVIE_NFO_FILE_NAME,
+  SCAN_BATCH_SIZE,
+  TV_SHOW_NFO_FILE_NAME,
+} from './constants';
+import { LocalMediaMatchType, type LocalMediaFile, type NfoDetails } from './types';
+import { parseNfo } from './nfo';
+import { LocalMediaDetails } from './local-media-details';
+
+/**
+ * Lists media files that are already on the disk (e.g. an existing movie collection),
+ * so that they can be streamed without downloading them again.
+ */
+export class LocalLibraryService implements TorrentSource {
+  public name = LOCAL_LIBRARY_SOURCE_NAME;
+  public displayName = 'Local library';
+
+  private files: LocalMediaFile[] = [];
+  private lastScanTime = 0;
+  private scanPromise: Promise<LocalMediaFile[]> | null = null;
+
+  private libraryDir: string;
+
+  constructor(
+    private db: Database,
+    private cinemetaService: CinemeatService,
+    libraryDir: string,
+  ) {
+    this.libraryDir = path.resolve(libraryDir);
+  }
+
+  private getFileId(relativePath: string): string {
+    return createHash('sha1').update(relativePath).digest('hex');
+  }
+
+  private async readNfo(
+    nfoPath: string,
+    nfoCache: Map<string, Promise<NfoDetails | null>>,
+  ): Promise<NfoDetails | null> {
+    let nfo = nfoCache.get(nfoPath);
+    if (!nfo) {
+      nfo = readFile(nfoPath, { encoding: 'utf-8' })
+        .then(parseNfo)
+        .catch(() => null);
+      nfoCache.set(nfoPath, nfo);
+    }
+    return nfo;
+  }
+
+  /** Looks for the closest `tvshow.nfo`, going up until the library directory. */
+  private async findTvShowNfo(
+    directory: string,
+    nfoCache: Map<string, Promise<NfoDetails | null>>,
+  ): Promise<NfoDetails | null> {
+    let currentDirectory = directory;
+    while (currentDirectory.startsWith(this.libraryDir)) {
+      const nfo = await this.readNfo(
+        path.join(currentDirectory, TV_SHOW_NFO_FILE_NAME),
+        nfoCache,
+      );
+      if (nfo?.imdbId) {
+        return nfo;
+      }
+      const parentDirectory = path.dirname(currentDirectory);
+      if (parentDirectory === currentDirectory) break;
+      currentDirectory = parentDirectory;
+    }
+    return null;
+  }
+
+  private async getNfoDetails(
+    absolutePath: string,
+    nfoCache: Map<string, Promise<NfoDetails | null>>,
+  ): Promise<NfoDetails | null> {
+    const directory = path.dirname(absolutePath);
+    const baseName = path.basename(absolutePath, path.extname(absolutePath));
+
+    const ownNfo = await this.readNfo(path.join(directory, `${baseName}.nfo`), nfoCache);
+    if (ownNfo?.isEpisode) {
+      // episode NFOs contain the IMDb ID of the episode, not the show
+      const tvShowNfo = await this.findTvShowNfo(directory, nfoCache);
+      return { ...ownNfo, imdbId: tvShowNfo?.imdbId ?? null };
+    }
+    if (ownNfo?.imdbId) {
+      return ownNfo;
+    }
+    const movieNfo = await this.readNfo(
+      path.join(directory, MOVIE_NFO_FILE_NAME),
+      nfoCache,
+    );
+    if (movieNfo?.imdbId) {
+      return movieNfo;
+    }
+    return this.findTvShowNfo(directory, nfoCache);
+  }
+
+  private async indexFile(
+    relativePath: string,
+    mappings: Map<string, LocalMediaMapping>,
+    nfoCache: Map<string, Promise<NfoDetails | null>>,
+  ): Promise<LocalMediaFile> {
+    const absolutePath = path.join(this.libraryDir, relativePath);
+    const name = path.basename(relativePath);
+    const { size } = await stat(absolutePath);
+    const parsedMovie = filenameParse(name);
+    // years in movie names would be parsed as season + episode numbers (2010 -> S20E10)
+    const parsedShow = EPISODE_MARKER_REGEX.test(name)
+      ? (filenameParse(name, true) as ParsedShow)
+      : null;
+    const file: LocalMediaFile = {
+      id: this.getFileId(relativePath),
+      absolutePath,
+      path: relativePath,
+      name,
+      size,
+      title: parsedShow?.title ?? parsedMovie.title,
+      year: parseYear(parsedMovie.year),
+      imdbId: null,
+      seasons: parsedShow?.seasons ?? [],
+      episodes: parsedShow?.episodeNumbers ?? [],
+      language: parseLanguage(relativePath).includes(ParsedLanguage.Hungarian)
+        ? Language.HU
+        : Language.EN,
+      matchedBy: LocalMediaMatchType.FILENAME,
+    };
+
+    const mapping = mappings.get(relativePath);
+    if (mapping) {
+      return {
+        ...file,
+        imdbId: mapping.imdbId,
+        seasons: mapping.season !== null ? [mapping.season] : [],
+        episodes: mapping.episode !== null ? [mapping.episode] : [],
+        matchedBy: LocalMediaMatchType.MAPPING,
+      };
+    }
+
+    const nfo = await this.getNfoDetails(absolutePath, nfoCache);
+    if (nfo?.imdbId) {
+      return {
+        ...file,
+        imdbId: nfo.imdbId,
+        seasons: nfo.season !== null ? [nfo.season] : file.seasons,
+        episodes: nfo.episode !== null ? [nfo.episode] : file.episodes,
+        matchedBy: LocalMediaMatchType.NFO,
+      };
+    }
+    return file;
+  }
+
+  public async scanLibrary(): Promise<LocalMediaFile[]> {
+    if (this.scanPromise) {
+      return this.scanPromise;
+    }
+    this.scanPromise = (async () => {
+      console.log(`Scanning local library at ${this.libraryDir}...`);
+      const mappings = new Map(
+        (await this.getMappings()).map((mapping) => [mapping.path, mapping]),
+      );
+      const nfoCache = new Map<string, Promise<NfoDetails | null>>();
+      const relativePaths = (
+        await glob('**/*', { cwd: this.libraryDir, nodir: true, posix: true })
+      ).filter(
+        (filePath) =>
+          isSupportedMedia(filePath) && !filePath.toLocaleLowerCase().includes('sample'),
+      );
+      // a few files at a time, big libraries would run out of file descriptors
+      const files = await processInBatches(
+        relativePaths,
+        SCAN_BATCH_SIZE,
+        0,
+        (relativePath) => this.indexFile(relativePath, mappings, nfoCache),
+      );
+      console.log(`Found ${files.length} media files in the local library.`);
+      this.files = files;
+      this.lastScanTime = Date.now();
+      return files;
+    })().finally(() => {
+      this.scanPromise = null;
+    });
+    return this.scanPromise;
+  }
+
+  /**
+   * Only the first request waits for the scan. After that the last scan is returned, and
+   * if it's older than `LIBRARY_SCAN_TTL`, the library is scanned again in the background.
+   */
+  public async getFiles(): Promise<LocalMediaFile[]> {
+    if (this.lastScanTime === 0) {
+      return this.scanLibrary();
+    }
+    if (Date.now() - this.lastScanTime > LIBRARY_SCAN_TTL) {
+      this.scanLibrary().catch((error) => {
+        console.error('Failed to scan the local library', error);
+      });
+    }
+    return this.files;
+  }
+
+  public async getFileById(fileId: string): Promise<LocalMediaFile | null> {
+    const files = await this.getFiles();
+    return files.find((file) => file.id === fileId) ?? null;
+  }
+
+  public async getTorrentsForImdbId({
+    imdbId,
+    type,
+    season,
+    episode,
+  }: Pick<StreamQuery, 'imdbId' | 'type' | 'season' | 'episode'>): Promise<
+    LocalMediaDetails[]
+  > {
+    const files = (await this.getFiles()).filter((file) =>
+      type === StreamType.MOVIE
+        ? file.episodes.length === 0
+        : season !== undefined &&
+          episode !== undefined &&
+          file.seasons.includes(season) &&
+          file.episodes.includes(episode),
+    );
+    const matchedFiles = files
+      .filter((file) => file.imdbId === imdbId)
+      .map((file) => new LocalMediaDetails(file, false));
+
+    const unmatchedFiles = files.filter((file) => file.imdbId === null);
+    if (unmatchedFiles.length === 0) {
+      return matchedFiles;
+    }
+    try {
+      const { meta } = await this.cinemetaService.getMetadataByImdbId(type, imdbId);
+      const title = normalizeTitle(meta.name);
+      const year = parseYear(meta.releaseInfo);
+      const filesMatchedByTitle = unmatchedFiles
+        .filter((file) => normalizeTitle(file.title) === title)
+        .map((file) => {
+          const isYearMatching = year !== null && file.year === year;
+          return new LocalMediaDetails(file, !isYearMatching);
+        });
+      return [...matchedFiles, ...filesMatchedByTitle];
+    } catch (error) {
+      console.error('Failed to get metadata from Cinemeta', error);
+      return matchedFiles;
+    }
+  }
+
+  public async getTorrentUrlBySourceId(): Promise<string | null> {
+    // local files are played from the disk, see `StreamController.playLocalFile`
+    return null;
+  }
+
+  public async getRemovableInfoHashes(): Promise<string[]> {
+    return [];
+  }
+
+  public async getConfigIssues(): Promise<string | null> {
+    if (!existsSync(this.libraryDir) || !lstatSync(this.libraryDir).isDirectory()) {
+      return `The local library directory (${this.libraryDir}) doesn't exist. Check the LOCAL_LIBRARY_DIR environment variable.`;
+    }
+    return null;
+  }
+
+  public async getMappings(): Promise<LocalMediaMapping[]> {
+    return this.db.select().from(localMediaMappingsTable);
+  }
+
+  public async upsertMapping(
+    data: UpsertLocalMediaMappingRequest,
+  ): Promise<LocalMediaMapping> {
+    const values = {
+      path: data.path,
+      imdbId: data.imdbId,
+      season: data.season ?? null,
+      episode: data.episode ?? null,
+    };
+    const [mapping] = await this.db
+      .insert(localMediaMappingsTable)
+      .values(values)
+      .onConflictDoUpdate({ target: localMediaMappingsTable.path, set: values })
+      .returning();
+    // the next request will scan the library again with the new mapping
+    this.lastScanTime = 0;
+    return mapping;
+  }
+
+  public async deleteMapping(mappingId: number): Promise<void> {
+    await this.db
+      .delete(localMediaMappingsTable)
+      .where(eq(localMediaMappingsTable.id, mappingId));
+    this.lastScanTime = 0;
+  }
+}
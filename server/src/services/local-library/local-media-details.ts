@@ -0,0 +1,60 @@
+import { TorrentDetails, type TorrentFileDetails } from '@/services/torrent-source/types';
+import {
+  EpisodeMatchConfidence,
+  type EpisodeMatch,
+} from '@/services/torrent-source/episode-resolver';
+import { Resolution, type Language } from '@/db/schema/users';
+import type { LocalMediaFile } from './types';
+import { LOCAL_LIBRARY_SOURCE_NAME } from './constants';
+
+/**
+ * A media file from the local library, wrapped as a torrent with a single file,
+ * so that it can be ranked and displayed alongside the torrents.
+ */
+export class LocalMediaDetails extends TorrentDetails {
+  public sourceName = LOCAL_LIBRARY_SOURCE_NAME;
+  public sourceId: string;
+  /** Local files have no info hash, the file ID is used instead. */
+  public infoHash: string;
+  public fallbackResolution = Resolution.R720P;
+  public files: TorrentFileDetails[];
+  public isSpeculated?: boolean;
+
+  private name: string;
+  private language: Language;
+
+  constructor(file: LocalMediaFile, isSpeculated: boolean) {
+    super();
+    this.sourceId = file.id;
+    this.infoHash = file.id;
+    this.files = [{ name: file.name, path: file.path, length: file.size, offset: 0 }];
+    this.isSpeculated = isSpeculated;
+    this.name = file.name;
+    this.language = file.language;
+  }
+
+  public displayResolution(resolution: Resolution): string {
+    return `Local (${resolution})`;
+  }
+
+  public getName(): string {
+    return this.name;
+  }
+
+  public getSeed(): number {
+    return 0;
+  }
+
+  public getLanguage(): Language {
+    return this.language;
+  }
+
+  /** The file has already been matched to the searched episode while listing the library. */
+  public getMediaFileIndex(): number {
+    return 0;
+  }
+
+  public getEpisodeMatch(): EpisodeMatch {
+    return { fileIndex: 0, confidence: EpisodeMatchConfidence.HIGH };
+  }
+}
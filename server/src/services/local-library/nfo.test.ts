@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { parseNfo } from './nfo';
+
+describe('parseNfo', () => {
+  it('should read the IMDb ID of a movie NFO', () => {
+    const nfo = `<?xml version="1.0" encoding="UTF-8" standalone="yes" ?>
+      <movie>
+        <title>The Matrix</title>
+        <uniqueid type="tmdb">603</uniqueid>
+        <uniqueid type="imdb" default="true">tt0133093</uniqueid>
+      </movie>`;
+    expect(parseNfo(nfo)).toEqual({
+      imdbId: 'tt0133093',
+      isEpisode: false,
+      season: null,
+      episode: null,
+    });
+  });
+
+  it('should read the season and episode of an episode NFO', () => {
+    const nfo = `<episodedetails>
+        <title>Cat's in the Bag...</title>
+        <season>1</season>
+        <episode>2</episode>
+        <uniqueid type="imdb">tt1054724</uniqueid>
+      </episodedetails>`;
+    expect(parseNfo(nfo)).toEqual({
+      imdbId: 'tt1054724',
+      isEpisode: true,
+      season: 1,
+      episode: 2,
+    });
+  });
+
+  it('should read the IMDb ID from a plain IMDb link', () => {
+    expect(parseNfo('https://www.imdb.com/title/tt0903747/').imdbId).toBe('tt0903747');
+  });
+
+  it('should return null if there is no IMDb ID in the NFO', () => {
+    expect(parseNfo('Ripped by someone').imdbId).toBeNull();
+  });
+});
@@ -0,0 +1,33 @@
+import type { NfoDetails } from './types';
+
+const IMDB_ID_PATTERNS = [
+  /<uniqueid[^>]*type="imdb"[^>]*>\s*(tt\d+)\s*<\/uniqueid>/i,
+  /<imdbid>\s*(tt\d+)\s*<\/imdbid>/i,
+  /<id>\s*(tt\d+)\s*<\/id>/i,
+  /imdb\.com\/title\/(tt\d+)/i,
+  /\b(tt\d{7,})\b/,
+];
+
+const getNumberTag = (content: string, tagName: string): number | null => {
+  const value = content.match(
+    new RegExp(`<${tagName}>\\s*(\\d+)\\s*</${tagName}>`, 'i'),
+  )?.[1];
+  return value ? Number(value) : null;
+};
+
+/**
+ * Reads the details of Kodi-style NFO files. Plain text NFO files that only contain an
+ * IMDb link are supported as well.
+ * @see https://kodi.wiki/view/NFO_files
+ */
+export const parseNfo = (content: string): NfoDetails => {
+  const imdbId =
+    IMDB_ID_PATTERNS.map((pattern) => content.match(pattern)?.[1]).find(Boolean) ?? null;
+  const isEpisode = /<episodedetails[\s>]/i.test(content);
+  return {
+    imdbId,
+    isEpisode,
+    season: isEpisode ? getNumberTag(content, 'season') : null,
+    episode: isEpisode ? getNumberTag(content, 'episode') : null,
+  };
+};
@@ -0,0 +1,34 @@
+import type { Language } from '@/db/schema/users';
+
+export enum LocalMediaMatchType {
+  /** Matched by a mapping that an admin saved in the database. */
+  MAPPING = 'mapping',
+  /** Matched by an IMDb ID found in an NFO file next to the media file. */
+  NFO = 'nfo',
+  /** Not matched to an IMDb ID, it can only be matched by its parsed title. */
+  FILENAME = 'filename',
+}
+
+export interface LocalMediaFile {
+  /** A stable identifier derived from the relative path. Used in the play URL. */
+  id: string;
+  absolutePath: string;
+  /** The path of the file relative to the library directory. */
+  path: string;
+  name: string;
+  size: number;
+  title: string;
+  year: number | null;
+  imdbId: string | null;
+  seasons: number[];
+  episodes: number[];
+  language: Language;
+  matchedBy: LocalMediaMatchType;
+}
+
+export interface NfoDetails {
+  imdbId: string | null;
+  isEpisode: boolean;
+  season: number | null;
+  episode: number | null;
+}
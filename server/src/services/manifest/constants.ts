@@ -0,0 +1,2 @@
+/** Short, so that the changes of the catalogs show up soon on the Stremio boards. */
+export const CATALOG_CACHE_MAX_AGE = 60;
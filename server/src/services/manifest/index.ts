@@ -1 +1,2 @@
 export { ManifestService } from './manifest.service';
+export { CATALOG_CACHE_MAX_AGE } from './constants';
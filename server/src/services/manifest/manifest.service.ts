@@ -2,6 +2,8 @@ import { CustomManifest } from './types';
 import { ConfigService } from '../config';
 import { DeviceTokenService } from '../device-token';
 import { UserService } from '../user';
+import { WATCHLIST_CATALOGS } from '../watchlist';
+import { DOWNLOADED_CATALOGS } from '../downloaded-media';
 
 export class ManifestService {
   constructor(
@@ -23,8 +25,8 @@ export class ManifestService {
       version: '0.0.1',
       name: 'nCore',
       description: 'Provides streams from a personal nCore account.',
-      catalogs: [],
-      resources: ['stream'],
+      catalogs: [...WATCHLIST_CATALOGS, ...DOWNLOADED_CATALOGS],
+      resources: ['stream', 'catalog', 'subtitles'],
       types: ['movie', 'series'],
       idPrefixes: ['tt'],
       logo: `${config.addonUrl}/stremio-ncore-addon-logo-rounded.png`,
@@ -0,0 +1,10 @@
+/** Read with the block headers, so a file header with its name needs one read. */
+export const RAR_HEADER_READ_AHEAD = 1024;
+
+/** Scene releases have one file in each volume, the `.nfo` is next to the volumes. */
+export const MAX_RAR_HEADERS_PER_VOLUME = 64;
+
+/** The archives that are played, and the headers of their volumes. */
+export const RAR_ARCHIVE_CACHE_MAX = 50;
+export const RAR_VOLUME_CACHE_MAX = 2000;
+export const RAR_ARCHIVE_CACHE_TTL = 24 * 60 * 60 * 1000;
@@ -0,0 +1,3 @@
+export { RarArchiveService } from './rar-archive.service';
+export { RarArchiveError } from './rar-archive.error';
+export type { ArchivedFile, ArchiveSegment, RarArchive, RarFileEntry } from './types';
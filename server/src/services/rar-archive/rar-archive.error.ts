@@ -0,0 +1,6 @@
+/** The archive can't be streamed, e.g. because its video is compressed or encrypted. */
+export class RarArchiveError extends Error {
+  constructor(message?: string, options?: ErrorOptions) {
+    super(message, options);
+  }
+}
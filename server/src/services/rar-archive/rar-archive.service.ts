@@ -0,0 +1,199 @@
+import { HTTPException } from 'hono/http-exception';
+import type WebTorrent from 'webtorrent';
+import type { TorrentStoreService } from '@/services/torrent-store';
+import { HttpStatusCode } from '@/types/http';
+import { Cached } from '@/utils/cache';
+import { concatenateStreams, mapRangeToParts } from '@/utils/concatenated-files';
+import { findRarVolumes } from '@/utils/rar-volumes';
+import { createReadRange } from '@/utils/read-range';
+import {
+  RAR_ARCHIVE_CACHE_MAX,
+  RAR_ARCHIVE_CACHE_TTL,
+  RAR_VOLUME_CACHE_MAX,
+} from './constants';
+import {
+  findArchivedVideo,
+  getArchiveSegments,
+  guessArchiveSegments,
+  isSegmentOfEntry,
+  readRarVolume,
+} from './rar';
+import { RarArchiveError } from './rar-archive.error';
+import type { ArchiveSegment, RarArchive, RarFileEntry } from './types';
+
+const toHttpException = (error: unknown): never => {
+  if (error instanceof RarArchiveError) {
+    throw new HTTPException(HttpStatusCode.UNSUPPORTED_MEDIA_TYPE, {
+      message: error.message,
+      cause: error,
+    });
+  }
+  throw error;
+};
+
+/**
+ * Streams the videos that scene releases store in RAR volumes, straight from the pieces
+ * of the volumes, so they don't have to be extracted next to the download.
+ */
+export class RarArchiveService {
+  constructor(private torrentStoreService: TorrentStoreService) {}
+
+  private async getTorrent(infoHash: string): Promise<WebTorrent.Torrent> {
+    const torrent = await this.torrentStoreService.getTorrent(infoHash);
+    if (!torrent) {
+      throw new HTTPException(HttpStatusCode.NOT_FOUND, {
+        message: 'Torrent not found',
+      });
+    }
+    return torrent;
+  }
+
+  /** The first file header of a volume after the first one, which continues the video. */
+  @Cached({
+    max: RAR_VOLUME_CACHE_MAX,
+    ttl: RAR_ARCHIVE_CACHE_TTL,
+    generateKey: (infoHash, fileIndex) => `${infoHash}:${fileIndex}`,
+  })
+  private async getContinuation(
+    infoHash: string,
+    fileIndex: number,
+  ): Promise<RarFileEntry> {
+    const file = (await this.getTorrent(infoHash)).files[fileIndex];
+    const [entry] = await readRarVolume(createReadRange(file), file.length, 1).catch(
+      toHttpException,
+    );
+    if (!entry) {
+      throw new HTTPException(HttpStatusCode.UNSUPPORTED_MEDIA_TYPE, {
+        message: `${file.name} has no files`,
+      });
+    }
+    return entry;
+  }
+
+  /**
+   * Reads the first volume, and guesses where the video is in the others, see
+   * `guessArchiveSegments`. The guesses are checked when the volumes are streamed.
+   * @param fileIndex The first volume of the archive.
+   */
+  @Cached({
+    max: RAR_ARCHIVE_CACHE_MAX,
+    ttl: RAR_ARCHIVE_CACHE_TTL,
+    generateKey: (infoHash, fileIndex) => `${infoHash}:${fileIndex}`,
+  })
+  public async getArchive(infoHash: string, fileIndex: number): Promise<RarArchive> {
+    const torrent = await this.getTorrent(infoHash);
+    const volumeFileIndices = findRarVolumes(torrent.files, fileIndex);
+    if (!volumeFileIndices) {
+      throw new HTTPException(HttpStatusCode.NOT_FOUND, {
+        message: 'Some volumes of the archive are missing from the torrent',
+      });
+    }
+    const firstVolume = torrent.files[fileIndex];
+    const video = await readRarVolume(createReadRange(firstVolume), firstVolume.length)
+      .then(findArchivedVideo)
+      .catch(toHttpException);
+    const continuation =
+      video.isSplitAfter && volumeFileIndices.length > 1
+        ? await this.getContinuation(infoHash, volumeFileIndices[1])
+        : null;
+    const volumeLengths = volumeFileIndices.map((index) => torrent.files[index].length);
+    const segments =
+      guessArchiveSegments(volumeLengths, video, continuation) ??
+      (await this.readSegments(infoHash, { video, volumeFileIndices }));
+    return {
+      video,
+      file: { name: video.name, size: video.unpackedSize, segments },
+      volumeFileIndices,
+    };
+  }
+
+  /** Reads the header of every volume, when the guessed segments were wrong. */
+  private async readSegments(
+    infoHash: string,
+    { video, volumeFileIndices }: Pick<RarArchive, 'video' | 'volumeFileIndices'>,
+  ): Promise<ArchiveSegment[]> {
+    const continuations = await Promise.all(
+      volumeFileIndices
+        .slice(1)
+        .map((fileIndex) => this.getContinuation(infoHash, fileIndex)),
+    );
+    try {
+      return getArchiveSegments(video, continuations);
+    } catch (error) {
+      return toHttpException(error);
+    }
+  }
+
+  private async isSegmentChecked(
+    infoHash: string,
+    archive: RarArchive,
+    segment: ArchiveSegment,
+  ): Promise<boolean> {
+    if (segment.volumeIndex === 0) {
+      return true;
+    }
+    const entry = await this.getContinuation(
+      infoHash,
+      archive.volumeFileIndices[segment.volumeIndex],
+    );
+    return isSegmentOfEntry(segment, entry);
+  }
+
+  /**
+   * Streams an inclusive byte range of the archived video from the volumes. The headers
+   * of the volumes in the range are read first, to check the guessed segments, and the
+   * segments of the archive are read again if any of them was wrong.
+   */
+  public async createRangeStream(
+    torrent: WebTorrent.Torrent,
+    archive: RarArchive,
+    range: { start: number; end: number },
+  ): Promise<ReadableStream<Uint8Array>> {
+    let { segments } = archive.file;
+    let parts = mapRangeToParts(
+      segments.map(({ length }) => length),
+      range,
+    );
+    const areChecked = await Promise.all(
+      parts.map(({ partIndex }) =>
+        this.isSegmentChecked(torrent.infoHash, archive, segments[partIndex]),
+      ),
+    );
+    if (!areChecked.every(Boolean)) {
+      segments = await this.readSegments(torrent.infoHash, archive);
+      // the archive is cached, so the next ranges and `getVolumePosition` use these too
+      archive.file.segments = segments;
+      parts = mapRangeToParts(
+        segments.map(({ length }) => length),
+        range,
+      );
+    }
+    return concatenateStreams(
+      parts.map(({ partIndex, start, end }) => () => {
+        const segment = segments[partIndex];
+        const volume = torrent.files[archive.volumeFileIndices[segment.volumeIndex]];
+        return volume.stream({ start: segment.start + start, end: segment.start + end });
+      }),
+    );
+  }
+
+  /** Where a byte of the archived video is in the volumes, to download it first. */
+  public getVolumePosition(
+    archive: RarArchive,
+    position: number,
+  ): { fileIndex: number; offset: number } | null {
+    const { segments } = archive.file;
+    const [part] = mapRangeToParts(
+      segments.map(({ length }) => length),
+      { start: position, end: position },
+    );
+    if (!part) {
+      return null;
+    }
+    const segment = segments[part.partIndex];
+    return {
+      fileIndex: archive.volumeFileIndices[segment.volumeIndex],
+      offset: segment.start + part.start,
+    };
+  }
+}
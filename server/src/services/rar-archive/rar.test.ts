@@ -0,0 +1,303 @@
+import { describe, expect, it } from 'vitest';
+import type { ReadRange } from '../../utils/read-range';
+import {
+  findArchivedVideo,
+  getArchiveSegments,
+  guessArchiveSegments,
+  isSegmentOfEntry,
+  readRarVolume,
+} from './rar';
+import type { ArchiveSegment, RarFileEntry } from './types';
+
+const concat = (...parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const createReader = (file: Uint8Array): ReadRange => {
+  return async (start, end) => file.subarray(start, Math.min(end, file.length));
+};
+
+const createVideo = (length: number) =>
+  Uint8Array.from({ length }, (_, index) => (index * 7) % 256);
+
+interface ArchivedPart {
+  name: string;
+  data: Uint8Array;
+  unpackedSize: number;
+  isContinued?: boolean;
+  isSplitAfter?: boolean;
+  isCompressed?: boolean;
+  isEncrypted?: boolean;
+}
+
+const rar4Block = (type: number, flags: number, fields: Uint8Array) => {
+  const block = new Uint8Array(7 + fields.length);
+  const view = new DataView(block.buffer);
+  block[2] = type;
+  view.setUint16(3, flags, true);
+  view.setUint16(5, block.length, true);
+  block.set(fields, 7);
+  return block;
+};
+
+const rar4FileHeader = (part: ArchivedPart) => {
+  const name = new TextEncoder().encode(part.name);
+  const fields = new Uint8Array(25 + name.length);
+  const view = new DataView(fields.buffer);
+  view.setUint32(0, part.data.length, true);
+  view.setUint32(4, part.unpackedSize, true);
+  fields[18] = part.isCompressed ? 0x33 : 0x30;
+  view.setUint16(19, name.length, true);
+  fields.set(name, 25);
+  const flags =
+    0x8000 |
+    (part.isContinued ? 0x0001 : 0) |
+    (part.isSplitAfter ? 0x0002 : 0) |
+    (part.isEncrypted ? 0x0004 : 0);
+  return rar4Block(0x74, flags, fields);
+};
+
+const createRar4Volume = (...parts: ArchivedPart[]) =>
+  concat(
+    Uint8Array.from([0x52, 0x61, 0x72, 0x21, 0x1a, 0x07, 0x00]),
+    rar4Block(0x73, 0x0001, new Uint8Array(6)),
+    ...parts.flatMap((part) => [rar4FileHeader(part), part.data]),
+    rar4Block(0x7b, 0x4000, new Uint8Array()),
+  );
+
+const vint = (value: number) => {
+  const bytes: number[] = [];
+  let rest = value;
+  do {
+    bytes.push(rest % 128 | (rest >= 128 ? 0x80 : 0));
+    rest = Math.floor(rest / 128);
+  } while (rest > 0);
+  return Uint8Array.from(bytes);
+};
+
+const rar5Header = (...fields: Uint8Array[]) => {
+  const body = concat(...fields);
+  return concat(new Uint8Array(4), vint(body.length), body);
+};
+
+const rar5FileHeader = (part: ArchivedPart) => {
+  const name = new TextEncoder().encode(part.name);
+  // an encryption record without its parameters
+  const extraArea = part.isEncrypted ? concat(vint(1), vint(0x01)) : new Uint8Array();
+  const flags =
+    0x0002 |
+    (part.isEncrypted ? 0x0001 : 0) |
+    (part.isContinued ? 0x0008 : 0) |
+    (part.isSplitAfter ? 0x0010 : 0);
+  return rar5Header(
+    vint(2),
+    vint(flags),
+    ...(part.isEncrypted ? [vint(extraArea.length)] : []),
+    vint(part.data.length),
+    vint(0x0004), // file flags, with the CRC
+    vint(part.unpackedSize),
+    vint(0x20),
+    new Uint8Array(4),
+    vint(part.isCompressed ? 3 << 7 : 0),
+    vint(0),
+    vint(name.length),
+    name,
+    extraArea,
+  );
+};
+
+const createRar5Volume = (...parts: ArchivedPart[]) =>
+  concat(
+    Uint8Array.from([0x52, 0x61, 0x72, 0x21, 0x1a, 0x07, 0x01, 0x00]),
+    rar5Header(vint(1), vint(0), vint(0x0001)),
+    ...parts.flatMap((part) => [rar5FileHeader(part), part.data]),
+    rar5Header(vint(5), vint(0), vint(0)),
+  );
+
+/** Splits the video into volumes, like `rar -v` does. */
+const createVolumes = (
+  createVolume: (...parts: ArchivedPart[]) => Uint8Array,
+  video: Uint8Array,
+  volumeDataLength: number,
+) => {
+  const volumes: Uint8Array[] = [];
+  for (let start = 0; start < video.length; start += volumeDataLength) {
+    volumes.push(
+      createVolume({
+        name: 'Movie.2023.1080p.BluRay.x264-GRP.mkv',
+        data: video.subarray(start, start + volumeDataLength),
+        unpackedSize: video.length,
+        isContinued: start > 0,
+        isSplitAfter: start + volumeDataLength < video.length,
+      }),
+    );
+  }
+  return volumes;
+};
+
+const readSegments = (volumes: Uint8Array[], segments: ArchiveSegment[]) =>
+  concat(
+    ...segments.map(({ volumeIndex, start, length }) =>
+      volumes[volumeIndex].subarray(start, start + length),
+    ),
+  );
+
+describe('readRarVolume', () => {
+  it.each([
+    ['RAR 4', createRar4Volume],
+    ['RAR 5', createRar5Volume],
+  ])('should find where the files of a %s volume are', async (_, createVolume) => {
+    const nfo = new TextEncoder().encode('release notes');
+    const video = createVideo(300);
+    const volume = createVolume(
+      { name: 'grp.nfo', data: nfo, unpackedSize: nfo.length },
+      { name: 'movie.mkv', data: video, unpackedSize: video.length },
+    );
+
+    const entries = await readRarVolume(createReader(volume), volume.length);
+
+    expect(entries.map(({ name, isStored }) => ({ name, isStored }))).toEqual([
+      { name: 'grp.nfo', isStored: true },
+      { name: 'movie.mkv', isStored: true },
+    ]);
+    const [, entry] = entries;
+    expect(volume.subarray(entry.dataStart, entry.dataStart + entry.dataLength)).toEqual(
+      video,
+    );
+  });
+
+  it('should stop at the file that goes on in the next volume', async () => {
+    const [volume] = createVolumes(createRar5Volume, createVideo(300), 100);
+    const read = createReader(volume);
+    const reads: number[] = [];
+
+    const entries = await readRarVolume(async (start, end) => {
+      reads.push(start);
+      return read(start, end);
+    }, volume.length);
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].isSplitAfter).toBe(true);
+    // the end of the archive after the data is not read
+    expect(reads.every((start) => start < entries[0].dataStart)).toBe(true);
+  });
+
+  it('should reject files that are not RAR archives', async () => {
+    const file = createVideo(100);
+    await expect(readRarVolume(createReader(file), file.length)).rejects.toThrow(
+      'Not a RAR archive',
+    );
+  });
+});
+
+describe('findArchivedVideo', () => {
+  const entry = (overrides: Partial<RarFileEntry>): RarFileEntry => ({
+    name: 'movie.mkv',
+    unpackedSize: 1000,
+    dataStart: 100,
+    dataLength: 1000,
+    isStored: true,
+    isEncrypted: false,
+    isDirectory: false,
+    isContinued: false,
+    isSplitAfter: false,
+    ...overrides,
+  });
+
+  it('should pick the biggest video', () => {
+    const video = findArchivedVideo([
+      entry({ name: 'grp.nfo', unpackedSize: 5000 }),
+      entry({ name: 'sample.mkv', unpackedSize: 100 }),
+      entry({ name: 'movie.mkv' }),
+    ]);
+    expect(video.name).toBe('movie.mkv');
+  });
+
+  it('should reject compressed and encrypted videos', () => {
+    expect(() => findArchivedVideo([entry({ isStored: false })])).toThrow(
+      'only stored videos can be streamed',
+    );
+    expect(() => findArchivedVideo([entry({ isEncrypted: true })])).toThrow(
+      'movie.mkv is encrypted',
+    );
+  });
+
+  it('should read the compression and the encryption of RAR 5 files', async () => {
+    const data = createVideo(10);
+    const volume = createRar5Volume(
+      { name: 'a.mkv', data, unpackedSize: 20, isCompressed: true },
+      { name: 'b.mkv', data, unpackedSize: 10, isEncrypted: true },
+    );
+    const entries = await readRarVolume(createReader(volume), volume.length);
+    expect(
+      entries.map(({ isStored, isEncrypted }) => ({ isStored, isEncrypted })),
+    ).toEqual([
+      { isStored: false, isEncrypted: false },
+      { isStored: true, isEncrypted: true },
+    ]);
+  });
+});
+
+const readFirstEntries = (volumes: Uint8Array[]) =>
+  Promise.all(
+    volumes.map(async (volume) => {
+      const [entry] = await readRarVolume(createReader(volume), volume.length, 1);
+      return entry;
+    }),
+  );
+
+describe('archive segments', () => {
+  it.each([
+    ['RAR 4', createRar4Volume],
+    ['RAR 5', createRar5Volume],
+  ])('should map the video onto the %s volumes', async (_, createVolume) => {
+    const video = createVideo(1150);
+    const volumes = createVolumes(createVolume, video, 200);
+    const entries = await readFirstEntries(volumes);
+    const [first, ...continuations] = entries;
+
+    const segments = getArchiveSegments(findArchivedVideo([first]), continuations);
+    expect(readSegments(volumes, segments)).toEqual(video);
+
+    const guessed = guessArchiveSegments(
+      volumes.map(({ length }) => length),
+      first,
+      continuations[0],
+    );
+    expect(guessed).toEqual(segments);
+  });
+
+  it('should tell when the header of the last volume was guessed wrong', async () => {
+    // the data size of RAR 5 headers is shorter when the last part is small
+    const volumes = createVolumes(createRar5Volume, createVideo(1050), 200);
+    const entries = await readFirstEntries(volumes);
+
+    const guessed = guessArchiveSegments(
+      volumes.map(({ length }) => length),
+      entries[0],
+      entries[1],
+    );
+
+    expect(
+      guessed?.map((segment, index) => isSegmentOfEntry(segment, entries[index])),
+    ).toEqual([true, true, true, true, true, false]);
+  });
+
+  it('should not guess when the volumes do not add up', async () => {
+    const volumes = createVolumes(createRar4Volume, createVideo(500), 200);
+    // the last volume is missing from the torrent
+    const [first, second] = await readFirstEntries(volumes.slice(0, 2));
+    const lengths = volumes.slice(0, 2).map(({ length }) => length);
+
+    expect(guessArchiveSegments(lengths, first, second)).toBeNull();
+    expect(() => getArchiveSegments(first, [second])).toThrow(
+      "Volume 3 doesn't continue",
+    );
+  });
+});
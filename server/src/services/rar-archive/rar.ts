@@ -0,0 +1,396 @@
+/**
+ * Reads the headers of RAR 4 and RAR 5 volumes, to find where the data of a stored file
+ * is. Stored files are not compressed, so they can be streamed from the volumes as they are.
+ *
+ * @see https://www.rarlab.com/technote.htm
+ */
+import { isSupportedMedia } from '../../utils/media-file-extensions';
+import type { ReadRange } from '../../utils/read-range';
+import { MAX_RAR_HEADERS_PER_VOLUME, RAR_HEADER_READ_AHEAD } from './constants';
+import { RarArchiveError } from './rar-archive.error';
+import type { ArchiveSegment, RarFileEntry } from './types';
+
+const RAR4_SIGNATURE = [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07, 0x00];
+const RAR5_SIGNATURE = [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07, 0x01, 0x00];
+
+/** The CRC, the type, the flags and the size of the header. */
+const RAR4_BLOCK_HEADER_LENGTH = 7;
+/** Shorter headers are broken in both versions, and would not move the reading forward. */
+const MIN_HEADER_LENGTH = 7;
+/** The fixed fields of a RAR 4 file header, before the 64 bit sizes and the name. */
+const RAR4_FILE_HEADER_LENGTH = 32;
+const RAR4_STORE_METHOD = 0x30;
+
+enum Rar4BlockType {
+  MAIN = 0x73,
+  FILE = 0x74,
+  END = 0x7b,
+}
+
+enum Rar4Flag {
+  MAIN_ENCRYPTED_HEADERS = 0x0080,
+  FILE_SPLIT_BEFORE = 0x0001,
+  FILE_SPLIT_AFTER = 0x0002,
+  FILE_ENCRYPTED = 0x0004,
+  FILE_LARGE = 0x0100,
+  FILE_UNICODE_NAME = 0x0200,
+  /** Blocks with this flag have the size of their data after the header fields. */
+  LONG_BLOCK = 0x8000,
+}
+
+const RAR4_DIRECTORY_MASK = 0x00e0;
+
+enum Rar5HeaderType {
+  FILE = 2,
+  ENCRYPTION = 4,
+  END = 5,
+}
+
+enum Rar5Flag {
+  EXTRA_AREA = 0x0001,
+  DATA_AREA = 0x0002,
+  SPLIT_BEFORE = 0x0008,
+  SPLIT_AFTER = 0x0010,
+}
+
+enum Rar5FileFlag {
+  DIRECTORY = 0x0001,
+  TIME = 0x0002,
+  CRC = 0x0004,
+}
+
+const RAR5_ENCRYPTION_RECORD = 0x01;
+/** The 4 byte CRC comes before the size of a RAR 5 header. */
+const RAR5_CRC_LENGTH = 4;
+
+interface RarBlock {
+  /** The data after the header, e.g. the packed file. */
+  dataLength: number;
+  entry: RarFileEntry | null;
+  isEnd: boolean;
+}
+
+interface RarFormat {
+  signature: number[];
+  /** The length of the header that starts the buffer, with the fields before the size. */
+  getHeaderLength: (data: Uint8Array) => number;
+  /** @param position Where the header is in the volume. */
+  parseBlock: (header: Uint8Array, position: number) => RarBlock;
+}
+
+const toDataView = (data: Uint8Array) =>
+  new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+const decodeName = (data: Uint8Array) => new TextDecoder().decode(data);
+
+const rar4: RarFormat = {
+  signature: RAR4_SIGNATURE,
+  getHeaderLength: (data) => {
+    if (data.length < RAR4_BLOCK_HEADER_LENGTH) {
+      throw new RarArchiveError('The volume ends in a header');
+    }
+    return toDataView(data).getUint16(5, true);
+  },
+  parseBlock: (header, position) => {
+    const view = toDataView(header);
+    const type = header[2];
+    const flags = view.getUint16(3, true);
+    if (type === Rar4BlockType.MAIN && flags & Rar4Flag.MAIN_ENCRYPTED_HEADERS) {
+      throw new RarArchiveError('The headers of the archive are encrypted');
+    }
+    if (type === Rar4BlockType.END) {
+      return { dataLength: 0, entry: null, isEnd: true };
+    }
+    if (type !== Rar4BlockType.FILE) {
+      const dataLength =
+        flags & Rar4Flag.LONG_BLOCK && header.length >= RAR4_BLOCK_HEADER_LENGTH + 4
+          ? view.getUint32(RAR4_BLOCK_HEADER_LENGTH, true)
+          : 0;
+      return { dataLength, entry: null, isEnd: false };
+    }
+
+    const isLarge = (flags & Rar4Flag.FILE_LARGE) !== 0;
+    const nameStart = RAR4_FILE_HEADER_LENGTH + (isLarge ? 8 : 0);
+    if (header.length < nameStart) {
+      throw new RarArchiveError('The file header is too short');
+    }
+    const packedSize =
+      view.getUint32(7, true) + (isLarge ? view.getUint32(32, true) * 2 ** 32 : 0);
+    const unpackedSize =
+      view.getUint32(11, true) + (isLarge ? view.getUint32(36, true) * 2 ** 32 : 0);
+    let name = header.subarray(nameStart, nameStart + view.getUint16(26, true));
+    if (flags & Rar4Flag.FILE_UNICODE_NAME && name.includes(0)) {
+      // the plain name is followed by the compressed unicode one
+      name = name.subarray(0, name.indexOf(0));
+    }
+    const entry: RarFileEntry = {
+      name: decodeName(name),
+      unpackedSize,
+      dataStart: position + header.length,
+      dataLength: packedSize,
+      isStored: header[25] === RAR4_STORE_METHOD,
+      isEncrypted: (flags & Rar4Flag.FILE_ENCRYPTED) !== 0,
+      isDirectory: (flags & RAR4_DIRECTORY_MASK) === RAR4_DIRECTORY_MASK,
+      isContinued: (flags & Rar4Flag.FILE_SPLIT_BEFORE) !== 0,
+      isSplitAfter: (flags & Rar4Flag.FILE_SPLIT_AFTER) !== 0,
+    };
+    return { dataLength: packedSize, entry, isEnd: false };
+  },
+};
+
+/** 7 bits in each byte, the lowest first, and the highest bit tells if more bytes follow. */
+const readRar5Vint = (data: Uint8Array, offset: number) => {
+  let value = 0;
+  for (let length = 1; offset + length <= data.length && length <= 10; length++) {
+    const byte = data[offset + length - 1];
+    value += (byte & 0x7f) * 2 ** (7 * (length - 1));
+    if (!(byte & 0x80)) {
+      return { value, length };
+    }
+  }
+  throw new RarArchiveError('The volume ends in a header');
+};
+
+/** Reads the variable length integers of a header one after the other. */
+const createRar5FieldReader = (header: Uint8Array, offset: number) => {
+  let position = offset;
+  return {
+    readVint: () => {
+      const { value, length } = readRar5Vint(header, position);
+      position += length;
+      return value;
+    },
+    readBytes: (length: number) => {
+      const bytes = header.subarray(position, position + length);
+      position += length;
+      return bytes;
+    },
+  };
+};
+
+/** The file encryption is a record in the extra area of the file header. */
+const hasRar5EncryptionRecord = (extraArea: Uint8Array) => {
+  let offset = 0;
+  while (offset < extraArea.length) {
+    const size = readRar5Vint(extraArea, offset);
+    const recordStart = offset + size.length;
+    if (readRar5Vint(extraArea, recordStart).value === RAR5_ENCRYPTION_RECORD) {
+      return true;
+    }
+    offset = recordStart + size.value;
+  }
+  return false;
+};
+
+const rar5: RarFormat = {
+  signature: RAR5_SIGNATURE,
+  getHeaderLength: (data) => {
+    const size = readRar5Vint(data, RAR5_CRC_LENGTH);
+    return RAR5_CRC_LENGTH + size.length + size.value;
+  },
+  parseBlock: (header, position) => {
+    const fields = createRar5FieldReader(
+      header,
+      RAR5_CRC_LENGTH + readRar5Vint(header, RAR5_CRC_LENGTH).length,
+    );
+    const type = fields.readVint();
+    const flags = fields.readVint();
+    const extraAreaLength = flags & Rar5Flag.EXTRA_AREA ? fields.readVint() : 0;
+    const dataLength = flags & Rar5Flag.DATA_AREA ? fields.readVint() : 0;
+    if (type === Rar5HeaderType.ENCRYPTION) {
+      throw new RarArchiveError('The headers of the archive are encrypted');
+    }
+    if (type === Rar5HeaderType.END) {
+      return { dataLength: 0, entry: null, isEnd: true };
+    }
+    if (type !== Rar5HeaderType.FILE) {
+      return { dataLength, entry: null, isEnd: false };
+    }
+
+    const fileFlags = fields.readVint();
+    const unpackedSize = fields.readVint();
+    fields.readVint(); // attributes
+    fields.readBytes(
+      (fileFlags & Rar5FileFlag.TIME ? 4 : 0) + (fileFlags & Rar5FileFlag.CRC ? 4 : 0),
+    );
+    const compression = fields.readVint();
+    fields.readVint(); // host OS
+    const name = fields.readBytes(fields.readVint());
+    const entry: RarFileEntry = {
+      name: decodeName(name),
+      unpackedSize,
+      dataStart: position + header.length,
+      dataLength,
+      // bits 7 to 9 are the method, 0 is storing
+      isStored: ((compression >> 7) & 0x07) === 0,
+      isEncrypted: hasRar5EncryptionRecord(
+        header.subarray(header.length - extraAreaLength),
+      ),
+      isDirectory: (fileFlags & Rar5FileFlag.DIRECTORY) !== 0,
+      isContinued: (flags & Rar5Flag.SPLIT_BEFORE) !== 0,
+      isSplitAfter: (flags & Rar5Flag.SPLIT_AFTER) !== 0,
+    };
+    return { dataLength, entry, isEnd: false };
+  },
+};
+
+const startsWith = (data: Uint8Array, signature: number[]) =>
+  signature.every((byte, index) => data[index] === byte);
+
+/**
+ * Reads the file headers of a volume, until the file that goes on in the next volume,
+ * because that is the last one in the volume.
+ * @param maxEntries Stops after this many files, e.g. after the first one of a volume that
+ * continues the video, so the end of the volume is not downloaded for nothing.
+ */
+export const readRarVolume = async (
+  read: ReadRange,
+  volumeLength: number,
+  maxEntries = MAX_RAR_HEADERS_PER_VOLUME,
+): Promise<RarFileEntry[]> => {
+  const signature = await read(0, RAR5_SIGNATURE.length);
+  const format = [rar4, rar5].find((format) => startsWith(signature, format.signature));
+  if (!format) {
+    throw new RarArchiveError('Not a RAR archive');
+  }
+
+  const entries: RarFileEntry[] = [];
+  let position = format.signature.length;
+  for (
+    let blockCount = 0;
+    blockCount < MAX_RAR_HEADERS_PER_VOLUME && position < volumeLength;
+    blockCount++
+  ) {
+    let header = await read(
+      position,
+      Math.min(volumeLength, position + RAR_HEADER_READ_AHEAD),
+    );
+    const headerLength = format.getHeaderLength(header);
+    if (header.length < headerLength) {
+      header = await read(position, position + headerLength);
+    }
+    if (headerLength < MIN_HEADER_LENGTH || header.length < headerLength) {
+      throw new RarArchiveError('The volume ends in a header');
+    }
+    const block = format.parseBlock(header.subarray(0, headerLength), position);
+    if (block.isEnd) {
+      break;
+    }
+    if (block.entry) {
+      entries.push(block.entry);
+      if (entries.length >= maxEntries || block.entry.isSplitAfter) {
+        break;
+      }
+    }
+    position += headerLength + block.dataLength;
+  }
+  return entries;
+};
+
+/** The biggest video in the first volume, which has to be stored to be streamed. */
+export const findArchivedVideo = (entries: RarFileEntry[]): RarFileEntry => {
+  const video = entries
+    .filter(
+      (entry) => !entry.isDirectory && !entry.isContinued && isSupportedMedia(entry.name),
+    )
+    .reduce<RarFileEntry | null>(
+      (biggest, entry) =>
+        !biggest || entry.unpackedSize > biggest.unpackedSize ? entry : biggest,
+      null,
+    );
+  if (!video) {
+    throw new RarArchiveError('There is no video in the archive');
+  }
+  if (video.isEncrypted) {
+    throw new RarArchiveError(`${video.name} is encrypted`);
+  }
+  if (!video.isStored) {
+    throw new RarArchiveError(
+      `${video.name} is compressed, only stored videos can be streamed`,
+    );
+  }
+  return video;
+};
+
+const getSegmentsLength = (segments: ArchiveSegment[]) =>
+  segments.reduce((length, segment) => length + segment.length, 0);
+
+const toSegment = (volumeIndex: number, entry: RarFileEntry): ArchiveSegment => ({
+  volumeIndex,
+  start: entry.dataStart,
+  length: entry.dataLength,
+});
+
+const checkContinuation = (
+  video: RarFileEntry,
+  entry: RarFileEntry | undefined,
+  volumeIndex: number,
+): RarFileEntry => {
+  if (!entry?.isContinued || entry.name !== video.name) {
+    throw new RarArchiveError(`Volume ${volumeIndex + 1} doesn't continue ${video.name}`);
+  }
+  return entry;
+};
+
+/**
+ * Guesses where the video is in the volumes from the headers of the first two, because
+ * the volumes in between have the same headers, and the last one has the rest of the
+ * video. Every volume would have to be downloaded to read its header otherwise.
+ * @param continuation The first file of the second volume.
+ * @returns `null` if the guess doesn't add up to the size of the video.
+ */
+export const guessArchiveSegments = (
+  volumeLengths: number[],
+  video: RarFileEntry,
+  continuation: RarFileEntry | null,
+): ArchiveSegment[] | null => {
+  const segments = [toSegment(0, video)];
+  if (video.isSplitAfter && continuation) {
+    const second = checkContinuation(video, continuation, 1);
+    segments.push(toSegment(1, second));
+    // the headers before the data, and the end of the archive after it
+    const overhead = volumeLengths[1] - second.dataLength;
+    for (
+      let volumeIndex = 2;
+      second.isSplitAfter && volumeIndex < volumeLengths.length;
+      volumeIndex++
+    ) {
+      const remaining = video.unpackedSize - getSegmentsLength(segments);
+      const isLastVolume = volumeIndex === volumeLengths.length - 1;
+      // the header of the last volume can be shorter, it's checked when it's read
+      const length = isLastVolume
+        ? remaining
+        : Math.min(remaining, volumeLengths[volumeIndex] - overhead);
+      if (length <= 0 || second.dataStart + length > volumeLengths[volumeIndex]) {
+        break;
+      }
+      segments.push({ volumeIndex, start: second.dataStart, length });
+    }
+  }
+  return getSegmentsLength(segments) === video.unpackedSize ? segments : null;
+};
+
+/**
+ * Where the video is in the volumes, from the headers of every volume.
+ * @param continuations The first file of each volume after the first one.
+ */
+export const getArchiveSegments = (
+  video: RarFileEntry,
+  continuations: RarFileEntry[],
+): ArchiveSegment[] => {
+  const segments = [toSegment(0, video)];
+  let previous = video;
+  while (previous.isSplitAfter) {
+    const volumeIndex = segments.length;
+    previous = checkContinuation(video, continuations[volumeIndex - 1], volumeIndex);
+    segments.push(toSegment(volumeIndex, previous));
+  }
+  if (getSegmentsLength(segments) !== video.unpackedSize) {
+    throw new RarArchiveError(`The volumes don't add up to ${video.name}`);
+  }
+  return segments;
+};
+
+/** Whether the header of the volume confirms the guessed segment. */
+export const isSegmentOfEntry = (segment: ArchiveSegment, entry: RarFileEntry) =>
+  segment.start === entry.dataStart && segment.length === entry.dataLength;
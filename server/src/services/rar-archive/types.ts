@@ -0,0 +1,42 @@
+/** A file header of a RAR volume, for the part of the file that is in that volume. */
+export interface RarFileEntry {
+  name: string;
+  /** The size of the whole file, also in the volumes that only have a part of it. */
+  unpackedSize: number;
+  /** Where the data of the file starts in the volume. */
+  dataStart: number;
+  dataLength: number;
+  /** Stored files are not compressed, so their data is the file itself. */
+  isStored: boolean;
+  isEncrypted: boolean;
+  isDirectory: boolean;
+  /** The file started in the previous volume. */
+  isContinued: boolean;
+  /** The file goes on in the next volume. */
+  isSplitAfter: boolean;
+}
+
+/** A part of the archived file, in one of the volumes. */
+export interface ArchiveSegment {
+  volumeIndex: number;
+  start: number;
+  length: number;
+}
+
+/**
+ * Where the bytes of a file in a RAR archive are, so it can be read from the volumes
+ * without extracting it.
+ */
+export interface ArchivedFile {
+  name: string;
+  size: number;
+  segments: ArchiveSegment[];
+}
+
+/** The archive of a torrent, with the files of its volumes in order. */
+export interface RarArchive {
+  /** The file header of the video in the first volume. */
+  video: RarFileEntry;
+  file: ArchivedFile;
+  volumeFileIndices: number[];
+}
@@ -0,0 +1,9 @@
+/** The account stats are checked on every play, so they are only fetched this often. */
+export const ACCOUNT_STATS_TTL = 5 * 60 * 1000;
+
+/**
+ * As long as Stremio caches the streams. When it asks for them again, the freeleech
+ * torrents are updated from the new search results.
+ */
+export const FREELEECH_TORRENTS_TTL = 15 * 60 * 1000;
+export const FREELEECH_TORRENTS_MAX = 10_000;
@@ -0,0 +1 @@
+export { RatioProtectionService } from './ratio-protection.service';
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import type { ConfigService } from '@/services/config';
+import type { TorrentDetails, TorrentSourceManager } from '@/services/torrent-source';
+import type { TorrentStoreService } from '@/services/torrent-store';
+import { playSchema } from '../../schemas/play.schema';
+import { RatioProtectionService } from './ratio-protection.service';
+
+const createService = () =>
+  new RatioProtectionService(
+    {
+      getConfig: () => ({
+        minRatio: 1,
+        maxOpenHitnruns: null,
+        maxDownloadingTorrents: null,
+      }),
+    } as unknown as ConfigService,
+    {
+      getNcoreAccounts: async () => [
+        {
+          id: 'ncore',
+          sourceName: 'nCore',
+          account: { ratio: 0.5, hitnrun: [] },
+        },
+      ],
+    } as unknown as TorrentSourceManager,
+    {
+      getTorrent: async () => null,
+      getDownloadingTorrentCount: () => 0,
+    } as unknown as TorrentStoreService,
+  );
+
+const createTorrent = (sourceId: string, isFreeleech: boolean) =>
+  ({
+    sourceName: 'ncore',
+    sourceId,
+    infoHash: '',
+    isFreeleech: () => isFreeleech,
+  }) as TorrentDetails;
+
+describe('RatioProtectionService', () => {
+  it('should let the freeleech torrents of the search results through', async () => {
+    const service = createService();
+    const { torrents, blockReasons } = await service.filterPlayableTorrents([
+      createTorrent('1', true),
+      createTorrent('2', false),
+    ]);
+
+    expect(torrents.map(({ sourceId }) => sourceId)).toEqual(['1']);
+    expect(blockReasons).toEqual(['The ratio of nCore is 0.5, below the minimum of 1.']);
+    expect(
+      await service.getBlockReason({ sourceName: 'ncore', sourceId: '1' }),
+    ).toBeNull();
+  });
+
+  it('should block a forged freeleech play URL of a torrent that is not', async () => {
+    const service = createService();
+    await service.filterPlayableTorrents([createTorrent('2', false)]);
+
+    const { sourceName, sourceId, ...query } = playSchema.parse({
+      deviceToken: 'token',
+      sourceName: 'ncore',
+      sourceId: '2',
+      infoHash: 'abc',
+      fileIdx: '0',
+      freeleech: '1',
+    });
+    expect(query).not.toHaveProperty('freeleech');
+    expect(await service.getBlockReason({ sourceName, sourceId })).not.toBeNull();
+    // nor the torrents that were never listed
+    expect(
+      await service.getBlockReason({ sourceName: 'ncore', sourceId: '3' }),
+    ).not.toBeNull();
+    expect(
+      await service.getBlockReason({ sourceName: 'ncore', sourceId: '3' }),
+    ).not.toBeNull();
+  });
+
+  it('should block a torrent when its freeleech period is over', async () => {
+    const service = createService();
+    await service.filterPlayableTorrents([createTorrent('1', true)]);
+    await service.filterPlayableTorrents([createTorrent('1', false)]);
+
+    expect(
+      await service.getBlockReason({ sourceName: 'ncore', sourceId: '1' }),
+    ).not.toBeNull();
+  });
+});
@@ -0,0 +1,131 @@
+import { LRUCache } from 'lru-cache';
+import {
+  ACCOUNT_STATS_TTL,
+  FREELEECH_TORRENTS_MAX,
+  FREELEECH_TORRENTS_TTL,
+} from './constants';
+import type { ConfigService } from '@/services/config';
+import type {
+  TorrentDetails,
+  TorrentSourceManager,
+  TorrentSourceReference,
+} from '@/services/torrent-source';
+import type { TorrentStoreService } from '@/services/torrent-store';
+import type { NcoreAccountResponse } from '@/types/ncore-account';
+import { LOCAL_LIBRARY_SOURCE_NAME } from '../local-library/constants';
+import { Cached } from '../../utils/cache';
+
+/**
+ * Stops new torrents from being downloaded while the tracker account is at risk. The
+ * torrents that are already downloaded, the local files and the freeleech torrents can
+ * always be played.
+ */
+export class RatioProtectionService {
+  constructor(
+    private configService: ConfigService,
+    private torrentSourceManager: TorrentSourceManager,
+    private torrentStoreService: TorrentStoreService,
+  ) {}
+
+  /**
+   * The freeleech torrents of the last search results, keyed by `sourceName:sourceId`.
+   * Only these are let through, the play URLs can't be trusted with it, and the torrents
+   * that are not in the search results anymore are treated as not freeleech.
+   */
+  private freeleechTorrents = new LRUCache<string, true>({
+    max: FREELEECH_TORRENTS_MAX,
+    ttl: FREELEECH_TORRENTS_TTL,
+  });
+
+  @Cached({
+    max: 1,
+    ttl: ACCOUNT_STATS_TTL,
+    generateKey: () => 'ncore-accounts',
+  })
+  private async getNcoreAccounts(): Promise<NcoreAccountResponse[]> {
+    return this.torrentSourceManager.getNcoreAccounts();
+  }
+
+  /**
+   * Tells why a torrent can't be downloaded now. The account limits only apply to the
+   * torrents of nCore sources, and if the account can't be loaded, they are not enforced.
+   * @returns `null` if the torrent can be downloaded.
+   */
+  public async getBlockReason({
+    sourceName,
+    sourceId,
+  }: TorrentSourceReference): Promise<string | null> {
+    if (this.freeleechTorrents.has(`${sourceName}:${sourceId}`)) {
+      return null;
+    }
+    const { minRatio, maxOpenHitnruns, maxDownloadingTorrents } =
+      this.configService.getConfig();
+
+    const downloadingTorrents = this.torrentStoreService.getDownloadingTorrentCount();
+    if (
+      maxDownloadingTorrents !== null &&
+      downloadingTorrents >= maxDownloadingTorrents
+    ) {
+      return `${downloadingTorrents} torrents are downloading already, the limit is ${maxDownloadingTorrents}.`;
+    }
+    if (minRatio === null && maxOpenHitnruns === null) {
+      return null;
+    }
+
+    const response = (await this.getNcoreAccounts()).find(({ id }) => id === sourceName);
+    if (!response?.account) {
+      return null;
+    }
+    const { account } = response;
+    if (minRatio !== null && account.ratio !== null && account.ratio < minRatio) {
+      return `The ratio of ${response.sourceName} is ${account.ratio}, below the minimum of ${minRatio}.`;
+    }
+    const openHitnruns = account.hitnrun.filter(
+      (torrent) => !torrent.isSeededEnough,
+    ).length;
+    if (maxOpenHitnruns !== null && openHitnruns >= maxOpenHitnruns) {
+      return `${response.sourceName} has ${openHitnruns} open hit'n'runs, the limit is ${maxOpenHitnruns}.`;
+    }
+    return null;
+  }
+
+  /**
+   * Leaves out the torrents that can't be played now.
+   * @returns The reasons why torrents were left out, without duplicates.
+   */
+  public async filterPlayableTorrents<T extends TorrentDetails>(
+    torrents: T[],
+  ): Promise<{ torrents: T[]; blockReasons: string[] }> {
+    // the freeleech period of a torrent can end between two searches
+    torrents.forEach((torrent) => {
+      const key = `${torrent.sourceName}:${torrent.sourceId}`;
+      if (torrent.isFreeleech()) {
+        this.freeleechTorrents.set(key, true);
+      } else {
+        this.freeleechTorrents.delete(key);
+      }
+    });
+
+    const blockReasons = new Set<string>();
+    const playableTorrents: T[] = [];
+    // one by one, so that the account stats are only fetched for the first torrent
+    for (const torrent of torrents) {
+      const isDownloaded =
+        !!torrent.infoHash &&
+        !!(await this.torrentStoreService.getTorrent(torrent.infoHash));
+      const blockReason =
+        torrent.sourceName === LOCAL_LIBRARY_SOURCE_NAME || isDownloaded
+          ? null
+          : await this.getBlockReason(torrent);
+      if (blockReason) {
+        blockReasons.add(blockReason);
+      } else {
+        playableTorrents.push(torrent);
+      }
+    }
+    return {
+      torrents: playableTorrents,
+      blockReasons: Array.from(blockReasons),
+    };
+  }
+}
@@ -1,6 +1,44 @@
+import type { Cache } from 'stremio-addon-sdk';
 import { Language } from '@/db/schema/users';
+import { EpisodeMatchConfidence } from '@/services/torrent-source';
 
 export const languageEmojiMap: Record<Language, string> = {
   [Language.HU]: '🇭🇺',
   [Language.EN]: '🇬🇧',
 };
+
+/** Exact matches are not mentioned, only the ones that could be a different episode. */
+export const episodeMatchConfidenceLineMap: Record<EpisodeMatchConfidence, string> = {
+  [EpisodeMatchConfidence.HIGH]: '',
+  [EpisodeMatchConfidence.MEDIUM]: '📁 Episode matched by folder name\n',
+  [EpisodeMatchConfidence.LOW]: '❓ Episode number guessed from the file name\n',
+};
+
+/** The files of the torrent are only checked when it's played. */
+export const UNRESOLVED_TORRENT_LINE = '⏳ Files are checked when played\n';
+
+/** Complete results are cached by Stremio as long as the searches are cached here. */
+export const COMPLETE_STREAMS_CACHE: Cache = {
+  cacheMaxAge: 15 * 60,
+  staleRevalidate: 60 * 60,
+  staleError: 24 * 60 * 60,
+};
+
+/** Partial results are asked for again soon, when the rest of the sources answered. */
+export const PARTIAL_STREAMS_CACHE: Cache = {
+  cacheMaxAge: 10,
+  staleRevalidate: 0,
+  staleError: 0,
+};
+
+/** The name of the stream that tells why the other streams are left out. */
+export const RATIO_PROTECTION_STREAM_NAME = '🛑 Ratio protection';
+
+/** Shown before the video and audio formats of the release, like `DV | HEVC | Atmos`. */
+export const RELEASE_ATTRIBUTES_EMOJI = '🎞️';
+
+/** Shown before the name of the video, when every video of a movie torrent is listed. */
+export const MOVIE_FILE_EMOJI = '📄';
+
+/** Why a torrent is left out of the ranking explanation, the causes are listed separately. */
+export const RATIO_PROTECTION_EXCLUSION_REASON = 'Blocked by the ratio protection';
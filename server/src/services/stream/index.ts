@@ -1 +1,9 @@
 export { StreamService } from './stream.service';
+export {
+  rankTorrents,
+  type RankableTorrent,
+  type RankedTorrent,
+  type RankingCriterion,
+  type RankingResult,
+} from './ranking';
+export type { RankingCandidate, RankingExplanation } from './types';
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { Language, ReleaseAttribute, Resolution } from '../../db/schema/users';
+import { DEFAULT_RANKING_PROFILE } from '../../schemas/ranking-profile.schema';
+import { rankTorrents, type RankableTorrent, type RankingPreferences } from './ranking';
+
+const GB = 1024 ** 3;
+
+const createTorrent = (torrent: Partial<RankableTorrent>): RankableTorrent => ({
+  name: 'Movie.2023.1080p.WEB-DL.H264-GROUP',
+  language: Language.EN,
+  resolution: Resolution.R1080P,
+  seeders: 10,
+  size: 4 * GB,
+  releaseAttributes: [],
+  isFreeleech: false,
+  isSpeculated: false,
+  isLocal: false,
+  releaseGroup: 'GROUP',
+  ...torrent,
+});
+
+const createPreferences = (
+  rankingProfile: Partial<RankingPreferences['rankingProfile']> = {},
+): RankingPreferences => ({
+  preferredLanguage: Language.HU,
+  preferredResolutions: [Resolution.R2160P],
+  excludedReleaseAttributes: [],
+  preferredReleaseAttributes: [],
+  rankingProfile: { ...DEFAULT_RANKING_PROFILE, ...rankingProfile },
+});
+
+const rankNames = (torrents: RankableTorrent[], preferences: RankingPreferences) =>
+  rankTorrents(torrents, (torrent) => torrent, preferences).ranked.map(
+    ({ item }) => item.name,
+  );
+
+describe('rankTorrents', () => {
+  it('should prefer the language over the resolution with the default profile', () => {
+    const torrents = [
+      createTorrent({ name: 'en-1080p' }),
+      createTorrent({ name: 'en-2160p', resolution: Resolution.R2160P }),
+      createTorrent({ name: 'hu-1080p', language: Language.HU }),
+    ];
+    expect(rankNames(torrents, createPreferences())).toEqual([
+      'hu-1080p',
+      'en-2160p',
+      'en-1080p',
+    ]);
+  });
+
+  it('should keep the order of the torrents with the same score', () => {
+    const torrents = [createTorrent({ name: 'a' }), createTorrent({ name: 'b' })];
+    expect(rankNames(torrents, createPreferences())).toEqual(['a', 'b']);
+  });
+
+  it('should score the weighted criteria', () => {
+    const preferences = createPreferences({
+      weights: {
+        ...DEFAULT_RANKING_PROFILE.weights,
+        seeders: 3,
+        size: 1,
+        releaseGroup: 2,
+        freeleech: 1,
+        speculated: 4,
+      },
+      preferredSize: { minGb: 2, maxGb: 8 },
+      allowedReleaseGroups: ['good'],
+      deniedReleaseGroups: ['BAD'],
+    });
+    const [ranking] = rankTorrents(
+      [createTorrent({ seeders: 999, releaseGroup: 'GOOD', isFreeleech: true })],
+      (torrent) => torrent,
+      preferences,
+    ).ranked;
+    expect(ranking.scores).toEqual({
+      language: 0,
+      resolution: 0,
+      releaseAttributes: 0,
+      seeders: 3,
+      size: 1,
+      releaseGroup: 2,
+      freeleech: 1,
+      speculated: 0,
+    });
+    expect(ranking.score).toBe(7);
+
+    const torrents = [
+      createTorrent({ name: 'denied', releaseGroup: 'bad' }),
+      createTorrent({ name: 'speculated', isSpeculated: true }),
+      createTorrent({ name: 'too large', size: 20 * GB }),
+      createTorrent({ name: 'plain' }),
+    ];
+    expect(rankNames(torrents, preferences)).toEqual([
+      'plain',
+      'too large',
+      'denied',
+      'speculated',
+    ]);
+  });
+
+  it('should exclude the torrents that fail the filters, with the reason', () => {
+    const preferences = {
+      ...createPreferences({ maxSizeGb: 10, minSeeders: 5 }),
+      excludedReleaseAttributes: [ReleaseAttribute.DOLBY_VISION],
+    };
+    const torrents = [
+      createTorrent({ name: 'ok' }),
+      createTorrent({ name: 'dv', releaseAttributes: [ReleaseAttribute.DOLBY_VISION] }),
+      createTorrent({ name: 'large', size: 11 * GB }),
+      createTorrent({ name: 'dead', seeders: 1 }),
+      createTorrent({ name: 'local', seeders: 0, isLocal: true }),
+    ];
+    const { ranked, excluded } = rankTorrents(
+      torrents,
+      (torrent) => torrent,
+      preferences,
+    );
+    expect(ranked.map(({ item }) => item.name)).toEqual(['ok', 'local']);
+    expect(excluded.map(({ item, reason }) => [item.name, reason])).toEqual([
+      ['dv', 'Excluded format: DV'],
+      ['large', 'Larger than 10 GB'],
+      ['dead', 'Fewer than 5 seeders'],
+    ]);
+  });
+
+  it('should only keep the top N torrents', () => {
+    const torrents = [
+      createTorrent({ name: 'a' }),
+      createTorrent({ name: 'b', language: Language.HU }),
+      createTorrent({ name: 'c' }),
+    ];
+    const { ranked, excluded } = rankTorrents(
+      torrents,
+      (torrent) => torrent,
+      createPreferences({ topN: 2 }),
+    );
+    expect(ranked.map(({ item }) => item.name)).toEqual(['b', 'a']);
+    expect(excluded).toEqual([{ item: torrents[2], reason: 'Not in the top 2' }]);
+  });
+});
@@ -0,0 +1,177 @@
+import type { Language, ReleaseAttribute, Resolution } from '../../db/schema/users';
+import type { RankingProfile } from '../../schemas/ranking-profile.schema';
+import type { User } from '../../types/user';
+
+const ONE_GIGABYTE = 1024 ** 3;
+
+/** The seeders score is full at 1000 seeders, and grows slower as the count gets higher. */
+const FULL_SEEDERS_SCORE_DIGITS = 3;
+
+export type RankingCriterion = keyof RankingProfile['weights'];
+
+export type RankingPreferences = Pick<
+  User,
+  | 'preferredLanguage'
+  | 'preferredResolutions'
+  | 'excludedReleaseAttributes'
+  | 'preferredReleaseAttributes'
+  | 'rankingProfile'
+>;
+
+/** What the ranking knows about a torrent, for the file that would be played. */
+export interface RankableTorrent {
+  name: string;
+  language: Language;
+  resolution: Resolution;
+  seeders: number;
+  /** The size of the played file in bytes. */
+  size: number;
+  releaseAttributes: ReleaseAttribute[];
+  isFreeleech: boolean;
+  isSpeculated: boolean;
+  /** Downloaded files are never filtered by their seeders. */
+  isLocal: boolean;
+  releaseGroup: string | null;
+}
+
+export interface RankedTorrent<T> {
+  item: T;
+  score: number;
+  /** The points of each criterion, already multiplied by its weight. */
+  scores: Record<RankingCriterion, number>;
+}
+
+export interface ExcludedTorrent<T> {
+  item: T;
+  reason: string;
+}
+
+export interface RankingResult<T> {
+  ranked: RankedTorrent<T>[];
+  excluded: ExcludedTorrent<T>[];
+}
+
+const includesIgnoringCase = (values: string[], value: string | null) =>
+  value !== null && values.some((item) => item.toLowerCase() === value.toLowerCase());
+
+/**
+ * Why the torrent is not listed at all.
+ * @returns `null` if the torrent passes every filter.
+ */
+export const getExclusionReason = (
+  torrent: RankableTorrent,
+  { excludedReleaseAttributes, rankingProfile }: RankingPreferences,
+): string | null => {
+  const excludedAttributes = torrent.releaseAttributes.filter((attribute) =>
+    excludedReleaseAttributes.includes(attribute),
+  );
+  if (excludedAttributes.length > 0) {
+    return `Excluded format: ${excludedAttributes.join(', ')}`;
+  }
+  const { maxSizeGb, minSeeders } = rankingProfile;
+  if (maxSizeGb !== null && torrent.size > maxSizeGb * ONE_GIGABYTE) {
+    return `Larger than ${maxSizeGb} GB`;
+  }
+  if (minSeeders !== null && !torrent.isLocal && torrent.seeders < minSeeders) {
+    return `Fewer than ${minSeeders} seeders`;
+  }
+  return null;
+};
+
+/** Between 0 and 1 for each criterion, except the release group and the speculated penalty. */
+const getCriterionScores = (
+  torrent: RankableTorrent,
+  {
+    preferredLanguage,
+    preferredResolutions,
+    preferredReleaseAttributes,
+    rankingProfile,
+  }: RankingPreferences,
+): Record<RankingCriterion, number> => {
+  const { preferredSize, allowedReleaseGroups, deniedReleaseGroups } = rankingProfile;
+  const isSizePreferenceSet =
+    preferredSize.minGb !== null || preferredSize.maxGb !== null;
+  const isInPreferredSize =
+    isSizePreferenceSet &&
+    (preferredSize.minGb === null ||
+      torrent.size >= preferredSize.minGb * ONE_GIGABYTE) &&
+    (preferredSize.maxGb === null || torrent.size <= preferredSize.maxGb * ONE_GIGABYTE);
+  const preferredAttributeCount = torrent.releaseAttributes.filter((attribute) =>
+    preferredReleaseAttributes.includes(attribute),
+  ).length;
+
+  return {
+    language: torrent.language === preferredLanguage ? 1 : 0,
+    resolution: preferredResolutions.includes(torrent.resolution) ? 1 : 0,
+    // the share of the preferred formats, so a torrent with all of them gets the full weight
+    releaseAttributes:
+      preferredReleaseAttributes.length > 0
+        ? preferredAttributeCount / preferredReleaseAttributes.length
+        : 0,
+    seeders: Math.min(
+      1,
+      Math.log10(Math.max(0, torrent.seeders) + 1) / FULL_SEEDERS_SCORE_DIGITS,
+    ),
+    size: isInPreferredSize ? 1 : 0,
+    releaseGroup: includesIgnoringCase(deniedReleaseGroups, torrent.releaseGroup)
+      ? -1
+      : includesIgnoringCase(allowedReleaseGroups, torrent.releaseGroup)
+        ? 1
+        : 0,
+    freeleech: torrent.isFreeleech ? 1 : 0,
+    speculated: torrent.isSpeculated ? -1 : 0,
+  };
+};
+
+export const scoreTorrent = (
+  torrent: RankableTorrent,
+  preferences: RankingPreferences,
+): Omit<RankedTorrent<RankableTorrent>, 'item'> => {
+  const { weights } = preferences.rankingProfile;
+  const criterionScores = getCriterionScores(torrent, preferences);
+  const scores = Object.fromEntries(
+    Object.entries(criterionScores).map(([criterion, score]) => [
+      criterion,
+      score * weights[criterion as RankingCriterion],
+    ]),
+  ) as Record<RankingCriterion, number>;
+  const score = Object.values(scores).reduce((sum, value) => sum + value, 0);
+  return { score, scores };
+};
+
+/**
+ * Filters and orders the torrents by the ranking profile of the user. Torrents with the
+ * same score keep their order, and the ones below the top N are listed as excluded.
+ */
+export const rankTorrents = <T>(
+  items: T[],
+  toRankable: (item: T) => RankableTorrent,
+  preferences: RankingPreferences,
+): RankingResult<T> => {
+  const ranked: RankedTorrent<T>[] = [];
+  const excluded: ExcludedTorrent<T>[] = [];
+  items.forEach((item) => {
+    const torrent = toRankable(item);
+    const reason = getExclusionReason(torrent, preferences);
+    if (reason) {
+      excluded.push({ item, reason });
+    } else {
+      ranked.push({ item, ...scoreTorrent(torrent, preferences) });
+    }
+  });
+  ranked.sort((a, z) => z.score - a.score);
+
+  const { topN } = preferences.rankingProfile;
+  if (topN === null || ranked.length <= topN) {
+    return { ranked, excluded };
+  }
+  return {
+    ranked: ranked.slice(0, topN),
+    excluded: [
+      ...excluded,
+      ...ranked
+        .slice(topN)
+        .map(({ item }) => ({ item, reason: `Not in the top ${topN}` })),
+    ],
+  };
+};
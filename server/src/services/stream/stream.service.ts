@@ -1,12 +1,47 @@
-import type { Stream } from 'stremio-addon-sdk';
+import type { Cache, Stream } from 'stremio-addon-sdk';
 import type { TorrentDetails } from '../torrent-source';
+import {
+  encodeSourceReferences,
+  listMovieFiles,
+  parseReleaseAttributes,
+  parseReleaseGroup,
+  type MovieFile,
+} from '../torrent-source';
 import type { TorrentFileDetails } from '../torrent-source/types';
-import { languageEmojiMap } from './constants';
-import { rateList } from '@/utils/rate-list';
+import {
+  COMPLETE_STREAMS_CACHE,
+  episodeMatchConfidenceLineMap,
+  languageEmojiMap,
+  MOVIE_FILE_EMOJI,
+  PARTIAL_STREAMS_CACHE,
+  RATIO_PROTECTION_EXCLUSION_REASON,
+  RATIO_PROTECTION_STREAM_NAME,
+  RELEASE_ATTRIBUTES_EMOJI,
+  UNRESOLVED_TORRENT_LINE,
+} from './constants';
 import { formatBytes } from '@/utils/bytes';
 import { ConfigService } from '../config';
 import { UserService } from '../user';
 import { User } from '@/types/user';
+import { LocalMediaDetails } from '../local-library';
+import type { StreamType } from '@/schemas/stream.schema';
+import {
+  rankTorrents,
+  scoreTorrent,
+  type RankableTorrent,
+  type RankingResult,
+} from './ranking';
+import type { RankingCandidate } from './types';
+
+interface TorrentStreamParams {
+  torrent: TorrentDetails;
+  isRecommended: boolean;
+  deviceToken: string;
+  season: number | undefined;
+  episode: number | undefined;
+  imdbId: string;
+  type: StreamType;
+}
 
 export class StreamService {
   constructor(
@@ -14,50 +49,124 @@ export class StreamService {
     private userService: UserService,
   ) {}
 
+  /**
+   * The streams of a torrent. Users who want to see every video of movie torrents get a
+   * stream per cut and bonus video, and the parts of multi-part movies in one stream.
+   */
+  public convertTorrentToStreams({
+    user,
+    ...params
+  }: TorrentStreamParams & { user: User }): Stream[] {
+    const { torrent, season, episode, isRecommended } = params;
+    const movieFiles =
+      user.showAllMovieFiles && !season && !episode && torrent.isResolved()
+        ? listMovieFiles(torrent.files)
+        : [];
+    const isSingleFile =
+      movieFiles.length === 0 ||
+      (movieFiles.length === 1 && movieFiles[0].fileIndices.length === 1);
+    if (isSingleFile) {
+      return [this.convertTorrentToStream(params)];
+    }
+    return movieFiles.map((movieFile, index) =>
+      this.convertTorrentToStream({
+        ...params,
+        movieFile,
+        isRecommended: isRecommended && index === 0,
+      }),
+    );
+  }
+
+  /** @param movieFile The video to play instead of the main file of a movie torrent. */
   public convertTorrentToStream({
     torrent,
     isRecommended,
     deviceToken,
     season,
     episode,
-  }: {
-    torrent: TorrentDetails;
-    isRecommended: boolean;
-    deviceToken: string;
-    season: number | undefined;
-    episode: number | undefined;
-  }): Stream {
+    imdbId,
+    type,
+    movieFile,
+  }: TorrentStreamParams & { movieFile?: MovieFile }): Stream {
     const config = this.configService.getConfig();
-    const torrentFileIndex = torrent.getMediaFileIndex({ season, episode });
+    const fileIndices = movieFile?.fileIndices ?? [
+      torrent.getMediaFileIndex({ season, episode }),
+    ];
 
     const sourceName = encodeURIComponent(torrent.sourceName);
     const sourceId = encodeURIComponent(torrent.sourceId);
     const infoHash = encodeURIComponent(torrent.infoHash);
-    const fileIndex = encodeURIComponent(torrentFileIndex);
+    // the parts of multi-part movies are played one after the other
+    const fileIndex = encodeURIComponent(fileIndices.join(','));
 
-    const description = this.getStreamDescription(torrent, isRecommended, {
-      season,
-      episode,
-    });
+    const description = this.getStreamDescription(
+      torrent,
+      isRecommended,
+      { season, episode },
+      movieFile,
+    );
+    // the other sources are tried if the torrent can't be downloaded from the first one
+    const fallbackSources = torrent.getSources().slice(1);
+    const query = new URLSearchParams();
+    if (fallbackSources.length > 0) {
+      query.set('fallbacks', encodeSourceReferences(fallbackSources));
+    }
+    // the title is tracked when the torrent is added, for the downloaded catalog
+    query.set('imdbId', imdbId);
+    query.set('type', type);
+    let url: string;
+    if (torrent instanceof LocalMediaDetails) {
+      url = `${config.addonUrl}/api/auth/${deviceToken}/stream/local/${sourceId}`;
+    } else if (torrent.isResolved()) {
+      url = `${config.addonUrl}/api/auth/${deviceToken}/stream/play/${sourceName}/${sourceId}/${infoHash}/${fileIndex}?${query.toString()}`;
+    } else {
+      // the file index is resolved when the torrent is played, and then the player is
+      // redirected to the play URL
+      if (season && episode) {
+        query.set('season', `${season}`);
+        query.set('episode', `${episode}`);
+      }
+      url = `${config.addonUrl}/api/auth/${deviceToken}/stream/resolve/${sourceName}/${sourceId}?${query.toString()}`;
+    }
+    // Stremio sends these with the subtitle requests, to find the sidecar subtitles
+    const file = fileIndices.length === 1 ? torrent.files[fileIndices[0]] : undefined;
     return {
-      url: `${config.addonUrl}/api/auth/${deviceToken}/stream/play/${sourceName}/${sourceId}/${infoHash}/${fileIndex}`,
+      url,
       description,
       behaviorHints: {
         notWebReady: true,
-        bingeGroup: torrent.infoHash,
+        bingeGroup: torrent.infoHash || `${torrent.sourceName}:${torrent.sourceId}`,
+        ...(file && { videoSize: file.length, filename: file.name }),
       },
     };
   }
 
+  /**
+   * A stream that only shows why the torrents can't be played. Stremio needs a link in
+   * every stream, so it opens the page of the nCore accounts, with their ratio and
+   * hit'n'runs.
+   */
+  public createRatioProtectionStream(blockReasons: string[]): Stream {
+    const config = this.configService.getConfig();
+    return {
+      name: RATIO_PROTECTION_STREAM_NAME,
+      description: `New torrents are not downloaded now:\n${blockReasons.join('\n')}\nDownloaded and freeleech torrents can still be played.`,
+      externalUrl: `${config.addonUrl}/ncore-accounts`,
+    };
+  }
+
   private getStreamDescription(
     torrent: TorrentDetails,
     isRecommended: boolean,
     { season, episode }: { season: number | undefined; episode: number | undefined },
+    movieFile: MovieFile | undefined,
   ): string {
     const languageEmoji = languageEmojiMap[torrent.getLanguage()];
-    const fileIndex = torrent.getMediaFileIndex({ season, episode });
-    const file = torrent.files[fileIndex] as TorrentFileDetails;
-    const fileSizeString = formatBytes(file.length);
+    const fileSizeString = formatBytes(
+      movieFile?.size ??
+        torrent.getMediaFileSize({ season, episode }) ??
+        torrent.getSize(),
+    );
 
     const mediaType = season && episode ? 'show' : 'movie';
 
@@ -66,11 +175,81 @@ export class StreamService {
     const warningLine = torrent.isSpeculated
       ? `⚠️ <strong>Speculated</strong> ⚠️\nThis might be a different ${mediaType}!\n`
       : '';
-    const typeLine = `${languageEmoji} | ${torrent.getSeed()} | ${torrent.displayResolution(torrent.getResolution(file.name))} | ${fileSizeString}\n`;
-    return warningLine + recommendedLine + typeLine + torrent.getName();
+    const episodeMatch =
+      season && episode ? torrent.getEpisodeMatch({ season, episode }) : null;
+    const episodeMatchLine = episodeMatch
+      ? episodeMatchConfidenceLineMap[episodeMatch.confidence]
+      : '';
+    const unresolvedLine = torrent.isResolved() ? '' : UNRESOLVED_TORRENT_LINE;
+    const resolution = movieFile
+      ? torrent.getResolution(movieFile.name)
+      : torrent.getMediaResolution({ season, episode });
+    const typeLine = `${languageEmoji} | ${torrent.getSeed()} | ${torrent.displayResolution(resolution)} | ${fileSizeString}\n`;
+    const releaseAttributes = movieFile
+      ? parseReleaseAttributes(torrent.getName(), movieFile.name)
+      : torrent.getReleaseAttributes({ season, episode });
+    const releaseAttributesLine =
+      releaseAttributes.length > 0
+        ? `${RELEASE_ATTRIBUTES_EMOJI} ${releaseAttributes.join(' | ')}\n`
+        : '';
+    const partCount = movieFile?.fileIndices.length ?? 1;
+    const movieFileLine = movieFile
+      ? `${MOVIE_FILE_EMOJI} ${movieFile.name}${partCount > 1 ? ` (${partCount} parts)` : ''}\n`
+      : '';
+    return (
+      warningLine +
+      recommendedLine +
+      episodeMatchLine +
+      unresolvedLine +
+      typeLine +
+      releaseAttributesLine +
+      movieFileLine +
+      torrent.getName()
+    );
+  }
+
+  /** The cache hints of a stream response, based on whether every source answered. */
+  public getCacheHints(isComplete: boolean): Cache {
+    return isComplete ? COMPLETE_STREAMS_CACHE : PARTIAL_STREAMS_CACHE;
   }
 
-  public async orderTorrents({
+  /** The `Cache-Control` header that the Stremio addon SDK would set for the hints. */
+  public getCacheControlHeader({
+    cacheMaxAge = 0,
+    staleRevalidate = 0,
+    staleError = 0,
+  }: Cache): string {
+    return [
+      `max-age=${cacheMaxAge}`,
+      staleRevalidate > 0 && `stale-while-revalidate=${staleRevalidate}`,
+      staleError > 0 && `stale-if-error=${staleError}`,
+      'private',
+    ]
+      .filter(Boolean)
+      .join(', ');
+  }
+
+  /** What the ranking needs to know about the file of the torrent that would be played. */
+  private toRankableTorrent(
+    torrent: TorrentDetails,
+    { season, episode }: { season: number | undefined; episode: number | undefined },
+  ): RankableTorrent {
+    return {
+      name: torrent.getName(),
+      language: torrent.getLanguage(),
+      resolution: torrent.getMediaResolution({ season, episode }),
+      seeders: torrent.getSeed(),
+      size: torrent.getMediaFileSize({ season, episode }) ?? torrent.getSize(),
+      releaseAttributes: torrent.getReleaseAttributes({ season, episode }),
+      isFreeleech: torrent.isFreeleech(),
+      isSpeculated: !!torrent.isSpeculated,
+      isLocal: torrent instanceof LocalMediaDetails,
+      releaseGroup: parseReleaseGroup(torrent.getName()),
+    };
+  }
+
+  /** Scores the torrents by the ranking profile of the user, with the reasons of the left out ones. */
+  public getTorrentRanking({
     torrents,
     user,
     season,
@@ -80,16 +259,82 @@ export class StreamService {
     user: User;
     season: number | undefined;
     episode: number | undefined;
+  }): RankingResult<TorrentDetails> {
+    return rankTorrents(
+      torrents,
+      (torrent) => this.toRankableTorrent(torrent, { season, episode }),
+      user,
+    );
+  }
+
+  public async orderTorrents(params: {
+    torrents: TorrentDetails[];
+    user: User;
+    season: number | undefined;
+    episode: number | undefined;
   }): Promise<TorrentDetails[]> {
-    const { preferredLanguage, preferredResolutions } = user;
-
-    return rateList(torrents, [
-      (torrent) => (preferredLanguage === torrent.getLanguage() ? 3 : 0),
-      (torrent) => {
-        const fileIndex = torrent.getMediaFileIndex({ season, episode });
-        const resolution = torrent.getResolution(torrent.files[fileIndex]!.name);
-        return preferredResolutions.includes(resolution) ? 2 : 0;
-      },
-    ]);
+    return this.getTorrentRanking(params).ranked.map(({ item }) => item);
+  }
+
+  /**
+   * Every torrent that was found, with how the ranking scored it, and why it was left out.
+   * The torrents that are not in `playableTorrents` were blocked by the ratio protection.
+   */
+  public explainRanking({
+    torrents,
+    playableTorrents,
+    user,
+    season,
+    episode,
+  }: {
+    torrents: TorrentDetails[];
+    playableTorrents: TorrentDetails[];
+    user: User;
+    season: number | undefined;
+    episode: number | undefined;
+  }): RankingCandidate[] {
+    const { ranked, excluded } = this.getTorrentRanking({
+      torrents: playableTorrents,
+      user,
+      season,
+      episode,
+    });
+    const ranks = new Map(ranked.map(({ item }, index) => [item, index + 1]));
+    const exclusionReasons = new Map(excluded.map(({ item, reason }) => [item, reason]));
+
+    const candidates = torrents.map((torrent): RankingCandidate => {
+      const details = this.toRankableTorrent(torrent, { season, episode });
+      const fileIndex = torrent.getMediaFileIndex({ season, episode });
+      const file = torrent.files[fileIndex] as TorrentFileDetails | undefined;
+      const rank = ranks.get(torrent) ?? null;
+      return {
+        name: torrent.getName(),
+        infoHash: torrent.infoHash,
+        sources: torrent.getSources(),
+        isSpeculated: details.isSpeculated,
+        isResolved: torrent.isResolved(),
+        file: file
+          ? {
+              index: fileIndex,
+              name: file.name,
+              size: torrent.getMediaFileSize({ season, episode }) ?? file.length,
+            }
+          : null,
+        episodeMatchConfidence:
+          season && episode
+            ? (torrent.getEpisodeMatch({ season, episode })?.confidence ?? null)
+            : null,
+        details,
+        ...scoreTorrent(details, user),
+        rank,
+        isRecommended: rank === 1 && !details.isSpeculated,
+        excludedReason: playableTorrents.includes(torrent)
+          ? (exclusionReasons.get(torrent) ?? null)
+          : RATIO_PROTECTION_EXCLUSION_REASON,
+      };
+    });
+    return candidates.sort(
+      (a, z) => (a.rank ?? Number.MAX_SAFE_INTEGER) - (z.rank ?? Number.MAX_SAFE_INTEGER),
+    );
   }
 }
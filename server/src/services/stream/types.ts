@@ -0,0 +1,40 @@
+import type { RankingProfile } from '@/schemas/ranking-profile.schema';
+import type {
+  EpisodeMatchConfidence,
+  TorrentSourceReference,
+} from '@/services/torrent-source';
+import type { RankableTorrent, RankingCriterion } from './ranking';
+
+/** A torrent that was found for a title, and what the ranking made of it. */
+export interface RankingCandidate {
+  name: string;
+  infoHash: string;
+  /** Torrents found on several sources are merged, these are all of them. */
+  sources: TorrentSourceReference[];
+  isSpeculated: boolean;
+  /** Unresolved torrents are listed before their files are known. */
+  isResolved: boolean;
+  /** The file that would be played, `null` if it's not known or not in the torrent. */
+  file: { index: number; name: string; size: number } | null;
+  episodeMatchConfidence: EpisodeMatchConfidence | null;
+  /** What the ranking knew about the torrent. */
+  details: RankableTorrent;
+  /** The points of each criterion, also for the torrents that were left out. */
+  scores: Record<RankingCriterion, number>;
+  score: number;
+  /** The position in the streams, `null` if the torrent was left out. */
+  rank: number | null;
+  isRecommended: boolean;
+  excludedReason: string | null;
+}
+
+export interface RankingExplanation {
+  username: string;
+  rankingProfile: RankingProfile;
+  /** `false` if some of the sources were still searching. */
+  isComplete: boolean;
+  /** Why the ratio protection left out torrents. */
+  blockReasons: string[];
+  /** The streams in order, then the torrents that were left out. */
+  candidates: RankingCandidate[];
+}
@@ -0,0 +1,27 @@
+/** Subtitles are read into memory to be converted, bigger files are not subtitles. */
+export const MAX_SUBTITLE_FILE_SIZE = 10 * 1024 * 1024;
+
+/** The files of a torrent don't change, Stremio can keep the list for a day. */
+export const SUBTITLES_CACHE_MAX_AGE = 24 * 60 * 60;
+
+/** Asked for again soon, because the torrent might not be in the store yet. */
+export const NO_SUBTITLES_CACHE_MAX_AGE = 10;
+
+/** Tracks, Cues and the other elements that are read whole to find the subtitles. */
+export const MAX_MATROSKA_ELEMENT_SIZE = 16 * 1024 * 1024;
+
+/** Clusters are read whole when the Cues don't point to the subtitle blocks. */
+export const MAX_MATROSKA_CLUSTER_SIZE = 64 * 1024 * 1024;
+
+/** Read with the element headers, so small elements like subtitle blocks need one read. */
+export const MATROSKA_READ_AHEAD = 4096;
+
+/** Matroska files have Void, Tags and Attachments before the Clusters too. */
+export const MAX_MATROSKA_TOP_LEVEL_ELEMENTS = 64;
+
+/** For the blocks that don't tell how long they are shown, in milliseconds. */
+export const DEFAULT_SUBTITLE_DURATION = 3000;
+
+/** The Matroska headers of a file, and the embedded subtitles that were extracted. */
+export const EMBEDDED_SUBTITLES_CACHE_MAX = 20;
+export const EMBEDDED_SUBTITLES_CACHE_TTL = 24 * 60 * 60 * 1000;
@@ -0,0 +1,133 @@
+/**
+ * The Extensible Binary Meta Language that Matroska files are made of. Every element is
+ * an ID, a size and the data, the IDs and the sizes are variable length integers.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc8794
+ */
+
+/** An ID is at most 4 bytes, a size is at most 8 bytes. */
+export const MAX_ELEMENT_HEADER_LENGTH = 12;
+
+export interface EbmlElementHeader {
+  id: number;
+  /** `null` if the size is unknown, which is allowed for the Segment and the Clusters. */
+  size: number | null;
+  headerLength: number;
+}
+
+export interface EbmlElement {
+  id: number;
+  /** The offsets of the data, relative to the start of the buffer. */
+  dataStart: number;
+  dataEnd: number;
+}
+
+/** The length of a variable length integer is the number of leading zeros of its first byte + 1. */
+const getVintLength = (firstByte: number): number | null => {
+  for (let length = 1; length <= 8; length++) {
+    if (firstByte & (0x80 >> (length - 1))) {
+      return length;
+    }
+  }
+  return null;
+};
+
+/**
+ * Reads a variable length integer without its marker bit, like the sizes and the track
+ * numbers of the blocks.
+ * @returns `value: null` if every bit of the value is set, which means an unknown size.
+ */
+export const readVint = (
+  data: Uint8Array,
+  offset: number,
+): { value: number | null; length: number } | null => {
+  if (offset >= data.length) {
+    return null;
+  }
+  const length = getVintLength(data[offset]);
+  if (!length || offset + length > data.length) {
+    return null;
+  }
+  let value = data[offset] & (0xff >> length);
+  let isUnknown = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + data[offset + i];
+    isUnknown &&= data[offset + i] === 0xff;
+  }
+  return { value: isUnknown ? null : value, length };
+};
+
+/**
+ * Reads the header of the element at the offset.
+ * @returns `null` if the buffer ends before the header does, or if the header is invalid.
+ */
+export const readElementHeader = (
+  data: Uint8Array,
+  offset: number,
+): EbmlElementHeader | null => {
+  if (offset >= data.length) {
+    return null;
+  }
+  const idLength = getVintLength(data[offset]);
+  if (!idLength || idLength > 4 || offset + idLength >= data.length) {
+    return null;
+  }
+  let id = 0;
+  for (let i = 0; i < idLength; i++) {
+    id = id * 256 + data[offset + i];
+  }
+
+  const size = readVint(data, offset + idLength);
+  if (!size) {
+    return null;
+  }
+  return { id, size: size.value, headerLength: idLength + size.length };
+};
+
+/** The child elements in a range of the buffer, elements with an unknown size end it. */
+export function* iterateElements(
+  data: Uint8Array,
+  start = 0,
+  end = data.length,
+): Generator<EbmlElement> {
+  let offset = start;
+  while (offset < end) {
+    const header = readElementHeader(data, offset);
+    if (!header || header.size === null) {
+      return;
+    }
+    const dataStart = offset + header.headerLength;
+    const dataEnd = dataStart + header.size;
+    if (dataEnd > end) {
+      return;
+    }
+    yield { id: header.id, dataStart, dataEnd };
+    offset = dataEnd;
+  }
+}
+
+export const readUnsigned = (data: Uint8Array, { dataStart, dataEnd }: EbmlElement) => {
+  let value = 0;
+  for (let i = dataStart; i < dataEnd; i++) {
+    value = value * 256 + data[i];
+  }
+  return value;
+};
+
+export const readFloat = (data: Uint8Array, { dataStart, dataEnd }: EbmlElement) => {
+  const view = new DataView(
+    data.buffer,
+    data.byteOffset + dataStart,
+    dataEnd - dataStart,
+  );
+  if (view.byteLength === 4) return view.getFloat32(0);
+  if (view.byteLength === 8) return view.getFloat64(0);
+  return 0;
+};
+
+/** Strings can be padded with zeros. */
+export const readString = (data: Uint8Array, { dataStart, dataEnd }: EbmlElement) =>
+  new TextDecoder().decode(data.subarray(dataStart, dataEnd)).replace(/\0+$/, '');
+
+export const readBinary = (data: Uint8Array, { dataStart, dataEnd }: EbmlElement) =>
+  data.subarray(dataStart, dataEnd);
@@ -0,0 +1,14 @@
+export { SubtitleService } from './subtitle.service';
+export { SUBTITLES_CACHE_MAX_AGE, NO_SUBTITLES_CACHE_MAX_AGE } from './constants';
+export { SubtitleLanguage, detectSubtitleLanguage } from './subtitle-language';
+export { convertToVtt, decodeSubtitle } from './subtitle-converter';
+export { findSidecarSubtitles } from './sidecar-subtitles';
+export {
+  readMatroskaHeaders,
+  readSubtitleCues,
+  MatroskaSubtitleCodec,
+  type MatroskaHeaders,
+  type MatroskaSubtitleTrack,
+  type ReadRange,
+} from './matroska';
+export type { SidecarSubtitle } from './types';
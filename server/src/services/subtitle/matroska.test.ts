@@ -0,0 +1,185 @@
+import { deflateSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { readMatroskaHeaders, readSubtitleCues, type ReadRange } from './matroska';
+
+const concat = (...parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const toBytes = (value: number, length: number) =>
+  new Uint8Array(
+    Array.from({ length }, (_, i) => (value / 256 ** (length - i - 1)) & 0xff),
+  );
+
+const idBytes = (id: number) => toBytes(id, Math.ceil(Math.log2(id + 1) / 8));
+
+/** Every size is written on 8 bytes, so that the positions are easy to count. */
+const element = (id: number, ...children: Uint8Array[]) => {
+  const data = concat(...children);
+  return concat(idBytes(id), new Uint8Array([0x01]), toBytes(data.length, 7), data);
+};
+const uint = (id: number, value: number) => element(id, toBytes(value, 4));
+const text = (id: number, value: string) => element(id, new TextEncoder().encode(value));
+const binary = (id: number, value: Uint8Array) => element(id, value);
+
+const block = (trackNumber: number, timestamp: number, payload: Uint8Array | string) =>
+  concat(
+    new Uint8Array([0x80 | trackNumber]),
+    toBytes(timestamp, 2),
+    new Uint8Array([0x80]),
+    typeof payload === 'string' ? new TextEncoder().encode(payload) : payload,
+  );
+
+const blockGroup = (
+  trackNumber: number,
+  timestamp: number,
+  duration: number,
+  payload: Uint8Array | string,
+) =>
+  element(
+    0xa0,
+    binary(0xa1, block(trackNumber, timestamp, payload)),
+    uint(0x9b, duration),
+  );
+
+const ebmlHeader = element(0x1a45dfa3, text(0x4282, 'matroska'));
+const info = element(0x1549a966, uint(0x2ad7b1, 1_000_000));
+const tracks = element(
+  0x1654ae6b,
+  element(0xae, uint(0xd7, 1), uint(0x83, 1), text(0x86, 'V_MPEG4/ISO/AVC')),
+  element(
+    0xae,
+    uint(0xd7, 2),
+    uint(0x83, 0x11),
+    text(0x86, 'S_TEXT/UTF8'),
+    text(0x22b59c, 'hun'),
+  ),
+  element(
+    0xae,
+    uint(0xd7, 3),
+    uint(0x83, 0x11),
+    text(0x86, 'S_TEXT/ASS'),
+    uint(0x88, 0),
+    element(0x6d80, element(0x6240, element(0x5034, uint(0x4254, 0)))),
+  ),
+  element(0xae, uint(0xd7, 4), uint(0x83, 0x11), text(0x86, 'S_HDMV/PGS')),
+);
+const clusterChildren = [
+  uint(0xe7, 1000),
+  element(0xa3, block(1, 0, new Uint8Array(64))),
+  blockGroup(2, 500, 1500, '{\\an8}<i>Szia</i>'),
+  blockGroup(3, 0, 2000, deflateSync('0,0,Default,,0,0,0,,{\\i1}Hello,\\Nworld')),
+];
+const cluster = element(0x1f43b675, ...clusterChildren);
+
+/** The position of a child of the cluster, relative to the data of the cluster. */
+const relativePosition = (index: number) =>
+  clusterChildren.slice(0, index).reduce((length, child) => length + child.length, 0);
+
+const cues = (clusterPosition: number) =>
+  element(
+    0x1c53bb6b,
+    element(
+      0xbb,
+      uint(0xb3, 1500),
+      element(
+        0xb7,
+        uint(0xf7, 2),
+        uint(0xf1, clusterPosition),
+        uint(0xf0, relativePosition(2)),
+      ),
+    ),
+    element(
+      0xbb,
+      uint(0xb3, 1000),
+      element(0xb7, uint(0xf7, 3), uint(0xf1, clusterPosition)),
+    ),
+  );
+
+const seekHead = (cuesPosition: number) =>
+  element(
+    0x114d9b74,
+    element(0x4dbb, binary(0x53ab, idBytes(0x1c53bb6b)), uint(0x53ac, cuesPosition)),
+  );
+
+const createFile = ({ withCues }: { withCues: boolean }) => {
+  // the SeekHead has the same length with any position
+  const clusterPosition = seekHead(0).length + info.length + tracks.length;
+  const cuesPosition = clusterPosition + cluster.length;
+  const segment = withCues
+    ? element(
+        0x18538067,
+        seekHead(cuesPosition),
+        info,
+        tracks,
+        cluster,
+        cues(clusterPosition),
+      )
+    : element(0x18538067, info, tracks, cluster);
+  return concat(ebmlHeader, segment);
+};
+
+const createReader = (file: Uint8Array): ReadRange => {
+  return async (start, end) => file.subarray(start, Math.min(end, file.length));
+};
+
+describe('readMatroskaHeaders', () => {
+  it('should list the text subtitle tracks', async () => {
+    const file = createFile({ withCues: true });
+    const headers = await readMatroskaHeaders(createReader(file), file.length);
+    expect(
+      headers?.subtitleTracks.map(({ number, codecId, language, isDefault }) => ({
+        number,
+        codecId,
+        language,
+        isDefault,
+      })),
+    ).toEqual([
+      { number: 2, codecId: 'S_TEXT/UTF8', language: 'hun', isDefault: true },
+      { number: 3, codecId: 'S_TEXT/ASS', language: 'eng', isDefault: false },
+    ]);
+    expect(headers?.cuesPosition).not.toBeNull();
+  });
+
+  it('should return null for other files', async () => {
+    const file = new TextEncoder().encode('RIFF....AVI LIST');
+    expect(await readMatroskaHeaders(createReader(file), file.length)).toBeNull();
+  });
+});
+
+describe('readSubtitleCues', () => {
+  it.each([{ withCues: true }, { withCues: false }])(
+    'should extract the cues of the tracks %o',
+    async ({ withCues }) => {
+      const file = createFile({ withCues });
+      const read = createReader(file);
+      const headers = (await readMatroskaHeaders(read, file.length))!;
+      expect(await readSubtitleCues(read, headers, 2)).toEqual([
+        { start: 1500, end: 3000, text: '<i>Szia</i>' },
+      ]);
+      expect(await readSubtitleCues(read, headers, 3)).toEqual([
+        { start: 1000, end: 3000, text: 'Hello,\nworld' },
+      ]);
+    },
+  );
+
+  it('should only read the subtitle blocks if the cues point to them', async () => {
+    const file = createFile({ withCues: true });
+    const reads: number[] = [];
+    const read: ReadRange = async (start, end) => {
+      reads.push(end - start);
+      return file.subarray(start, Math.min(end, file.length));
+    };
+    const headers = (await readMatroskaHeaders(read, file.length))!;
+    reads.length = 0;
+    await readSubtitleCues(read, headers, 2);
+    // the Cues, the header of the cluster and the block
+    expect(reads).toHaveLength(3);
+  });
+});
@@ -0,0 +1,595 @@
+import { inflateSync } from 'zlib';
+import {
+  DEFAULT_SUBTITLE_DURATION,
+  MATROSKA_READ_AHEAD,
+  MAX_MATROSKA_CLUSTER_SIZE,
+  MAX_MATROSKA_ELEMENT_SIZE,
+  MAX_MATROSKA_TOP_LEVEL_ELEMENTS,
+} from './constants';
+import {
+  iterateElements,
+  MAX_ELEMENT_HEADER_LENGTH,
+  readBinary,
+  readElementHeader,
+  readString,
+  readUnsigned,
+  readVint,
+  type EbmlElement,
+} from './ebml';
+import type { ReadRange } from '../../utils/read-range';
+import { cleanAssText, cleanSrtText, type SubtitleCue } from './subtitle-converter';
+
+export type { ReadRange };
+
+/** @see https://www.matroska.org/technical/elements.html */
+enum ElementId {
+  EBML = 0x1a45dfa3,
+  DOC_TYPE = 0x4282,
+  SEGMENT = 0x18538067,
+  SEEK_HEAD = 0x114d9b74,
+  SEEK = 0x4dbb,
+  SEEK_ID = 0x53ab,
+  SEEK_POSITION = 0x53ac,
+  INFO = 0x1549a966,
+  TIMESTAMP_SCALE = 0x2ad7b1,
+  TRACKS = 0x1654ae6b,
+  TRACK_ENTRY = 0xae,
+  TRACK_NUMBER = 0xd7,
+  TRACK_TYPE = 0x83,
+  CODEC_ID = 0x86,
+  LANGUAGE = 0x22b59c,
+  NAME = 0x536e,
+  FLAG_DEFAULT = 0x88,
+  FLAG_FORCED = 0x55aa,
+  CONTENT_ENCODINGS = 0x6d80,
+  CONTENT_ENCODING = 0x6240,
+  CONTENT_COMPRESSION = 0x5034,
+  CONTENT_COMP_ALGO = 0x4254,
+  CONTENT_COMP_SETTINGS = 0x4255,
+  CUES = 0x1c53bb6b,
+  CUE_POINT = 0xbb,
+  CUE_TIME = 0xb3,
+  CUE_TRACK_POSITIONS = 0xb7,
+  CUE_TRACK = 0xf7,
+  CUE_CLUSTER_POSITION = 0xf1,
+  CUE_RELATIVE_POSITION = 0xf0,
+  CUE_DURATION = 0xb2,
+  CLUSTER = 0x1f43b675,
+  TIMESTAMP = 0xe7,
+  SIMPLE_BLOCK = 0xa3,
+  BLOCK_GROUP = 0xa0,
+  BLOCK = 0xa1,
+  BLOCK_DURATION = 0x9b,
+}
+
+const SUBTITLE_TRACK_TYPE = 0x11;
+const DEFAULT_TIMESTAMP_SCALE = 1_000_000;
+
+enum CompressionAlgorithm {
+  ZLIB = 0,
+  /** The bytes in the settings were removed from the start of every block. */
+  HEADER_STRIPPING = 3,
+}
+
+/** The text subtitle codecs, image based ones like PGS and VobSub can't be converted. */
+export enum MatroskaSubtitleCodec {
+  SRT = 'S_TEXT/UTF8',
+  ASCII = 'S_TEXT/ASCII',
+  ASS = 'S_TEXT/ASS',
+  SSA = 'S_TEXT/SSA',
+  WEBVTT = 'S_TEXT/WEBVTT',
+}
+
+export interface MatroskaSubtitleTrack {
+  number: number;
+  codecId: string;
+  /** ISO 639-2, `eng` if the file doesn't tell, like the specification says. */
+  language: string;
+  name: string | null;
+  isDefault: boolean;
+  isForced: boolean;
+  compression: { algorithm: number; settings: Uint8Array | null } | null;
+}
+
+export interface MatroskaHeaders {
+  /** The positions in the Segment are relative to the start of its data. */
+  segmentDataStart: number;
+  segmentEnd: number;
+  /** Nanoseconds per timestamp unit. */
+  timestampScale: number;
+  subtitleTracks: MatroskaSubtitleTrack[];
+  cuesPosition: number | null;
+  firstClusterPosition: number | null;
+}
+
+interface ReadElement {
+  data: Uint8Array;
+  element: EbmlElement;
+}
+
+interface SubtitleBlock {
+  /** In timestamp units */
+  timestamp: number;
+  /** In timestamp units */
+  duration: number | null;
+  payload: Uint8Array;
+}
+
+interface CuePoint {
+  time: number;
+  clusterPosition: number;
+  /** The position of the block in the data of the cluster, not always written. */
+  relativePosition: number | null;
+  duration: number | null;
+}
+
+const isSupportedCodec = (codecId: string) =>
+  (Object.values(MatroskaSubtitleCodec) as string[]).includes(codecId);
+
+/** Reads a whole element, with one read if it's smaller than the read-ahead. */
+const readElementAt = async (
+  read: ReadRange,
+  position: number,
+  end: number,
+  maxSize: number,
+): Promise<ReadElement | null> => {
+  const head = await read(
+    position,
+    Math.min(end, position + MAX_ELEMENT_HEADER_LENGTH + MATROSKA_READ_AHEAD),
+  );
+  const header = readElementHeader(head, 0);
+  if (!header || header.size === null || header.size > maxSize) {
+    return null;
+  }
+  const length = header.headerLength + header.size;
+  const data =
+    length <= head.length
+      ? head.subarray(0, length)
+      : await read(position, position + length);
+  if (data.length < length) {
+    return null;
+  }
+  return {
+    data,
+    element: { id: header.id, dataStart: header.headerLength, dataEnd: length },
+  };
+};
+
+const readElementHeaderAt = async (read: ReadRange, position: number, end: number) =>
+  readElementHeader(
+    await read(position, Math.min(end, position + MAX_ELEMENT_HEADER_LENGTH)),
+    0,
+  );
+
+const findChild = (data: Uint8Array, parent: EbmlElement, id: ElementId) => {
+  for (const child of iterateElements(data, parent.dataStart, parent.dataEnd)) {
+    if (child.id === id) {
+      return child;
+    }
+  }
+  return null;
+};
+
+const parseSeekHead = ({ data, element }: ReadElement, segmentDataStart: number) => {
+  const positions = new Map<number, number>();
+  for (const seek of iterateElements(data, element.dataStart, element.dataEnd)) {
+    if (seek.id !== ElementId.SEEK) continue;
+    const seekId = findChild(data, seek, ElementId.SEEK_ID);
+    const seekPosition = findChild(data, seek, ElementId.SEEK_POSITION);
+    if (seekId && seekPosition) {
+      positions.set(
+        readUnsigned(data, seekId),
+        segmentDataStart + readUnsigned(data, seekPosition),
+      );
+    }
+  }
+  return positions;
+};
+
+const parseTimestampScale = ({ data, element }: ReadElement) => {
+  const scale = findChild(data, element, ElementId.TIMESTAMP_SCALE);
+  return scale ? readUnsigned(data, scale) : DEFAULT_TIMESTAMP_SCALE;
+};
+
+const parseCompression = (data: Uint8Array, trackEntry: EbmlElement) => {
+  const encodings = findChild(data, trackEntry, ElementId.CONTENT_ENCODINGS);
+  const encoding = encodings && findChild(data, encodings, ElementId.CONTENT_ENCODING);
+  const compression =
+    encoding && findChild(data, encoding, ElementId.CONTENT_COMPRESSION);
+  if (!compression) {
+    return null;
+  }
+  const algorithm = findChild(data, compression, ElementId.CONTENT_COMP_ALGO);
+  const settings = findChild(data, compression, ElementId.CONTENT_COMP_SETTINGS);
+  return {
+    algorithm: algorithm ? readUnsigned(data, algorithm) : CompressionAlgorithm.ZLIB,
+    settings: settings ? readBinary(data, settings) : null,
+  };
+};
+
+const parseSubtitleTracks = ({ data, element }: ReadElement): MatroskaSubtitleTrack[] => {
+  const tracks: MatroskaSubtitleTrack[] = [];
+  for (const entry of iterateElements(data, element.dataStart, element.dataEnd)) {
+    if (entry.id !== ElementId.TRACK_ENTRY) continue;
+    const type = findChild(data, entry, ElementId.TRACK_TYPE);
+    const number = findChild(data, entry, ElementId.TRACK_NUMBER);
+    const codecId = findChild(data, entry, ElementId.CODEC_ID);
+    if (
+      !type ||
+      readUnsigned(data, type) !== SUBTITLE_TRACK_TYPE ||
+      !number ||
+      !codecId
+    ) {
+      continue;
+    }
+    const language = findChild(data, entry, ElementId.LANGUAGE);
+    const name = findChild(data, entry, ElementId.NAME);
+    const isDefault = findChild(data, entry, ElementId.FLAG_DEFAULT);
+    const isForced = findChild(data, entry, ElementId.FLAG_FORCED);
+    tracks.push({
+      number: readUnsigned(data, number),
+      codecId: readString(data, codecId),
+      language: language ? readString(data, language) : 'eng',
+      name: name ? readString(data, name) : null,
+      // the default of FlagDefault is 1
+      isDefault: isDefault ? readUnsigned(data, isDefault) === 1 : true,
+      isForced: isForced ? readUnsigned(data, isForced) === 1 : false,
+      compression: parseCompression(data, entry),
+    });
+  }
+  return tracks;
+};
+
+/**
+ * Reads the headers of a Matroska or WebM file, which are at its start. Only the positions
+ * of the Cues and the Clusters are found, they are read when a subtitle is extracted.
+ *
+ * @returns `null` if the file is not a Matroska file.
+ */
+export const readMatroskaHeaders = async (
+  read: ReadRange,
+  fileLength: number,
+): Promise<MatroskaHeaders | null> => {
+  const ebml = await readElementAt(read, 0, fileLength, MATROSKA_READ_AHEAD);
+  if (!ebml || ebml.element.id !== ElementId.EBML) {
+    return null;
+  }
+  const docType = findChild(ebml.data, ebml.element, ElementId.DOC_TYPE);
+  if (!docType || !['matroska', 'webm'].includes(readString(ebml.data, docType))) {
+    return null;
+  }
+
+  const segmentPosition = ebml.element.dataEnd;
+  const segment = await readElementHeaderAt(read, segmentPosition, fileLength);
+  if (!segment || segment.id !== ElementId.SEGMENT) {
+    return null;
+  }
+  const segmentDataStart = segmentPosition + segment.headerLength;
+  const segmentEnd =
+    segment.size === null
+      ? fileLength
+      : Math.min(fileLength, segmentDataStart + segment.size);
+
+  const positions = new Map<number, number>();
+  let info: ReadElement | null = null;
+  let tracks: ReadElement | null = null;
+  let position = segmentDataStart;
+  for (let i = 0; i < MAX_MATROSKA_TOP_LEVEL_ELEMENTS && position < segmentEnd; i++) {
+    const header = await readElementHeaderAt(read, position, segmentEnd);
+    if (!header) break;
+    positions.set(header.id, positions.get(header.id) ?? position);
+    // everything that is needed is before the first Cluster, or is found by the SeekHead
+    if (header.id === ElementId.CLUSTER || header.size === null) break;
+    if (header.id === ElementId.SEEK_HEAD) {
+      const seekHead = await readElementAt(
+        read,
+        position,
+        segmentEnd,
+        MAX_MATROSKA_ELEMENT_SIZE,
+      );
+      if (seekHead) {
+        parseSeekHead(seekHead, segmentDataStart).forEach((seekPosition, id) => {
+          if (!positions.has(id)) positions.set(id, seekPosition);
+        });
+      }
+    }
+    if (header.id === ElementId.INFO) {
+      info = await readElementAt(read, position, segmentEnd, MAX_MATROSKA_ELEMENT_SIZE);
+    }
+    if (header.id === ElementId.TRACKS) {
+      tracks = await readElementAt(read, position, segmentEnd, MAX_MATROSKA_ELEMENT_SIZE);
+    }
+    position += header.headerLength + header.size;
+  }
+
+  const infoPosition = positions.get(ElementId.INFO);
+  if (!info && infoPosition !== undefined) {
+    info = await readElementAt(read, infoPosition, segmentEnd, MAX_MATROSKA_ELEMENT_SIZE);
+  }
+  const tracksPosition = positions.get(ElementId.TRACKS);
+  if (!tracks && tracksPosition !== undefined) {
+    tracks = await readElementAt(
+      read,
+      tracksPosition,
+      segmentEnd,
+      MAX_MATROSKA_ELEMENT_SIZE,
+    );
+  }
+  return {
+    segmentDataStart,
+    segmentEnd,
+    timestampScale: info ? parseTimestampScale(info) : DEFAULT_TIMESTAMP_SCALE,
+    subtitleTracks: tracks
+      ? parseSubtitleTracks(tracks).filter((track) => isSupportedCodec(track.codecId))
+      : [],
+    cuesPosition: positions.get(ElementId.CUES) ?? null,
+    firstClusterPosition: positions.get(ElementId.CLUSTER) ?? null,
+  };
+};
+
+const readCuePoints = async (
+  read: ReadRange,
+  headers: MatroskaHeaders,
+  trackNumber: number,
+): Promise<CuePoint[]> => {
+  if (headers.cuesPosition === null) {
+    return [];
+  }
+  const cues = await readElementAt(
+    read,
+    headers.cuesPosition,
+    headers.segmentEnd,
+    MAX_MATROSKA_ELEMENT_SIZE,
+  );
+  if (!cues || cues.element.id !== ElementId.CUES) {
+    return [];
+  }
+  const { data, element } = cues;
+  const cuePoints: CuePoint[] = [];
+  for (const cuePoint of iterateElements(data, element.dataStart, element.dataEnd)) {
+    if (cuePoint.id !== ElementId.CUE_POINT) continue;
+    const time = findChild(data, cuePoint, ElementId.CUE_TIME);
+    if (!time) continue;
+    for (const positions of iterateElements(data, cuePoint.dataStart, cuePoint.dataEnd)) {
+      if (positions.id !== ElementId.CUE_TRACK_POSITIONS) continue;
+      const track = findChild(data, positions, ElementId.CUE_TRACK);
+      const clusterPosition = findChild(data, positions, ElementId.CUE_CLUSTER_POSITION);
+      if (!track || readUnsigned(data, track) !== trackNumber || !clusterPosition) {
+        continue;
+      }
+      const relativePosition = findChild(
+        data,
+        positions,
+        ElementId.CUE_RELATIVE_POSITION,
+      );
+      const duration = findChild(data, positions, ElementId.CUE_DURATION);
+      cuePoints.push({
+        time: readUnsigned(data, time),
+        clusterPosition: headers.segmentDataStart + readUnsigned(data, clusterPosition),
+        relativePosition: relativePosition ? readUnsigned(data, relativePosition) : null,
+        duration: duration ? readUnsigned(data, duration) : null,
+      });
+    }
+  }
+  return cuePoints;
+};
+
+/**
+ * The track number, the timestamp relative to the cluster and the payload of a
+ * SimpleBlock or of the Block of a BlockGroup. Laced blocks are left out, subtitles are
+ * never laced.
+ */
+const parseBlock = (
+  data: Uint8Array,
+  element: EbmlElement,
+): {
+  trackNumber: number;
+  timestamp: number;
+  duration: number | null;
+  payload: Uint8Array;
+} | null => {
+  let block = element;
+  let duration: number | null = null;
+  if (element.id === ElementId.BLOCK_GROUP) {
+    const child = findChild(data, element, ElementId.BLOCK);
+    if (!child) return null;
+    const blockDuration = findChild(data, element, ElementId.BLOCK_DURATION);
+    duration = blockDuration ? readUnsigned(data, blockDuration) : null;
+    block = child;
+  } else if (element.id !== ElementId.SIMPLE_BLOCK) {
+    return null;
+  }
+  const trackNumber = readVint(data, block.dataStart);
+  if (!trackNumber || trackNumber.value === null) return null;
+  const timestampOffset = block.dataStart + trackNumber.length;
+  if (timestampOffset + 3 > block.dataEnd) return null;
+  const flags = data[timestampOffset + 2];
+  if (flags & 0x06) return null;
+  const view = new DataView(data.buffer, data.byteOffset + timestampOffset, 2);
+  return {
+    trackNumber: trackNumber.value,
+    timestamp: view.getInt16(0),
+    duration,
+    payload: data.subarray(timestampOffset + 3, block.dataEnd),
+  };
+};
+
+/** The blocks of a track in a whole cluster, with their timestamps made absolute. */
+const getClusterBlocks = (
+  { data, element }: ReadElement,
+  trackNumber: number,
+): SubtitleBlock[] => {
+  const timestamp = findChild(data, element, ElementId.TIMESTAMP);
+  const clusterTimestamp = timestamp ? readUnsigned(data, timestamp) : 0;
+  const blocks: SubtitleBlock[] = [];
+  for (const child of iterateElements(data, element.dataStart, element.dataEnd)) {
+    const block = parseBlock(data, child);
+    if (block?.trackNumber === trackNumber) {
+      blocks.push({
+        timestamp: clusterTimestamp + block.timestamp,
+        duration: block.duration,
+        payload: block.payload,
+      });
+    }
+  }
+  return blocks;
+};
+
+/**
+ * Files muxed by mkvmerge have a cue point for every subtitle block, with the position of
+ * the block in its cluster, so only the subtitle blocks are read. Clusters without the
+ * position of the block are read whole.
+ */
+const readIndexedBlocks = async (
+  read: ReadRange,
+  headers: MatroskaHeaders,
+  trackNumber: number,
+  cuePoints: CuePoint[],
+): Promise<SubtitleBlock[]> => {
+  const wholeClusters = new Set(
+    cuePoints
+      .filter((cuePoint) => cuePoint.relativePosition === null)
+      .map((cuePoint) => cuePoint.clusterPosition),
+  );
+  const clusterDataStarts = new Map<number, number>();
+  const blocks: SubtitleBlock[] = [];
+
+  for (const cuePoint of cuePoints) {
+    const { clusterPosition, relativePosition } = cuePoint;
+    if (relativePosition === null || wholeClusters.has(clusterPosition)) continue;
+    let clusterDataStart = clusterDataStarts.get(clusterPosition);
+    if (clusterDataStart === undefined) {
+      const cluster = await readElementHeaderAt(
+        read,
+        clusterPosition,
+        headers.segmentEnd,
+      );
+      if (!cluster || cluster.id !== ElementId.CLUSTER) continue;
+      clusterDataStart = clusterPosition + cluster.headerLength;
+      clusterDataStarts.set(clusterPosition, clusterDataStart);
+    }
+    const element = await readElementAt(
+      read,
+      clusterDataStart + relativePosition,
+      headers.segmentEnd,
+      MAX_MATROSKA_ELEMENT_SIZE,
+    );
+    const block = element && parseBlock(element.data, element.element);
+    if (block?.trackNumber === trackNumber) {
+      blocks.push({
+        timestamp: cuePoint.time,
+        duration: block.duration ?? cuePoint.duration,
+        payload: block.payload,
+      });
+    }
+  }
+
+  for (const clusterPosition of wholeClusters) {
+    const cluster = await readElementAt(
+      read,
+      clusterPosition,
+      headers.segmentEnd,
+      MAX_MATROSKA_CLUSTER_SIZE,
+    );
+    if (cluster?.element.id === ElementId.CLUSTER) {
+      blocks.push(...getClusterBlocks(cluster, trackNumber));
+    }
+  }
+  return blocks;
+};
+
+/** Without cue points every cluster has to be read, so the whole file is downloaded. */
+const scanClusters = async (
+  read: ReadRange,
+  headers: MatroskaHeaders,
+  trackNumber: number,
+): Promise<SubtitleBlock[]> => {
+  const blocks: SubtitleBlock[] = [];
+  let position = headers.firstClusterPosition;
+  while (position !== null && position < headers.segmentEnd) {
+    const header = await readElementHeaderAt(read, position, headers.segmentEnd);
+    if (!header || header.size === null) break;
+    if (header.id === ElementId.CLUSTER) {
+      const cluster = await readElementAt(
+        read,
+        position,
+        headers.segmentEnd,
+        MAX_MATROSKA_CLUSTER_SIZE,
+      );
+      if (!cluster) break;
+      blocks.push(...getClusterBlocks(cluster, trackNumber));
+    }
+    position += header.headerLength + header.size;
+  }
+  return blocks;
+};
+
+const decompress = (
+  payload: Uint8Array,
+  compression: MatroskaSubtitleTrack['compression'],
+): Uint8Array | null => {
+  if (!compression) {
+    return payload;
+  }
+  switch (compression.algorithm) {
+    case CompressionAlgorithm.ZLIB:
+      return inflateSync(payload);
+    case CompressionAlgorithm.HEADER_STRIPPING:
+      return new Uint8Array([...(compression.settings ?? []), ...payload]);
+    default:
+      return null;
+  }
+};
+
+/**
+ * The blocks of ASS and SSA tracks are the fields of a `Dialogue` line without the times:
+ * `ReadOrder, Layer, Style, Name, MarginL, MarginR, MarginV, Effect, Text`.
+ */
+const getCueText = (codecId: string, text: string): string => {
+  switch (codecId) {
+    case MatroskaSubtitleCodec.ASS:
+    case MatroskaSubtitleCodec.SSA:
+      return cleanAssText(text.split(',').slice(8).join(','));
+    case MatroskaSubtitleCodec.WEBVTT:
+      return text;
+    default:
+      return cleanSrtText(text);
+  }
+};
+
+/** Extracts the cues of a subtitle track, see `readMatroskaHeaders`. */
+export const readSubtitleCues = async (
+  read: ReadRange,
+  headers: MatroskaHeaders,
+  trackNumber: number,
+): Promise<SubtitleCue[]> => {
+  const track = headers.subtitleTracks.find(({ number }) => number === trackNumber);
+  if (!track) {
+    return [];
+  }
+  const cuePoints = await readCuePoints(read, headers, trackNumber);
+  const blocks =
+    cuePoints.length > 0
+      ? await readIndexedBlocks(read, headers, trackNumber, cuePoints)
+      : await scanClusters(read, headers, trackNumber);
+
+  const toMilliseconds = (value: number) => (value * headers.timestampScale) / 1_000_000;
+  const decoder = new TextDecoder();
+  return blocks.flatMap(({ timestamp, duration, payload }) => {
+    const data = decompress(payload, track.compression);
+    if (!data) {
+      return [];
+    }
+    const start = toMilliseconds(timestamp);
+    return [
+      {
+        start,
+        end:
+          duration !== null
+            ? start + toMilliseconds(duration)
+            : start + DEFAULT_SUBTITLE_DURATION,
+        text: getCueText(track.codecId, decoder.decode(data).replace(/\r\n?/g, '\n')),
+      },
+    ];
+  });
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { findSidecarSubtitles } from './sidecar-subtitles';
+import { detectSubtitleLanguage, SubtitleLanguage } from './subtitle-language';
+
+const toFiles = (paths: string[]) => paths.map((path) => ({ path }));
+
+describe('detectSubtitleLanguage', () => {
+  it.each([
+    ['Movie.2020.1080p.BluRay.x264-GRP/Movie.2020.1080p.BluRay.x264-GRP.hun.srt', 'hun'],
+    ['Movie.2020.1080p.BluRay.x264-GRP/Subs/2_English.srt', 'eng'],
+    ['Movie.2020.1080p.BluRay.x264-GRP/Magyar felirat/Movie.2020.srt', 'hun'],
+    ['Movie.2020/Subs/Német.srt', 'ger'],
+    ['Movie.2020.1080p.BluRay.x264-GRP.HUN.forced.srt', 'hun'],
+  ])('should detect the language of %s', (path, language) => {
+    expect(detectSubtitleLanguage(path)).toBe(language);
+  });
+
+  it('should not mistake the words of the title for a language', () => {
+    expect(
+      detectSubtitleLanguage('The.Italian.Job.2003.1080p.BluRay.x264-GRP/Subs/Sub.srt'),
+    ).toBe(SubtitleLanguage.UNKNOWN);
+  });
+});
+
+describe('findSidecarSubtitles', () => {
+  it('should find every subtitle of a movie that is alone in its folder', () => {
+    const files = toFiles([
+      'Movie/Movie.mkv',
+      'Movie/Movie.hun.srt',
+      'Movie/Subs/English.ass',
+      'Movie/Sample/Movie.sample.mkv',
+      'Movie/Subs/Vobsub.sub',
+      'Movie/Subs/Vobsub.idx',
+    ]);
+    expect(findSidecarSubtitles(files, 0)).toEqual([
+      { fileIndex: 1, extension: 'srt', language: SubtitleLanguage.HUNGARIAN },
+      { fileIndex: 2, extension: 'ass', language: SubtitleLanguage.ENGLISH },
+    ]);
+  });
+
+  it('should only find the subtitles of the played episode in a season pack', () => {
+    const files = toFiles([
+      'Show.S01/Show.S01E01.mkv',
+      'Show.S01/Show.S01E02.mkv',
+      'Show.S01/Show.S01E01.hun.srt',
+      'Show.S01/Show.S01E02.hun.srt',
+      'Show.S01/Subs/Show.S01E02/2_English.srt',
+    ]);
+    expect(findSidecarSubtitles(files, 1).map(({ fileIndex }) => fileIndex)).toEqual([
+      3, 4,
+    ]);
+  });
+});
@@ -0,0 +1,74 @@
+import { isExtraFile } from '../torrent-source/episode-resolver';
+import { isSubtitleFile, isSupportedMedia } from '../../utils/media-file-extensions';
+import { detectSubtitleLanguage } from './subtitle-language';
+import type { SidecarSubtitle } from './types';
+
+interface SubtitleSearchFile {
+  path: string;
+}
+
+const getDirectory = (path: string) => path.split(/[\\/]/).slice(0, -1).join('/');
+
+const getBaseName = (path: string) =>
+  (path.split(/[\\/]/).pop() ?? '').replace(/\.[^.]+$/, '').toLowerCase();
+
+const getExtension = (path: string) => path.split('.').pop()?.toLowerCase() ?? '';
+
+/** VobSub `.sub` files are images, they come with an `.idx` file of the same name. */
+const isVobSub = (path: string, paths: Set<string>) =>
+  getExtension(path) === 'sub' &&
+  paths.has(path.replace(/\.[^.]+$/, '.idx').toLowerCase());
+
+/**
+ * The subtitle files of a torrent that belong to one of its videos:
+ * - the ones named after the video, e.g. `Show.S01E01.hun.srt` for `Show.S01E01.mkv`,
+ * - the ones in a folder named after the video, e.g. `Subs/Show.S01E01/2_English.srt`,
+ * - and if the video is the only one in its folder, every subtitle next to it or below it,
+ *   e.g. `Subs/Hungarian.srt` in the folder of a movie.
+ */
+export const findSidecarSubtitles = (
+  files: SubtitleSearchFile[],
+  videoFileIndex: number,
+): SidecarSubtitle[] => {
+  const videoPath = files[videoFileIndex]?.path;
+  if (!videoPath) {
+    return [];
+  }
+  const videoDirectory = getDirectory(videoPath);
+  const videoBaseName = getBaseName(videoPath);
+  const paths = new Set(files.map((file) => file.path.toLowerCase()));
+  const isOnlyVideoInFolder =
+    files.filter(
+      (file) =>
+        isSupportedMedia(file.path) &&
+        !isExtraFile(file.path) &&
+        getDirectory(file.path) === videoDirectory,
+    ).length === 1;
+
+  return files.flatMap((file, fileIndex) => {
+    if (!isSubtitleFile(file.path) || isVobSub(file.path, paths)) {
+      return [];
+    }
+    const directory = getDirectory(file.path);
+    const isNamedAfterVideo = getBaseName(file.path).startsWith(videoBaseName);
+    const isInVideoFolder = directory
+      .toLowerCase()
+      .split('/')
+      .some((folder) => folder === videoBaseName);
+    const isNextToVideo =
+      isOnlyVideoInFolder &&
+      (videoDirectory === '' ||
+        directory === videoDirectory ||
+        directory.startsWith(`${videoDirectory}/`));
+    if (!isNamedAfterVideo && !isInVideoFolder && !isNextToVideo) {
+      return [];
+    }
+    return [
+      {
+        fileIndex,
+        extension: getExtension(file.path),
+        language: detectSubtitleLanguage(file.path),
+      },
+    ];
+  });
+};
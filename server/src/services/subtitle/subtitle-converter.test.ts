@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { convertToVtt, decodeSubtitle } from './subtitle-converter';
+
+describe('decodeSubtitle', () => {
+  it('should read UTF-8 and drop the byte order mark', () => {
+    const data = new TextEncoder().encode('\uFEFFárvíztűrő\r\ntükörfúrógép');
+    expect(decodeSubtitle(data)).toBe('árvíztűrő\ntükörfúrógép');
+  });
+
+  it('should read Windows-1250 if the file is not valid UTF-8', () => {
+    // "tűrő" in Windows-1250
+    const data = new Uint8Array([0x74, 0xfb, 0x72, 0xf5]);
+    expect(decodeSubtitle(data)).toBe('tűrő');
+  });
+});
+
+describe('convertToVtt', () => {
+  it('should convert SubRip', () => {
+    const srt = [
+      '1',
+      '00:00:01,500 --> 00:00:03,000',
+      '{\\an8}<i>Hello</i>',
+      '',
+      '2',
+      '00:01:02,000 --> 00:01:04,250',
+      'Two',
+      'lines',
+      '',
+    ].join('\n');
+    expect(convertToVtt(srt, 'srt')).toBe(
+      [
+        'WEBVTT',
+        '',
+        '00:00:01.500 --> 00:00:03.000',
+        '<i>Hello</i>',
+        '',
+        '00:01:02.000 --> 00:01:04.250',
+        'Two',
+        'lines',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should convert SubStation Alpha with commas in the text', () => {
+    const ass = [
+      '[Script Info]',
+      'Title: Test',
+      '',
+      '[Events]',
+      'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+      'Dialogue: 0,0:00:01.50,0:00:03.00,Default,,0,0,0,,{\\i1}Hello,\\Nworld{\\i0}',
+    ].join('\n');
+    expect(convertToVtt(ass, 'ass')).toBe(
+      ['WEBVTT', '', '00:00:01.500 --> 00:00:03.000', 'Hello,', 'world', ''].join('\n'),
+    );
+  });
+
+  it('should convert MicroDVD with the frame rate of its first line', () => {
+    const sub = ['{1}{1}25.000', '{25}{50}{y:i}First|Second'].join('\n');
+    expect(convertToVtt(sub, 'sub')).toBe(
+      ['WEBVTT', '', '00:00:01.000 --> 00:00:02.000', 'First', 'Second', ''].join('\n'),
+    );
+  });
+
+  it('should convert .sub files that are SubRip', () => {
+    const sub = ['1', '00:00:01,000 --> 00:00:02,000', 'Hello'].join('\n');
+    expect(convertToVtt(sub, 'SUB')).toContain('00:00:01.000 --> 00:00:02.000\nHello');
+  });
+
+  it('should return null for unknown formats', () => {
+    expect(convertToVtt('binary', 'sub')).toBeNull();
+    expect(convertToVtt('text', 'txt')).toBeNull();
+  });
+});
@@ -0,0 +1,191 @@
+/** The frame rate of MicroDVD files that don't start with their own. */
+const DEFAULT_MICRODVD_FPS = 23.976;
+
+export interface SubtitleCue {
+  /** Milliseconds */
+  start: number;
+  /** Milliseconds */
+  end: number;
+  text: string;
+}
+
+/**
+ * Subtitles made for Hungarian releases are often in Windows-1250, not in UTF-8. Files that
+ * are not valid UTF-8 are read as Windows-1250, which covers `ő` and `ű` too.
+ */
+export const decodeSubtitle = (data: Uint8Array): string => {
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    text = new TextDecoder('windows-1250').decode(data);
+  }
+  return text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+};
+
+const pad = (value: number, length = 2) => `${value}`.padStart(length, '0');
+
+const formatTimestamp = (ms: number): string => {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3_600_000);
+  const minutes = Math.floor((total % 3_600_000) / 60_000);
+  const seconds = Math.floor((total % 60_000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(total % 1000, 3)}`;
+};
+
+export const formatVtt = (cues: SubtitleCue[]): string =>
+  [
+    'WEBVTT',
+    ...cues
+      .filter((cue) => cue.text.trim() && cue.end > cue.start)
+      .sort((a, b) => a.start - b.start)
+      .map(
+        (cue) =>
+          `${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}\n${cue.text.trim()}`,
+      ),
+  ].join('\n\n') + '\n';
+
+/** `00:01:02,345` and `0:01:02.34` style timestamps. */
+const parseTimestamp = (value: string): number | null => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})[,.](\d{1,3})$/);
+  if (!match) {
+    return null;
+  }
+  const [, hours = '0', minutes, seconds, fraction] = match;
+  return (
+    Number(hours) * 3_600_000 +
+    Number(minutes) * 60_000 +
+    Number(seconds) * 1000 +
+    Number(fraction.padEnd(3, '0'))
+  );
+};
+
+/** SubRip tags like `<i>` are kept, VTT knows them, but the `{\an8}` position tags are not. */
+export const cleanSrtText = (text: string): string => text.replace(/\{\\[^}]*\}/g, '');
+
+/** Styles and override tags are dropped, only the text is kept. */
+export const cleanAssText = (text: string): string =>
+  text
+    .replace(/\{[^}]*\}/g, '')
+    .replace(/\\[Nn]/g, '\n')
+    .replace(/\\h/g, ' ');
+
+const parseSrt = (text: string): SubtitleCue[] =>
+  text
+    .split(/\n{2,}/)
+    .map((block) => {
+      const lines = block.trim().split('\n');
+      const timeLineIndex = lines.findIndex((line) => line.includes('-->'));
+      if (timeLineIndex < 0) {
+        return null;
+      }
+      const [start, end] = lines[timeLineIndex]
+        .split('-->')
+        .map((part) => parseTimestamp(part.trim().split(/\s+/)[0]));
+      if (start === null || end === null) {
+        return null;
+      }
+      return {
+        start,
+        end,
+        text: cleanSrtText(lines.slice(timeLineIndex + 1).join('\n')),
+      };
+    })
+    .filter((cue): cue is SubtitleCue => cue !== null);
+
+/**
+ * SubStation Alpha lines are `Dialogue: Layer,Start,End,Style,...,Text`, with the order of
+ * the fields in the `Format` line of the `[Events]` section.
+ */
+const parseAss = (text: string): SubtitleCue[] => {
+  let fields: string[] = [];
+  let isEventsSection = false;
+  const cues: SubtitleCue[] = [];
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('[')) {
+      isEventsSection = trimmed.toLowerCase() === '[events]';
+      continue;
+    }
+    if (!isEventsSection) {
+      continue;
+    }
+    if (trimmed.toLowerCase().startsWith('format:')) {
+      fields = trimmed
+        .slice('format:'.length)
+        .split(',')
+        .map((field) => field.trim().toLowerCase());
+      continue;
+    }
+    if (!trimmed.toLowerCase().startsWith('dialogue:') || fields.length === 0) {
+      continue;
+    }
+    const values = trimmed.slice('dialogue:'.length).split(',');
+    // the text is the last field, and it can have commas in it
+    const textValue = values.splice(fields.length - 1).join(',');
+    const start = parseTimestamp(values[fields.indexOf('start')] ?? '');
+    const end = parseTimestamp(values[fields.indexOf('end')] ?? '');
+    if (start === null || end === null) {
+      continue;
+    }
+    cues.push({
+      start,
+      end,
+      text: cleanAssText(textValue),
+    });
+  }
+  return cues;
+};
+
+/**
+ * MicroDVD lines are `{startFrame}{endFrame}Text|Second line`. The first line can set the
+ * frame rate, as `{1}{1}23.976`.
+ */
+const parseMicroDvd = (text: string): SubtitleCue[] => {
+  const lines = text
+    .split('\n')
+    .map((line) => line.trim().match(/^\{(\d+)\}\{(\d*)\}(.*)$/))
+    .filter((match) => match !== null);
+  let fps = DEFAULT_MICRODVD_FPS;
+  const firstText = lines[0]?.[3].trim() ?? '';
+  if (/^\d+(\.\d+)?$/.test(firstText) && Number(firstText) > 0) {
+    fps = Number(firstText);
+    lines.shift();
+  }
+  return lines.map(([, startFrame, endFrame, value]) => {
+    const start = (Number(startFrame) / fps) * 1000;
+    return {
+      start,
+      // a missing end frame means that the line is shown for a few seconds
+      end: endFrame ? (Number(endFrame) / fps) * 1000 : start + 3000,
+      text: value.replace(/\{[^}]*\}/g, '').replace(/\|/g, '\n'),
+    };
+  });
+};
+
+/**
+ * Converts the text of a subtitle file to WebVTT, which is what Stremio plays on every
+ * platform. `.sub` files can be SubRip too, those are recognised by their timestamps.
+ *
+ * @returns `null` if the format is not known, e.g. for VobSub images.
+ */
+export const convertToVtt = (text: string, extension: string): string | null => {
+  switch (extension.toLowerCase()) {
+    case 'vtt':
+      return text.trimStart().startsWith('WEBVTT') ? text : formatVtt(parseSrt(text));
+    case 'srt':
+      return formatVtt(parseSrt(text));
+    case 'ass':
+    case 'ssa':
+      return formatVtt(parseAss(text));
+    case 'sub': {
+      if (text.includes('-->')) {
+        return formatVtt(parseSrt(text));
+      }
+      const cues = parseMicroDvd(text);
+      return cues.length > 0 ? formatVtt(cues) : null;
+    }
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,83 @@
+/** ISO 639-2 codes, these are shown by Stremio as the name of the language. */
+export enum SubtitleLanguage {
+  HUNGARIAN = 'hun',
+  ENGLISH = 'eng',
+  GERMAN = 'ger',
+  FRENCH = 'fre',
+  SPANISH = 'spa',
+  ITALIAN = 'ita',
+  ROMANIAN = 'rum',
+  CZECH = 'cze',
+  SLOVAK = 'slo',
+  POLISH = 'pol',
+  UNKNOWN = 'und',
+}
+
+/**
+ * The words in file and folder names that name a language. Two letter codes are only
+ * matched as whole words, so `it` and `de` in titles are not mistaken for languages.
+ */
+const languageWords: Record<
+  Exclude<SubtitleLanguage, SubtitleLanguage.UNKNOWN>,
+  string[]
+> = {
+  [SubtitleLanguage.HUNGARIAN]: ['hun', 'hu', 'hungarian', 'magyar', 'hunsub'],
+  [SubtitleLanguage.ENGLISH]: ['eng', 'en', 'english', 'angol', 'engsub'],
+  [SubtitleLanguage.GERMAN]: ['ger', 'deu', 'german', 'deutsch', 'nemet'],
+  [SubtitleLanguage.FRENCH]: ['fre', 'fra', 'french', 'francais', 'francia'],
+  [SubtitleLanguage.SPANISH]: ['spa', 'esp', 'spanish', 'espanol', 'spanyol'],
+  [SubtitleLanguage.ITALIAN]: ['ita', 'italian', 'italiano', 'olasz'],
+  [SubtitleLanguage.ROMANIAN]: ['rum', 'ron', 'romanian'],
+  [SubtitleLanguage.CZECH]: ['cze', 'ces', 'czech', 'cesky', 'cseh'],
+  [SubtitleLanguage.SLOVAK]: ['slo', 'slk', 'slovak', 'szlovak'],
+  [SubtitleLanguage.POLISH]: ['pol', 'polish', 'polski', 'lengyel'],
+};
+
+/** `Movie.2020.1080p.BluRay.x264-GROUP.hun.forced.srt` */
+const MAX_FILE_NAME_WORDS = 3;
+/** `Subs`, `Hungarian`, `Magyar felirat`, but not the folder of the release */
+const MAX_FOLDER_NAME_WORDS = 2;
+
+const wordLanguageMap = new Map(
+  Object.entries(languageWords).flatMap(([language, words]) =>
+    words.map((word) => [word, language as SubtitleLanguage] as const),
+  ),
+);
+
+/** `Magyar felirat` -> `['magyar', 'felirat']`, accents are removed, so `német` is `nemet`. */
+const getWords = (segment: string): string[] =>
+  segment
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter(Boolean);
+
+/**
+ * The language of a subtitle file from its path inside the torrent, e.g.
+ * `Movie.2020.hun.srt`, `Subs/2_English.srt` or `Magyar/Movie.2020.srt`.
+ *
+ * Only the end of the file name is checked, where the language usually is, and then the
+ * short folder names from the closest one, so that the words of a title like
+ * `The.Italian.Job` are not mistaken for a language.
+ */
+export const detectSubtitleLanguage = (path: string): SubtitleLanguage => {
+  const segments = path.split(/[\\/]/);
+  const fileName = segments.pop() ?? '';
+  const fileWords = getWords(fileName.replace(/\.[^.]+$/, ''))
+    .reverse()
+    .slice(0, MAX_FILE_NAME_WORDS);
+  const folderWords = segments
+    .reverse()
+    .map(getWords)
+    .filter((words) => words.length <= MAX_FOLDER_NAME_WORDS)
+    .flatMap((words) => words.reverse());
+
+  for (const word of [...fileWords, ...folderWords]) {
+    const language = wordLanguageMap.get(word);
+    if (language) {
+      return language;
+    }
+  }
+  return SubtitleLanguage.UNKNOWN;
+};
@@ -0,0 +1,171 @@
+import { HTTPException } from 'hono/http-exception';
+import type { Subtitle } from 'stremio-addon-sdk';
+import type WebTorrent from 'webtorrent';
+import type { ConfigService } from '@/services/config';
+import type { TorrentStoreService } from '@/services/torrent-store';
+import { HttpStatusCode } from '@/types/http';
+import { Cached } from '@/utils/cache';
+import { isSubtitleFile } from '@/utils/media-file-extensions';
+import { createReadRange } from '@/utils/read-range';
+import {
+  EMBEDDED_SUBTITLES_CACHE_MAX,
+  EMBEDDED_SUBTITLES_CACHE_TTL,
+  MAX_SUBTITLE_FILE_SIZE,
+} from './constants';
+import { readMatroskaHeaders, readSubtitleCues, type MatroskaHeaders } from './matroska';
+import { findSidecarSubtitles } from './sidecar-subtitles';
+import { convertToVtt, decodeSubtitle, formatVtt } from './subtitle-converter';
+
+const MATROSKA_EXTENSIONS = ['mkv', 'mka', 'webm'];
+
+/**
+ * Offers the subtitle files that are shipped in the torrent of the played video, and the
+ * subtitle tracks in its Matroska container, so Stremio lists them next to the ones from
+ * the subtitle addons.
+ */
+export class SubtitleService {
+  constructor(
+    private configService: ConfigService,
+    private torrentStoreService: TorrentStoreService,
+  ) {}
+
+  /**
+   * Stremio doesn't tell which stream is played, only the size and the name of the video
+   * file, so the torrent is looked up by these in the torrent store.
+   */
+  public async getSubtitles({
+    deviceToken,
+    videoSize,
+    filename,
+  }: {
+    deviceToken: string;
+    videoSize: number | undefined;
+    filename: string | undefined;
+  }): Promise<Subtitle[]> {
+    const match = this.torrentStoreService.findTorrentFile({
+      size: videoSize,
+      name: filename,
+    });
+    if (!match) {
+      return [];
+    }
+    const { torrent, fileIndex } = match;
+    const config = this.configService.getConfig();
+    const subtitleUrl = `${config.addonUrl}/api/auth/${deviceToken}/stream/subtitle/${torrent.infoHash}`;
+    const sidecarSubtitles = findSidecarSubtitles(torrent.files, fileIndex).map(
+      (subtitle) => ({
+        id: `${torrent.infoHash}:${subtitle.fileIndex}`,
+        url: `${subtitleUrl}/${subtitle.fileIndex}`,
+        lang: subtitle.language,
+      }),
+    );
+    const embeddedSubtitles = (
+      await this.getEmbeddedSubtitleTracks(torrent.infoHash, fileIndex)
+    ).map((track) => ({
+      id: `${torrent.infoHash}:${fileIndex}:${track.number}`,
+      url: `${subtitleUrl}/${fileIndex}/${track.number}`,
+      lang: track.language,
+    }));
+    return [...sidecarSubtitles, ...embeddedSubtitles];
+  }
+
+  /** @throws {HTTPException} If the file is not in the torrent store. */
+  private async getTorrentFile(
+    infoHash: string,
+    fileIndex: number,
+  ): Promise<WebTorrent.TorrentFile> {
+    const torrent = await this.torrentStoreService.getTorrent(infoHash);
+    const file = torrent?.files[fileIndex];
+    if (!file) {
+      throw new HTTPException(HttpStatusCode.NOT_FOUND, {
+        message: 'File not found',
+      });
+    }
+    return file;
+  }
+
+  /** The headers are at the start of the file, which the player downloads first anyway. */
+  @Cached({
+    max: EMBEDDED_SUBTITLES_CACHE_MAX,
+    ttl: EMBEDDED_SUBTITLES_CACHE_TTL,
+    generateKey: (infoHash, fileIndex) => `${infoHash}:${fileIndex}`,
+  })
+  private async getMatroskaHeaders(
+    infoHash: string,
+    fileIndex: number,
+  ): Promise<MatroskaHeaders> {
+    const file = await this.getTorrentFile(infoHash, fileIndex);
+    const headers = await readMatroskaHeaders(createReadRange(file), file.length);
+    if (!headers) {
+      throw new HTTPException(HttpStatusCode.NOT_FOUND, {
+        message: `${file.name} is not a Matroska file`,
+      });
+    }
+    return headers;
+  }
+
+  /** Returns an empty list instead of failing, so the other subtitles are still listed. */
+  private async getEmbeddedSubtitleTracks(infoHash: string, fileIndex: number) {
+    const torrent = await this.torrentStoreService.getTorrent(infoHash);
+    const extension = torrent?.files[fileIndex]?.path.split('.').pop()?.toLowerCase();
+    if (!extension || !MATROSKA_EXTENSIONS.includes(extension)) {
+      return [];
+    }
+    try {
+      return (await this.getMatroskaHeaders(infoHash, fileIndex)).subtitleTracks;
+    } catch (error) {
+      console.error(`Failed to read the subtitle tracks of ${infoHash}`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Extracts a subtitle track of a Matroska file, and converts it to WebVTT. Files muxed
+   * with an index of the subtitles only need a few small reads, the others are read whole.
+   */
+  @Cached({
+    max: EMBEDDED_SUBTITLES_CACHE_MAX,
+    ttl: EMBEDDED_SUBTITLES_CACHE_TTL,
+    generateKey: (infoHash, fileIndex, trackNumber) =>
+      `${infoHash}:${fileIndex}:${trackNumber}`,
+  })
+  public async getEmbeddedSubtitleFile(
+    infoHash: string,
+    fileIndex: number,
+    trackNumber: number,
+  ): Promise<string> {
+    const headers = await this.getMatroskaHeaders(infoHash, fileIndex);
+    if (!headers.subtitleTracks.some(({ number }) => number === trackNumber)) {
+      throw new HTTPException(HttpStatusCode.NOT_FOUND, {
+        message: 'Subtitle track not found',
+      });
+    }
+    const file = await this.getTorrentFile(infoHash, fileIndex);
+    const cues = await readSubtitleCues(createReadRange(file), headers, trackNumber);
+    return formatVtt(cues);
+  }
+
+  /** Reads a subtitle file of a torrent, and converts it to WebVTT. */
+  public async getSubtitleFile(infoHash: string, fileIndex: number): Promise<string> {
+    const file = await this.getTorrentFile(infoHash, fileIndex);
+    if (!isSubtitleFile(file.path)) {
+      throw new HTTPException(HttpStatusCode.NOT_FOUND, {
+        message: 'Subtitle not found',
+      });
+    }
+    if (file.length > MAX_SUBTITLE_FILE_SIZE) {
+      throw new HTTPException(HttpStatusCode.PAYLOAD_TOO_LARGE, {
+        message: 'The subtitle file is too large',
+      });
+    }
+    const data = await new Response(file.stream()).arrayBuffer();
+    const extension = file.path.split('.').pop() ?? '';
+    const vtt = convertToVtt(decodeSubtitle(new Uint8Array(data)), extension);
+    if (vtt === null) {
+      throw new HTTPException(HttpStatusCode.UNPROCESSABLE_CONTENT, {
+        message: `The format of ${file.name} is not supported`,
+      });
+    }
+    return vtt;
+  }
+}
@@ -0,0 +1,9 @@
+import type { SubtitleLanguage } from './subtitle-language';
+
+/** A subtitle file next to a video in the same torrent. */
+export interface SidecarSubtitle {
+  fileIndex: number;
+  /** Lowercase, without the dot. */
+  extension: string;
+  language: SubtitleLanguage;
+}
@@ -0,0 +1 @@
+export { TitleAliasService } from './title-alias.service';
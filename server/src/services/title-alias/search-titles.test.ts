@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { mergeSearchTitles } from './search-titles';
+
+describe('mergeSearchTitles', () => {
+  it('should keep the order of the sources', () => {
+    expect(
+      mergeSearchTitles(
+        ['The Lord of the Rings: The Fellowship of the Ring'],
+        ['A Gyűrűk Ura: A Gyűrű Szövetsége'],
+        ['Le Seigneur des anneaux : La Communauté de l’anneau'],
+      ),
+    ).toEqual([
+      'The Lord of the Rings: The Fellowship of the Ring',
+      'A Gyűrűk Ura: A Gyűrű Szövetsége',
+      'Le Seigneur des anneaux : La Communauté de l’anneau',
+    ]);
+  });
+
+  it('should drop the titles that only differ in punctuation, casing or accents', () => {
+    expect(
+      mergeSearchTitles(
+        ['Amélie'],
+        ['Amelie', 'A csodálatos Amélie'],
+        ['amélie', 'A Csodalatos Amelie!', 'Le Fabuleux Destin d’Amélie Poulain'],
+      ),
+    ).toEqual(['Amélie', 'A csodálatos Amélie', 'Le Fabuleux Destin d’Amélie Poulain']);
+  });
+
+  it('should skip the titles without letters or digits', () => {
+    expect(mergeSearchTitles(['Heat'], ['', '…'], [])).toEqual(['Heat']);
+  });
+});
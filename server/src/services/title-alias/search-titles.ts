@@ -0,0 +1,17 @@
+import { normalizeTitle } from '../../utils/titles';
+
+/**
+ * Merges the titles of a movie or show in the order of their sources.
+ * @returns The titles without the ones that only differ in punctuation or casing, the first
+ * spelling of a title is kept.
+ */
+export const mergeSearchTitles = (...sources: string[][]): string[] => {
+  const titles = new Map<string, string>();
+  sources.flat().forEach((title) => {
+    const key = normalizeTitle(title);
+    if (key && !titles.has(key)) {
+      titles.set(key, title);
+    }
+  });
+  return Array.from(titles.values());
+};
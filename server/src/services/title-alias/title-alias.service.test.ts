@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTestDatabase } from '@/db/test-database';
+import { StreamType } from '@/schemas/stream.schema';
+import { WikidataService } from '@/services/wikidata';
+import { TitleAliasService } from './title-alias.service';
+
+const WIKIDATA_URL = 'https://wikidata.test/sparql';
+
+const respondWithTitles = (titles: string[]) =>
+  vi.fn(async () =>
+    Response.json({
+      results: { bindings: titles.map((title) => ({ title: { value: title } })) },
+    }),
+  );
+
+describe('TitleAliasService', () => {
+  let service: TitleAliasService;
+
+  beforeEach(() => {
+    service = new TitleAliasService(
+      createTestDatabase(),
+      new WikidataService(WIKIDATA_URL, 'hu-HU'),
+      null,
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should search the Hungarian titles from Wikidata besides the name', async () => {
+    const fetch = respondWithTitles(['Mátrix', 'The Matrix']);
+    vi.stubGlobal('fetch', fetch);
+
+    expect(
+      await service.getSearchTitles({
+        type: StreamType.MOVIE,
+        imdbId: 'tt0133093',
+        name: 'The Matrix',
+      }),
+    ).toEqual(['The Matrix', 'Mátrix']);
+    const query = new URL(fetch.mock.calls[0]![0]).searchParams.get('query');
+    expect(query).toContain('"tt0133093"');
+    expect(query).toContain('LANG(?title) = "hu"');
+  });
+
+  it('should search the aliases before the titles from Wikidata', async () => {
+    vi.stubGlobal('fetch', respondWithTitles(['Ponyvaregény']));
+    await service.createAlias({ imdbId: 'tt0110912', title: 'Ponyva' });
+
+    expect(
+      await service.getSearchTitles({
+        type: StreamType.MOVIE,
+        imdbId: 'tt0110912',
+        name: 'Pulp Fiction',
+      }),
+    ).toEqual(['Pulp Fiction', 'Ponyva', 'Ponyvaregény']);
+  });
+
+  it('should search the other titles if Wikidata fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response(null, { status: 503 })),
+    );
+
+    expect(
+      await service.getSearchTitles({
+        type: StreamType.TV_SHOW,
+        imdbId: 'tt0903747',
+        name: 'Breaking Bad',
+      }),
+    ).toEqual(['Breaking Bad']);
+  });
+});
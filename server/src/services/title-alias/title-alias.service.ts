@@ -0,0 +1,128 @@
+import { and, eq, ne } from 'drizzle-orm';
+import { HTTPException } from 'hono/http-exception';
+import type { Database } from '@/db';
+import { titleAliasesTable, type TitleAlias } from '@/db/schema/title-aliases';
+import type { TitleAliasRequest } from '@/schemas/title-alias.schema';
+import type { StreamType } from '@/schemas/stream.schema';
+import type { TmdbService } from '@/services/tmdb';
+import type { WikidataService } from '@/services/wikidata';
+import { HttpStatusCode } from '@/types/http';
+import { mergeSearchTitles } from './search-titles';
+
+/**
+ * Collects the titles that a movie or show can be searched by: the name from Cinemeta,
+ * the aliases that the admins added, the Hungarian titles from Wikidata, and the titles
+ * from TMDB if it's configured. Cinemeta only has the English name.
+ */
+export class TitleAliasService {
+  constructor(
+    private db: Database,
+    private wikidataService: WikidataService | null,
+    private tmdbService: TmdbService | null,
+  ) {}
+
+  /** The other titles can still be searched if a provider fails. */
+  private async getProviderTitles(
+    providerName: string,
+    imdbId: string,
+    getTitles: () => Promise<string[]>,
+  ): Promise<string[]> {
+    try {
+      return await getTitles();
+    } catch (error) {
+      console.error(`Failed to get the titles of ${imdbId} from ${providerName}`, error);
+      return [];
+    }
+  }
+
+  /**
+   * @param name The name from Cinemeta, it's always the first title.
+   * @returns The titles without the ones that only differ in punctuation or casing, see
+   * `mergeSearchTitles`.
+   */
+  public async getSearchTitles({
+    type,
+    imdbId,
+    name,
+  }: {
+    type: StreamType;
+    imdbId: string;
+    name: string;
+  }): Promise<string[]> {
+    const aliases = await this.db
+      .select()
+      .from(titleAliasesTable)
+      .where(eq(titleAliasesTable.imdbId, imdbId));
+    const { wikidataService, tmdbService } = this;
+    const [wikidataTitles, tmdbTitles] = await Promise.all([
+      wikidataService
+        ? this.getProviderTitles('Wikidata', imdbId, () =>
+            wikidataService.getTitlesByImdbId(imdbId),
+          )
+        : [],
+      tmdbService
+        ? this.getProviderTitles('TMDB', imdbId, () =>
+            tmdbService.getTitlesByImdbId(type, imdbId),
+          )
+        : [],
+    ]);
+
+    return mergeSearchTitles(
+      [name],
+      aliases.map((alias) => alias.title),
+      wikidataTitles,
+      tmdbTitles,
+    );
+  }
+
+  public async getAliases(): Promise<TitleAlias[]> {
+    return this.db.select().from(titleAliasesTable);
+  }
+
+  private throwIfAliasExists({ imdbId, title }: TitleAliasRequest, exceptId?: number) {
+    const existingAlias = this.db
+      .select()
+      .from(titleAliasesTable)
+      .where(
+        and(
+          eq(titleAliasesTable.imdbId, imdbId),
+          eq(titleAliasesTable.title, title),
+          exceptId !== undefined ? ne(titleAliasesTable.id, exceptId) : undefined,
+        ),
+      )
+      .get();
+    if (existingAlias) {
+      throw new HTTPException(HttpStatusCode.CONFLICT, {
+        message: 'This alias already exists',
+      });
+    }
+  }
+
+  public async createAlias(data: TitleAliasRequest): Promise<TitleAlias> {
+    this.throwIfAliasExists(data);
+    const [alias] = await this.db.insert(titleAliasesTable).values(data).returning();
+    return alias as TitleAlias;
+  }
+
+  public async updateAlias(
+    aliasId: number,
+    data: TitleAliasRequest,
+  ): Promise<TitleAlias> {
+    this.throwIfAliasExists(data, aliasId);
+    const [alias] = await this.db
+      .update(titleAliasesTable)
+      .set(data)
+      .where(eq(titleAliasesTable.id, aliasId))
+      .returning();
+    if (!alias) {
+      throw new HTTPException(HttpStatusCode.NOT_FOUND, {
+        message: 'Title alias not found',
+      });
+    }
+    return alias;
+  }
+
+  public async deleteAlias(aliasId: number): Promise<void> {
+    await this.db.delete(titleAliasesTable).where(eq(titleAliasesTable.id, aliasId));
+  }
+}
@@ -0,0 +1 @@
+export { TmdbService } from './tmdb.service';
@@ -0,0 +1,80 @@
+import { StreamType } from '@/schemas/stream.schema';
+import { Cached, DEFAULT_MAX, DEFAULT_TTL } from '@/utils/cache';
+import type {
+  TmdbAlternativeTitle,
+  TmdbFindResponse,
+  TmdbMovieAlternativeTitlesResponse,
+  TmdbTvAlternativeTitlesResponse,
+} from './types';
+
+/**
+ * Looks up the localized and alternative titles of movies and shows on TMDB, or on any
+ * service that implements the same API.
+ */
+export class TmdbService {
+  constructor(
+    private url: string,
+    private apiKey: string,
+    /** Example: `"hu-HU"` */
+    private language: string,
+  ) {}
+
+  private get country(): string {
+    return this.language.split('-')[1]?.toUpperCase() ?? '';
+  }
+
+  private async fetchJson<T>(
+    path: string,
+    params: Record<string, string> = {},
+  ): Promise<T> {
+    const query = new URLSearchParams({ ...params, api_key: this.apiKey });
+    const response = await fetch(`${this.url}${path}?${query.toString()}`);
+    if (!response.ok) {
+      throw new Error(`TMDB responded with ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  /** Returns the localized title, the original title and the alternative titles of the country. */
+  @Cached({
+    max: DEFAULT_MAX,
+    ttl: DEFAULT_TTL,
+    ttlAutopurge: true,
+    generateKey: (type, imdbId) => `${type}:${imdbId}`,
+  })
+  public async getTitlesByImdbId(type: StreamType, imdbId: string): Promise<string[]> {
+    const found = await this.fetchJson<TmdbFindResponse>(`/find/${imdbId}`, {
+      external_source: 'imdb_id',
+      language: this.language,
+    });
+    let titles: string[];
+    let alternativeTitles: TmdbAlternativeTitle[];
+    if (type === StreamType.MOVIE) {
+      const [movie] = found.movie_results;
+      if (!movie) {
+        return [];
+      }
+      titles = [movie.title, movie.original_title];
+      ({ titles: alternativeTitles } =
+        await this.fetchJson<TmdbMovieAlternativeTitlesResponse>(
+          `/movie/${movie.id}/alternative_titles`,
+        ));
+    } else {
+      const [show] = found.tv_results;
+      if (!show) {
+        return [];
+      }
+      titles = [show.name, show.original_name];
+      ({ results: alternativeTitles } =
+        await this.fetchJson<TmdbTvAlternativeTitlesResponse>(
+          `/tv/${show.id}/alternative_titles`,
+        ));
+    }
+    return [
+      ...titles,
+      ...alternativeTitles
+        .filter((alternativeTitle) => alternativeTitle.iso_3166_1 === this.country)
+        .map((alternativeTitle) => alternativeTitle.title),
+    ];
+  }
+}
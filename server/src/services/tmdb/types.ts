@@ -0,0 +1,18 @@
+export interface TmdbFindResponse {
+  movie_results: { id: number; title: string; original_title: string }[];
+  tv_results: { id: number; name: string; original_name: string }[];
+}
+
+export interface TmdbAlternativeTitle {
+  /** The country of the title, e.g. `"HU"` */
+  iso_3166_1: string;
+  title: string;
+}
+
+export interface TmdbMovieAlternativeTitlesResponse {
+  titles: TmdbAlternativeTitle[];
+}
+
+export interface TmdbTvAlternativeTitlesResponse {
+  results: TmdbAlternativeTitle[];
+}
@@ -0,0 +1,2 @@
+export { TorrentMetadataService } from './torrent-metadata.service';
+export type { TorrentMetadataReference, TorrentMetadataStats } from './types';
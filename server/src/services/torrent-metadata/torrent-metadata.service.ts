@@ -0,0 +1,118 @@
+import { and, count, eq, min } from 'drizzle-orm';
+import type { Database } from '@/db';
+import { torrentMetadataTable, type TorrentMetadata } from '@/db/schema/torrent-metadata';
+import type { ParsedTorrentDetails } from '@/services/torrent/types';
+import type { TorrentMetadataReference, TorrentMetadataStats } from './types';
+
+/**
+ * Keeps the parsed .torrent files in the database, so that the torrents of the search
+ * results only have to be downloaded once, even after a restart.
+ */
+export class TorrentMetadataService {
+  constructor(
+    private db: Database,
+    /** The metadata is downloaded again after this, `null` means that it never expires. */
+    private maxAgeMs: number | null,
+  ) {}
+
+  private isStale(metadata: TorrentMetadata): boolean {
+    return (
+      this.maxAgeMs !== null && metadata.fetchedAt.getTime() + this.maxAgeMs < Date.now()
+    );
+  }
+
+  public getMetadata({
+    sourceName,
+    sourceId,
+  }: Pick<TorrentMetadataReference, 'sourceName' | 'sourceId'>): TorrentMetadata | null {
+    const metadata = this.db
+      .select()
+      .from(torrentMetadataTable)
+      .where(
+        and(
+          eq(torrentMetadataTable.sourceName, sourceName),
+          eq(torrentMetadataTable.sourceId, sourceId),
+        ),
+      )
+      .get();
+    return metadata ?? null;
+  }
+
+  public saveMetadata(
+    reference: TorrentMetadataReference,
+    { infoHash, files }: ParsedTorrentDetails,
+  ): void {
+    const values = {
+      sourceName: reference.sourceName,
+      sourceId: reference.sourceId,
+      infoHash,
+      files,
+      category: reference.category ?? null,
+      releaseName: reference.releaseName ?? null,
+      fetchedAt: new Date(),
+    };
+    this.db
+      .insert(torrentMetadataTable)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [torrentMetadataTable.sourceName, torrentMetadataTable.sourceId],
+        set: values,
+      })
+      .run();
+  }
+
+  /**
+   * Returns the saved metadata, or fetches it if it's missing or stale. If the refresh of
+   * stale metadata fails, then the stale metadata is still used.
+   */
+  public async getOrFetchMetadata(
+    reference: TorrentMetadataReference,
+    fetchMetadata: () => Promise<ParsedTorrentDetails>,
+  ): Promise<ParsedTorrentDetails> {
+    const savedMetadata = this.getMetadata(reference);
+    if (savedMetadata && !this.isStale(savedMetadata)) {
+      return { infoHash: savedMetadata.infoHash, files: savedMetadata.files };
+    }
+    try {
+      const metadata = await fetchMetadata();
+      this.saveMetadata(reference, metadata);
+      return metadata;
+    } catch (error) {
+      if (!savedMetadata) {
+        throw error;
+      }
+      console.error(
+        `Failed to refresh the metadata of ${reference.sourceName}/${reference.sourceId}, using the saved one`,
+        error,
+      );
+      return { infoHash: savedMetadata.infoHash, files: savedMetadata.files };
+    }
+  }
+
+  public getStats(): TorrentMetadataStats {
+    const [stats] = this.db
+      .select({
+        count: count(),
+        oldestFetchedAt: min(torrentMetadataTable.fetchedAt),
+      })
+      .from(torrentMetadataTable)
+      .all();
+    return {
+      count: stats?.count ?? 0,
+      oldestFetchedAt: stats?.oldestFetchedAt ?? null,
+    };
+  }
+
+  /**
+   * Deletes the saved metadata, so that it's downloaded again when it's needed.
+   * @param sourceName Only the metadata of this source is deleted if it's set.
+   * @returns The number of deleted torrents.
+   */
+  public purgeMetadata(sourceName?: string): number {
+    const { changes } = this.db
+      .delete(torrentMetadataTable)
+      .where(sourceName ? eq(torrentMetadataTable.sourceName, sourceName) : undefined)
+      .run();
+    return changes;
+  }
+}
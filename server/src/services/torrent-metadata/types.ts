@@ -0,0 +1,12 @@
+/** Identifies a torrent on a torrent source, and describes it for the saved metadata. */
+export interface TorrentMetadataReference {
+  sourceName: string;
+  sourceId: string;
+  category?: string | null;
+  releaseName?: string | null;
+}
+
+export interface TorrentMetadataStats {
+  count: number;
+  oldestFetchedAt: Date | null;
+}
@@ -0,0 +1 @@
+export { TorrentSourceConfigService } from './torrent-source-config.service';
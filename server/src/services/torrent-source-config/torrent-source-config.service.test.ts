@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TorrentSourceType } from '@/db/schema/torrent-sources';
+import { createTestDatabase } from '@/db/test-database';
+import type { CinemeatService } from '@/services/cinemeta';
+import type { TitleAliasService } from '@/services/title-alias';
+import type { TorrentService } from '@/services/torrent';
+import type { TorrentSourceManager } from '@/services/torrent-source';
+import { NcoreSessionStore } from '@/services/torrent-source/ncore';
+import { RequestScheduler } from '@/utils/request-scheduler';
+import { TorrentSourceConfigService } from './torrent-source-config.service';
+
+const SAVED_SESSION = {
+  sourceName: 'ncore-1',
+  username: 'user',
+  cookie: 'pass=old',
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+};
+
+/** nCore shows the login page again, without a `pass` cookie, for a wrong password. */
+const rejectLogin = () =>
+  vi.fn(async () => {
+    const response = new Response('<form action="login.php"></form>', { status: 200 });
+    Object.defineProperty(response, 'url', { value: 'https://ncore.test/login.php' });
+    return response;
+  });
+
+const acceptLogin = () =>
+  vi.fn(
+    async () =>
+      new Response(null, {
+        status: 302,
+        headers: { 'set-cookie': 'pass=new; Max-Age=3600' },
+      }),
+  );
+
+describe('TorrentSourceConfigService', () => {
+  let sessionStore: NcoreSessionStore;
+  let service: TorrentSourceConfigService;
+
+  beforeEach(async () => {
+    const db = createTestDatabase();
+    sessionStore = new NcoreSessionStore(db);
+    service = new TorrentSourceConfigService(
+      db,
+      { setConfiguredSources: () => {} } as unknown as TorrentSourceManager,
+      {} as TorrentService,
+      {} as CinemeatService,
+      {} as TitleAliasService,
+      sessionStore,
+      new RequestScheduler({ requestsPerSecond: 100, maxConcurrentRequests: 1 }),
+      0,
+    );
+    await service.createSource({
+      type: TorrentSourceType.NCORE,
+      displayName: 'nCore',
+      url: 'https://ncore.test',
+      username: 'user',
+      password: 'old password',
+    });
+    sessionStore.saveSession(SAVED_SESSION);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should log in with the tested credentials even if a session is saved', async () => {
+    const fetch = rejectLogin();
+    vi.stubGlobal('fetch', fetch);
+
+    expect(await service.getConfigIssuesById(1)).toMatch('Failed to log in');
+    expect(fetch).toHaveBeenCalledOnce();
+  });
+
+  it('should not save the session of the tested credentials', async () => {
+    vi.stubGlobal('fetch', acceptLogin());
+
+    expect(
+      await service.getConfigIssues({
+        type: TorrentSourceType.NCORE,
+        displayName: 'nCore',
+        url: 'https://ncore.test',
+        username: 'other',
+        password: 'password',
+      }),
+    ).toBeNull();
+    expect(await service.getConfigIssuesById(1)).toBeNull();
+    expect(sessionStore.getSession('ncore-1', 'user')).toEqual(SAVED_SESSION);
+    expect(sessionStore.getSession('ncore-test', 'other')).toBeNull();
+  });
+
+  it('should forget the saved session when the credentials change', async () => {
+    await service.updateSource(1, {
+      type: TorrentSourceType.NCORE,
+      displayName: 'nCore',
+      url: 'https://ncore.test',
+      username: 'user',
+      password: 'new password',
+    });
+    expect(sessionStore.getSession('ncore-1', 'user')).toBeNull();
+  });
+
+  it('should keep the saved session when only the name changes', async () => {
+    await service.updateSource(1, {
+      type: TorrentSourceType.NCORE,
+      displayName: 'My nCore',
+      url: 'https://ncore.test',
+      username: 'user',
+      password: '',
+    });
+    expect(sessionStore.getSession('ncore-1', 'user')).toEqual(SAVED_SESSION);
+  });
+});
@@ -0,0 +1,254 @@
+import { eq } from 'drizzle-orm';
+import { HTTPException } from 'hono/http-exception';
+import { Database } from '@/db';
+import { Transaction } from '@/db/client';
+import {
+  TorrentSourceType,
+  torrentSourcesTable,
+  type TorrentSourceConfig,
+} from '@/db/schema/torrent-sources';
+import type {
+  CreateTorrentSourceRequest,
+  UpdateTorrentSourceRequest,
+} from '@/schemas/torrent-source.schema';
+import type { TorrentSource, TorrentSourceManager } from '@/services/torrent-source';
+import { NcoreService, type NcoreSessionStore } from '@/services/torrent-source/ncore';
+import { TorznabService } from '@/services/torrent-source/torznab';
+import type { TorrentService } from '@/services/torrent';
+import type { CinemeatService } from '@/services/cinemeta';
+import type { TitleAliasService } from '@/services/title-alias';
+import { HttpStatusCode } from '@/types/http';
+import type { RequestScheduler } from '@/utils/request-scheduler';
+import { env } from '@/env';
+
+type TorrentSourceValues = Omit<TorrentSourceConfig, 'id' | 'enabled'>;
+
+/**
+ * Stores the torrent sources that are managed from the web UI, and keeps the sources of
+ * the `TorrentSourceManager` in sync with them.
+ */
+export class TorrentSourceConfigService {
+  constructor(
+    private db: Database,
+    private torrentSourceManager: TorrentSourceManager,
+    private torrentService: TorrentService,
+    private cinemetaService: CinemeatService,
+    private titleAliasService: TitleAliasService,
+    private ncoreSessionStore: NcoreSessionStore,
+    private ncoreScheduler: RequestScheduler,
+    private ncorePrefetchCount: number,
+  ) {}
+
+  private toValues(data: CreateTorrentSourceRequest): TorrentSourceValues {
+    return {
+      type: data.type,
+      displayName: data.displayName,
+      url: data.url,
+      username: data.type === TorrentSourceType.NCORE ? data.username : null,
+      password: data.type === TorrentSourceType.NCORE ? data.password : null,
+      apiKey: data.type === TorrentSourceType.TORZNAB ? data.apiKey : null,
+    };
+  }
+
+  /** The name ends up in the play URLs, so it has to be unique and stable. */
+  private getSourceName({ type, id }: Pick<TorrentSourceConfig, 'type' | 'id'>) {
+    return `${type}-${id}`;
+  }
+
+  /**
+   * @param isCredentialCheck The sources that only check the credentials log in every
+   * time, so that a saved session doesn't hide a wrong password, and they don't save
+   * their session.
+   */
+  private createTorrentSource(
+    name: string,
+    values: TorrentSourceValues,
+    { isCredentialCheck = false } = {},
+  ): TorrentSource {
+    switch (values.type) {
+      case TorrentSourceType.NCORE:
+        return new NcoreService(
+          this.torrentService,
+          this.cinemetaService,
+          this.titleAliasService,
+          isCredentialCheck ? null : this.ncoreSessionStore,
+          this.ncoreScheduler,
+          this.ncorePrefetchCount,
+          name,
+          values.displayName,
+          values.url,
+          values.username ?? '',
+          values.password ?? '',
+        );
+      case TorrentSourceType.TORZNAB:
+        return new TorznabService(
+          this.torrentService,
+          this.cinemetaService,
+          name,
+          values.displayName,
+          values.url,
+          values.apiKey ?? '',
+        );
+    }
+  }
+
+  public async reloadSources(): Promise<void> {
+    const configs = await this.db
+      .select()
+      .from(torrentSourcesTable)
+      .where(eq(torrentSourcesTable.enabled, true));
+    this.torrentSourceManager.setConfiguredSources(
+      configs.map((config) =>
+        this.createTorrentSource(this.getSourceName(config), config),
+      ),
+    );
+    console.log(`Loaded ${configs.length} enabled torrent sources.`);
+  }
+
+  /**
+   * The sources used to be set up through environment variables, so they are imported
+   * once to keep existing installations working.
+   */
+  public async importSourcesFromEnv(): Promise<void> {
+    const existingSource = this.db.select().from(torrentSourcesTable).limit(1).get();
+    if (existingSource) {
+      return;
+    }
+    const sources: CreateTorrentSourceRequest[] = [];
+    if (env.NCORE_USERNAME && env.NCORE_PASSWORD) {
+      sources.push({
+        type: TorrentSourceType.NCORE,
+        displayName: 'nCore',
+        url: env.NCORE_URL,
+        username: env.NCORE_USERNAME,
+        password: env.NCORE_PASSWORD,
+      });
+    }
+    if (env.TORZNAB_URL && env.TORZNAB_API_KEY) {
+      sources.push({
+        type: TorrentSourceType.TORZNAB,
+        displayName: 'Torznab',
+        url: env.TORZNAB_URL,
+        apiKey: env.TORZNAB_API_KEY,
+      });
+    }
+    if (sources.length === 0) {
+      return;
+    }
+    console.log('Importing torrent sources from the environment variables...');
+    await this.db
+      .insert(torrentSourcesTable)
+      .values(sources.map((source) => this.toValues(source)));
+  }
+
+  public async getSources(): Promise<TorrentSourceConfig[]> {
+    return this.db.select().from(torrentSourcesTable);
+  }
+
+  public getSourceById(sourceId: number): TorrentSourceConfig {
+    const source = this.db
+      .select()
+      .from(torrentSourcesTable)
+      .where(eq(torrentSourcesTable.id, sourceId))
+      .get();
+    if (!source) {
+      throw new HTTPException(HttpStatusCode.NOT_FOUND, {
+        message: 'Torrent source not found',
+      });
+    }
+    return source;
+  }
+
+  /** Checks the credentials of a source that might not be saved yet. */
+  public async getConfigIssues(data: CreateTorrentSourceRequest): Promise<string | null> {
+    const source = this.createTorrentSource(`${data.type}-test`, this.toValues(data), {
+      isCredentialCheck: true,
+    });
+    return source.getConfigIssues();
+  }
+
+  public async getConfigIssuesById(sourceId: number): Promise<string | null> {
+    const config = this.getSourceById(sourceId);
+    const source = this.createTorrentSource(this.getSourceName(config), config, {
+      isCredentialCheck: true,
+    });
+    return source.getConfigIssues();
+  }
+
+  /** Sources created in a transaction are loaded after `reloadSources` is called. */
+  public async createSource(
+    data: CreateTorrentSourceRequest,
+    tx: Transaction | Database = this.db,
+  ): Promise<TorrentSourceConfig> {
+    const [source] = await tx
+      .insert(torrentSourcesTable)
+      .values(this.toValues(data))
+      .returning();
+    if (tx === this.db) {
+      await this.reloadSources();
+    }
+    return source;
+  }
+
+  public async updateSource(
+    sourceId: number,
+    data: UpdateTorrentSourceRequest,
+  ): Promise<TorrentSourceConfig> {
+    const existingSource = this.getSourceById(sourceId);
+    const savedSecrets = existingSource.type === data.type ? existingSource : null;
+    const values =
+      data.type === TorrentSourceType.NCORE
+        ? this.toValues({
+            ...data,
+            password: data.password || savedSecrets?.password || '',
+          })
+        : this.toValues({ ...data, apiKey: data.apiKey || savedSecrets?.apiKey || '' });
+    if (!values.password && !values.apiKey) {
+      throw new HTTPException(HttpStatusCode.BAD_REQUEST, {
+        message:
+          data.type === TorrentSourceType.NCORE
+            ? 'Password is required'
+            : 'API key is required',
+      });
+    }
+    const [source] = await this.db
+      .update(torrentSourcesTable)
+      .set(values)
+      .where(eq(torrentSourcesTable.id, sourceId))
+      .returning();
+    // the session of the old account must not be used with the new credentials
+    if (
+      existingSource.type === TorrentSourceType.NCORE &&
+      (values.type !== TorrentSourceType.NCORE ||
+        values.username !== existingSource.username ||
+        values.password !== existingSource.password)
+    ) {
+      this.ncoreSessionStore.deleteSession(this.getSourceName(existingSource));
+    }
+    await this.reloadSources();
+    return source;
+  }
+
+  public async setSourceEnabled(
+    sourceId: number,
+    enabled: boolean,
+  ): Promise<TorrentSourceConfig> {
+    this.getSourceById(sourceId);
+    const [source] = await this.db
+      .update(torrentSourcesTable)
+      .set({ enabled })
+      .where(eq(torrentSourcesTable.id, sourceId))
+      .returning();
+    await this.reloadSources();
+    return source;
+  }
+
+  public async deleteSource(sourceId: number): Promise<void> {
+    const config = this.getSourceById(sourceId);
+    await this.db.delete(torrentSourcesTable).where(eq(torrentSourcesTable.id, sourceId));
+    if (config.type === TorrentSourceType.NCORE) {
+      this.ncoreSessionStore.deleteSession(this.getSourceName(config));
+    }
+    await this.reloadSources();
+  }
+}
@@ -0,0 +1,13 @@
+/** The circuit breaker of a source opens after this many failures in a row. */
+export const CIRCUIT_BREAKER_FAILURE_THRESHOLD = 3;
+/** How long a source is skipped after its circuit breaker opened. */
+export const CIRCUIT_BREAKER_COOLDOWN_MS = 5 * 60 * 1000;
+/** The number of calls that are kept in the health history of a source. */
+export const HEALTH_HISTORY_LENGTH = 20;
+
+/** Speculated results that score lower than this are dropped, see `scoreSpeculatedMatch`. */
+export const SPECULATED_MATCH_DROP_THRESHOLD = 0.65;
+/** Speculated results that score at least this much are treated as exact matches. */
+export const SPECULATED_MATCH_CONFIRM_THRESHOLD = 0.9;
+/** Smaller files than this are probably trailers or broken releases. */
+export const MIN_BYTES_PER_RUNTIME_MINUTE = 1.5 * 1024 * 1024;
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EpisodeMatchConfidence,
+  mightContainEpisode,
+  resolveEpisodeFile,
+  resolveMainFile,
+} from './episode-resolver';
+
+const toFiles = (paths: string[], length = 1000) =>
+  paths.map((path) => ({
+    path,
+    name: path.split('/').pop() as string,
+    length,
+  }));
+
+describe('resolveEpisodeFile', () => {
+  it('should find the episode by its season and episode number', () => {
+    const files = toFiles([
+      'Show.S01.1080p/Show.S01E01.1080p.mkv',
+      'Show.S01.1080p/Show.S01E02.1080p.mkv',
+    ]);
+    expect(resolveEpisodeFile(files, { season: 1, episode: 2 })).toEqual({
+      fileIndex: 1,
+      confidence: EpisodeMatchConfidence.HIGH,
+    });
+  });
+
+  it('should understand multi-episode files and ranges', () => {
+    const files = toFiles([
+      'Show/Show.S01E01E02.mkv',
+      'Show/Show.S01E03-E05.mkv',
+      'Show/Show.1x06-07.mkv',
+    ]);
+    expect(resolveEpisodeFile(files, { season: 1, episode: 2 })?.fileIndex).toBe(0);
+    expect(resolveEpisodeFile(files, { season: 1, episode: 4 })?.fileIndex).toBe(1);
+    expect(resolveEpisodeFile(files, { season: 1, episode: 7 })?.fileIndex).toBe(2);
+    expect(resolveEpisodeFile(files, { season: 1, episode: 8 })).toBeNull();
+  });
+
+  it('should understand season and episode written out', () => {
+    const files = toFiles([
+      'Show/Show Season 1 Episode 5.mkv',
+      'Show/Show Season 2 Episode 5.mkv',
+    ]);
+    expect(resolveEpisodeFile(files, { season: 2, episode: 5 })).toEqual({
+      fileIndex: 1,
+      confidence: EpisodeMatchConfidence.HIGH,
+    });
+  });
+
+  it('should not read the resolution as an episode range', () => {
+    const files = toFiles(['Show/Show.S01E01-720p.mkv']);
+    expect(resolveEpisodeFile(files, { season: 1, episode: 2 })).toBeNull();
+  });
+
+  it('should not read the audio, the codec or the resolution as season and episode', () => {
+    const files = toFiles([
+      'Show/Show - 05 - Pilot.DD5.1x264.mkv',
+      'Show/Show - 06 - Return.1920x1080.mkv',
+    ]);
+    expect(resolveEpisodeFile(files, { season: 1, episode: 5 })?.fileIndex).toBe(0);
+    expect(resolveEpisodeFile(files, { season: 1, episode: 6 })?.fileIndex).toBe(1);
+    expect(resolveEpisodeFile(files, { season: 1, episode: 264 })).toBeNull();
+    expect(resolveEpisodeFile(files, { season: 20, episode: 108 })).toBeNull();
+  });
+
+  it('should use the season folders of complete series packs', () => {
+    const files = toFiles([
+      'Show Complete/Season 1/01 - Pilot.mkv',
+      'Show Complete/Season 1/E05.mkv',
+      'Show Complete/Season 2/E05.mkv',
+      'Show Complete/2. évad/Ep 06.mkv',
+    ]);
+    expect(resolveEpisodeFile(files, { season: 2, episode: 5 })).toEqual({
+      fileIndex: 2,
+      confidence: EpisodeMatchConfidence.MEDIUM,
+    });
+    expect(resolveEpisodeFile(files, { season: 2, episode: 6 })?.fileIndex).toBe(3);
+  });
+
+  it('should match absolute numbered files in the first season', () => {
+    const files = toFiles(['[Group] Show/[Group] Show - 013 [1080p].mkv']);
+    expect(resolveEpisodeFile(files, { season: 1, episode: 13 })).toEqual({
+      fileIndex: 0,
+      confidence: EpisodeMatchConfidence.LOW,
+    });
+    expect(resolveEpisodeFile(files, { season: 2, episode: 13 })).toBeNull();
+  });
+
+  it('should skip samples, extras and files that are not media', () => {
+    const files = toFiles([
+      'Show.S01/Sample/Show.S01E01.sample.mkv',
+      'Show.S01/Extras/Show.S01E01.Behind.The.Scenes.mkv',
+      'Show.S01/Show.S01E01.nfo',
+    ]);
+    expect(resolveEpisodeFile(files, { season: 1, episode: 1 })).toBeNull();
+  });
+
+  it('should not take the titles that have an extras word for extras', () => {
+    const files = toFiles([
+      'Trailer Park Boys/Season 1/Trailer.Park.Boys.S01E01.mkv',
+      'Extras.S01.DVDRip/Extras.S01E01.DVDRip.avi',
+    ]);
+    expect(resolveEpisodeFile(files.slice(0, 1), { season: 1, episode: 1 })).toEqual({
+      fileIndex: 0,
+      confidence: EpisodeMatchConfidence.HIGH,
+    });
+    expect(resolveEpisodeFile(files.slice(1), { season: 1, episode: 1 })?.fileIndex).toBe(
+      0,
+    );
+  });
+});
+
+describe('resolveMainFile', () => {
+  it('should return the biggest media file that is not a sample', () => {
+    const files = [
+      { path: 'Movie/Movie.nfo', name: 'Movie.nfo', length: 5000 },
+      { path: 'Movie/Movie.mkv', name: 'Movie.mkv', length: 3000 },
+      { path: 'Movie/Movie.sample.mkv', name: 'Movie.sample.mkv', length: 4000 },
+    ];
+    expect(resolveMainFile(files)).toBe(1);
+  });
+
+  it('should skip trailers by their suffix, but not movies named after them', () => {
+    const files = toFiles(['Bonus.Track.2020/Bonus.Track.2020.1080p.mkv']);
+    expect(
+      resolveMainFile([...files, ...toFiles(['Movie/Movie-trailer.mkv'], 2000)]),
+    ).toBe(0);
+  });
+});
+
+describe('mightContainEpisode', () => {
+  it('should only rule out releases that name another season or episode', () => {
+    const target = { season: 2, episode: 3 };
+    expect(mightContainEpisode('Show.S02.1080p.WEB-DL.HUN-GRP', target)).toBe(true);
+    expect(mightContainEpisode('Show.S01-S03.1080p.Complete', target)).toBe(true);
+    expect(mightContainEpisode('Show.Complete.Series.1080p', target)).toBe(true);
+    expect(mightContainEpisode('Show.S01.1080p.WEB-DL.HUN-GRP', target)).toBe(false);
+    expect(mightContainEpisode('Show.S02E04.720p.HDTV', target)).toBe(false);
+  });
+});
@@ -0,0 +1,259 @@
+import type { ParsedShow } from '@ctrl/video-filename-parser';
+import { filenameParse } from '@ctrl/video-filename-parser';
+import { isPlayableFile } from '../../utils/media-file-extensions';
+
+export enum EpisodeMatchConfidence {
+  /** The season and the episode are both in the file name. */
+  HIGH = 'high',
+  /** The episode is in the file name, the season comes from a folder name. */
+  MEDIUM = 'medium',
+  /** The episode was matched by its absolute number, or without knowing the season. */
+  LOW = 'low',
+}
+
+export interface EpisodeMatch {
+  fileIndex: number;
+  confidence: EpisodeMatchConfidence;
+}
+
+interface ResolvableFile {
+  name: string;
+  path: string;
+  length: number;
+}
+
+interface ParsedEpisodes {
+  season: number | null;
+  episodes: number[];
+}
+
+const confidenceRank: Record<EpisodeMatchConfidence, number> = {
+  [EpisodeMatchConfidence.HIGH]: 3,
+  [EpisodeMatchConfidence.MEDIUM]: 2,
+  [EpisodeMatchConfidence.LOW]: 1,
+};
+
+/** Folders of samples, trailers and bonus material, the whole name has to be one of them. */
+const EXTRA_FOLDER_PATTERN =
+  /^(samples?|trailers?|featurettes?|extras?|bonus|interviews?|behind[\s._-]?the[\s._-]?scenes|deleted[\s._-]?scenes|making[\s._-]?of)$/i;
+/** `Movie-trailer.mkv`, `Movie-featurette.mkv`, and the `Movie.sample.mkv` of scene releases */
+const EXTRA_FILE_PATTERN =
+  /(-(samples?|trailers?|featurettes?|extras?|bonus|interviews?|behindthescenes|deleted(scenes)?|makingof)|[\s._-]sample)$/i;
+
+/** `S01E01`, `S01E01E02`, `S01E01-E03`, `S01E01-03` */
+const SEASON_EPISODE_PATTERN =
+  /s(\d{1,2})[\s._-]?e(\d{1,4})((?:[\s._]?-[\s._]?e?\d{1,4}(?![\dpi])|[\s._]?e\d{1,4}(?!\d))*)/i;
+/** `Season 2 Episode 5`, `Season.2.Ep.5-6` */
+const SEASON_EPISODE_WORDS_PATTERN =
+  /(?:^|[^a-z\d])season[\s._-]?(\d{1,2})[\s._-]+(?:episode|ep)[\s._-]?(\d{1,4})((?:-\d{1,4})?)(?!\d)/i;
+/**
+ * `1x05`, `1x05-06`, `1x05x06`, but not the audio channels and the codec in `DD5.1x264`,
+ * or resolutions like `1920x1080`.
+ */
+const CROSS_PATTERN =
+  /(?<![a-z\d]|\d[.,])(\d{1,2})x(?!26[45](?!\d))(\d{2,3})((?:[-x]\d{2,3})*)(?![a-z\d])/i;
+/** `E05`, `Ep 05`, `Episode 5`, `E01-E03` without season */
+const EPISODE_PATTERN =
+  /(?:^|[^a-z\d])(?:e|ep|episode)[\s._]?(\d{1,4})((?:-e?\d{1,4})?)(?!\d)/i;
+/** `Show - 013`, `Show - 013v2`, the usual naming of absolute numbered releases */
+const ABSOLUTE_PATTERN = /\s-\s(\d{1,4})(?:v\d)?(?:[\s._[(]|$)/;
+/** `Season 1`, `S01`, `1. évad`, `Series 2` */
+const SEASON_FOLDER_PATTERNS = [
+  /(?:^|[^a-z\d])(?:season|series|s)[\s._-]?(\d{1,2})(?![\d])(?![\s._-]?e\d)/i,
+  /(?:^|[^a-z\d])(\d{1,2})\.?[\s._-]?(?:évad|evad)/i,
+  /(?:^|[^a-z\d])(?:évad|evad)[\s._-]?(\d{1,2})(?!\d)/i,
+];
+const SPECIALS_FOLDER_PATTERN = /^specials?$/i;
+
+/**
+ * Turns the rest of an episode match into episode numbers. A dash means a range
+ * (`E01-E03` or `E01-03`), anything else is a list of episodes (`E01E02`).
+ */
+const parseEpisodeList = (first: string, rest = ''): number[] => {
+  const episodes = [Number(first)];
+  const parts = rest.matchAll(/(-?)[\s._]?[ex]?(\d{1,4})/gi);
+  for (const [, dash, value] of parts) {
+    const episode = Number(value);
+    const previous = episodes[episodes.length - 1] as number;
+    if (dash && episode > previous && episode - previous < 100) {
+      for (let i = previous + 1; i <= episode; i++) {
+        episodes.push(i);
+      }
+    } else {
+      episodes.push(episode);
+    }
+  }
+  return episodes;
+};
+
+const parseFileName = (fileName: string): ParsedEpisodes | null => {
+  const name = fileName.replace(/\.[^.]+$/, '');
+
+  const seasonEpisode = name.match(SEASON_EPISODE_PATTERN);
+  if (seasonEpisode) {
+    const [, season, first, rest] = seasonEpisode;
+    return {
+      season: Number(season),
+      episodes: parseEpisodeList(first as string, rest),
+    };
+  }
+  const seasonEpisodeWords = name.match(SEASON_EPISODE_WORDS_PATTERN);
+  if (seasonEpisodeWords) {
+    const [, season, first, rest] = seasonEpisodeWords;
+    return {
+      season: Number(season),
+      episodes: parseEpisodeList(first as string, rest),
+    };
+  }
+  const cross = name.match(CROSS_PATTERN);
+  if (cross) {
+    const [, season, first, rest] = cross;
+    return {
+      season: Number(season),
+      episodes: parseEpisodeList(first as string, rest),
+    };
+  }
+  const episode = name.match(EPISODE_PATTERN);
+  if (episode) {
+    const [, first, rest] = episode;
+    return { season: null, episodes: parseEpisodeList(first as string, rest) };
+  }
+  const absolute = name.match(ABSOLUTE_PATTERN);
+  if (absolute) {
+    return { season: null, episodes: [Number(absolute[1])] };
+  }
+  // the release parser knows the less common namings too
+  const parsed = filenameParse(fileName, true) as ParsedShow;
+  if (parsed.episodeNumbers?.length) {
+    return {
+      season: parsed.seasons?.length === 1 ? (parsed.seasons[0] as number) : null,
+      episodes: parsed.episodeNumbers,
+    };
+  }
+  return null;
+};
+
+/** The season of the closest folder that has one, e.g. `Show/Season 2/E05.mkv` → 2. */
+const getSeasonFromFolders = (path: string): number | null => {
+  const folders = path.split(/[\\/]/).slice(0, -1).reverse();
+  for (const folder of folders) {
+    if (SPECIALS_FOLDER_PATTERN.test(folder.trim())) {
+      return 0;
+    }
+    for (const pattern of SEASON_FOLDER_PATTERNS) {
+      const match = folder.match(pattern);
+      if (match) {
+        return Number(match[1]);
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Samples, trailers and bonus material, by their folder or the suffix of their name. The
+ * first folder is the torrent itself, named after the title, e.g. `Trailer Park Boys`.
+ */
+export const isExtraFile = (path: string): boolean => {
+  const segments = path.split(/[\\/]/);
+  const fileName = (segments.pop() ?? '').replace(/\.[^.]+$/, '');
+  return (
+    EXTRA_FILE_PATTERN.test(fileName) ||
+    segments.slice(1).some((folder) => EXTRA_FOLDER_PATTERN.test(folder.trim()))
+  );
+};
+
+const getConfidence = (
+  parsed: ParsedEpisodes,
+  folderSeason: number | null,
+  { season, episode }: { season: number; episode: number },
+): EpisodeMatchConfidence | null => {
+  if (!parsed.episodes.includes(episode)) {
+    return null;
+  }
+  if (parsed.season !== null) {
+    return parsed.season === season ? EpisodeMatchConfidence.HIGH : null;
+  }
+  if (folderSeason !== null) {
+    return folderSeason === season ? EpisodeMatchConfidence.MEDIUM : null;
+  }
+  // Without any season information the numbering is either absolute or the torrent
+  // only has one season. Both are only likely for the first season.
+  return season === 1 ? EpisodeMatchConfidence.LOW : null;
+};
+
+/**
+ * Finds the file of an episode in a torrent. Season packs with nested season folders,
+ * multi-episode files (`S01E01E02`, `E01-E03`), `1x05` style and absolute numbered
+ * names are supported, while samples and extras are skipped.
+ * @returns `null` if the episode is not in the torrent.
+ */
+export const resolveEpisodeFile = (
+  files: ResolvableFile[],
+  { season, episode }: { season: number; episode: number },
+): EpisodeMatch | null => {
+  let bestMatch: (EpisodeMatch & { length: number }) | null = null;
+  for (const [fileIndex, file] of files.entries()) {
+    if (!isPlayableFile(file.path) || isExtraFile(file.path)) {
+      continue;
+    }
+    const parsed = parseFileName(file.name);
+    if (!parsed) {
+      continue;
+    }
+    const confidence = getConfidence(parsed, getSeasonFromFolders(file.path), {
+      season,
+      episode,
+    });
+    if (!confidence) {
+      continue;
+    }
+    const isBetter =
+      !bestMatch ||
+      confidenceRank[confidence] > confidenceRank[bestMatch.confidence] ||
+      (confidence === bestMatch.confidence && file.length > bestMatch.length);
+    if (isBetter) {
+      bestMatch = { fileIndex, confidence, length: file.length };
+    }
+  }
+  if (!bestMatch) {
+    return null;
+  }
+  return { fileIndex: bestMatch.fileIndex, confidence: bestMatch.confidence };
+};
+
+/**
+ * Tells from the release name alone whether a torrent can contain an episode, e.g. to
+ * skip other seasons before the torrent file is downloaded. Names without a season or
+ * episode number, like complete series packs, can contain anything.
+ */
+export const mightContainEpisode = (
+  releaseName: string,
+  { season, episode }: { season: number; episode: number },
+): boolean => {
+  const parsed = filenameParse(releaseName, true) as ParsedShow;
+  if (parsed.seasons?.length && !parsed.seasons.includes(season)) {
+    return false;
+  }
+  if (parsed.episodeNumbers?.length && !parsed.episodeNumbers.includes(episode)) {
+    return false;
+  }
+  return true;
+};
+
+/** The biggest media file that is not a sample or an extra, e.g. the movie itself. */
+export const resolveMainFile = (files: ResolvableFile[]): number => {
+  const candidates = files
+    .map((file, fileIndex) => ({ file, fileIndex }))
+    .filter(({ file }) => isPlayableFile(file.path) && !isExtraFile(file.path));
+  const pool =
+    candidates.length > 0
+      ? candidates
+      : files.map((file, fileIndex) => ({ file, fileIndex }));
+  const biggest = pool.reduce<(typeof pool)[number] | null>(
+    (biggest, candidate) =>
+      !biggest || candidate.file.length > biggest.file.length ? candidate : biggest,
+    null,
+  );
+  return biggest?.fileIndex ?? -1;
+};
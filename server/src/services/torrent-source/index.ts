@@ -1,3 +1,24 @@
-export type { TorrentDetails, TorrentSource } from './types';
+export type { NcoreBookmark } from './ncore';
+export type {
+  TorrentDetails,
+  TorrentSearchResult,
+  TorrentSource,
+  TorrentSourceReference,
+} from './types';
 export { NcoreService } from './ncore';
-export { TorrentSourceManager } from './torrent-source-manager';
+export { TorznabService } from './torznab';
+export {
+  TorrentSourceManager,
+  type TorrentSourceTimeouts,
+} from './torrent-source-manager';
+export { SourceTimeoutError, SourceUnavailableError } from './torrent-source.error';
+export { MergedTorrentDetails } from './merged-torrent-details';
+export { encodeSourceReferences, decodeSourceReferences } from './source-references';
+export {
+  EpisodeMatchConfidence,
+  resolveEpisodeFile,
+  resolveMainFile,
+  type EpisodeMatch,
+} from './episode-resolver';
+export { parseReleaseAttributes, parseReleaseGroup } from './release-attributes';
+export { listMovieFiles, type MovieFile } from './movie-files';
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { Language, Resolution } from '@/db/schema/users';
+import { mergeDuplicateTorrents } from './merge-torrents';
+import { TorrentDetails, type TorrentFileDetails } from './types';
+
+class FakeTorrentDetails extends TorrentDetails {
+  public fallbackResolution = Resolution.R1080P;
+  public isSpeculated = false;
+
+  constructor(
+    public sourceName: string,
+    public sourceId: string,
+    public infoHash: string,
+    public files: TorrentFileDetails[],
+  ) {
+    super();
+  }
+
+  public displayResolution(resolution: Resolution) {
+    return resolution;
+  }
+  public getLanguage() {
+    return Language.EN;
+  }
+  public getSeed() {
+    return 10;
+  }
+  public getName() {
+    return 'Movie.2020.1080p.BluRay.x264-GRP';
+  }
+}
+
+const files: TorrentFileDetails[] = [
+  { name: 'movie.mkv', path: 'Movie/movie.mkv', length: 8000, offset: 0 },
+  { name: 'sample.mkv', path: 'Movie/sample.mkv', length: 50, offset: 8000 },
+];
+
+describe('mergeDuplicateTorrents', () => {
+  it('should merge the torrents with the same info hash', () => {
+    const [torrent, ...rest] = mergeDuplicateTorrents([
+      new FakeTorrentDetails('ncore-1', '1', 'ABC', files),
+      new FakeTorrentDetails('torznab-1', '2', 'abc', files),
+    ]);
+    expect(rest).toEqual([]);
+    expect(torrent.getSources()).toEqual([
+      { sourceName: 'ncore-1', sourceId: '1' },
+      { sourceName: 'torznab-1', sourceId: '2' },
+    ]);
+  });
+
+  it('should not merge the same release when an info hash is not known', () => {
+    // the files of the other torrent can be in another order, the listed file index
+    // would play the wrong file from it
+    const torrents = mergeDuplicateTorrents([
+      new FakeTorrentDetails('ncore-1', '1', 'abc', files),
+      new FakeTorrentDetails('torznab-1', '2', '', [...files].reverse()),
+      new FakeTorrentDetails('torznab-2', '3', '', [...files].reverse()),
+    ]);
+    expect(torrents.map((torrent) => torrent.getSources())).toEqual([
+      [{ sourceName: 'ncore-1', sourceId: '1' }],
+      [{ sourceName: 'torznab-1', sourceId: '2' }],
+      [{ sourceName: 'torznab-2', sourceId: '3' }],
+    ]);
+  });
+});
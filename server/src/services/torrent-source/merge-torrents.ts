@@ -0,0 +1,23 @@
+import type { TorrentDetails } from './types';
+import { MergedTorrentDetails } from './merged-torrent-details';
+
+/**
+ * Torrents are only the same if their info hashes match: the play URL has the file index
+ * of the listed torrent, which doesn't fit another torrent of the same release, whose
+ * files can be in a different order. Torrents whose info hash is not known yet are listed
+ * on their own.
+ */
+const getDeduplicationKey = (torrent: TorrentDetails, index: number): string =>
+  torrent.infoHash ? `hash:${torrent.infoHash.toLowerCase()}` : `unknown:${index}`;
+
+/** Merges the results of the sources, so that every torrent is listed only once. */
+export const mergeDuplicateTorrents = (torrents: TorrentDetails[]): TorrentDetails[] => {
+  const groups = new Map<string, TorrentDetails[]>();
+  torrents.forEach((torrent, index) => {
+    const key = getDeduplicationKey(torrent, index);
+    groups.set(key, [...(groups.get(key) ?? []), torrent]);
+  });
+  return Array.from(groups.values()).map((group) =>
+    group.length === 1 ? (group[0] as TorrentDetails) : new MergedTorrentDetails(group),
+  );
+};
@@ -0,0 +1,86 @@
+import {
+  TorrentDetails,
+  type TorrentFileDetails,
+  type TorrentSourceReference,
+} from './types';
+import type { Language, Resolution } from '@/db/schema/users';
+
+/**
+ * The same torrent found on multiple sources. The best result is used for the details
+ * and playback, while the others are kept as fallbacks in case it can't be downloaded.
+ *
+ * The merged torrents are not modified, because they can be cached by the sources.
+ */
+export class MergedTorrentDetails extends TorrentDetails {
+  public infoHash: string;
+  public files: TorrentFileDetails[];
+  public sourceName: string;
+  public sourceId: string;
+  public fallbackResolution: Resolution;
+  public isSpeculated?: boolean;
+
+  private canonicalTorrent: TorrentDetails;
+  private torrents: TorrentDetails[];
+
+  constructor(torrents: TorrentDetails[]) {
+    super();
+    // torrents that were found by their IMDb ID are more reliable than speculated ones,
+    // and the ones with known files can be played without resolving them first
+    this.torrents = [...torrents].sort(
+      (a, b) =>
+        Number(!!a.isSpeculated) - Number(!!b.isSpeculated) ||
+        Number(!a.isResolved()) - Number(!b.isResolved()) ||
+        b.getSeed() - a.getSeed(),
+    );
+    const canonicalTorrent = this.torrents[0];
+    if (!canonicalTorrent) {
+      throw new Error('Cannot merge an empty list of torrents.');
+    }
+    this.canonicalTorrent = canonicalTorrent;
+    this.infoHash = canonicalTorrent.infoHash;
+    this.files = canonicalTorrent.files;
+    this.sourceName = canonicalTorrent.sourceName;
+    this.sourceId = canonicalTorrent.sourceId;
+    this.fallbackResolution = canonicalTorrent.fallbackResolution;
+    this.isSpeculated = this.torrents.every((torrent) => torrent.isSpeculated);
+  }
+
+  public displayResolution(resolution: Resolution): string {
+    return this.canonicalTorrent.displayResolution(resolution);
+  }
+
+  public getLanguage(): Language {
+    return this.canonicalTorrent.getLanguage();
+  }
+
+  public getSeed(): number {
+    return Math.max(...this.torrents.map((torrent) => torrent.getSeed()));
+  }
+
+  public getName(): string {
+    return this.canonicalTorrent.getName();
+  }
+
+  public isResolved(): boolean {
+    return this.canonicalTorrent.isResolved();
+  }
+
+  /** The canonical torrent is the one that is downloaded first. */
+  public isFreeleech(): boolean {
+    return this.canonicalTorrent.isFreeleech();
+  }
+
+  public getSize(): number {
+    return this.canonicalTorrent.getSize();
+  }
+
+  public getSources(): TorrentSourceReference[] {
+    const sources = new Map<string, TorrentSourceReference>();
+    this.torrents
+      .flatMap((torrent) => torrent.getSources())
+      .forEach((source) => {
+        sources.set(`${source.sourceName}:${source.sourceId}`, source);
+      });
+    return Array.from(sources.values());
+  }
+}
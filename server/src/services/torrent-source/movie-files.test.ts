@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { listMovieFiles } from './movie-files';
+
+const MB = 1024 * 1024;
+
+const toFiles = (files: [path: string, sizeInMb: number][]) =>
+  files.map(([path, sizeInMb]) => ({
+    path,
+    name: path.split('/').pop() as string,
+    length: sizeInMb * MB,
+  }));
+
+describe('listMovieFiles', () => {
+  it('should list every cut of the movie, the biggest first', () => {
+    const files = toFiles([
+      ['Movie/Movie.2001.Theatrical.Cut.1080p.mkv', 8000],
+      ['Movie/Movie.2001.Extended.Cut.1080p.mkv', 10000],
+      ['Movie/Sample/Movie.sample.mkv', 150],
+      ['Movie/Movie.nfo', 1],
+    ]);
+    expect(listMovieFiles(files)).toEqual([
+      {
+        fileIndices: [1],
+        name: 'Movie.2001.Extended.Cut.1080p.mkv',
+        size: 10000 * MB,
+      },
+      {
+        fileIndices: [0],
+        name: 'Movie.2001.Theatrical.Cut.1080p.mkv',
+        size: 8000 * MB,
+      },
+    ]);
+  });
+
+  it('should stitch the parts of an MPEG movie in order', () => {
+    const files = toFiles([
+      ['Movie/Movie.2001.DVDRip.CD2.mpg', 690],
+      ['Movie/Movie.2001.DVDRip.CD1.mpg', 700],
+      ['Movie/Bonus/Making.of.avi', 200],
+    ]);
+    expect(listMovieFiles(files)).toEqual([
+      {
+        fileIndices: [1, 0],
+        name: 'Movie.2001.DVDRip.mpg',
+        size: 1390 * MB,
+      },
+      { fileIndices: [2], name: 'Making.of.avi', size: 200 * MB },
+    ]);
+  });
+
+  it('should list the parts of other containers one after the other', () => {
+    const files = toFiles([
+      ['Movie/Bonus/Making.of.avi', 800],
+      ['Movie/Movie.2001.DVDRip.XviD.CD2.avi', 690],
+      ['Movie/Movie.2001.DVDRip.XviD.CD1.avi', 700],
+    ]);
+    expect(listMovieFiles(files).map(({ fileIndices }) => fileIndices)).toEqual([
+      [2],
+      [1],
+      [0],
+    ]);
+  });
+
+  it('should stitch the parts in numbered folders', () => {
+    const files = toFiles([
+      ['Movie/CD1/movie.mpg', 700],
+      ['Movie/CD2/movie.mpg', 700],
+    ]);
+    expect(listMovieFiles(files).map(({ fileIndices }) => fileIndices)).toEqual([[0, 1]]);
+  });
+
+  it('should not take the movies of a collection for parts', () => {
+    const files = toFiles([
+      ['Hunger.Games/Mockingjay.Part.1.1080p.BluRay.ts', 1400],
+      ['Hunger.Games/Mockingjay.Part.2.1080p.BluRay.ts', 1500],
+    ]);
+    expect(listMovieFiles(files).map(({ fileIndices }) => fileIndices)).toEqual([
+      [1],
+      [0],
+    ]);
+  });
+
+  it('should not stitch the discs with different videos', () => {
+    const files = toFiles([
+      ['Movie/Disc1/Movie.mkv', 30000],
+      ['Movie/Disc2/Documentary.mkv', 4000],
+      ['Movie/Part.2.of.the.Trilogy.mkv', 9000],
+    ]);
+    expect(listMovieFiles(files).map(({ fileIndices }) => fileIndices)).toEqual([
+      [0],
+      [2],
+      [1],
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+import { isVideoFile } from '../../utils/media-file-extensions';
+
+interface MovieSourceFile {
+  name: string;
+  path: string;
+  length: number;
+}
+
+/** A video of a movie torrent that is listed as its own stream. */
+export interface MovieFile {
+  /** The parts of a multi-part movie in order, or the index of a single file. */
+  fileIndices: number[];
+  /** The name of the file, without the part number for multi-part movies. */
+  name: string;
+  /** The size of every part together. */
+  size: number;
+}
+
+/** Smaller videos are menus, samples and other leftovers. */
+const MIN_MOVIE_FILE_SIZE = 100 * 1024 * 1024;
+
+const SAMPLE_PATTERN = /(^|[\s._\-[(])samples?($|[\s._\-\])])/i;
+
+/**
+ * `CD1`, `Disc 2`, in the file name or in the folder. `Part 1` is left out, because it
+ * names the movies of collections, like `Mockingjay.Part.1` and `Mockingjay.Part.2`.
+ */
+const PART_PATTERN = /(?<![a-z\d])(?:cd|dis[ck])[\s._-]?(\d{1,2})(?!\d)/i;
+
+/**
+ * MPEG program and transport streams play on when the next part is appended to them.
+ * AVI, MKV and MP4 have the length and the index of the first part in their header.
+ */
+const STITCHABLE_EXTENSIONS = ['mpg', 'ts'];
+
+const isStitchable = (path: string) =>
+  STITCHABLE_EXTENSIONS.includes(path.split('.').pop()?.toLowerCase() ?? '');
+
+const isSample = (path: string) =>
+  path.split(/[\\/]/).some((segment) => SAMPLE_PATTERN.test(segment));
+
+/** The parts are numbered from 1, without gaps, like CD1 and CD2. */
+const isCompleteSeries = (partNumbers: number[]) =>
+  new Set(partNumbers).size === partNumbers.length &&
+  partNumbers.every((partNumber) => partNumber <= partNumbers.length && partNumber > 0);
+
+const getTotalSize = (movieFiles: MovieFile[]) =>
+  movieFiles.reduce((size, movieFile) => size + movieFile.size, 0);
+
+/**
+ * The videos of a movie torrent, for torrents that have several cuts of the movie, or
+ * bonus discs. The CD1/CD2 parts of MPEG rips are listed as one stream, which plays them
+ * one after the other, the parts in other containers are listed next to each other in
+ * order. The biggest movie is the first.
+ */
+export const listMovieFiles = (files: MovieSourceFile[]): MovieFile[] => {
+  const videos = files
+    .map((file, fileIndex) => ({ file, fileIndex }))
+    .filter(
+      ({ file }) =>
+        isVideoFile(file.path) &&
+        !isSample(file.path) &&
+        file.length >= MIN_MOVIE_FILE_SIZE,
+    );
+
+  // the files of the same movie only differ in their part number
+  const parts = new Map<string, { fileIndex: number; partNumber: number }[]>();
+  videos.forEach(({ file, fileIndex }) => {
+    const match = file.path.match(PART_PATTERN);
+    if (!match) {
+      return;
+    }
+    const key = file.path.replace(PART_PATTERN, '\0').toLowerCase();
+    parts.set(key, [
+      ...(parts.get(key) ?? []),
+      { fileIndex, partNumber: Number(match[1]) },
+    ]);
+  });
+  const multiPartMovies = Array.from(parts.values())
+    .filter(
+      (movieParts) =>
+        movieParts.length > 1 &&
+        isCompleteSeries(movieParts.map(({ partNumber }) => partNumber)),
+    )
+    .map((movieParts) =>
+      [...movieParts]
+        .sort((a, z) => a.partNumber - z.partNumber)
+        .map(({ fileIndex }) => fileIndex),
+    );
+  const multiPartFileIndices = new Set(multiPartMovies.flat());
+
+  const toMovieFile = (fileIndex: number): MovieFile => ({
+    fileIndices: [fileIndex],
+    name: files[fileIndex].name,
+    size: files[fileIndex].length,
+  });
+  // every listing is one movie, the parts of a movie stay next to each other
+  const movies: MovieFile[][] = [
+    ...multiPartMovies.map((fileIndices) => {
+      if (!fileIndices.every((fileIndex) => isStitchable(files[fileIndex].path))) {
+        return fileIndices.map(toMovieFile);
+      }
+      const firstFile = files[fileIndices[0]];
+      return [
+        {
+          fileIndices,
+          // e.g. `Movie.2001.CD1.mpg` → `Movie.2001.mpg`
+          name: firstFile.name
+            .replace(PART_PATTERN, '')
+            .replace(/([\s._-])[\s._-]+/g, '$1')
+            .replace(/[\s._-]+(\.[^.]+)$/, '$1'),
+          size: fileIndices.reduce(
+            (size, fileIndex) => size + files[fileIndex].length,
+            0,
+          ),
+        },
+      ];
+    }),
+    ...videos
+      .filter(({ fileIndex }) => !multiPartFileIndices.has(fileIndex))
+      .map(({ fileIndex }) => [toMovieFile(fileIndex)]),
+  ];
+  return movies.sort((a, z) => getTotalSize(z) - getTotalSize(a)).flat();
+};
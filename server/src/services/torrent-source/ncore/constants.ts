@@ -28,9 +28,6 @@ export enum SeriesCategory {
 export const MOVIE_CATEGORY_FILTERS = Object.values(MovieCategory).join(',');
 export const SERIES_CATEGORY_FILTERS = Object.values(SeriesCategory).join(',');
 
-export const BATCH_SIZE = 15;
-export const BATCH_DELAY = 200;
-
 export type TorrentCategory = MovieCategory | SeriesCategory;
 
 export const HUNGARIAN_CATEGORIES: TorrentCategory[] = [
@@ -49,3 +46,37 @@ export const ncoreResolutionLabels: Record<NcoreResolution, string> = {
   [NcoreResolution.DVD9]: 'DVD9',
   [NcoreResolution.HD]: 'HD',
 };
+
+export const getNcoreResolutionByCategory = (
+  category: TorrentCategory,
+): NcoreResolution => {
+  switch (category) {
+    case MovieCategory.SD_HUN:
+    case MovieCategory.SD:
+      return NcoreResolution.SD;
+    case MovieCategory.DVD_HUN:
+    case MovieCategory.DVD:
+      return NcoreResolution.DVD;
+    case MovieCategory.DVD9_HUN:
+    case MovieCategory.DVD9:
+      return NcoreResolution.DVD9;
+    case MovieCategory.HD_HUN:
+    case MovieCategory.HD:
+      return NcoreResolution.HD;
+    case SeriesCategory.SD_HUN:
+    case SeriesCategory.SD:
+      return NcoreResolution.SD;
+    case SeriesCategory.DVD_HUN:
+    case SeriesCategory.DVD:
+      return NcoreResolution.DVD;
+    case SeriesCategory.HD_HUN:
+    case SeriesCategory.HD:
+      return NcoreResolution.HD;
+  }
+};
+
+/** The wait after the first failed login, it's doubled after every further failure. */
+export const LOGIN_BACKOFF_BASE_MS = 60 * 1000;
+export const LOGIN_BACKOFF_MAX_MS = 60 * 60 * 1000;
+/** Used if nCore doesn't tell when the session expires. */
+export const SESSION_FALLBACK_TTL_MS = 24 * 60 * 60 * 1000;
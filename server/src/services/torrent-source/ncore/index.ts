@@ -1,5 +1,7 @@
 export type { NcoreTorrent } from './types';
+export type { NcoreBookmark } from './ncore-bookmarks';
 export { NcoreService } from './ncore.service';
+export { NcoreSessionStore } from './ncore-session-store';
 export {
   MovieCategory,
   SeriesCategory,
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { parseNcoreHitnrun, parseNcoreProfile } from './ncore-account';
+
+describe('parseNcoreProfile', () => {
+  it('should read the values next to their labels', () => {
+    const html = `<html><body><div class="userbox_tartalom">
+      <div class="dt">Feltöltés:</div><div class="dd">1.52 TiB</div>
+      <div class="dt">Letöltés:</div><div class="dd">830.12 GiB</div>
+      <div class="dt">Arány:</div><div class="dd">1,87</div>
+      <div class="dt">Bónuszpont:</div><div class="dd">12 345</div>
+    </div></body></html>`;
+    expect(parseNcoreProfile(html)).toEqual({
+      uploaded: '1.52 TiB',
+      downloaded: '830.12 GiB',
+      ratio: 1.87,
+      bonusPoints: 12345,
+    });
+  });
+
+  it('should return null for the missing values', () => {
+    expect(parseNcoreProfile('<html><body></body></html>')).toEqual({
+      uploaded: null,
+      downloaded: null,
+      ratio: null,
+      bonusPoints: null,
+    });
+  });
+});
+
+describe('parseNcoreHitnrun', () => {
+  it('should parse the rows and tell which ones were seeded enough', () => {
+    const row = (className: string, id: string, remaining: string) => `
+      <div class="${className}">
+        <div class="hnr_tname"><a href="torrents.php?action=details&id=${id}">Release.${id}</a></div>
+        <div class="hnr_tstart">2026-10-01 20:00</div>
+        <div class="hnr_tlastactive">2026-10-02 08:00</div>
+        <div class="hnr_tup">4.2 GiB</div>
+        <div class="hnr_tdown">3.1 GiB</div>
+        <div class="hnr_tseed">30 óra</div>
+        <div class="hnr_ttimespent">${remaining}</div>
+        <div class="hnr_tratio">1.355</div>
+      </div>`;
+    const html = `<html><body>${row('hnr_all', '1', '18 óra')}${row('hnr_all2', '2', '-')}</body></html>`;
+
+    const [first, second] = parseNcoreHitnrun(html);
+    expect(first).toEqual({
+      sourceId: '1',
+      name: 'Release.1',
+      startedAt: '2026-10-01 20:00',
+      lastActiveAt: '2026-10-02 08:00',
+      uploaded: '4.2 GiB',
+      downloaded: '3.1 GiB',
+      ratio: 1.355,
+      seedTime: '30 óra',
+      remainingSeedTime: '18 óra',
+      isSeededEnough: false,
+    });
+    expect(second?.sourceId).toBe('2');
+    expect(second?.remainingSeedTime).toBeNull();
+    expect(second?.isSeededEnough).toBe(true);
+  });
+});
@@ -0,0 +1,76 @@
+import { JSDOM } from 'jsdom';
+import type { NcoreAccountStats, NcoreHitnrunTorrent } from '@/types/ncore-account';
+
+const UPLOADED_LABEL = /^(feltöltés|feltöltve|upload|uploaded)\s*:?$/i;
+const DOWNLOADED_LABEL = /^(letöltés|letöltve|download|downloaded)\s*:?$/i;
+const RATIO_LABEL = /^(arány|ratio)\s*:?$/i;
+const BONUS_POINTS_LABEL = /^(bónusz\s?pont(ok)?|bonus\s?points?)\s*:?$/i;
+
+const getText = (element: Element | null | undefined): string | null => {
+  const text = element?.textContent?.replace(/\s+/g, ' ').trim();
+  return text && text !== '-' ? text : null;
+};
+
+/** nCore shows the numbers with a decimal comma in Hungarian. */
+const parseDecimal = (text: string | null): number | null => {
+  if (!text) {
+    return null;
+  }
+  const value = Number.parseFloat(text.replace(/\s/g, '').replace(',', '.'));
+  return Number.isFinite(value) ? value : null;
+};
+
+const parseInteger = (text: string | null): number | null => {
+  const digits = text?.replace(/\D/g, '');
+  return digits ? Number(digits) : null;
+};
+
+/**
+ * The profile shows its values next to their labels, so the value is the element after
+ * the one that only contains the label.
+ */
+const getLabeledValue = (document: Document, label: RegExp): string | null => {
+  const labelElement = Array.from(document.querySelectorAll('body *')).find(
+    (element) =>
+      element.children.length === 0 && label.test(element.textContent?.trim() ?? ''),
+  );
+  return getText(labelElement?.nextElementSibling);
+};
+
+/** Parses the ratio, the transfer totals and the bonus points from the profile page. */
+export const parseNcoreProfile = (html: string): NcoreAccountStats => {
+  const { document } = new JSDOM(html).window;
+  return {
+    uploaded: getLabeledValue(document, UPLOADED_LABEL),
+    downloaded: getLabeledValue(document, DOWNLOADED_LABEL),
+    ratio: parseDecimal(getLabeledValue(document, RATIO_LABEL)),
+    bonusPoints: parseInteger(getLabeledValue(document, BONUS_POINTS_LABEL)),
+  };
+};
+
+/**
+ * Parses the rows of `hitnrun.php?showall=true`. The `hnr_ttimespent` column holds the
+ * seed time that is still required, which is `-` once the torrent was seeded enough.
+ */
+export const parseNcoreHitnrun = (html: string): NcoreHitnrunTorrent[] => {
+  const { document } = new JSDOM(html).window;
+  const rows = Array.from(document.querySelectorAll('.hnr_all, .hnr_all2'));
+  return rows.map((row) => {
+    const link = row.querySelector('.hnr_tname a');
+    const detailsUrl = link?.getAttribute('href') ?? '';
+    const searchParams = new URLSearchParams(detailsUrl.split('?')[1] ?? '');
+    const remainingSeedTime = row.querySelector('.hnr_ttimespent');
+    return {
+      sourceId: searchParams.get('id') ?? '',
+      name: getText(link) ?? '',
+      startedAt: getText(row.querySelector('.hnr_tstart')),
+      lastActiveAt: getText(row.querySelector('.hnr_tlastactive')),
+      uploaded: getText(row.querySelector('.hnr_tup')),
+      downloaded: getText(row.querySelector('.hnr_tdown')),
+      ratio: parseDecimal(getText(row.querySelector('.hnr_tratio'))),
+      seedTime: getText(row.querySelector('.hnr_tseed')),
+      remainingSeedTime: getText(remainingSeedTime),
+      isSeededEnough: remainingSeedTime?.textContent?.trim() === '-',
+    };
+  });
+};
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { parseNcoreBookmarks } from './ncore-bookmarks';
+import { StreamType } from '../../../schemas/stream.schema';
+
+const row = (id: string, category: string, imdbLink: string) => `
+  <div class="box_torrent">
+    <div class="box_alap_img"><a href="/torrents.php?tipus=${category}"><img /></a></div>
+    <div class="torrent_txt"><a href="torrents.php?action=details&id=${id}">Release.${id}</a></div>
+    ${imdbLink}
+  </div>`;
+
+describe('parseNcoreBookmarks', () => {
+  it('should return the movies and shows with an IMDb link', () => {
+    const html = `<html><body>
+      ${row('1', 'hd_hun', '<a class="infolink" href="https://imdb.com/title/tt0133093/">IMDb</a>')}
+      ${row('2', 'hdser', '<a class="infolink" href="https://www.imdb.com/title/tt0903747">IMDb</a>')}
+      ${row('3', 'hd', '')}
+      ${row('4', 'ebook_hun', '<a class="infolink" href="https://imdb.com/title/tt0000001/">IMDb</a>')}
+    </body></html>`;
+
+    expect(parseNcoreBookmarks(html)).toEqual([
+      { sourceId: '1', imdbId: 'tt0133093', type: StreamType.MOVIE },
+      { sourceId: '2', imdbId: 'tt0903747', type: StreamType.TV_SHOW },
+    ]);
+  });
+});
@@ -0,0 +1,45 @@
+import { JSDOM } from 'jsdom';
+import { MovieCategory, SeriesCategory } from './constants';
+import { StreamType } from '../../../schemas/stream.schema';
+
+export type NcoreBookmark = {
+  sourceId: string;
+  imdbId: string;
+  type: StreamType;
+};
+
+const IMDB_ID_PATTERN = /\/title\/(tt\d+)/;
+
+const getTypeByCategory = (category: string): StreamType | null => {
+  if ((Object.values(MovieCategory) as string[]).includes(category)) {
+    return StreamType.MOVIE;
+  }
+  if ((Object.values(SeriesCategory) as string[]).includes(category)) {
+    return StreamType.TV_SHOW;
+  }
+  return null;
+};
+
+/**
+ * Parses the torrents of `bookmarks.php`. Only the movies and shows with an IMDb link are
+ * returned, because the catalog is resolved through Cinemeta.
+ */
+export const parseNcoreBookmarks = (html: string): NcoreBookmark[] => {
+  const { document } = new JSDOM(html).window;
+  const rows = Array.from(document.querySelectorAll('.box_torrent'));
+  return rows.flatMap((row) => {
+    const detailsUrl =
+      row.querySelector('a[href*="action=details"]')?.getAttribute('href') ?? '';
+    const categoryUrl =
+      row.querySelector('a[href*="tipus="]')?.getAttribute('href') ?? '';
+    const imdbUrl = row.querySelector('a[href*="imdb.com/title/"]')?.getAttribute('href');
+    const sourceId = new URLSearchParams(detailsUrl.split('?')[1] ?? '').get('id');
+    const category = new URLSearchParams(categoryUrl.split('?')[1] ?? '').get('tipus');
+    const imdbId = imdbUrl?.match(IMDB_ID_PATTERN)?.[1];
+    const type = category ? getTypeByCategory(category) : null;
+    if (!sourceId || !imdbId || !type) {
+      return [];
+    }
+    return [{ sourceId, imdbId, type }];
+  });
+};
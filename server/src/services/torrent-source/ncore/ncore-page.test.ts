@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { getNcorePageError } from './ncore-page';
+import {
+  NcoreCaptchaError,
+  NcoreLoggedOutError,
+  NcoreMaintenanceError,
+} from './ncore.error';
+
+const loginPage = `<html><head><title>nCore</title></head><body>
+  <form action="login.php" method="post"><input name="nev" /><input name="pass" /></form>
+</body></html>`;
+
+describe('getNcorePageError', () => {
+  it('should accept a page without results', () => {
+    const html =
+      '<html><head><title>nCore</title></head><body>Nincs találat!</body></html>';
+    expect(
+      getNcorePageError({ url: 'https://ncore.pro/torrents.php', status: 200, html }),
+    ).toBeNull();
+  });
+
+  it('should detect the login page', () => {
+    expect(
+      getNcorePageError({
+        url: 'https://ncore.pro/login.php?honnan=/torrents.php',
+        status: 200,
+        html: loginPage,
+      }),
+    ).toBeInstanceOf(NcoreLoggedOutError);
+  });
+
+  it('should detect the captcha before the login form', () => {
+    const html = loginPage.replace(
+      '</form>',
+      '<div class="g-recaptcha" data-sitekey="key"></div></form>',
+    );
+    expect(
+      getNcorePageError({ url: 'https://ncore.pro/login.php', status: 200, html }),
+    ).toBeInstanceOf(NcoreCaptchaError);
+  });
+
+  it('should detect the maintenance page', () => {
+    expect(
+      getNcorePageError({
+        url: 'https://ncore.pro/torrents.php',
+        status: 200,
+        html: '<html><head><title>nCore - Karbantartás</title></head></html>',
+      }),
+    ).toBeInstanceOf(NcoreMaintenanceError);
+  });
+});
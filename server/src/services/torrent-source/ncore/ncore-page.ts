@@ -0,0 +1,39 @@
+import {
+  NcoreCaptchaError,
+  NcoreLoggedOutError,
+  NcoreMaintenanceError,
+} from './ncore.error';
+
+const LOGIN_FORM_PATTERN = /<form[^>]+action="[^"]*login\.php|name="nev"/i;
+const CAPTCHA_PATTERN = /g-recaptcha|recaptcha\/api|name="captcha/i;
+const MAINTENANCE_TITLE_PATTERN = /<title>[^<]*(karbantart|maintenance)[^<]*<\/title>/i;
+
+/**
+ * Tells if an HTML page of nCore is not the page that was asked for, but its login,
+ * captcha or maintenance page. The captcha is checked first, because it's shown on
+ * the login page.
+ * @param url The URL of the page after the redirects.
+ * @returns The error that describes the page, or `null` if it's a normal page.
+ */
+export const getNcorePageError = ({
+  url,
+  status,
+  html,
+}: {
+  url: string;
+  status: number;
+  html: string;
+}): Error | null => {
+  if (status === 503 || MAINTENANCE_TITLE_PATTERN.test(html)) {
+    return new NcoreMaintenanceError('nCore is under maintenance.');
+  }
+  if (CAPTCHA_PATTERN.test(html)) {
+    return new NcoreCaptchaError(
+      'nCore asks for a captcha. Log in on the website of nCore once, then try again.',
+    );
+  }
+  if (new URL(url).pathname.endsWith('/login.php') || LOGIN_FORM_PATTERN.test(html)) {
+    return new NcoreLoggedOutError('The nCore session expired.');
+  }
+  return null;
+};
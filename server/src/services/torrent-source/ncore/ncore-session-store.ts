@@ -0,0 +1,33 @@
+import { eq } from 'drizzle-orm';
+import type { Database } from '@/db';
+import { ncoreSessionsTable, type NcoreSession } from '@/db/schema/ncore-sessions';
+
+/** Saves the session cookies of the nCore sources in the database. */
+export class NcoreSessionStore {
+  constructor(private db: Database) {}
+
+  /** @returns `null` if there is no session, or it belongs to another username. */
+  public getSession(sourceName: string, username: string): NcoreSession | null {
+    const session = this.db
+      .select()
+      .from(ncoreSessionsTable)
+      .where(eq(ncoreSessionsTable.sourceName, sourceName))
+      .get();
+    return session?.username === username ? session : null;
+  }
+
+  public saveSession(session: NcoreSession): void {
+    this.db
+      .insert(ncoreSessionsTable)
+      .values(session)
+      .onConflictDoUpdate({ target: ncoreSessionsTable.sourceName, set: session })
+      .run();
+  }
+
+  public deleteSession(sourceName: string): void {
+    this.db
+      .delete(ncoreSessionsTable)
+      .where(eq(ncoreSessionsTable.sourceName, sourceName))
+      .run();
+  }
+}
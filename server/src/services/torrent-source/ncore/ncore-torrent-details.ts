@@ -6,11 +6,9 @@ import {
 import type { NcoreTorrent } from './types';
 import type { TorrentCategory } from './constants';
 import {
+  getNcoreResolutionByCategory,
   HUNGARIAN_CATEGORIES,
-  MovieCategory,
-  NcoreResolution,
   ncoreResolutionLabels,
-  SeriesCategory,
 } from './constants';
 import { Language, Resolution } from '@/db/schema/users';
 
@@ -26,13 +24,22 @@ export class NcoreTorrentDetails extends TorrentDetails {
   private category: TorrentCategory;
   private release_name: string;
   private seeders: string;
+  private ncoreTorrent: NcoreTorrent;
 
-  constructor(ncoreTorrent: NcoreTorrent, parsedDetails: ParsedTorrentDetails) {
+  /**
+   * @param parsedDetails `null` if the torrent file is not downloaded yet, then the
+   * torrent is listed from the search results alone, and it's resolved when it's played.
+   */
+  constructor(
+    sourceName: string,
+    ncoreTorrent: NcoreTorrent,
+    parsedDetails: ParsedTorrentDetails | null,
+  ) {
     super();
-    this.sourceName = 'ncore';
+    this.sourceName = sourceName;
     this.sourceId = ncoreTorrent.torrent_id;
-    this.infoHash = parsedDetails.infoHash;
-    this.files = parsedDetails.files;
+    this.infoHash = parsedDetails?.infoHash ?? '';
+    this.files = parsedDetails?.files ?? [];
     this.fallbackResolution = ['xvid', 'xvid_hun', 'xvidser', 'xvidser_hun'].includes(
       ncoreTorrent.category,
     )
@@ -41,10 +48,40 @@ export class NcoreTorrentDetails extends TorrentDetails {
     this.category = ncoreTorrent.category;
     this.release_name = ncoreTorrent.release_name;
     this.seeders = ncoreTorrent.seeders;
+    this.ncoreTorrent = ncoreTorrent;
+  }
+
+  /** The search results are cached, so the result of a name search is marked on a copy. */
+  public withIsSpeculated(isSpeculated: boolean): NcoreTorrentDetails {
+    const copy = new NcoreTorrentDetails(
+      this.sourceName,
+      this.ncoreTorrent,
+      this.isResolved() ? { infoHash: this.infoHash, files: this.files } : null,
+    );
+    copy.isSpeculated = isSpeculated;
+    return copy;
+  }
+
+  public isResolved(): boolean {
+    return this.infoHash !== '';
+  }
+
+  public isFreeleech(): boolean {
+    return this.ncoreTorrent.freeleech;
+  }
+
+  /** The size from the search results is used until the files are known. */
+  public getSize(): number {
+    return this.isResolved() ? super.getSize() : Number(this.ncoreTorrent.size);
+  }
+
+  /** The IMDb ID that nCore has for the torrent, if any. */
+  public getImdbId(): string | null {
+    return this.ncoreTorrent.imdb_id || null;
   }
 
   public displayResolution(resolution: Resolution): string {
-    return `${ncoreResolutionLabels[this.getNcoreResolutionByCategory(this.category)]} (${resolution})`;
+    return `${ncoreResolutionLabels[getNcoreResolutionByCategory(this.category)]} (${resolution})`;
   }
 
   public getName(): string {
@@ -58,30 +95,4 @@ export class NcoreTorrentDetails extends TorrentDetails {
   public getLanguage(): Language {
     return HUNGARIAN_CATEGORIES.includes(this.category) ? Language.HU : Language.EN;
   }
-
-  private getNcoreResolutionByCategory = (category: TorrentCategory): NcoreResolution => {
-    switch (category) {
-      case MovieCategory.SD_HUN:
-      case MovieCategory.SD:
-        return NcoreResolution.SD;
-      case MovieCategory.DVD_HUN:
-      case MovieCategory.DVD:
-        return NcoreResolution.DVD;
-      case MovieCategory.DVD9_HUN:
-      case MovieCategory.DVD9:
-        return NcoreResolution.DVD9;
-      case MovieCategory.HD_HUN:
-      case MovieCategory.HD:
-        return NcoreResolution.HD;
-      case SeriesCategory.SD_HUN:
-      case SeriesCategory.SD:
-        return NcoreResolution.SD;
-      case SeriesCategory.DVD_HUN:
-      case SeriesCategory.DVD:
-        return NcoreResolution.DVD;
-      case SeriesCategory.HD_HUN:
-      case SeriesCategory.HD:
-        return NcoreResolution.HD;
-    }
-  };
 }
@@ -0,0 +1,26 @@
+/** nCore answered with its login page, so the session expired or it was logged out. */
+export class NcoreLoggedOutError extends Error {
+  constructor(message?: string, options?: ErrorOptions) {
+    super(message, options);
+  }
+}
+
+/** nCore wants a captcha to be solved, which can only be done in a browser. */
+export class NcoreCaptchaError extends Error {
+  constructor(message?: string, options?: ErrorOptions) {
+    super(message, options);
+  }
+}
+
+export class NcoreMaintenanceError extends Error {
+  constructor(message?: string, options?: ErrorOptions) {
+    super(message, options);
+  }
+}
+
+/** The login failed, or it's not tried because the previous attempts failed. */
+export class NcoreLoginError extends Error {
+  constructor(message?: string, options?: ErrorOptions) {
+    super(message, options);
+  }
+}
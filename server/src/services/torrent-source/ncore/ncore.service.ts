@@ -6,92 +6,238 @@ import {
   NcoreSearchBy,
   type NcorePageResponseJson,
   type NcoreQueryParams,
+  type NcoreTorrent,
 } from './types';
 import {
-  BATCH_DELAY,
-  BATCH_SIZE,
+  LOGIN_BACKOFF_BASE_MS,
+  LOGIN_BACKOFF_MAX_MS,
   MOVIE_CATEGORY_FILTERS,
   SERIES_CATEGORY_FILTERS,
+  SESSION_FALLBACK_TTL_MS,
 } from './constants';
 import { NcoreTorrentDetails } from './ncore-torrent-details';
-import type { TorrentService } from '@/services/torrent';
+import { getNcorePageError } from './ncore-page';
+import { parseNcoreHitnrun, parseNcoreProfile } from './ncore-account';
+import { parseNcoreBookmarks, type NcoreBookmark } from './ncore-bookmarks';
+import type { NcoreSessionStore } from './ncore-session-store';
+import {
+  NcoreCaptchaError,
+  NcoreLoggedOutError,
+  NcoreLoginError,
+  NcoreMaintenanceError,
+} from './ncore.error';
+import { rankSearchResults } from './rank-search-results';
+import { scoreSpeculatedMatch, type SearchedTitle } from '../speculated-match';
+import {
+  SPECULATED_MATCH_CONFIRM_THRESHOLD,
+  SPECULATED_MATCH_DROP_THRESHOLD,
+} from '../constants';
+import type { TorrentFetch, TorrentService } from '@/services/torrent';
 import type { StreamQuery } from '@/schemas/stream.schema';
+import type { NcoreAccount } from '@/types/ncore-account';
 import { StreamType } from '@/schemas/stream.schema';
-import { processInBatches } from '@/utils/process-in-batches';
+import { RequestPriority, type RequestScheduler } from '@/utils/request-scheduler';
 import { CinemeatService } from '@/services/cinemeta';
-import { isSupportedMedia } from '@/utils/media-file-extensions';
+import type { CinemetaResponse } from '@/services/cinemeta/types';
+import type { TitleAliasService } from '@/services/title-alias';
+import { isPlayableFile } from '@/utils/media-file-extensions';
 import { Cached, DEFAULT_MAX, DEFAULT_TTL } from '@/utils/cache';
 
 export class NcoreService implements TorrentSource {
-  public name = 'ncore';
-  public displayName = 'nCore';
-
   constructor(
     private torrentService: TorrentService,
     private cinemetaService: CinemeatService,
+    private titleAliasService: TitleAliasService,
+    /**
+     * `null` when the source only checks the credentials, then it always logs in and
+     * doesn't save the session.
+     */
+    private sessionStore: NcoreSessionStore | null,
+    /** Shared by the nCore sources, because they send their requests to the same server. */
+    private scheduler: RequestScheduler,
+    /** How many of the best search results get their torrent files downloaded. */
+    private prefetchCount: number,
+    public name: string,
+    public displayName: string,
     private ncoreUrl: string,
     private ncoreUsername: string,
     private ncorePassword: string,
   ) {}
-  private cookiesCache = {
-    pass: null as string | null,
-    cookieExpirationDate: 0,
+  private session: { cookie: string; expiresAt: Date } | null = null;
+  /** Parallel requests wait for the same login. */
+  private loginPromise: Promise<string> | null = null;
+  private loginBackoff = {
+    failures: 0,
+    nextAttemptAt: 0,
   };
 
-  public async getCookies(username: string, password: string): Promise<string> {
-    if (
-      this.cookiesCache.pass &&
-      this.cookiesCache.cookieExpirationDate > Date.now() + 1000
-    ) {
-      return this.cookiesCache.pass;
+  /**
+   * Returns the cookies of the saved session, or logs in if there is no valid session.
+   * @throws {NcoreLoginError} If the login fails, or it's not tried because of the
+   * previous failures.
+   */
+  public async getCookies(): Promise<string> {
+    const session =
+      this.session ?? this.sessionStore?.getSession(this.name, this.ncoreUsername);
+    if (session && session.expiresAt.getTime() > Date.now() + 1000) {
+      this.session = session;
+      return session.cookie;
+    }
+    this.loginPromise ??= this.login().finally(() => {
+      this.loginPromise = null;
+    });
+    return this.loginPromise;
+  }
+
+  private invalidateSession() {
+    this.session = null;
+    this.sessionStore?.deleteSession(this.name);
+  }
+
+  /**
+   * Logs in, but after a failure the next attempt is only made after a wait that
+   * doubles with every failure, so that nCore doesn't flag the account.
+   */
+  private async login(): Promise<string> {
+    const { failures, nextAttemptAt } = this.loginBackoff;
+    if (nextAttemptAt > Date.now()) {
+      throw new NcoreLoginError(
+        `Logging in to nCore failed ${failures} times in a row, the next attempt is at ${new Date(nextAttemptAt).toLocaleTimeString()}.`,
+      );
     }
+    try {
+      const cookie = await this.fetchLoginCookies();
+      this.loginBackoff = { failures: 0, nextAttemptAt: 0 };
+      return cookie;
+    } catch (error) {
+      const backoffMs = Math.min(
+        LOGIN_BACKOFF_BASE_MS * 2 ** this.loginBackoff.failures,
+        LOGIN_BACKOFF_MAX_MS,
+      );
+      this.loginBackoff = {
+        failures: this.loginBackoff.failures + 1,
+        nextAttemptAt: Date.now() + backoffMs,
+      };
+      throw error;
+    }
+  }
+
+  private async fetchLoginCookies(): Promise<string> {
     const form = new FormData();
     form.append('set_lang', 'hu');
     form.append('submitted', '1');
-    form.append('nev', username);
-    form.append('pass', password);
+    form.append('nev', this.ncoreUsername);
+    form.append('pass', this.ncorePassword);
     form.append('ne_leptessen_ki', '1');
-    const resp = await fetch(`${this.ncoreUrl}/login.php`, {
-      method: 'POST',
-      body: form,
-      redirect: 'manual',
-    });
-    const allCookies = cookieParser.parse(resp.headers.getSetCookie());
+    const resp = await this.scheduler.schedule(
+      async () => {
+        const response = await fetch(`${this.ncoreUrl}/login.php`, {
+          method: 'POST',
+          body: form,
+          redirect: 'manual',
+        });
+        return {
+          url: response.url,
+          status: response.status,
+          setCookies: response.headers.getSetCookie(),
+          html: await response.text(),
+        };
+      },
+      { priority: RequestPriority.INTERACTIVE },
+    );
+    const allCookies = cookieParser.parse(resp.setCookies);
     const passCookie = allCookies.find(({ name }) => name === 'pass');
 
     if (!passCookie || passCookie.value === 'deleted') {
-      throw new Error('Failed to log in to nCore. No pass cookie found');
+      // the login page is shown again, maybe with a captcha
+      const pageError = getNcorePageError(resp);
+      if (pageError && !(pageError instanceof NcoreLoggedOutError)) {
+        throw pageError;
+      }
+      throw new NcoreLoginError('Failed to log in to nCore. No pass cookie found');
     }
     const fullCookieString = allCookies
       .map(({ name, value }) => `${name}=${value}`)
       .join('; ');
-    this.cookiesCache.pass = fullCookieString;
-    if (passCookie.expires) {
-      this.cookiesCache.cookieExpirationDate = passCookie.expires.getTime();
-    }
+    this.session = {
+      cookie: fullCookieString,
+      expiresAt: passCookie.expires ?? new Date(Date.now() + SESSION_FALLBACK_TTL_MS),
+    };
+    this.sessionStore?.saveSession({
+      sourceName: this.name,
+      username: this.ncoreUsername,
+      ...this.session,
+    });
 
     return fullCookieString;
   }
 
   public async getConfigIssues(): Promise<string | null> {
     try {
-      await this.getCookies(this.ncoreUsername, this.ncorePassword);
+      await this.getCookies();
       return null;
-    } catch {
-      console.error('Failed to log in to nCore while checking nCore config');
-      return 'Failed to log in to nCore. Check your credentials in the environment variables.';
+    } catch (error) {
+      console.error('Failed to log in to nCore while checking nCore config', error);
+      if (error instanceof NcoreCaptchaError || error instanceof NcoreMaintenanceError) {
+        return error.message;
+      }
+      return 'Failed to log in to nCore. Check the username and the password of the torrent source.';
     }
   }
 
-  private async fetchTorrents(query: URLSearchParams): Promise<NcorePageResponseJson> {
-    const cookies = await this.getCookies(this.ncoreUsername, this.ncorePassword);
-    const request = await fetch(`${this.ncoreUrl}/torrents.php?${query.toString()}`, {
-      headers: {
-        cookie: cookies,
+  /**
+   * Fetches a page with the cookies of the session. If nCore answers with its login
+   * page, then it logs in again and retries once.
+   * @param path The path and the query, e.g. `torrents.php?action=details&id=1`.
+   * @throws {NcoreCaptchaError} {NcoreMaintenanceError} {NcoreLoggedOutError}
+   */
+  private async fetchPage(
+    path: string,
+    priority: RequestPriority,
+    isRetry = false,
+  ): Promise<{ isJson: boolean; body: string }> {
+    const cookie = await this.getCookies();
+    const response = await this.scheduler.schedule(
+      async () => {
+        const response = await fetch(`${this.ncoreUrl}/${path}`, { headers: { cookie } });
+        return {
+          url: response.url,
+          status: response.status,
+          isJson: !!response.headers.get('content-type')?.includes('application/json'),
+          body: await response.text(),
+        };
       },
-    });
-    if (request.headers.get('content-type')?.includes('application/json')) {
-      return (await request.json()) as NcorePageResponseJson;
+      { priority, key: `${this.name}:${path}` },
+    );
+    const { isJson, body } = response;
+    if (isJson) {
+      return { isJson, body };
+    }
+    const pageError = getNcorePageError({ ...response, html: body });
+    if (pageError instanceof NcoreLoggedOutError && !isRetry) {
+      console.log(`The session of ${this.displayName} expired, logging in again.`);
+      this.invalidateSession();
+      return this.fetchPage(path, priority, true);
+    }
+    if (pageError) {
+      throw pageError;
+    }
+    return { isJson: false, body };
+  }
+
+  /** Downloads the torrent files through the scheduler too. */
+  private createTorrentFetch(priority: RequestPriority): TorrentFetch {
+    return (torrentUrl) => this.scheduler.schedule(() => fetch(torrentUrl), { priority });
+  }
+
+  /** Searches are only made for stream requests, so they are always interactive. */
+  private async fetchTorrents(query: URLSearchParams): Promise<NcorePageResponseJson> {
+    const { isJson, body } = await this.fetchPage(
+      `torrents.php?${query.toString()}`,
+      RequestPriority.INTERACTIVE,
+    );
+    if (isJson) {
+      return JSON.parse(body) as NcorePageResponseJson;
     }
     // the API returns HTML if there are no results
     return {
@@ -106,11 +252,13 @@ export class NcoreService implements TorrentSource {
     max: DEFAULT_MAX,
     ttl: DEFAULT_TTL,
     ttlAutopurge: true,
-    generateKey: (queryParams) => new URLSearchParams(queryParams).toString(),
+    generateKey: function (this: NcoreService, queryParams) {
+      return `${this.name}:${new URLSearchParams(queryParams).toString()}`;
+    },
   })
   private async getTorrentsForQuery(
     queryParams: NcoreQueryParams,
-  ): Promise<NcoreTorrentDetails[]> {
+  ): Promise<NcoreTorrent[]> {
     const baseParams = {
       ...queryParams,
       tipus: 'kivalasztottak_kozott',
@@ -131,29 +279,51 @@ export class NcoreService implements TorrentSource {
       restPagePromises.push(this.fetchTorrents(query));
     }
     const pages = [firstPage, ...(await Promise.all(restPagePromises))];
-    const allNcoreTorrents = pages.flatMap((page) => page.results);
-
-    const torrentsWithParsedData = await processInBatches(
-      allNcoreTorrents,
-      BATCH_SIZE,
-      BATCH_DELAY,
-      async (torrent) => {
-        const parsedData = await this.torrentService.downloadAndParseTorrent(
+    return pages.flatMap((page) => page.results);
+  }
+
+  /**
+   * Only the torrent files of the best `prefetchCount` search results are downloaded,
+   * the rest are listed from the search results, unless their metadata is already saved.
+   * Those are resolved when they are played.
+   */
+  private async resolveTorrents(
+    torrents: NcoreTorrent[],
+    { season, episode }: Pick<StreamQuery, 'season' | 'episode'>,
+  ): Promise<NcoreTorrentDetails[]> {
+    const rankedTorrents = rankSearchResults(torrents, { season, episode });
+    const prefetchedTorrents = await Promise.all(
+      rankedTorrents.slice(0, this.prefetchCount).map(async (torrent) => {
+        const parsedData = await this.torrentService.getTorrentMetadata(
+          {
+            sourceName: this.name,
+            sourceId: torrent.torrent_id,
+            category: torrent.category,
+            releaseName: torrent.release_name,
+          },
           torrent.download_url,
+          this.createTorrentFetch(RequestPriority.INTERACTIVE),
         );
-        return new NcoreTorrentDetails(torrent, parsedData);
-      },
+        return new NcoreTorrentDetails(this.name, torrent, parsedData);
+      }),
     );
-    return torrentsWithParsedData;
-  }
-
-  private filterTorrentsBySeasonAndEpisode(
-    torrents: NcoreTorrentDetails[],
-    { season, episode }: { season?: number; episode?: number },
-  ) {
-    return torrents.filter((torrent) => {
+    const lazyTorrents = rankedTorrents.slice(this.prefetchCount).map(
+      (torrent) =>
+        new NcoreTorrentDetails(
+          this.name,
+          torrent,
+          this.torrentService.getSavedTorrentMetadata({
+            sourceName: this.name,
+            sourceId: torrent.torrent_id,
+          }),
+        ),
+    );
+    return [...prefetchedTorrents, ...lazyTorrents].filter((torrent) => {
+      if (!torrent.isResolved()) {
+        return true;
+      }
       const file = torrent.files[torrent.getMediaFileIndex({ season, episode })];
-      return file !== undefined && isSupportedMedia(file.path);
+      return file !== undefined && isPlayableFile(file.path);
     });
   }
 
@@ -165,53 +335,94 @@ export class NcoreService implements TorrentSource {
   }: Pick<StreamQuery, 'imdbId' | 'type' | 'season' | 'episode'>): Promise<
     NcoreTorrentDetails[]
   > {
-    let torrents = await this.getTorrentsForQuery({
+    const imdbResults = await this.getTorrentsForQuery({
       mire: imdbId,
       miben: NcoreSearchBy.IMDB,
       miszerint: NcoreOrderBy.SEEDERS,
       kivalasztott_tipus:
         type === StreamType.MOVIE ? MOVIE_CATEGORY_FILTERS : SERIES_CATEGORY_FILTERS,
     });
-    torrents = this.filterTorrentsBySeasonAndEpisode(torrents, { season, episode });
+    const torrents = await this.resolveTorrents(imdbResults, { season, episode });
 
     if (torrents.length > 0) {
       return torrents;
     }
-    let name = '';
+    let meta: CinemetaResponse['meta'];
     try {
       const cinemetaData = await this.cinemetaService.getMetadataByImdbId(type, imdbId);
-      name = cinemetaData.meta.name;
+      meta = cinemetaData.meta;
     } catch (error) {
       console.error('Failed to get metadata from Cinemeta', error);
       return [];
     }
-    torrents = await this.getTorrentsForQuery({
-      mire: name,
-      miben: NcoreSearchBy.NAME,
-      miszerint: NcoreOrderBy.SEEDERS,
-      kivalasztott_tipus:
-        type === StreamType.MOVIE ? MOVIE_CATEGORY_FILTERS : SERIES_CATEGORY_FILTERS,
-    });
-    torrents.forEach((torrent) => {
-      torrent.isSpeculated = true;
+    // many releases without an IMDb link are named with their Hungarian title
+    const titles = await this.titleAliasService.getSearchTitles({
+      type,
+      imdbId,
+      name: meta.name,
     });
-    torrents = this.filterTorrentsBySeasonAndEpisode(torrents, { season, episode });
-
-    return torrents;
-  }
+    const resultsById = new Map<string, NcoreTorrent>();
+    for (const title of titles) {
+      const results = await this.getTorrentsForQuery({
+        mire: title,
+        miben: NcoreSearchBy.NAME,
+        miszerint: NcoreOrderBy.SEEDERS,
+        kivalasztott_tipus:
+          type === StreamType.MOVIE ? MOVIE_CATEGORY_FILTERS : SERIES_CATEGORY_FILTERS,
+      });
+      results.forEach((torrent) => resultsById.set(torrent.torrent_id, torrent));
+    }
 
-  public async getTorrentUrlBySourceId(ncoreId: string) {
-    const cookies = await this.getCookies(this.ncoreUsername, this.ncorePassword);
-    const response = await fetch(
-      `${this.ncoreUrl}/torrents.php?action=details&id=${ncoreId}`,
-      {
-        headers: {
-          cookie: cookies,
+    // the results are scored before their torrent files are downloaded, so that
+    // other movies or shows don't take the place of the real ones
+    const searchedTitle: SearchedTitle = {
+      imdbId,
+      isSeries: type === StreamType.TV_SHOW,
+      titles,
+      releaseInfo: meta.releaseInfo,
+      runtime: meta.runtime,
+    };
+    const scoreResult = (torrent: NcoreTorrent, mediaFileSize: number | null) =>
+      scoreSpeculatedMatch(
+        {
+          releaseName: torrent.release_name,
+          imdbId: torrent.imdb_id || null,
+          mediaFileSize,
         },
-      },
+        searchedTitle,
+      );
+    const matchingResults = Array.from(resultsById.values()).filter(
+      (torrent) => scoreResult(torrent, null) >= SPECULATED_MATCH_DROP_THRESHOLD,
     );
+    const speculatedTorrents = await this.resolveTorrents(matchingResults, {
+      season,
+      episode,
+    });
+    // the size of the played file is only known once the torrent file is downloaded,
+    // the size of the whole torrent would pass season packs and bonus discs
+    return speculatedTorrents.flatMap((torrent) => {
+      const result = resultsById.get(torrent.sourceId);
+      if (!result) {
+        return [];
+      }
+      const score = scoreResult(
+        result,
+        torrent.isResolved() ? torrent.getMediaFileSize({ season, episode }) : null,
+      );
+      return score >= SPECULATED_MATCH_DROP_THRESHOLD
+        ? [torrent.withIsSpeculated(score < SPECULATED_MATCH_CONFIRM_THRESHOLD)]
+        : [];
+    });
+  }
 
-    const html = await response.text();
+  public async getTorrentUrlBySourceId(
+    ncoreId: string,
+    priority = RequestPriority.INTERACTIVE,
+  ) {
+    const { body: html } = await this.fetchPage(
+      `torrents.php?action=details&id=${ncoreId}`,
+      priority,
+    );
     const { document } = new JSDOM(html).window;
     const downloadLink = `${this.ncoreUrl}/${document
       .querySelector('.download > a')
@@ -219,27 +430,51 @@ export class NcoreService implements TorrentSource {
     return downloadLink;
   }
 
-  public async getRemovableInfoHashes(): Promise<string[]> {
-    const cookie = await this.getCookies(this.ncoreUsername, this.ncorePassword);
-    const request = await fetch(`${this.ncoreUrl}/hitnrun.php?showall=true`, {
-      headers: { cookie },
-    });
-    const html = await request.text();
-    const { document } = new JSDOM(html).window;
+  /** The ratio, the transfer totals and the hit'n'run status of the account. */
+  public async getAccount(): Promise<NcoreAccount> {
+    const [{ body: profileHtml }, { body: hitnrunHtml }] = await Promise.all([
+      this.fetchPage('profile.php', RequestPriority.INTERACTIVE),
+      this.fetchPage('hitnrun.php?showall=true', RequestPriority.INTERACTIVE),
+    ]);
+    return {
+      ...parseNcoreProfile(profileHtml),
+      hitnrun: parseNcoreHitnrun(hitnrunHtml),
+    };
+  }
+
+  /** The bookmarks are shown on every Stremio board, so they are cached for a while. */
+  @Cached({
+    max: DEFAULT_MAX,
+    ttl: DEFAULT_TTL,
+    ttlAutopurge: true,
+    generateKey: function (this: NcoreService) {
+      return this.name;
+    },
+  })
+  public async getBookmarks(): Promise<NcoreBookmark[]> {
+    const { body: html } = await this.fetchPage(
+      'bookmarks.php',
+      RequestPriority.INTERACTIVE,
+    );
+    return parseNcoreBookmarks(html);
+  }
 
-    const rows = Array.from(document.querySelectorAll('.hnr_all, .hnr_all2'));
-    const deletableRows = rows.filter(
-      (row) => row.querySelector('.hnr_ttimespent')?.textContent === '-',
+  public async getRemovableInfoHashes(): Promise<string[]> {
+    const { body: html } = await this.fetchPage(
+      'hitnrun.php?showall=true',
+      RequestPriority.BACKGROUND,
+    );
+    const deletableTorrents = parseNcoreHitnrun(html).filter(
+      (torrent) => torrent.isSeededEnough,
     );
 
-    const deletableInfoHashPromises: Promise<string>[] = deletableRows.map(
-      async (row) => {
-        const detailsUrl = row.querySelector('.hnr_tname a')?.getAttribute('href') ?? '';
-        const searchParams = new URLSearchParams(detailsUrl.split('?')[1] ?? '');
-        const ncoreId = searchParams.get('id') ?? '';
-        const downloadUrl = await this.getTorrentUrlBySourceId(ncoreId);
-        const { infoHash } =
-          await this.torrentService.downloadAndParseTorrent(downloadUrl);
+    const deletableInfoHashPromises: Promise<string>[] = deletableTorrents.map(
+      async ({ sourceId: ncoreId }) => {
+        const { infoHash } = await this.torrentService.getTorrentMetadata(
+          { sourceName: this.name, sourceId: ncoreId },
+          () => this.getTorrentUrlBySourceId(ncoreId, RequestPriority.BACKGROUND),
+          this.createTorrentFetch(RequestPriority.BACKGROUND),
+        );
         return infoHash;
       },
     );
@@ -0,0 +1,53 @@
+import type { ParsedShow } from '@ctrl/video-filename-parser';
+import { filenameParse } from '@ctrl/video-filename-parser';
+import type { NcoreTorrent } from './types';
+import { getNcoreResolutionByCategory, NcoreResolution } from './constants';
+import { mightContainEpisode } from '../episode-resolver';
+import type { StreamQuery } from '@/schemas/stream.schema';
+import { rateList } from '@/utils/rate-list';
+
+const resolutionScores: Record<NcoreResolution, number> = {
+  [NcoreResolution.HD]: 2,
+  [NcoreResolution.DVD9]: 1.5,
+  [NcoreResolution.DVD]: 1,
+  [NcoreResolution.SD]: 0,
+};
+
+/** Single episode releases are certain, season packs still have to be searched. */
+const getReleaseNameScore = (
+  releaseName: string,
+  { season, episode }: Pick<StreamQuery, 'season' | 'episode'>,
+): number => {
+  if (!season || !episode) {
+    return 0;
+  }
+  const parsed = filenameParse(releaseName, true) as ParsedShow;
+  if (parsed.episodeNumbers?.includes(episode)) {
+    return 2;
+  }
+  return parsed.seasons?.includes(season) ? 1 : 0;
+};
+
+/**
+ * Ranks the search results by what is known without downloading the torrent files:
+ * the category, the size, the seeders and the release name. Releases of other
+ * seasons or episodes are left out.
+ */
+export const rankSearchResults = (
+  torrents: NcoreTorrent[],
+  { season, episode }: Pick<StreamQuery, 'season' | 'episode'>,
+): NcoreTorrent[] => {
+  const candidates =
+    season && episode
+      ? torrents.filter((torrent) =>
+          mightContainEpisode(torrent.release_name, { season, episode }),
+        )
+      : torrents;
+  const biggestSize = Math.max(1, ...candidates.map((torrent) => Number(torrent.size)));
+  return rateList(candidates, [
+    (torrent) => Math.log10(Number(torrent.seeders) + 1),
+    (torrent) => resolutionScores[getNcoreResolutionByCategory(torrent.category)],
+    (torrent) => Number(torrent.size) / biggestSize,
+    (torrent) => getReleaseNameScore(torrent.release_name, { season, episode }),
+  ]);
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { ReleaseAttribute } from '../../db/schema/users';
+import { parseReleaseAttributes, parseReleaseGroup } from './release-attributes';
+
+describe('parseReleaseAttributes', () => {
+  it.each([
+    [
+      'Movie.2023.2160p.UHD.BluRay.REMUX.DV.HDR10.HEVC.TrueHD.7.1.Atmos-GROUP',
+      [
+        ReleaseAttribute.HDR10,
+        ReleaseAttribute.DOLBY_VISION,
+        ReleaseAttribute.HEVC,
+        ReleaseAttribute.REMUX,
+        ReleaseAttribute.ATMOS,
+        ReleaseAttribute.TRUEHD,
+      ],
+    ],
+    [
+      'Movie.2023.2160p.AMZN.WEB-DL.DDP5.1.HDR10+.H.265-GROUP',
+      [ReleaseAttribute.HDR10_PLUS, ReleaseAttribute.HEVC],
+    ],
+    [
+      'Movie 2023 2160p WEB-DL HDR x265 DTS-HD MA 5.1',
+      [ReleaseAttribute.HDR10, ReleaseAttribute.HEVC, ReleaseAttribute.DTS],
+    ],
+    ['Movie.2023.1080p.WEB.AV1.Opus-GROUP', [ReleaseAttribute.AV1]],
+    [
+      'Movie.2023.2160p.DoVi.HDR10Plus.x265',
+      [ReleaseAttribute.HDR10_PLUS, ReleaseAttribute.DOLBY_VISION, ReleaseAttribute.HEVC],
+    ],
+  ])('should find the formats of %s', (name, attributes) => {
+    expect(parseReleaseAttributes(name)).toEqual(attributes);
+  });
+
+  it('should not find formats in other words', () => {
+    expect(
+      parseReleaseAttributes('The.Dvd.Atmosphere.2023.1080p.BluRay.x264-DTSGROUP'),
+    ).toEqual([]);
+  });
+
+  it('should merge the formats of the torrent and of the file', () => {
+    expect(
+      parseReleaseAttributes(
+        'Show.S01.2160p.WEB-DL.HEVC-GROUP',
+        'Show.S01E01.2160p.DV.mkv',
+      ),
+    ).toEqual([ReleaseAttribute.DOLBY_VISION, ReleaseAttribute.HEVC]);
+  });
+});
+
+describe('parseReleaseGroup', () => {
+  it.each([
+    ['Movie.2023.1080p.BluRay.x264.HUN-GROUP', 'GROUP'],
+    ['Movie.2023.1080p.BluRay.x264.HUN-GROUP.mkv', 'GROUP'],
+    ['Movie 2023 1080p WEB-DL H264-Group [rartv]', 'Group'],
+    ['Movie.2023.1080p.WEB-DL', null],
+    ['Movie 2023 2160p WEB-DL HDR x265 DTS-HD', null],
+    ['Movie (2023)', null],
+  ])('should find the group of %s', (name, group) => {
+    expect(parseReleaseGroup(name)).toBe(group);
+  });
+});
@@ -0,0 +1,48 @@
+import { ReleaseAttribute } from '../../db/schema/users';
+
+/** Release names separate the words with dots, spaces, dashes or underscores. */
+const word = (pattern: string) =>
+  new RegExp(`(?<![a-z\\d])(?:${pattern})(?![a-z\\d])`, 'i');
+
+const releaseAttributePatterns: Record<ReleaseAttribute, RegExp> = {
+  // `HDR` alone is HDR10, `DV.HDR` releases have an HDR10 fallback
+  [ReleaseAttribute.HDR10]: word('hdr(?:10)?(?![+]|plus)'),
+  [ReleaseAttribute.HDR10_PLUS]: word('hdr10(?:\\+|plus)'),
+  [ReleaseAttribute.DOLBY_VISION]: word('dv|dovi|dolby[\\s._-]?vision'),
+  [ReleaseAttribute.HEVC]: word('[xh][\\s.]?265|hevc'),
+  [ReleaseAttribute.AV1]: word('av1'),
+  [ReleaseAttribute.REMUX]: word('remux'),
+  [ReleaseAttribute.ATMOS]: word('atmos'),
+  [ReleaseAttribute.DTS]: word('dts(?:[\\s.-]?(?:hd|ma|x|es))*'),
+  [ReleaseAttribute.TRUEHD]: word('true[\\s._-]?hd'),
+};
+
+/**
+ * The video and audio formats in release names, e.g. `Movie.2023.2160p.UHD.BluRay.REMUX.DV.
+ * HDR10.HEVC.TrueHD.7.1.Atmos-GROUP`. Several names can be given, e.g. the name of the
+ * torrent and the name of the played file, the formats of each are listed once.
+ */
+export const parseReleaseAttributes = (...names: string[]): ReleaseAttribute[] =>
+  Object.values(ReleaseAttribute).filter((attribute) =>
+    names.some((name) => releaseAttributePatterns[attribute].test(name)),
+  );
+
+/** The ends of source and format tags, like `WEB-DL` or `DTS-HD`, that look like groups. */
+const tagEndings = ['dl', 'hd', 'rip', 'ma', 'x'];
+
+/**
+ * The group that made the release, which is the last word of scene names after a dash,
+ * e.g. `GROUP` in `Movie.2023.1080p.BluRay.x264.HUN-GROUP.mkv`.
+ * @returns `null` if the name doesn't end with a group.
+ */
+export const parseReleaseGroup = (name: string): string | null => {
+  const match = name
+    .trim()
+    .replace(/\.(?:mkv|mp4|avi|m4v|ts|torrent)$/i, '')
+    .replace(/\s*\[[^\]]*\]$/, '')
+    .match(/-([a-z\d]+)$/i);
+  if (!match || tagEndings.includes(match[1].toLowerCase())) {
+    return null;
+  }
+  return match[1];
+};
@@ -0,0 +1,129 @@
+import {
+  CIRCUIT_BREAKER_COOLDOWN_MS,
+  CIRCUIT_BREAKER_FAILURE_THRESHOLD,
+  HEALTH_HISTORY_LENGTH,
+} from './constants';
+import {
+  TorrentSourceHealthStatus,
+  type TorrentSourceHealth,
+  type TorrentSourceHealthCheck,
+} from '@/types/torrent-source';
+
+/**
+ * Records the calls to a torrent source, and opens its circuit breaker after
+ * `CIRCUIT_BREAKER_FAILURE_THRESHOLD` failures in a row. While the circuit is open the
+ * source is skipped. After the cooldown a single trial call is let through: if it
+ * succeeds, then the circuit closes, otherwise it opens again.
+ */
+export class SourceHealthTracker {
+  private history: TorrentSourceHealthCheck[] = [];
+  private consecutiveFailures = 0;
+  private circuitOpenUntil: Date | null = null;
+  private isTrialInProgress = false;
+  private lastSuccessAt: Date | null = null;
+  private lastError: { message: string; at: Date } | null = null;
+
+  public isCircuitOpen(now = new Date()): boolean {
+    if (!this.circuitOpenUntil) {
+      return false;
+    }
+    return this.circuitOpenUntil > now || this.isTrialInProgress;
+  }
+
+  /** Returns whether the source can be called, and starts the trial call if it cooled down. */
+  public tryAcquire(now = new Date()): boolean {
+    if (this.isCircuitOpen(now)) {
+      return false;
+    }
+    if (this.circuitOpenUntil) {
+      this.isTrialInProgress = true;
+    }
+    return true;
+  }
+
+  public recordSuccess(operation: string, startedAt: Date, latencyMs: number) {
+    this.addToHistory({
+      operation,
+      startedAt: startedAt.toISOString(),
+      latencyMs,
+      error: null,
+    });
+    this.consecutiveFailures = 0;
+    this.circuitOpenUntil = null;
+    this.isTrialInProgress = false;
+    this.lastSuccessAt = new Date(startedAt.getTime() + latencyMs);
+  }
+
+  public recordFailure(
+    operation: string,
+    startedAt: Date,
+    latencyMs: number,
+    error: unknown,
+  ) {
+    const message = error instanceof Error ? error.message : String(error);
+    this.addToHistory({
+      operation,
+      startedAt: startedAt.toISOString(),
+      latencyMs,
+      error: message,
+    });
+    const failedAt = new Date(startedAt.getTime() + latencyMs);
+    this.consecutiveFailures++;
+    this.lastError = { message, at: failedAt };
+    if (
+      this.isTrialInProgress ||
+      this.consecutiveFailures >= CIRCUIT_BREAKER_FAILURE_THRESHOLD
+    ) {
+      this.circuitOpenUntil = new Date(failedAt.getTime() + CIRCUIT_BREAKER_COOLDOWN_MS);
+    }
+    this.isTrialInProgress = false;
+  }
+
+  private addToHistory(check: TorrentSourceHealthCheck) {
+    this.history = [check, ...this.history].slice(0, HEALTH_HISTORY_LENGTH);
+  }
+
+  private getStatus(): TorrentSourceHealthStatus {
+    if (this.isCircuitOpen()) {
+      return TorrentSourceHealthStatus.CIRCUIT_OPEN;
+    }
+    const [lastCheck] = this.history;
+    if (!lastCheck) {
+      return TorrentSourceHealthStatus.UNKNOWN;
+    }
+    return lastCheck.error
+      ? TorrentSourceHealthStatus.FAILING
+      : TorrentSourceHealthStatus.HEALTHY;
+  }
+
+  public getHealth({
+    id,
+    sourceName,
+  }: {
+    id: string;
+    sourceName: string;
+  }): TorrentSourceHealth {
+    const successfulChecks = this.history.filter((check) => !check.error);
+    return {
+      id,
+      sourceName,
+      status: this.getStatus(),
+      consecutiveFailures: this.consecutiveFailures,
+      circuitOpenUntil: this.isCircuitOpen()
+        ? (this.circuitOpenUntil?.toISOString() ?? null)
+        : null,
+      averageLatencyMs:
+        successfulChecks.length > 0
+          ? Math.round(
+              successfulChecks.reduce((sum, check) => sum + check.latencyMs, 0) /
+                successfulChecks.length,
+            )
+          : null,
+      lastSuccessAt: this.lastSuccessAt?.toISOString() ?? null,
+      lastError: this.lastError
+        ? { message: this.lastError.message, at: this.lastError.at.toISOString() }
+        : null,
+      history: this.history,
+    };
+  }
+}
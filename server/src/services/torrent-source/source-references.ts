@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import type { TorrentSourceReference } from './types';
+
+const encodedSourceReferencesSchema = z.array(z.tuple([z.string(), z.string()]));
+
+/** Encodes the sources into a short, URL-safe string, e.g. for the `fallbacks` query param. */
+export const encodeSourceReferences = (sources: TorrentSourceReference[]): string => {
+  const tuples = sources.map(({ sourceName, sourceId }) => [sourceName, sourceId]);
+  return Buffer.from(JSON.stringify(tuples)).toString('base64url');
+};
+
+/** Invalid values are ignored, because the fallbacks are optional. */
+export const decodeSourceReferences = (value: string): TorrentSourceReference[] => {
+  try {
+    const tuples = encodedSourceReferencesSchema.parse(
+      JSON.parse(Buffer.from(value, 'base64url').toString()),
+    );
+    return tuples.map(([sourceName, sourceId]) => ({ sourceName, sourceId }));
+  } catch {
+    console.error(`Invalid source references: ${value}`);
+    return [];
+  }
+};
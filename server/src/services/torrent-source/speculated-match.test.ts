@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { scoreSpeculatedMatch, type SearchedTitle } from './speculated-match';
+import {
+  SPECULATED_MATCH_CONFIRM_THRESHOLD,
+  SPECULATED_MATCH_DROP_THRESHOLD,
+} from './constants';
+
+const GB = 1024 * 1024 * 1024;
+
+const theThing: SearchedTitle = {
+  imdbId: 'tt0084787',
+  isSeries: false,
+  titles: ['The Thing'],
+  releaseInfo: '1982',
+  runtime: '109 min',
+};
+
+describe('scoreSpeculatedMatch', () => {
+  it('should confirm a release with the same title and year', () => {
+    const score = scoreSpeculatedMatch(
+      {
+        releaseName: 'The.Thing.1982.1080p.BluRay.x264-GRP',
+        imdbId: null,
+        mediaFileSize: 8 * GB,
+      },
+      theThing,
+    );
+    expect(score).toBeGreaterThanOrEqual(SPECULATED_MATCH_CONFIRM_THRESHOLD);
+  });
+
+  it('should drop a remake with the same title', () => {
+    const score = scoreSpeculatedMatch(
+      {
+        releaseName: 'The.Thing.2011.1080p.BluRay.x264-GRP',
+        imdbId: null,
+        mediaFileSize: 8 * GB,
+      },
+      theThing,
+    );
+    expect(score).toBeLessThan(SPECULATED_MATCH_DROP_THRESHOLD);
+  });
+
+  it('should keep a release without a year as speculated', () => {
+    const score = scoreSpeculatedMatch(
+      {
+        releaseName: 'The.Thing.1080p.BluRay.x264-GRP',
+        imdbId: null,
+        mediaFileSize: 8 * GB,
+      },
+      theThing,
+    );
+    expect(score).toBeGreaterThanOrEqual(SPECULATED_MATCH_DROP_THRESHOLD);
+    expect(score).toBeLessThan(SPECULATED_MATCH_CONFIRM_THRESHOLD);
+  });
+
+  it('should weigh the size of the played file only when it is known', () => {
+    const score = (mediaFileSize: number | null) =>
+      scoreSpeculatedMatch(
+        {
+          releaseName: 'The.Thing.1982.1080p.BluRay.x264-GRP',
+          imdbId: null,
+          mediaFileSize,
+        },
+        theThing,
+      );
+    // a trailer of the movie is too small for its runtime
+    expect(score(50 * 1024 * 1024)).toBeLessThan(score(null));
+    expect(score(null)).toBeLessThan(score(8 * GB));
+  });
+
+  it('should decide by the IMDb ID of the torrent if it has one', () => {
+    const release = { releaseName: 'The.Thing.1982.1080p', mediaFileSize: 8 * GB };
+    expect(scoreSpeculatedMatch({ ...release, imdbId: '0084787' }, theThing)).toBe(1);
+    expect(scoreSpeculatedMatch({ ...release, imdbId: 'tt0905372' }, theThing)).toBe(0);
+  });
+
+  it('should accept season packs from any year of a running show', () => {
+    const score = scoreSpeculatedMatch(
+      { releaseName: 'Dark.2020.S03.1080p.NF.WEB-DL', imdbId: null, mediaFileSize: GB },
+      {
+        imdbId: 'tt5753856',
+        isSeries: true,
+        titles: ['Dark'],
+        releaseInfo: '2017–2020',
+        runtime: '60 min',
+      },
+    );
+    expect(score).toBeGreaterThanOrEqual(SPECULATED_MATCH_CONFIRM_THRESHOLD);
+  });
+});
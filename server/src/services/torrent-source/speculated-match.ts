@@ -0,0 +1,105 @@
+import { filenameParse } from '@ctrl/video-filename-parser';
+import { getTitleSimilarity, parseYear } from '../../utils/titles';
+import { MIN_BYTES_PER_RUNTIME_MINUTE } from './constants';
+
+/** A result of a name search, that might belong to another movie or show. */
+export interface SpeculatedCandidate {
+  releaseName: string;
+  /** The IMDb ID that the tracker has for the torrent, if any. */
+  imdbId: string | null;
+  /**
+   * The size of the file that would be played, `null` if the files of the torrent are
+   * not known yet. Then the size is not weighed.
+   */
+  mediaFileSize: number | null;
+}
+
+/** The details of the searched movie or show, usually from Cinemeta. */
+export interface SearchedTitle {
+  imdbId: string;
+  isSeries: boolean;
+  /** The original title first, then the alternative titles. */
+  titles: string[];
+  /** Example: `"1999"` for movies or `"2008–2013"` for series */
+  releaseInfo?: string;
+  /** Example: `"136 min"` or `"2h 16min"` */
+  runtime?: string;
+}
+
+const TITLE_WEIGHT = 0.5;
+const YEAR_WEIGHT = 0.4;
+const RUNTIME_WEIGHT = 0.1;
+const RELEASE_YEAR_PATTERN = /(?:^|[.\s_([-])((?:19|20)\d{2})(?=[.\s_)\]-]|$)/;
+/** The score of a signal that is missing, e.g. the release name has no year in it. */
+const UNKNOWN_SCORE = 0.5;
+
+/** `tt0133093` and `0133093` are the same IMDb ID. */
+const normalizeImdbId = (imdbId: string): string =>
+  imdbId.replace(/\D/g, '').replace(/^0+/, '');
+
+const parseRuntimeMinutes = (runtime: string | undefined): number | null => {
+  if (!runtime) {
+    return null;
+  }
+  const hours = Number(runtime.match(/(\d+)\s*h/i)?.[1] ?? 0);
+  const minutes = Number(runtime.match(/(\d+)\s*min/i)?.[1] ?? 0);
+  const total = hours * 60 + minutes;
+  return total > 0 ? total : null;
+};
+
+const getYearScore = (releaseYear: number | null, searched: SearchedTitle): number => {
+  const [firstYear, lastYear] = (searched.releaseInfo?.match(/\d{4}/g) ?? []).map(Number);
+  if (!releaseYear || !firstYear) {
+    return UNKNOWN_SCORE;
+  }
+  if (searched.isSeries) {
+    // a season pack can be released in any year while the show is running
+    const isInRange =
+      releaseYear >= firstYear && releaseYear <= (lastYear ?? new Date().getFullYear());
+    return isInRange ? 1 : 0;
+  }
+  const difference = Math.abs(releaseYear - firstYear);
+  // festival premieres and wide releases can be in different years
+  return difference === 0 ? 1 : difference === 1 ? 0.6 : 0;
+};
+
+const getRuntimeScore = (
+  mediaFileSize: number | null,
+  searched: SearchedTitle,
+): number => {
+  const runtimeMinutes = parseRuntimeMinutes(searched.runtime);
+  if (!runtimeMinutes || !mediaFileSize) {
+    return UNKNOWN_SCORE;
+  }
+  return mediaFileSize / runtimeMinutes >= MIN_BYTES_PER_RUNTIME_MINUTE ? 1 : 0;
+};
+
+/**
+ * Tells how likely it is that a result of a name search belongs to the searched movie
+ * or show, between 0 and 1. The title, the year and the size compared to the runtime
+ * are weighed, except if the tracker knows the IMDb ID of the torrent, because that
+ * decides it.
+ */
+export const scoreSpeculatedMatch = (
+  candidate: SpeculatedCandidate,
+  searched: SearchedTitle,
+): number => {
+  if (candidate.imdbId && normalizeImdbId(candidate.imdbId)) {
+    return normalizeImdbId(candidate.imdbId) === normalizeImdbId(searched.imdbId) ? 1 : 0;
+  }
+  const parsed = filenameParse(candidate.releaseName, searched.isSeries);
+  // the parser keeps the year in the title of series, e.g. "Dark.2017.S01" → "Dark 2017"
+  const releaseYear =
+    parseYear(parsed.year) ??
+    parseYear(candidate.releaseName.match(RELEASE_YEAR_PATTERN)?.[1]);
+  const releaseTitle = parsed.title.replace(/\s(?:19|20)\d{2}$/, '');
+  const titleScore = Math.max(
+    0,
+    ...searched.titles.map((title) => getTitleSimilarity(releaseTitle, title)),
+  );
+  const yearScore = getYearScore(releaseYear, searched);
+  const runtimeScore = getRuntimeScore(candidate.mediaFileSize, searched);
+  return (
+    titleScore * TITLE_WEIGHT + yearScore * YEAR_WEIGHT + runtimeScore * RUNTIME_WEIGHT
+  );
+};
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TorrentSourceManager } from './torrent-source-manager';
+import type { TorrentSource } from './types';
+
+const createSource = (
+  name: string,
+  getRemovableInfoHashes: () => Promise<string[]>,
+): TorrentSource => ({
+  name,
+  displayName: name,
+  getTorrentsForImdbId: async () => [],
+  getTorrentUrlBySourceId: async () => null,
+  getRemovableInfoHashes,
+  getConfigIssues: async () => null,
+});
+
+const wait = <T>(ms: number, value: T) =>
+  new Promise<T>((resolve) => setTimeout(() => resolve(value), ms));
+
+describe('TorrentSourceManager', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should wait for the removable torrents longer than the search deadline', async () => {
+    const manager = new TorrentSourceManager(
+      [createSource('slow', () => wait(60_000, ['abc']))],
+      {
+        sourceTimeoutMs: 10_000,
+        requestTimeoutMs: 10_000,
+        streamResponseTimeoutMs: null,
+      },
+    );
+
+    const result = manager.getRemovableInfoHashes();
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(await result).toEqual(['abc']);
+    expect(manager.getSourceHealth()[0].consecutiveFailures).toBe(0);
+  });
+
+  it('should not count the failures of the cleanup in the health of a source', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const manager = new TorrentSourceManager(
+      [
+        createSource('failing', () => Promise.reject(new Error('nCore is down'))),
+        createSource('working', async () => ['def']),
+      ],
+      {
+        sourceTimeoutMs: 10_000,
+        requestTimeoutMs: 10_000,
+        streamResponseTimeoutMs: null,
+      },
+    );
+
+    for (let run = 0; run < 5; run++) {
+      expect(await manager.getRemovableInfoHashes()).toEqual(['def']);
+    }
+    expect(manager.getSourceHealth()[0].consecutiveFailures).toBe(0);
+  });
+});
@@ -1,6 +1,20 @@
+import { LRUCache } from 'lru-cache';
 import { isNotNull } from '@/utils/type-guards';
-import type { TorrentDetails, TorrentSource, TorrentSourceIssue } from './types';
+import type {
+  TorrentDetails,
+  TorrentSearchResult,
+  TorrentSource,
+  TorrentSourceIssue,
+  TorrentSourceReference,
+} from './types';
+import { mergeDuplicateTorrents } from './merge-torrents';
+import { SourceHealthTracker } from './source-health';
+import { SourceTimeoutError, SourceUnavailableError } from './torrent-source.error';
+import { NcoreService, type NcoreBookmark } from './ncore';
 import type { StreamQuery } from '@/schemas/stream.schema';
+import type { TorrentSourceHealth } from '@/types/torrent-source';
+import type { NcoreAccountResponse } from '@/types/ncore-account';
+import { DEFAULT_MAX, DEFAULT_TTL } from '@/utils/cache';
 
 async function awaitAllReachablePromises<T>(promises: Promise<T>[]): Promise<T[]> {
   const awaitedResults: PromiseSettledResult<T>[] = await Promise.allSettled(promises);
@@ -16,41 +30,234 @@ async function awaitAllReachablePromises<T>(promises: Promise<T>[]): Promise<T[]
   return successfulResults.map(({ value }) => value);
 }
 
+/**
+ * Rejects if the promise doesn't settle in time. The work of the source can't be
+ * cancelled, but nobody waits for it anymore.
+ */
+async function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  message: string,
+): Promise<T> {
+  let timeout: NodeJS.Timeout | undefined;
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timeout = setTimeout(() => reject(new SourceTimeoutError(message)), timeoutMs);
+  });
+  try {
+    return await Promise.race([promise, timeoutPromise]);
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/** Resolves with `true` if the promise settled in time, and with `false` if it didn't. */
+async function settlesWithin(promise: Promise<unknown>, timeoutMs: number) {
+  let timeout: NodeJS.Timeout | undefined;
+  const timeoutPromise = new Promise<false>((resolve) => {
+    timeout = setTimeout(() => resolve(false), timeoutMs);
+  });
+  try {
+    return await Promise.race([promise.then(() => true as const), timeoutPromise]);
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+export interface TorrentSourceTimeouts {
+  /** How long a single call to a source can take. */
+  sourceTimeoutMs: number;
+  /** How long a request waits for all sources together. */
+  requestTimeoutMs: number;
+  /**
+   * How long a stream request waits before it answers with the results that are ready,
+   * `null` means that it waits for every source. The rest is waited for in the background.
+   */
+  streamResponseTimeoutMs: number | null;
+}
+
+/** A search that is still running, so that parallel requests for the same media share it. */
+interface RunningSearch {
+  torrents: TorrentDetails[];
+  isComplete: boolean;
+  done: Promise<void>;
+}
+
+type SearchParams = Pick<StreamQuery, 'imdbId' | 'type' | 'season' | 'episode'>;
+
+const getSearchKey = ({ imdbId, type, season, episode }: SearchParams) =>
+  [type, imdbId, season, episode].filter((part) => part !== undefined).join(':');
+
 export class TorrentSourceManager {
-  private sources: TorrentSource[];
-  constructor(sources: (TorrentSource | null)[]) {
-    this.sources = sources.filter((source): source is TorrentSource => source !== null);
+  /** Sources that are set up through environment variables, e.g. the local library. */
+  private staticSources: TorrentSource[];
+  /** Sources that are managed from the web UI, see `TorrentSourceConfigService`. */
+  private configuredSources: TorrentSource[] = [];
+  /** Keyed by the source names, so that the health is kept when the sources are reloaded. */
+  private health = new Map<string, SourceHealthTracker>();
+  private runningSearches = new Map<string, RunningSearch>();
+  /** The results of the searches that every source answered or gave up on. */
+  private completeSearches = new LRUCache<string, TorrentDetails[]>({
+    max: DEFAULT_MAX,
+    ttl: DEFAULT_TTL,
+    ttlAutopurge: true,
+  });
+
+  constructor(
+    staticSources: (TorrentSource | null)[],
+    private timeouts: TorrentSourceTimeouts,
+  ) {
+    this.staticSources = staticSources.filter(
+      (source): source is TorrentSource => source !== null,
+    );
   }
 
+  private get sources(): TorrentSource[] {
+    return [...this.configuredSources, ...this.staticSources];
+  }
+
+  /** Replaces the configured sources without restarting the addon. */
+  public setConfiguredSources(sources: TorrentSource[]) {
+    this.configuredSources = sources;
+    this.completeSearches.clear();
+  }
+
+  private getHealthTracker(source: TorrentSource): SourceHealthTracker {
+    let tracker = this.health.get(source.name);
+    if (!tracker) {
+      tracker = new SourceHealthTracker();
+      this.health.set(source.name, tracker);
+    }
+    return tracker;
+  }
+
+  /**
+   * Calls a source within the deadline, and records the result in its health history.
+   * @throws {SourceUnavailableError} If the circuit breaker of the source is open.
+   * @throws {SourceTimeoutError} If the source doesn't answer before the deadline.
+   */
+  private async callSource<T>(
+    source: TorrentSource,
+    operation: string,
+    call: (source: TorrentSource) => Promise<T>,
+    deadline = Date.now() + this.timeouts.sourceTimeoutMs,
+  ): Promise<T> {
+    const tracker = this.getHealthTracker(source);
+    if (!tracker.tryAcquire()) {
+      throw new SourceUnavailableError(
+        `${source.displayName} is skipped, because it failed too many times in a row.`,
+      );
+    }
+    const startedAt = new Date();
+    const timeoutMs = Math.max(
+      0,
+      Math.min(this.timeouts.sourceTimeoutMs, deadline - startedAt.getTime()),
+    );
+    try {
+      const result = await withTimeout(
+        call(source),
+        timeoutMs,
+        `${source.displayName} did not answer in ${Math.round(timeoutMs / 1000)} seconds.`,
+      );
+      tracker.recordSuccess(operation, startedAt, Date.now() - startedAt.getTime());
+      return result;
+    } catch (error) {
+      tracker.recordFailure(
+        operation,
+        startedAt,
+        Date.now() - startedAt.getTime(),
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * The cleanup runs in the background, where nCore fetches the torrents one by one at a
+   * low priority. So it's not held to the deadlines of the searches, and its failures
+   * don't count in the health of the sources.
+   */
   public async getRemovableInfoHashes(): Promise<string[]> {
-    const promises = this.sources.map(async (source) => source.getRemovableInfoHashes());
-    const results = (await awaitAllReachablePromises(promises)).flat();
-    return results;
+    const results = await awaitAllReachablePromises(
+      this.sources.map((source) => source.getRemovableInfoHashes()),
+    );
+    return results.flat();
   }
 
   public async getTorrentUrlBySourceId({
     sourceId,
     sourceName,
-  }: {
-    sourceId: string;
-    sourceName: string;
-  }): Promise<string | null> {
+  }: TorrentSourceReference): Promise<string | null> {
     const source = this.sources.find((source) => source.name === sourceName);
     if (!source) {
       console.error(`Source ${sourceName} not found or not enabled.`);
       return null;
     }
-    return source.getTorrentUrlBySourceId(sourceId);
+    return this.callSource(source, 'torrent-url', (source) =>
+      source.getTorrentUrlBySourceId(sourceId),
+    );
   }
 
-  public async getTorrentsForImdbId(
-    params: Pick<StreamQuery, 'imdbId' | 'type' | 'season' | 'episode'>,
-  ): Promise<TorrentDetails[]> {
-    const promises = this.sources.map(async (source) =>
-      source.getTorrentsForImdbId(params),
-    );
-    const results = (await awaitAllReachablePromises(promises)).flat();
-    return results;
+  private startSearch(params: SearchParams): RunningSearch {
+    const deadline = Date.now() + this.timeouts.requestTimeoutMs;
+    const search: RunningSearch = {
+      torrents: [],
+      isComplete: false,
+      done: Promise.resolve(),
+    };
+    const promises = this.sources
+      .filter((source) => !this.getHealthTracker(source).isCircuitOpen())
+      .map(async (source) => {
+        try {
+          const torrents = await this.callSource(
+            source,
+            'search',
+            (source) => source.getTorrentsForImdbId(params),
+            deadline,
+          );
+          search.torrents.push(...torrents);
+        } catch (error) {
+          console.error(error ?? 'Unknown error occurred.');
+        }
+      });
+    search.done = Promise.all(promises).then(() => {
+      search.isComplete = true;
+    });
+    return search;
+  }
+
+  /**
+   * Returns the torrents that the sources found within `streamResponseTimeoutMs`. The
+   * sources that are still searching are waited for in the background, and the complete
+   * results are cached, so that the next request for the same media gets all of them.
+   */
+  public async getAvailableTorrentsForImdbId(
+    params: SearchParams,
+  ): Promise<TorrentSearchResult> {
+    const key = getSearchKey(params);
+    const completeTorrents = this.completeSearches.get(key);
+    if (completeTorrents) {
+      return { torrents: completeTorrents, isComplete: true };
+    }
+    let search = this.runningSearches.get(key);
+    if (!search) {
+      const newSearch = this.startSearch(params);
+      this.runningSearches.set(key, newSearch);
+      newSearch.done.then(() => {
+        this.runningSearches.delete(key);
+        this.completeSearches.set(key, mergeDuplicateTorrents(newSearch.torrents));
+      });
+      search = newSearch;
+    }
+    const { streamResponseTimeoutMs } = this.timeouts;
+    if (streamResponseTimeoutMs === null) {
+      await search.done;
+    } else {
+      await settlesWithin(search.done, streamResponseTimeoutMs);
+    }
+    return {
+      torrents: mergeDuplicateTorrents(search.torrents),
+      isComplete: search.isComplete,
+    };
   }
 
   public async getSourceConfigIssues(): Promise<TorrentSourceIssue[]> {
@@ -63,20 +270,106 @@ export class TorrentSourceManager {
         },
       ];
     }
+    const deadline = Date.now() + this.timeouts.requestTimeoutMs;
     const promises: Promise<TorrentSourceIssue | null>[] = this.sources.map(
       async (source) => {
-        const issue = await source.getConfigIssues();
-        if (!issue) {
+        const tracker = this.getHealthTracker(source);
+        if (tracker.isCircuitOpen()) {
+          const { consecutiveFailures, circuitOpenUntil, lastError } = tracker.getHealth({
+            id: source.name,
+            sourceName: source.displayName,
+          });
+          const minutesLeft = Math.max(
+            1,
+            Math.ceil((new Date(circuitOpenUntil ?? 0).getTime() - Date.now()) / 60_000),
+          );
+          return {
+            id: source.name,
+            sourceName: source.displayName,
+            message: `The source is skipped for ${minutesLeft} more minutes, because it failed ${consecutiveFailures} times in a row. Last error: ${lastError?.message ?? 'unknown'}`,
+          };
+        }
+        try {
+          // an issue counts as a failure, so that it shows up in the health of the source
+          await this.callSource(
+            source,
+            'config-check',
+            async (source) => {
+              const issue = await source.getConfigIssues();
+              if (issue) {
+                throw new Error(issue);
+              }
+            },
+            deadline,
+          );
           return null;
+        } catch (error) {
+          return {
+            id: source.name,
+            sourceName: source.displayName,
+            message: error instanceof Error ? error.message : 'Unknown error occurred.',
+          };
         }
-        return {
-          id: source.name,
-          sourceName: source.displayName,
-          message: issue,
-        };
       },
     );
     const results = (await awaitAllReachablePromises(promises)).flat().filter(isNotNull);
     return results;
   }
+
+  /** The accounts of the enabled nCore sources. A failing source is returned with its error. */
+  public async getNcoreAccounts(): Promise<NcoreAccountResponse[]> {
+    const ncoreSources = this.sources.filter(
+      (source): source is NcoreService => source instanceof NcoreService,
+    );
+    return Promise.all(
+      ncoreSources.map(async (source) => {
+        const response = {
+          id: source.name,
+          sourceName: source.displayName,
+          fetchedAt: new Date().toISOString(),
+        };
+        try {
+          const account = await this.callSource(source, 'account', () =>
+            source.getAccount(),
+          );
+          return { ...response, account, error: null };
+        } catch (error) {
+          console.error(`Failed to get the account of ${source.displayName}`, error);
+          return {
+            ...response,
+            account: null,
+            error: error instanceof Error ? error.message : 'Unknown error occurred.',
+          };
+        }
+      }),
+    );
+  }
+
+  /** The bookmarks of the enabled nCore sources. The failing sources are left out. */
+  public async getNcoreBookmarks(): Promise<NcoreBookmark[]> {
+    const ncoreSources = this.sources.filter(
+      (source): source is NcoreService => source instanceof NcoreService,
+    );
+    const results = await Promise.allSettled(
+      ncoreSources.map((source) =>
+        this.callSource(source, 'bookmarks', () => source.getBookmarks()),
+      ),
+    );
+    return results.flatMap((result) => {
+      if (result.status === 'rejected') {
+        console.error('Failed to get the nCore bookmarks', result.reason);
+        return [];
+      }
+      return result.value;
+    });
+  }
+
+  public getSourceHealth(): TorrentSourceHealth[] {
+    return this.sources.map((source) =>
+      this.getHealthTracker(source).getHealth({
+        id: source.name,
+        sourceName: source.displayName,
+      }),
+    );
+  }
 }
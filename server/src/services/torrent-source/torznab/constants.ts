@@ -0,0 +1,34 @@
+import { Resolution } from '@/db/schema/users';
+
+/**
+ * Newznab/Torznab category ids.
+ * @see https://torznab.github.io/spec-1.3-draft/external/newznab/api.html#predefined-categories
+ */
+export enum TorznabCategory {
+  MOVIES = 2000,
+  MOVIES_SD = 2030,
+  MOVIES_HD = 2040,
+  MOVIES_UHD = 2045,
+  TV = 5000,
+  TV_SD = 5030,
+  TV_HD = 5040,
+  TV_UHD = 5045,
+}
+
+export const torznabCategoryResolutions: Partial<Record<TorznabCategory, Resolution>> = {
+  [TorznabCategory.MOVIES_SD]: Resolution.R480P,
+  [TorznabCategory.MOVIES_HD]: Resolution.R720P,
+  [TorznabCategory.MOVIES_UHD]: Resolution.R2160P,
+  [TorznabCategory.TV_SD]: Resolution.R480P,
+  [TorznabCategory.TV_HD]: Resolution.R720P,
+  [TorznabCategory.TV_UHD]: Resolution.R2160P,
+};
+
+/** Query params that carry the indexer's api key inside download links. */
+export const API_KEY_PARAM_NAMES = ['apikey', 'jackett_apikey'];
+
+/** Release names containing one of these are considered to have Hungarian audio. */
+export const HUNGARIAN_RELEASE_NAME_REGEX = /\b(hun|hungarian|magyar)\b/i;
+
+export const BATCH_SIZE = 10;
+export const BATCH_DELAY = 200;
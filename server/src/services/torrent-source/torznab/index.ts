@@ -0,0 +1,4 @@
+export type { TorznabItem } from './types';
+export { TorznabService } from './torznab.service';
+export { TorznabError } from './torznab.error';
+export { parseTorznabFeed } from './torznab-feed';
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { parseTorznabFeed } from './torznab-feed';
+import { TorznabError } from './torznab.error';
+
+const feed = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:torznab="http://torznab.com/schemas/2015/feed">
+  <channel>
+    <title>Jackett</title>
+    <item>
+      <title>The.Matrix.1999.1080p.BluRay.x264-GROUP</title>
+      <guid>https://tracker.example/details/123</guid>
+      <jackettindexer id="tracker">Tracker</jackettindexer>
+      <link>http://jackett:9117/dl/tracker/?jackett_apikey=secret&amp;path=abc</link>
+      <size>8589934592</size>
+      <category>2040</category>
+      <enclosure url="http://jackett:9117/dl/tracker/?jackett_apikey=secret&amp;path=abc" length="8589934592" type="application/x-bittorrent" />
+      <torznab:attr name="category" value="2040" />
+      <torznab:attr name="category" value="100001" />
+      <torznab:attr name="seeders" value="42" />
+      <torznab:attr name="imdb" value="133093" />
+      <torznab:attr name="infohash" value="ABCDEF0123456789ABCDEF0123456789ABCDEF01" />
+    </item>
+    <item>
+      <title>Item without link</title>
+    </item>
+  </channel>
+</rss>`;
+
+describe('parseTorznabFeed', () => {
+  it('should parse the items of the feed', () => {
+    const items = parseTorznabFeed(feed);
+    expect(items).toEqual([
+      {
+        title: 'The.Matrix.1999.1080p.BluRay.x264-GROUP',
+        guid: 'https://tracker.example/details/123',
+        link: 'http://jackett:9117/dl/tracker/?jackett_apikey=secret&path=abc',
+        size: 8589934592,
+        seeders: 42,
+        categories: [2040, 100001],
+        infoHash: 'abcdef0123456789abcdef0123456789abcdef01',
+        imdbId: 'tt0133093',
+        indexer: 'Tracker',
+      },
+    ]);
+  });
+
+  it('should return an empty list if the feed has no items', () => {
+    expect(parseTorznabFeed('<rss><channel></channel></rss>')).toEqual([]);
+  });
+
+  it('should throw the error of the Torznab endpoint', () => {
+    expect(() =>
+      parseTorznabFeed('<error code="100" description="Invalid API Key" />'),
+    ).toThrowError(new TorznabError('Invalid API Key', '100'));
+  });
+});
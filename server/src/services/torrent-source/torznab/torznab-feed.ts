@@ -0,0 +1,77 @@
+import { JSDOM } from 'jsdom';
+import type { TorznabItem } from './types';
+import { TorznabError } from './torznab.error';
+
+const getChildText = (element: Element, tagName: string): string | null =>
+  element.getElementsByTagName(tagName)[0]?.textContent?.trim() ?? null;
+
+const getTorznabAttributes = (item: Element): Map<string, string[]> => {
+  const attributes = new Map<string, string[]>();
+  for (const attr of Array.from(item.getElementsByTagName('torznab:attr'))) {
+    const name = attr.getAttribute('name');
+    const value = attr.getAttribute('value');
+    if (!name || value === null) continue;
+    attributes.set(name, [...(attributes.get(name) ?? []), value]);
+  }
+  return attributes;
+};
+
+const normalizeImdbId = (imdbId: string | undefined): string | null => {
+  if (!imdbId || !/^(tt)?\d+$/.test(imdbId)) return null;
+  const digits = imdbId.replace('tt', '');
+  return `tt${digits.padStart(7, '0')}`;
+};
+
+const parseItem = (item: Element): TorznabItem | null => {
+  const attributes = getTorznabAttributes(item);
+  const enclosure = item.getElementsByTagName('enclosure')[0];
+  const link = enclosure?.getAttribute('url') ?? getChildText(item, 'link');
+  const title = getChildText(item, 'title');
+  if (!link || !title) return null;
+
+  const size = Number(
+    attributes.get('size')?.[0] ??
+      getChildText(item, 'size') ??
+      enclosure?.getAttribute('length'),
+  );
+  const categories = [
+    ...(attributes.get('category') ?? []),
+    ...Array.from(item.getElementsByTagName('category')).map((c) => c.textContent ?? ''),
+  ]
+    .map(Number)
+    .filter((category) => Number.isInteger(category) && category > 0);
+
+  return {
+    title,
+    guid: getChildText(item, 'guid') ?? link,
+    link,
+    size: Number.isFinite(size) ? size : 0,
+    seeders: Number(attributes.get('seeders')?.[0] ?? 0) || 0,
+    categories: [...new Set(categories)],
+    infoHash: attributes.get('infohash')?.[0]?.toLowerCase() ?? null,
+    imdbId: normalizeImdbId(attributes.get('imdbid')?.[0] ?? attributes.get('imdb')?.[0]),
+    indexer:
+      getChildText(item, 'jackettindexer') ?? getChildText(item, 'prowlarrindexer'),
+  };
+};
+
+/**
+ * Parses the RSS feed returned by a Torznab endpoint.
+ * @throws {TorznabError} if the endpoint responded with a Torznab error document.
+ */
+export const parseTorznabFeed = (xml: string): TorznabItem[] => {
+  const { document } = new JSDOM(xml, { contentType: 'text/xml' }).window;
+  const error = document.getElementsByTagName('error')[0];
+  if (error) {
+    throw new TorznabError(
+      error.getAttribute('description') ?? 'Unknown Torznab error',
+      error.getAttribute('code') ?? undefined,
+    );
+  }
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new TorznabError('Torznab endpoint did not respond with a valid XML feed.');
+  }
+  return Array.from(document.getElementsByTagName('item'))
+    .map(parseItem)
+    .filter((item): item is TorznabItem => item !== null);
+};
@@ -0,0 +1,62 @@
+import {
+  TorrentDetails,
+  type ParsedTorrentDetails,
+  type TorrentFileDetails,
+} from '../types';
+import type { TorznabItem } from './types';
+import {
+  HUNGARIAN_RELEASE_NAME_REGEX,
+  torznabCategoryResolutions,
+  type TorznabCategory,
+} from './constants';
+import { Language, Resolution } from '@/db/schema/users';
+
+export class TorznabTorrentDetails extends TorrentDetails {
+  public sourceName: string;
+  public sourceId: string;
+  public infoHash: string;
+  public fallbackResolution: Resolution;
+  public files: TorrentFileDetails[];
+  /** If true, then this torrent might not belong to the searched movie/show. */
+  public isSpeculated?: boolean = false;
+
+  private title: string;
+  private seeders: number;
+  private indexer: string;
+
+  constructor(
+    sourceName: string,
+    sourceId: string,
+    torznabItem: TorznabItem,
+    parsedDetails: ParsedTorrentDetails,
+  ) {
+    super();
+    this.sourceName = sourceName;
+    this.sourceId = sourceId;
+    this.infoHash = parsedDetails.infoHash;
+    this.files = parsedDetails.files;
+    this.fallbackResolution =
+      torznabItem.categories
+        .map((category) => torznabCategoryResolutions[category as TorznabCategory])
+        .find((resolution) => resolution !== undefined) ?? Resolution.R720P;
+    this.title = torznabItem.title;
+    this.seeders = torznabItem.seeders;
+    this.indexer = torznabItem.indexer ?? 'Torznab';
+  }
+
+  public displayResolution(resolution: Resolution): string {
+    return `${this.indexer} (${resolution})`;
+  }
+
+  public getName(): string {
+    return this.title;
+  }
+
+  public getSeed(): number {
+    return this.seeders;
+  }
+
+  public getLanguage(): Language {
+    return HUNGARIAN_RELEASE_NAME_REGEX.test(this.title) ? Language.HU : Language.EN;
+  }
+}
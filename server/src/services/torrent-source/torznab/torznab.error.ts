@@ -0,0 +1,9 @@
+export class TorznabError extends Error {
+  constructor(
+    message?: string,
+    public code?: string,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+  }
+}
@@ -0,0 +1,219 @@
+import type { TorrentSource } from '../types';
+import { TorznabSearchFunction, type TorznabQueryParams } from './types';
+import {
+  API_KEY_PARAM_NAMES,
+  BATCH_DELAY,
+  BATCH_SIZE,
+  TorznabCategory,
+} from './constants';
+import { parseTorznabFeed } from './torznab-feed';
+import { TorznabError } from './torznab.error';
+import { TorznabTorrentDetails } from './torznab-torrent-details';
+import type { TorrentService } from '@/services/torrent';
+import type { StreamQuery } from '@/schemas/stream.schema';
+import { StreamType } from '@/schemas/stream.schema';
+import type { CinemeatService } from '@/services/cinemeta';
+import { processInBatches } from '@/utils/process-in-batches';
+import { isPlayableFile } from '@/utils/media-file-extensions';
+import { isNotNull } from '@/utils/type-guards';
+import { Cached, DEFAULT_MAX, DEFAULT_TTL } from '@/utils/cache';
+
+/**
+ * A torrent source that works with any Torznab compatible endpoint (Jackett, Prowlarr, etc.).
+ * @see https://torznab.github.io/spec-1.3-draft/
+ */
+export class TorznabService implements TorrentSource {
+  /**
+   * @param torznabUrl The full URL of the Torznab API endpoint.
+   * Example: `http://jackett:9117/api/v2.0/indexers/all/results/torznab/api`
+   */
+  constructor(
+    private torrentService: TorrentService,
+    private cinemetaService: CinemeatService,
+    public name: string,
+    public displayName: string,
+    private torznabUrl: string,
+    private torznabApiKey: string,
+  ) {}
+
+  private getFeedUrl(params: TorznabQueryParams): string {
+    const url = new URL(this.torznabUrl);
+    url.searchParams.set('apikey', this.torznabApiKey);
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) {
+        url.searchParams.set(key, value);
+      }
+    });
+    return url.toString();
+  }
+
+  private async fetchFeed(feedUrl: string) {
+    const response = await fetch(feedUrl);
+    if (!response.ok) {
+      throw new TorznabError(
+        `Torznab endpoint responded with ${response.status} ${response.statusText}`,
+        `${response.status}`,
+      );
+    }
+    return parseTorznabFeed(await response.text());
+  }
+
+  /**
+   * Download links contain the api key of the indexer, so it's removed before the link
+   * is used as a source ID (which ends up in stream URLs).
+   */
+  private encodeSourceId(link: string): string {
+    const url = new URL(link);
+    API_KEY_PARAM_NAMES.forEach((paramName) => {
+      if (url.searchParams.has(paramName)) {
+        url.searchParams.set(paramName, '');
+      }
+    });
+    return Buffer.from(url.toString()).toString('base64url');
+  }
+
+  private decodeSourceId(sourceId: string): string | null {
+    try {
+      const url = new URL(Buffer.from(sourceId, 'base64url').toString());
+      // only allow links that point to the configured indexer
+      if (url.origin !== new URL(this.torznabUrl).origin) {
+        return null;
+      }
+      API_KEY_PARAM_NAMES.forEach((paramName) => {
+        if (url.searchParams.has(paramName)) {
+          url.searchParams.set(paramName, this.torznabApiKey);
+        }
+      });
+      return url.toString();
+    } catch {
+      return null;
+    }
+  }
+
+  @Cached({
+    max: DEFAULT_MAX,
+    ttl: DEFAULT_TTL,
+    ttlAutopurge: true,
+    generateKey: function (this: TorznabService, feedUrl) {
+      return `${this.name}:${feedUrl}`;
+    },
+  })
+  private async getTorrentsForFeedUrl(feedUrl: string): Promise<TorznabTorrentDetails[]> {
+    const items = await this.fetchFeed(feedUrl);
+
+    const torrents = await processInBatches(
+      items,
+      BATCH_SIZE,
+      BATCH_DELAY,
+      async (item) => {
+        try {
+          const sourceId = this.encodeSourceId(item.link);
+          const parsedData = await this.torrentService.getTorrentMetadata(
+            {
+              sourceName: this.name,
+              sourceId,
+              category: item.categories.join(',') || null,
+              releaseName: item.title,
+            },
+            item.link,
+          );
+          return new TorznabTorrentDetails(this.name, sourceId, item, parsedData);
+        } catch (error) {
+          // e.g. the indexer only provides a magnet link for this item
+          console.error(`Failed to get torrent file for "${item.title}"`, error);
+          return null;
+        }
+      },
+    );
+    const uniqueTorrents = new Map<string, TorznabTorrentDetails>();
+    torrents.filter(isNotNull).forEach((torrent) => {
+      const existing = uniqueTorrents.get(torrent.infoHash);
+      if (!existing || existing.getSeed() < torrent.getSeed()) {
+        uniqueTorrents.set(torrent.infoHash, torrent);
+      }
+    });
+    return Array.from(uniqueTorrents.values());
+  }
+
+  private async getTorrentsForQuery(
+    params: TorznabQueryParams,
+  ): Promise<TorznabTorrentDetails[]> {
+    return this.getTorrentsForFeedUrl(this.getFeedUrl(params));
+  }
+
+  private filterTorrentsBySeasonAndEpisode(
+    torrents: TorznabTorrentDetails[],
+    { season, episode }: { season?: number; episode?: number },
+  ) {
+    return torrents.filter((torrent) => {
+      const file = torrent.files[torrent.getMediaFileIndex({ season, episode })];
+      return file !== undefined && isPlayableFile(file.path);
+    });
+  }
+
+  public async getTorrentsForImdbId({
+    imdbId,
+    type,
+    season,
+    episode,
+  }: Pick<StreamQuery, 'imdbId' | 'type' | 'season' | 'episode'>): Promise<
+    TorznabTorrentDetails[]
+  > {
+    const searchParams: Omit<TorznabQueryParams, 'q' | 'imdbid'> =
+      type === StreamType.MOVIE
+        ? { t: TorznabSearchFunction.MOVIE, cat: `${TorznabCategory.MOVIES}` }
+        : {
+            t: TorznabSearchFunction.TV,
+            cat: `${TorznabCategory.TV}`,
+            // episode is not sent, so that season packs are included as well
+            season: season !== undefined ? `${season}` : undefined,
+          };
+
+    let torrents = await this.getTorrentsForQuery({ ...searchParams, imdbid: imdbId });
+    torrents = this.filterTorrentsBySeasonAndEpisode(torrents, { season, episode });
+
+    if (torrents.length > 0) {
+      return torrents;
+    }
+    let name = '';
+    try {
+      const cinemetaData = await this.cinemetaService.getMetadataByImdbId(type, imdbId);
+      name = cinemetaData.meta.name;
+    } catch (error) {
+      console.error('Failed to get metadata from Cinemeta', error);
+      return [];
+    }
+    torrents = await this.getTorrentsForQuery({ ...searchParams, q: name });
+    torrents.forEach((torrent) => {
+      torrent.isSpeculated = true;
+    });
+    torrents = this.filterTorrentsBySeasonAndEpisode(torrents, { season, episode });
+
+    return torrents;
+  }
+
+  public async getTorrentUrlBySourceId(sourceId: string): Promise<string | null> {
+    const torrentUrl = this.decodeSourceId(sourceId);
+    if (!torrentUrl) {
+      console.error(`Invalid Torznab source ID: ${sourceId}`);
+    }
+    return torrentUrl;
+  }
+
+  public async getRemovableInfoHashes(): Promise<string[]> {
+    // Torznab doesn't expose the seeding requirements of the indexers.
+    return [];
+  }
+
+  public async getConfigIssues(): Promise<string | null> {
+    try {
+      // the capabilities document has no items, but errors are still reported
+      await this.fetchFeed(this.getFeedUrl({ t: TorznabSearchFunction.CAPABILITIES }));
+      return null;
+    } catch (error) {
+      console.error('Failed to reach the Torznab endpoint while checking config', error);
+      const reason = error instanceof Error ? ` (${error.message})` : '';
+      return `Failed to reach the Torznab endpoint${reason}. Check the URL and the API key of the torrent source.`;
+    }
+  }
+}
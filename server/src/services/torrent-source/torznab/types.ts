@@ -0,0 +1,28 @@
+export enum TorznabSearchFunction {
+  CAPABILITIES = 'caps',
+  SEARCH = 'search',
+  MOVIE = 'movie',
+  TV = 'tvsearch',
+}
+
+export type TorznabQueryParams = {
+  t: TorznabSearchFunction;
+  q?: string;
+  imdbid?: string;
+  season?: string;
+  cat?: string;
+};
+
+export type TorznabItem = {
+  title: string;
+  guid: string;
+  /** The URL of the .torrent file, with the indexer's api key. */
+  link: string;
+  size: number;
+  seeders: number;
+  categories: number[];
+  infoHash: string | null;
+  imdbId: string | null;
+  /** The name of the indexer that produced the item (set by Jackett and Prowlarr). */
+  indexer: string | null;
+};
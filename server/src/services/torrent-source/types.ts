@@ -1,7 +1,13 @@
-import type { ParsedShow } from '@ctrl/video-filename-parser';
-import { filenameParse, parseResolution } from '@ctrl/video-filename-parser';
-import type { Resolution, Language } from '@/db/schema/users';
+import { parseResolution } from '@ctrl/video-filename-parser';
+import type { Resolution, Language, ReleaseAttribute } from '@/db/schema/users';
 import type { StreamQuery } from '@/schemas/stream.schema';
+import {
+  resolveEpisodeFile,
+  resolveMainFile,
+  type EpisodeMatch,
+} from './episode-resolver';
+import { parseReleaseAttributes } from './release-attributes';
+import { findRarVolumes } from '../../utils/rar-volumes';
 
 export interface TorrentFileDetails {
   name: string;
@@ -10,6 +16,12 @@ export interface TorrentFileDetails {
   offset: number;
 }
 
+/** Identifies a torrent on one of the sources, see `TorrentSource.getTorrentUrlBySourceId`. */
+export interface TorrentSourceReference {
+  sourceName: string;
+  sourceId: string;
+}
+
 export interface ParsedTorrentDetails {
   infoHash: string;
   files: TorrentFileDetails[];
@@ -47,30 +59,60 @@ export abstract class TorrentDetails implements ParsedTorrentDetails {
    */
   abstract getName(): string;
 
+  /**
+   * The sources that the torrent can be downloaded from, in the order they should be tried.
+   * Torrents found on several sources have more than one, see `MergedTorrentDetails`.
+   */
+  public getSources(): TorrentSourceReference[] {
+    return [{ sourceName: this.sourceName, sourceId: this.sourceId }];
+  }
+
+  /**
+   * Whether the files of the torrent are known. Sources can list torrents before their
+   * torrent files are downloaded, these are resolved when they are played.
+   */
+  public isResolved(): boolean {
+    return true;
+  }
+
+  /** Freeleech torrents don't count against the ratio of the tracker account. */
+  public isFreeleech(): boolean {
+    return false;
+  }
+
+  public getSize(): number {
+    return this.files.reduce((size, file) => size + file.length, 0);
+  }
+
+  /** Keyed by `season:episode`, because resolving the episodes parses every file name. */
+  private episodeMatches = new Map<string, EpisodeMatch | null>();
+
+  /**
+   * Finds the file of an episode, and tells how sure the match is.
+   * @returns `null` if the episode is not in the torrent.
+   */
+  public getEpisodeMatch({
+    season,
+    episode,
+  }: {
+    season: number;
+    episode: number;
+  }): EpisodeMatch | null {
+    const key = `${season}:${episode}`;
+    if (!this.episodeMatches.has(key)) {
+      this.episodeMatches.set(key, resolveEpisodeFile(this.files, { season, episode }));
+    }
+    return this.episodeMatches.get(key) ?? null;
+  }
+
   public getMediaFileIndex({
     season,
     episode,
   }: Pick<StreamQuery, 'season' | 'episode'>): number {
-    const fileSizes = this.files.map((file) => file.length);
-    const biggestFileSize = Math.max(...fileSizes);
-    const biggestFileIndex = fileSizes.indexOf(biggestFileSize);
-
     if (!season || !episode) {
-      return biggestFileIndex;
+      return resolveMainFile(this.files);
     }
-
-    const parsedFileNames = this.files.map((file) => ({
-      file,
-      parsed: filenameParse(file.name, true) as ParsedShow,
-    }));
-    const searchedEpisode = parsedFileNames.find(({ file, parsed }) => {
-      return (
-        !file.path.toLocaleLowerCase().includes('sample') &&
-        parsed.seasons?.includes(season) &&
-        parsed.episodeNumbers?.includes(episode)
-      );
-    });
-    return searchedEpisode ? parsedFileNames.indexOf(searchedEpisode) : -1;
+    return this.getEpisodeMatch({ season, episode })?.fileIndex ?? -1;
   }
 
   public getFile({
@@ -81,10 +123,48 @@ export abstract class TorrentDetails implements ParsedTorrentDetails {
     return this.files[fileIndex] as TorrentFileDetails;
   }
 
+  /**
+   * The size of the played file. RAR archives are as big as all of their volumes, because
+   * only the archives that store the video without compressing it can be played.
+   * @returns `null` if the torrent has no playable file.
+   */
+  public getMediaFileSize({
+    season,
+    episode,
+  }: Pick<StreamQuery, 'season' | 'episode'>): number | null {
+    const fileIndex = this.getMediaFileIndex({ season, episode });
+    const file = this.files[fileIndex] as TorrentFileDetails | undefined;
+    if (!file) {
+      return null;
+    }
+    const volumeIndices = findRarVolumes(this.files, fileIndex);
+    return volumeIndices
+      ? volumeIndices.reduce((size, index) => size + this.files[index].length, 0)
+      : file.length;
+  }
+
+  /** The video and audio formats in the name of the torrent and of the played file. */
+  public getReleaseAttributes({
+    season,
+    episode,
+  }: Pick<StreamQuery, 'season' | 'episode'>): ReleaseAttribute[] {
+    const file = this.files[this.getMediaFileIndex({ season, episode })];
+    return parseReleaseAttributes(this.getName(), ...(file ? [file.name] : []));
+  }
+
   public getResolution(fileName: string): Resolution {
     const resolution = parseResolution(fileName).resolution;
     return resolution ?? this.fallbackResolution;
   }
+
+  /** The resolution of the played file, or of the release if the files are not known yet. */
+  public getMediaResolution({
+    season,
+    episode,
+  }: Pick<StreamQuery, 'season' | 'episode'>): Resolution {
+    const file = this.files[this.getMediaFileIndex({ season, episode })];
+    return this.getResolution(file?.name ?? this.getName());
+  }
 }
 
 export interface TorrentSource {
@@ -98,6 +178,12 @@ export interface TorrentSource {
   getConfigIssues: () => Promise<string | null>;
 }
 
+export interface TorrentSearchResult {
+  torrents: TorrentDetails[];
+  /** `false` if some of the sources were still searching when the results were returned. */
+  isComplete: boolean;
+}
+
 export interface TorrentSourceIssue {
   id: string;
   sourceName: string;
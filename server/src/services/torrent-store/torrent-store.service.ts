@@ -95,6 +95,47 @@ export class TorrentStoreService {
       .filter((item): item is TorrentStoreStats => !!item);
   }
 
+  /** The progress of the torrents between 0 and 1, keyed by their info hash. */
+  public getTorrentProgress(): Map<InfoHash, number> {
+    return new Map(
+      this.client.torrents
+        .filter((torrent) => !!torrent.infoHash)
+        .map((torrent) => [torrent.infoHash, torrent.progress]),
+    );
+  }
+
+  /**
+   * Finds the file that a player is playing, from the size and the name that Stremio sends
+   * along with its subtitle requests. The name decides if several files have the size.
+   */
+  public findTorrentFile({
+    size,
+    name,
+  }: {
+    size: number | undefined;
+    name: string | undefined;
+  }): { torrent: WebTorrent.Torrent; fileIndex: number } | null {
+    const matches = this.client.torrents.flatMap((torrent) =>
+      torrent.files
+        .map((file, fileIndex) => ({ torrent, file, fileIndex }))
+        .filter(
+          ({ file }) =>
+            (size === undefined || file.length === size) &&
+            (name === undefined || size !== undefined || file.name === name),
+        ),
+    );
+    const match = matches.find(({ file }) => file.name === name) ?? matches[0];
+    if (!match || (size === undefined && name === undefined)) {
+      return null;
+    }
+    return { torrent: match.torrent, fileIndex: match.fileIndex };
+  }
+
+  /** Torrents that still download the pieces that were asked for by a player. */
+  public getDownloadingTorrentCount(): number {
+    return this.client.torrents.filter((torrent) => !torrent.done).length;
+  }
+
   public async loadExistingTorrents(): Promise<void> {
     console.log('Looking for torrent files...');
     const savedTorrentFilePaths = globSync(`${env.TORRENTS_DIR}/*.torrent`);
@@ -1,2 +1,2 @@
 export { TorrentService } from './torrent.service';
-export type { ParsedTorrentDetails } from './types';
+export type { ParsedTorrentDetails, TorrentFetch } from './types';
@@ -1,11 +1,44 @@
 import parseTorrent from 'parse-torrent';
 import contentDisposition from 'content-disposition';
-import type { ParsedTorrentDetails } from './types';
+import type { ParsedTorrentDetails, TorrentFetch } from './types';
 import { writeFileWithCreateDir } from '@/utils/files';
 import { env } from '@/env';
 import { Cached, DEFAULT_TTL } from '@/utils/cache';
+import type {
+  TorrentMetadataReference,
+  TorrentMetadataService,
+} from '@/services/torrent-metadata';
 
 export class TorrentService {
+  constructor(private torrentMetadataService: TorrentMetadataService) {}
+
+  /**
+   * Returns the metadata of a torrent of a torrent source. The saved metadata is used if
+   * there is one, so the torrent is only downloaded if it's new or the saved one is stale.
+   * @param torrentUrl A function can be passed if finding the URL needs a request too.
+   * @param fetchTorrent Sources can pass their own fetch, e.g. to limit their request rate.
+   */
+  public async getTorrentMetadata(
+    reference: TorrentMetadataReference,
+    torrentUrl: string | (() => Promise<string>),
+    fetchTorrent: TorrentFetch = fetch,
+  ): Promise<ParsedTorrentDetails> {
+    return this.torrentMetadataService.getOrFetchMetadata(reference, async () =>
+      this.downloadAndParseTorrent(
+        typeof torrentUrl === 'string' ? torrentUrl : await torrentUrl(),
+        fetchTorrent,
+      ),
+    );
+  }
+
+  /** Returns the saved metadata of a torrent without downloading anything. */
+  public getSavedTorrentMetadata(
+    reference: Pick<TorrentMetadataReference, 'sourceName' | 'sourceId'>,
+  ): ParsedTorrentDetails | null {
+    const metadata = this.torrentMetadataService.getMetadata(reference);
+    return metadata ? { infoHash: metadata.infoHash, files: metadata.files } : null;
+  }
+
   @Cached({
     max: 1_000,
     ttl: DEFAULT_TTL,
@@ -14,8 +47,9 @@ export class TorrentService {
   })
   public async downloadAndParseTorrent(
     torrentUrl: string,
+    fetchTorrent: TorrentFetch = fetch,
   ): Promise<ParsedTorrentDetails> {
-    const torrentResponse = await fetch(torrentUrl);
+    const torrentResponse = await fetchTorrent(torrentUrl);
     const buffer = await torrentResponse.arrayBuffer();
     const torrentData = await parseTorrent(new Uint8Array(buffer));
     return {
@@ -7,3 +7,5 @@ export type ParsedTorrentDetails = {
     offset: number;
   }[];
 };
+
+export type TorrentFetch = (torrentUrl: string) => Promise<Response>;
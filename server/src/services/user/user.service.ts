@@ -9,6 +9,7 @@ import { HttpStatusCode } from '@/types/http';
 import { deviceTokensTable } from '@/db/schema/device-tokens';
 import { Transaction } from '@/db/client';
 import { CreateUserRequest, EditUserRequest, User } from '@/types/user';
+import type { RankingProfile } from '@/schemas/ranking-profile.schema';
 
 export class UserService {
   constructor(private db: Database) {}
@@ -37,6 +38,19 @@ export class UserService {
     return user;
   }
 
+  public async getUserById(userId: number): Promise<User> {
+    const [user] = await this.db
+      .select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId));
+    if (!user) {
+      throw new HTTPException(HttpStatusCode.NOT_FOUND, {
+        message: `User with ID ${userId} not found`,
+      });
+    }
+    return new User(user);
+  }
+
   public async getUserByCredentials(credentials: LoginCredentials): Promise<User | null> {
     const [userFromDb] = await this.db
       .select()
@@ -58,7 +72,15 @@ export class UserService {
     tx: Transaction | Database = this.db,
     role = UserRole.USER,
   ): Promise<User> {
-    const { username, password, preferredLanguage, preferredResolutions } = userDetails;
+    const {
+      username,
+      password,
+      preferredLanguage,
+      preferredResolutions,
+      excludedReleaseAttributes,
+      preferredReleaseAttributes,
+      showAllMovieFiles,
+    } = userDetails;
     const passwordHash = await bcrypt.hash(password, PASSWORD_SALT_ROUNDS);
 
     const [userFromDb] = await tx
@@ -69,25 +91,50 @@ export class UserService {
         passwordHash,
         preferred_language: preferredLanguage,
         preferred_resolutions: preferredResolutions,
+        excluded_release_attributes: excludedReleaseAttributes,
+        preferred_release_attributes: preferredReleaseAttributes,
+        show_all_movie_files: showAllMovieFiles,
       })
       .returning();
     return new User(userFromDb);
   }
 
   public async updateUser(userId: number, userDetails: EditUserRequest): Promise<User> {
-    const { username, preferredLanguage, preferredResolutions } = userDetails;
+    const {
+      username,
+      preferredLanguage,
+      preferredResolutions,
+      excludedReleaseAttributes,
+      preferredReleaseAttributes,
+      showAllMovieFiles,
+    } = userDetails;
     const [updatedUser] = await this.db
       .update(usersTable)
       .set({
         username,
         preferred_language: preferredLanguage,
         preferred_resolutions: preferredResolutions,
+        excluded_release_attributes: excludedReleaseAttributes,
+        preferred_release_attributes: preferredReleaseAttributes,
+        show_all_movie_files: showAllMovieFiles,
       })
       .where(eq(usersTable.id, userId))
       .returning();
     return new User(updatedUser);
   }
 
+  public async updateRankingProfile(
+    userId: number,
+    rankingProfile: RankingProfile,
+  ): Promise<User> {
+    const [updatedUser] = await this.db
+      .update(usersTable)
+      .set({ ranking_profile: rankingProfile })
+      .where(eq(usersTable.id, userId))
+      .returning();
+    return new User(updatedUser);
+  }
+
   public async updateUserPassword(userId: number, newPassword: string): Promise<User> {
     const passwordHash = await bcrypt.hash(newPassword, PASSWORD_SALT_ROUNDS);
     const [updatedUser] = await this.db
@@ -0,0 +1,8 @@
+import { StreamType } from '@/schemas/stream.schema';
+
+export const WATCHLIST_CATALOG_ID = 'ncore-watchlist';
+
+export const WATCHLIST_CATALOGS = [
+  { type: StreamType.MOVIE, id: WATCHLIST_CATALOG_ID, name: 'Watchlist' },
+  { type: StreamType.TV_SHOW, id: WATCHLIST_CATALOG_ID, name: 'Watchlist' },
+] as const;
@@ -0,0 +1,3 @@
+export { WatchlistService } from './watchlist.service';
+export type { WatchlistItemResponse } from './types';
+export { WATCHLIST_CATALOG_ID, WATCHLIST_CATALOGS } from './constants';
@@ -0,0 +1,12 @@
+import type { StreamType } from '@/schemas/stream.schema';
+
+/** An item of the watchlist as it's shown in the web UI. */
+export type WatchlistItemResponse = {
+  imdbId: string;
+  type: StreamType;
+  /** ISO date string */
+  addedAt: string;
+  name: string | null;
+  poster: string | null;
+  releaseInfo: string | null;
+};
@@ -0,0 +1,94 @@
+import { and, desc, eq } from 'drizzle-orm';
+import { HTTPException } from 'hono/http-exception';
+import type { Database } from '@/db';
+import { watchlistTable } from '@/db/schema/watchlist';
+import type { StreamType } from '@/schemas/stream.schema';
+import type { WatchlistItemRequest } from '@/schemas/watchlist.schema';
+import type { CatalogMetaPreview, CinemeatService } from '@/services/cinemeta';
+import type { TorrentSourceManager } from '@/services/torrent-source';
+import { HttpStatusCode } from '@/types/http';
+import { isNotNull } from '@/utils/type-guards';
+import type { WatchlistItemResponse } from './types';
+
+/**
+ * The catalog of a user: the movies and shows on their watchlist in the web UI, and the
+ * ones bookmarked on nCore, which are shared by every user.
+ */
+export class WatchlistService {
+  constructor(
+    private db: Database,
+    private cinemetaService: CinemeatService,
+    private torrentSourceManager: TorrentSourceManager,
+  ) {}
+
+  /** The most recently added first, then the nCore bookmarks. */
+  public async getCatalog(
+    userId: number,
+    type: StreamType,
+  ): Promise<CatalogMetaPreview[]> {
+    const [items, bookmarks] = await Promise.all([
+      this.db
+        .select()
+        .from(watchlistTable)
+        .where(and(eq(watchlistTable.userId, userId), eq(watchlistTable.type, type)))
+        .orderBy(desc(watchlistTable.addedAt)),
+      this.torrentSourceManager.getNcoreBookmarks(),
+    ]);
+    const imdbIds = new Set([
+      ...items.map((item) => item.imdbId),
+      ...bookmarks
+        .filter((bookmark) => bookmark.type === type)
+        .map((bookmark) => bookmark.imdbId),
+    ]);
+    const previews = await Promise.all(
+      Array.from(imdbIds).map((imdbId) =>
+        this.cinemetaService.getMetaPreview(type, imdbId),
+      ),
+    );
+    return previews.filter(isNotNull);
+  }
+
+  public async getItems(userId: number): Promise<WatchlistItemResponse[]> {
+    const items = await this.db
+      .select()
+      .from(watchlistTable)
+      .where(eq(watchlistTable.userId, userId))
+      .orderBy(desc(watchlistTable.addedAt));
+    return Promise.all(
+      items.map(async (item) => {
+        const preview = await this.cinemetaService.getMetaPreview(item.type, item.imdbId);
+        return {
+          imdbId: item.imdbId,
+          type: item.type,
+          addedAt: item.addedAt.toISOString(),
+          name: preview?.name ?? null,
+          poster: preview?.poster ?? null,
+          releaseInfo: preview?.releaseInfo ?? null,
+        };
+      }),
+    );
+  }
+
+  /**
+   * @throws {HTTPException} If Cinemeta doesn't know the IMDb ID, because then it
+   * couldn't be shown in the catalog.
+   */
+  public async addItem(userId: number, { imdbId, type }: WatchlistItemRequest) {
+    const preview = await this.cinemetaService.getMetaPreview(type, imdbId);
+    if (!preview) {
+      throw new HTTPException(HttpStatusCode.BAD_REQUEST, {
+        message: `No ${type} was found with the IMDb ID ${imdbId}`,
+      });
+    }
+    await this.db
+      .insert(watchlistTable)
+      .values({ userId, imdbId, type, addedAt: new Date() })
+      .onConflictDoNothing();
+  }
+
+  public async removeItem(userId: number, imdbId: string) {
+    await this.db
+      .delete(watchlistTable)
+      .where(and(eq(watchlistTable.userId, userId), eq(watchlistTable.imdbId, imdbId)));
+  }
+}
@@ -0,0 +1 @@
+export { WikidataService } from './wikidata.service';
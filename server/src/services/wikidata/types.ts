@@ -0,0 +1,6 @@
+/** The JSON results of a SPARQL query, only with the fields that are read. */
+export interface WikidataSparqlResponse {
+  results: {
+    bindings: { title: { value: string } }[];
+  };
+}
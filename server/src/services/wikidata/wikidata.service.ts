@@ -0,0 +1,51 @@
+import { Cached, DEFAULT_MAX, DEFAULT_TTL } from '@/utils/cache';
+import type { WikidataSparqlResponse } from './types';
+
+/** Wikidata asks the clients of its query service to tell who they are. */
+const USER_AGENT = 'stremio-ncore-addon';
+
+/**
+ * Looks up the localized titles of movies and shows on Wikidata, which needs no API key,
+ * so they are searched even if TMDB is not set up.
+ */
+export class WikidataService {
+  constructor(
+    private url: string,
+    /** Example: `"hu-HU"`, only the language is used. */
+    private language: string,
+  ) {}
+
+  private get languageCode(): string {
+    return this.language.split('-')[0]?.toLowerCase() ?? '';
+  }
+
+  /** Returns the label and the other names of the item that has the IMDb ID. */
+  @Cached({
+    max: DEFAULT_MAX,
+    ttl: DEFAULT_TTL,
+    ttlAutopurge: true,
+    generateKey: (imdbId) => imdbId,
+  })
+  public async getTitlesByImdbId(imdbId: string): Promise<string[]> {
+    // the ID is put in the query as it is
+    if (!/^tt\d+$/.test(imdbId)) {
+      return [];
+    }
+    const query = `SELECT ?title WHERE {
+      ?item wdt:P345 "${imdbId}".
+      { ?item rdfs:label ?title } UNION { ?item skos:altLabel ?title }
+      FILTER(LANG(?title) = "${this.languageCode}")
+    }`;
+    const params = new URLSearchParams({ query, format: 'json' });
+    const response = await fetch(`${this.url}?${params.toString()}`, {
+      headers: { Accept: 'application/sparql-results+json', 'User-Agent': USER_AGENT },
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Wikidata responded with ${response.status} ${response.statusText}`,
+      );
+    }
+    const { results }: WikidataSparqlResponse = await response.json();
+    return results.bindings.map(({ title }) => title.value);
+  }
+}
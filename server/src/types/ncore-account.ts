@@ -0,0 +1,34 @@
+/** The values are shown as nCore formats them, e.g. `1.5 TiB`. */
+export type NcoreAccountStats = {
+  uploaded: string | null;
+  downloaded: string | null;
+  ratio: number | null;
+  bonusPoints: number | null;
+};
+
+export type NcoreHitnrunTorrent = {
+  sourceId: string;
+  name: string;
+  startedAt: string | null;
+  lastActiveAt: string | null;
+  uploaded: string | null;
+  downloaded: string | null;
+  ratio: number | null;
+  seedTime: string | null;
+  remainingSeedTime: string | null;
+  /** The torrent was seeded long enough, so it can be deleted. */
+  isSeededEnough: boolean;
+};
+
+export type NcoreAccount = NcoreAccountStats & {
+  hitnrun: NcoreHitnrunTorrent[];
+};
+
+export type NcoreAccountResponse = {
+  id: string;
+  sourceName: string;
+  account: NcoreAccount | null;
+  error: string | null;
+  /** ISO date string */
+  fetchedAt: string;
+};
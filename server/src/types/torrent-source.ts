@@ -0,0 +1,46 @@
+import type { TorrentSourceType } from '@/db/schema/torrent-sources';
+
+/** A torrent source as it's sent to the client, without its secrets. */
+export type TorrentSourceResponse = {
+  id: number;
+  type: TorrentSourceType;
+  displayName: string;
+  enabled: boolean;
+  url: string;
+  username: string | null;
+  hasPassword: boolean;
+  hasApiKey: boolean;
+};
+
+export enum TorrentSourceHealthStatus {
+  /** The source hasn't been used since the addon started. */
+  UNKNOWN = 'unknown',
+  HEALTHY = 'healthy',
+  /** The last call failed, but the source is still used. */
+  FAILING = 'failing',
+  /** The source failed too many times in a row, so it's skipped until it cools down. */
+  CIRCUIT_OPEN = 'circuit-open',
+}
+
+export type TorrentSourceHealthCheck = {
+  operation: string;
+  /** ISO date string */
+  startedAt: string;
+  latencyMs: number;
+  error: string | null;
+};
+
+export type TorrentSourceHealth = {
+  id: string;
+  sourceName: string;
+  status: TorrentSourceHealthStatus;
+  consecutiveFailures: number;
+  /** ISO date string */
+  circuitOpenUntil: string | null;
+  averageLatencyMs: number | null;
+  /** ISO date string */
+  lastSuccessAt: string | null;
+  lastError: { message: string; at: string } | null;
+  /** The most recent calls first. */
+  history: TorrentSourceHealthCheck[];
+};
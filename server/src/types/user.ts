@@ -1,9 +1,19 @@
-import { Language, Resolution, UserRole, usersTable } from '@/db/schema/users';
+import {
+  Language,
+  ReleaseAttribute,
+  Resolution,
+  UserRole,
+  usersTable,
+} from '@/db/schema/users';
 import {
   createUserSchema,
   editUserSchema,
   updatePasswordSchema,
 } from '@/schemas/user.schema';
+import {
+  DEFAULT_RANKING_PROFILE,
+  type RankingProfile,
+} from '@/schemas/ranking-profile.schema';
 import { InferSelectModel } from 'drizzle-orm';
 import { z } from 'zod';
 
@@ -13,6 +23,10 @@ export class User {
   public role: UserRole;
   public preferredLanguage: Language;
   public preferredResolutions: Resolution[];
+  public excludedReleaseAttributes: ReleaseAttribute[];
+  public preferredReleaseAttributes: ReleaseAttribute[];
+  public showAllMovieFiles: boolean;
+  public rankingProfile: RankingProfile;
 
   constructor(dbResult: InferSelectModel<typeof usersTable>) {
     this.id = dbResult.id;
@@ -20,6 +34,10 @@ export class User {
     this.role = dbResult.role;
     this.preferredLanguage = dbResult.preferred_language;
     this.preferredResolutions = dbResult.preferred_resolutions;
+    this.excludedReleaseAttributes = dbResult.excluded_release_attributes;
+    this.preferredReleaseAttributes = dbResult.preferred_release_attributes;
+    this.showAllMovieFiles = dbResult.show_all_movie_files;
+    this.rankingProfile = dbResult.ranking_profile ?? DEFAULT_RANKING_PROFILE;
   }
 }
 
@@ -4,29 +4,35 @@ import { LRUCache } from 'lru-cache';
 export const DEFAULT_TTL = 1000 * 60 * 15;
 export const DEFAULT_MAX = 100;
 
-// eslint-disable-next-line @typescript-eslint/no-empty-object-type
-type CacheOptions<ReturnedT extends {}, Args extends unknown[]> = LRUCache.Options<
-  string,
-  ReturnedT,
-  unknown
-> & {
-  generateKey: (...args: Args) => string;
+type CacheOptions<
+  // eslint-disable-next-line @typescript-eslint/no-empty-object-type
+  ReturnedT extends {},
+  Args extends unknown[],
+  This,
+> = LRUCache.Options<string, ReturnedT, unknown> & {
+  /**
+   * Called with the instance as `this`, so that the keys of different instances of the
+   * same class can be told apart.
+   */
+  generateKey: (this: This, ...args: Args) => string;
 };
 
 // eslint-disable-next-line @typescript-eslint/no-empty-object-type
-export function Cached<ReturnedT extends {}, Args extends unknown[]>({
+export function Cached<ReturnedT extends {}, Args extends unknown[], This = unknown>({
   generateKey,
   ...options
-}: CacheOptions<ReturnedT, Args>) {
+}: CacheOptions<ReturnedT, Args, This>) {
   const cache = new LRUCache<string, ReturnedT, unknown>(options);
-  return function (
-    target: unknown,
+  return function <Target extends This>(
+    target: Target,
     propertyKey: string,
-    descriptor: TypedPropertyDescriptor<(...args: Args) => Promise<ReturnedT>>,
+    descriptor: TypedPropertyDescriptor<
+      (this: Target, ...args: Args) => Promise<ReturnedT>
+    >,
   ) {
     const originalMethod = descriptor.value!;
     descriptor.value = async function (...args) {
-      const key = generateKey(...args);
+      const key = generateKey.apply(this, args);
       const cachedValue = cache.get(key);
       if (cachedValue) {
         return cachedValue;
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { concatenateStreams, mapRangeToParts } from './concatenated-files';
+
+const toStream = (text: string) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode(text));
+      controller.close();
+    },
+  });
+
+describe('mapRangeToParts', () => {
+  it('should map a range inside one part', () => {
+    expect(mapRangeToParts([10, 10], { start: 12, end: 15 })).toEqual([
+      { partIndex: 1, start: 2, end: 5 },
+    ]);
+  });
+
+  it('should split a range over the parts', () => {
+    expect(mapRangeToParts([10, 5, 10], { start: 8, end: 16 })).toEqual([
+      { partIndex: 0, start: 8, end: 9 },
+      { partIndex: 1, start: 0, end: 4 },
+      { partIndex: 2, start: 0, end: 1 },
+    ]);
+  });
+
+  it('should map the last byte', () => {
+    expect(mapRangeToParts([10, 10], { start: 19, end: 19 })).toEqual([
+      { partIndex: 1, start: 9, end: 9 },
+    ]);
+  });
+});
+
+describe('concatenateStreams', () => {
+  it('should read the streams in order', async () => {
+    const created: string[] = [];
+    const stream = concatenateStreams(
+      ['first ', 'second'].map((text) => () => {
+        created.push(text);
+        return toStream(text);
+      }),
+    );
+    expect(await new Response(stream).text()).toBe('first second');
+    expect(created).toEqual(['first ', 'second']);
+  });
+});
@@ -0,0 +1,53 @@
+export interface PartRange {
+  partIndex: number;
+  /** Inclusive offsets within the part. */
+  start: number;
+  end: number;
+}
+
+/**
+ * Maps an inclusive byte range of files that are played one after the other onto the
+ * ranges of the files, e.g. the CD1 and CD2 files of a movie.
+ */
+export const mapRangeToParts = (
+  partLengths: number[],
+  { start, end }: { start: number; end: number },
+): PartRange[] => {
+  const ranges: PartRange[] = [];
+  let offset = 0;
+  partLengths.forEach((length, partIndex) => {
+    const partStart = Math.max(start, offset);
+    const partEnd = Math.min(end, offset + length - 1);
+    if (partStart <= partEnd) {
+      ranges.push({ partIndex, start: partStart - offset, end: partEnd - offset });
+    }
+    offset += length;
+  });
+  return ranges;
+};
+
+/** Reads the streams one after the other, each is only created when the previous one ended. */
+export const concatenateStreams = (
+  createStreams: (() => ReadableStream<Uint8Array>)[],
+): ReadableStream<Uint8Array> => {
+  let index = 0;
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (index < createStreams.length) {
+        reader ??= createStreams[index]().getReader();
+        const { done, value } = await reader.read();
+        if (!done) {
+          controller.enqueue(value);
+          return;
+        }
+        reader = null;
+        index++;
+      }
+      controller.close();
+    },
+    async cancel(reason) {
+      await reader?.cancel(reason);
+    },
+  });
+};
@@ -1,3 +1,5 @@
+import { isFirstRarVolume } from './rar-volumes';
+
 const SUPPORTED_MEDIA_EXTENSIONS = [
   'mkv',
   'avi',
@@ -22,3 +24,25 @@ export const isSupportedMedia = (path: string) => {
   if (!extension) return false;
   return SUPPORTED_MEDIA_EXTENSIONS.includes(extension.toLocaleLowerCase());
 };
+
+/** Scene releases pack the video in RAR volumes, which are played without extracting them. */
+export const isPlayableFile = (path: string) =>
+  isSupportedMedia(path) || isFirstRarVolume(path);
+
+/** `sub` is either MicroDVD text, or VobSub images when an `idx` file is next to it. */
+const SUBTITLE_EXTENSIONS = ['srt', 'sub', 'ass', 'ssa', 'vtt'];
+
+export const isSubtitleFile = (path: string) => {
+  const extension = path.split('.').pop();
+  if (!extension) return false;
+  return SUBTITLE_EXTENSIONS.includes(extension.toLocaleLowerCase());
+};
+
+/** The supported media without the audio files, which torrents ship as soundtracks. */
+const VIDEO_EXTENSIONS = ['mkv', 'avi', 'mp4', 'wmv', 'vp8', 'mov', 'mpg', 'ts', 'webm'];
+
+export const isVideoFile = (path: string) => {
+  const extension = path.split('.').pop();
+  if (!extension) return false;
+  return VIDEO_EXTENSIONS.includes(extension.toLocaleLowerCase());
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { findRarVolumes, isFirstRarVolume } from './rar-volumes';
+
+const toFiles = (...paths: string[]) => paths.map((path) => ({ path }));
+
+describe('isFirstRarVolume', () => {
+  it.each([
+    ['Movie-GRP/grp-movie.rar', true],
+    ['Movie-GRP/grp-movie.r00', false],
+    ['Movie-GRP/grp-movie.part01.rar', true],
+    ['Movie-GRP/grp-movie.part1.rar', true],
+    ['Movie-GRP/grp-movie.part02.rar', false],
+    ['Movie-GRP/grp-movie.mkv', false],
+  ])('%s should be %s', (path, expected) => {
+    expect(isFirstRarVolume(path)).toBe(expected);
+  });
+});
+
+describe('findRarVolumes', () => {
+  it('should order the old style volumes after the .rar volume', () => {
+    const files = toFiles(
+      'Movie/grp-movie.r01',
+      'Movie/grp-movie.nfo',
+      'Movie/grp-movie.rar',
+      'Movie/grp-movie.r00',
+      'Movie/Subs/grp-movie.subs.rar',
+    );
+    expect(findRarVolumes(files, 2)).toEqual([2, 3, 0]);
+  });
+
+  it('should order the .partNN.rar volumes by their number', () => {
+    const files = toFiles(
+      'Movie/grp-movie.part10.rar',
+      'Movie/grp-movie.part02.rar',
+      'Movie/grp-movie.part01.rar',
+      ...Array.from({ length: 7 }, (_, i) => `Movie/grp-movie.part0${i + 3}.rar`),
+    );
+    expect(findRarVolumes(files, 2)).toEqual([2, 1, 3, 4, 5, 6, 7, 8, 9, 0]);
+  });
+
+  it('should return null when a volume is missing', () => {
+    const files = toFiles('grp-movie.rar', 'grp-movie.r00', 'grp-movie.r02');
+    expect(findRarVolumes(files, 0)).toBeNull();
+  });
+
+  it('should return null for other files', () => {
+    expect(findRarVolumes(toFiles('movie.mkv'), 0)).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+interface RarVolumeName {
+  /** The volumes of the same archive have the same key. */
+  archiveKey: string;
+  /** The position of the volume in the archive, the first volume is 0. */
+  volumeNumber: number;
+}
+
+/** `.r00`, `.r01`... `.r99`, then `.s00` and so on, after the `.rar` volume. */
+const OLD_STYLE_VOLUME_PATTERN = /^(.*)\.([r-z])(\d{2})$/i;
+const NEW_STYLE_VOLUME_PATTERN = /^(.*)\.part(\d+)\.rar$/i;
+const RAR_PATTERN = /^(.*)\.rar$/i;
+
+const VOLUMES_PER_LETTER = 100;
+
+/**
+ * Scene releases are split into the `.rar`, `.r00`, `.r01`... volumes, newer ones into
+ * the `.part01.rar`, `.part02.rar`... volumes.
+ */
+const parseRarVolumeName = (path: string): RarVolumeName | null => {
+  const newStyle = path.match(NEW_STYLE_VOLUME_PATTERN);
+  if (newStyle) {
+    return {
+      archiveKey: `${newStyle[1].toLowerCase()}.part.rar`,
+      volumeNumber: Number(newStyle[2]) - 1,
+    };
+  }
+  const rar = path.match(RAR_PATTERN);
+  if (rar) {
+    return { archiveKey: `${rar[1].toLowerCase()}.rar`, volumeNumber: 0 };
+  }
+  const oldStyle = path.match(OLD_STYLE_VOLUME_PATTERN);
+  if (oldStyle) {
+    const letterIndex = oldStyle[2].toLowerCase().charCodeAt(0) - 'r'.charCodeAt(0);
+    return {
+      archiveKey: `${oldStyle[1].toLowerCase()}.rar`,
+      volumeNumber: 1 + letterIndex * VOLUMES_PER_LETTER + Number(oldStyle[3]),
+    };
+  }
+  return null;
+};
+
+/** The volume that the archive is opened with, which has the headers of the archive. */
+export const isFirstRarVolume = (path: string) =>
+  parseRarVolumeName(path)?.volumeNumber === 0;
+
+/**
+ * Finds the volumes of the archive that the first volume belongs to, in order.
+ * @returns `null` if a volume is missing from the torrent.
+ */
+export const findRarVolumes = <T extends { path: string }>(
+  files: T[],
+  firstVolumeIndex: number,
+): number[] | null => {
+  const firstVolume = parseRarVolumeName(files[firstVolumeIndex].path);
+  if (firstVolume?.volumeNumber !== 0) {
+    return null;
+  }
+  const volumeIndices: number[] = [];
+  files.forEach((file, index) => {
+    const volume = parseRarVolumeName(file.path);
+    if (volume?.archiveKey === firstVolume.archiveKey) {
+      volumeIndices[volume.volumeNumber] = index;
+    }
+  });
+  // sparse when a volume is missing
+  return Object.keys(volumeIndices).length === volumeIndices.length
+    ? volumeIndices
+    : null;
+};
@@ -0,0 +1,18 @@
+import type WebTorrent from 'webtorrent';
+
+/** Reads the bytes of the file from `start` to `end`, `end` excluded. */
+export type ReadRange = (start: number, end: number) => Promise<Uint8Array>;
+
+/** WebTorrent only downloads the pieces of the range, and its end is included. */
+export const createReadRange =
+  (file: WebTorrent.TorrentFile): ReadRange =>
+  async (start, end) => {
+    const rangeEnd = Math.min(end, file.length);
+    if (start >= rangeEnd) {
+      return new Uint8Array();
+    }
+    const data = await new Response(
+      file.stream({ start, end: rangeEnd - 1 }),
+    ).arrayBuffer();
+    return new Uint8Array(data);
+  };
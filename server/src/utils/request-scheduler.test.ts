@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { RequestPriority, RequestScheduler } from './request-scheduler';
+
+const deferred = () => {
+  let resolve: (value: string) => void = () => {};
+  const promise = new Promise<string>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+};
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should not run more requests at once than allowed', async () => {
+    const scheduler = new RequestScheduler({
+      requestsPerSecond: 100,
+      maxConcurrentRequests: 2,
+    });
+    const requests = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+    requests.forEach((request, index) =>
+      scheduler.schedule(
+        () => {
+          started.push(index);
+          return request.promise;
+        },
+        { priority: RequestPriority.INTERACTIVE },
+      ),
+    );
+    expect(started).toEqual([0, 1]);
+    expect(scheduler.getMetrics().queueDepth[RequestPriority.INTERACTIVE]).toBe(1);
+
+    requests[0]?.resolve('done');
+    await vi.runAllTimersAsync();
+    expect(started).toEqual([0, 1, 2]);
+  });
+
+  it('should start interactive requests before background ones', async () => {
+    const scheduler = new RequestScheduler({
+      requestsPerSecond: 100,
+      maxConcurrentRequests: 1,
+    });
+    const blocker = deferred();
+    const started: string[] = [];
+    const schedule = (name: string, priority: RequestPriority) =>
+      scheduler.schedule(
+        async () => {
+          started.push(name);
+          return name;
+        },
+        { priority },
+      );
+    scheduler.schedule(() => blocker.promise, { priority: RequestPriority.BACKGROUND });
+    schedule('background', RequestPriority.BACKGROUND);
+    schedule('interactive', RequestPriority.INTERACTIVE);
+
+    blocker.resolve('done');
+    await vi.runAllTimersAsync();
+    expect(started).toEqual(['interactive', 'background']);
+  });
+
+  it('should limit the rate of the requests', async () => {
+    const scheduler = new RequestScheduler({
+      requestsPerSecond: 2,
+      maxConcurrentRequests: 10,
+    });
+    let startedCount = 0;
+    for (let i = 0; i < 4; i++) {
+      scheduler.schedule(
+        async () => {
+          startedCount++;
+        },
+        { priority: RequestPriority.INTERACTIVE },
+      );
+    }
+    expect(startedCount).toBe(2);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(startedCount).toBe(3);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(startedCount).toBe(4);
+  });
+
+  it('should send identical requests only once', async () => {
+    const scheduler = new RequestScheduler({
+      requestsPerSecond: 100,
+      maxConcurrentRequests: 2,
+    });
+    const request = vi.fn(async () => 'page');
+    const results = await Promise.all([
+      scheduler.schedule(request, { priority: RequestPriority.BACKGROUND, key: 'a' }),
+      scheduler.schedule(request, { priority: RequestPriority.INTERACTIVE, key: 'a' }),
+    ]);
+    expect(results).toEqual(['page', 'page']);
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(scheduler.getMetrics().coalescedRequests).toBe(1);
+  });
+});
@@ -0,0 +1,198 @@
+export enum RequestPriority {
+  /** Requests that someone waits for, e.g. a stream lookup from Stremio. */
+  INTERACTIVE = 'interactive',
+  /** Scheduled jobs, e.g. finding the torrents that can be deleted. */
+  BACKGROUND = 'background',
+}
+
+export interface RequestSchedulerOptions {
+  requestsPerSecond: number;
+  maxConcurrentRequests: number;
+}
+
+export interface RequestSchedulerMetrics {
+  queueDepth: Record<RequestPriority, number>;
+  /** The deepest the queue has been since the start. */
+  maxQueueDepth: number;
+  runningRequests: number;
+  completedRequests: number;
+  failedRequests: number;
+  /** Requests that got the result of an identical request that was already scheduled. */
+  coalescedRequests: number;
+  /** How long the requests waited in the queue on average. */
+  averageWaitMs: number | null;
+}
+
+interface QueuedRequest {
+  run: () => void;
+  key: string | undefined;
+  priority: RequestPriority;
+  queuedAt: number;
+}
+
+/**
+ * Limits the rate and the concurrency of the requests to a server. The rate is limited
+ * by a token bucket that holds at most one second's worth of requests, so short bursts
+ * are let through. Interactive requests are started before the background ones, and
+ * requests with the same key share the result of the one that is already scheduled.
+ */
+export class RequestScheduler {
+  private queues: Record<RequestPriority, QueuedRequest[]> = {
+    [RequestPriority.INTERACTIVE]: [],
+    [RequestPriority.BACKGROUND]: [],
+  };
+  private inFlight = new Map<
+    string,
+    { promise: Promise<unknown>; request: QueuedRequest }
+  >();
+  private tokens: number;
+  private lastRefillAt = Date.now();
+  private drainTimeout: NodeJS.Timeout | null = null;
+  private metrics = {
+    maxQueueDepth: 0,
+    runningRequests: 0,
+    completedRequests: 0,
+    failedRequests: 0,
+    coalescedRequests: 0,
+    totalWaitMs: 0,
+  };
+
+  constructor(private options: RequestSchedulerOptions) {
+    this.tokens = this.capacity;
+  }
+
+  private get capacity(): number {
+    return Math.max(1, this.options.requestsPerSecond);
+  }
+
+  private get queueDepth(): number {
+    return Object.values(this.queues).reduce((depth, queue) => depth + queue.length, 0);
+  }
+
+  /**
+   * Runs the request when the rate limit and the concurrency allow it.
+   * @param key Requests with the same key are only sent once while one is in flight.
+   * The result is shared, so it can't be something that can only be read once, like a
+   * `Response`.
+   */
+  public schedule<T>(
+    request: () => Promise<T>,
+    { priority, key }: { priority: RequestPriority; key?: string },
+  ): Promise<T> {
+    const existing = key !== undefined ? this.inFlight.get(key) : undefined;
+    if (existing) {
+      this.metrics.coalescedRequests++;
+      this.promote(existing.request, priority);
+      return existing.promise as Promise<T>;
+    }
+
+    const queuedRequest: QueuedRequest = {
+      run: () => {},
+      key,
+      priority,
+      queuedAt: Date.now(),
+    };
+    const promise = new Promise<T>((resolve, reject) => {
+      queuedRequest.run = () => {
+        this.metrics.runningRequests++;
+        this.metrics.totalWaitMs += Date.now() - queuedRequest.queuedAt;
+        request()
+          .then(
+            (result) => {
+              this.metrics.completedRequests++;
+              resolve(result);
+            },
+            (error) => {
+              this.metrics.failedRequests++;
+              reject(error);
+            },
+          )
+          .finally(() => {
+            this.metrics.runningRequests--;
+            if (key !== undefined) {
+              this.inFlight.delete(key);
+            }
+            this.drain();
+          });
+      };
+    });
+    if (key !== undefined) {
+      this.inFlight.set(key, { promise, request: queuedRequest });
+    }
+    this.queues[priority].push(queuedRequest);
+    this.metrics.maxQueueDepth = Math.max(this.metrics.maxQueueDepth, this.queueDepth);
+    this.drain();
+    return promise;
+  }
+
+  /** Moves a queued background request forward if an interactive request waits for it. */
+  private promote(request: QueuedRequest, priority: RequestPriority) {
+    if (
+      priority !== RequestPriority.INTERACTIVE ||
+      request.priority === RequestPriority.INTERACTIVE
+    ) {
+      return;
+    }
+    const backgroundQueue = this.queues[RequestPriority.BACKGROUND];
+    const index = backgroundQueue.indexOf(request);
+    if (index === -1) {
+      return;
+    }
+    backgroundQueue.splice(index, 1);
+    request.priority = RequestPriority.INTERACTIVE;
+    this.queues[RequestPriority.INTERACTIVE].push(request);
+  }
+
+  private refillTokens() {
+    const now = Date.now();
+    const refill = ((now - this.lastRefillAt) / 1000) * this.options.requestsPerSecond;
+    this.tokens = Math.min(this.capacity, this.tokens + refill);
+    this.lastRefillAt = now;
+  }
+
+  private drain() {
+    this.refillTokens();
+    while (this.metrics.runningRequests < this.options.maxConcurrentRequests) {
+      const queue =
+        this.queues[RequestPriority.INTERACTIVE].length > 0
+          ? this.queues[RequestPriority.INTERACTIVE]
+          : this.queues[RequestPriority.BACKGROUND];
+      if (queue.length === 0) {
+        return;
+      }
+      if (this.tokens < 1) {
+        this.scheduleDrain();
+        return;
+      }
+      this.tokens--;
+      queue.shift()?.run();
+    }
+  }
+
+  /** Drains the queue again when the next token is available. */
+  private scheduleDrain() {
+    if (this.drainTimeout) {
+      return;
+    }
+    const waitMs = ((1 - this.tokens) / this.options.requestsPerSecond) * 1000;
+    this.drainTimeout = setTimeout(() => {
+      this.drainTimeout = null;
+      this.drain();
+    }, Math.ceil(waitMs));
+  }
+
+  public getMetrics(): RequestSchedulerMetrics {
+    const { totalWaitMs, ...metrics } = this.metrics;
+    const startedRequests =
+      metrics.completedRequests + metrics.failedRequests + metrics.runningRequests;
+    return {
+      ...metrics,
+      queueDepth: {
+        [RequestPriority.INTERACTIVE]: this.queues[RequestPriority.INTERACTIVE].length,
+        [RequestPriority.BACKGROUND]: this.queues[RequestPriority.BACKGROUND].length,
+      },
+      averageWaitMs:
+        startedRequests > 0 ? Math.round(totalWaitMs / startedRequests) : null,
+    };
+  }
+}
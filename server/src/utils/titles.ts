@@ -0,0 +1,59 @@
+/**
+ * Normalizes a title so that titles with different punctuation, casing or accents can be compared.
+ * ```ts
+ * normalizeTitle('Amélie: Le Fabuleux Destin'); // "amelie le fabuleux destin"
+ * ```
+ */
+export const normalizeTitle = (title: string): string =>
+  title
+    .normalize('NFD')
+    .replace(/\p{Diacritic}/gu, '')
+    .toLocaleLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/**
+ * Parses the first year out of strings like Cinemeta's `releaseInfo` field.
+ * ```ts
+ * parseYear('2008–2013'); // 2008
+ * ```
+ */
+export const parseYear = (value: string | null | undefined): number | null => {
+  const year = value?.match(/\d{4}/)?.[0];
+  return year ? Number(year) : null;
+};
+
+const getEditDistance = (a: string, b: string): number => {
+  let previousRow = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitutionCost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(
+        (row[j - 1] as number) + 1,
+        (previousRow[j] as number) + 1,
+        (previousRow[j - 1] as number) + substitutionCost,
+      );
+    }
+    previousRow = row;
+  }
+  return previousRow[b.length] as number;
+};
+
+/**
+ * Compares two titles after normalizing them, 1 means that they are the same.
+ * ```ts
+ * getTitleSimilarity('Amélie', 'Amelie'); // 1
+ * getTitleSimilarity('The Matrix', 'Matrix, The'); // 0.2
+ * ```
+ */
+export const getTitleSimilarity = (a: string, b: string): number => {
+  const normalizedA = normalizeTitle(a);
+  const normalizedB = normalizeTitle(b);
+  const maxLength = Math.max(normalizedA.length, normalizedB.length);
+  if (maxLength === 0) {
+    return 0;
+  }
+  return 1 - getEditDistance(normalizedA, normalizedB) / maxLength;
+};
@@ -0,0 +1,8 @@
+import { resolve } from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': resolve(import.meta.dirname, 'src') },
+  },
+});